@@ -22,7 +22,7 @@ export const deployDetailsArray = [
     startingProjectId: 0,
     autoApproveArtistSplitProposals: false,
     renderProviderAddress: "deployer", // use either "0x..." or special "deployer" which sets the render provider to the deployer
-    platformProviderAddress: "0xTBD", // use either "0x..." or special "deployer" which sets the render provider to the deployer
+    platformProviderAddress: "deployer", // use either "0x..." or special "deployer" which sets the render provider to the deployer
     // minter suite
     minterFilterContractName: "MinterFilterV1",
     minters: [
@@ -42,10 +42,10 @@ export const deployDetailsArray = [
     // (this will only work if you have set addInitialProject to true, and requires a MinterSetPriceV[4-9])
     addInitialToken: false,
     // set to true if you want to transfer the superAdmin role to a different address
-    doTransferSuperAdmin: true,
+    doTransferSuperAdmin: false,
     // set to the address you want to transfer the superAdmin role to
     // (this will only work if you have set doTransferSuperAdmin to true, can be undefined if you are not transferring)
-    newSuperAdminAddress: "0xTBD", // use either "0x..." or undefined if not transferring
+    newSuperAdminAddress: undefined, // use either "0x..." or undefined if not transferring
     // optionally define this to set default vertical name for the contract after deployment.
     // if not defined, the default vertical name will be "unassigned".
     // common values include `fullyonchain`, `flex`, or partnerships like `artblocksxpace`.
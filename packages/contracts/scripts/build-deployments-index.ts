@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+import fs from "fs";
+import path from "path";
+
+import {
+  MANIFEST_FILE_NAME,
+  ManifestEntry,
+  buildDeploymentsIndex,
+  readManifest,
+} from "./util/deployment-manifest";
+
+// package root, which manifest paths are relative to
+const PACKAGE_ROOT = path.join(__dirname, "..");
+const INDEX_FILE = path.join("deployments", "DEPLOYMENTS_INDEX.json");
+
+function findManifestFiles(directory: string): string[] {
+  return fs
+    .readdirSync(path.join(PACKAGE_ROOT, directory), { withFileTypes: true })
+    .reduce<string[]>((files, entry) => {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return files.concat(findManifestFiles(entryPath));
+      }
+      return entry.name === MANIFEST_FILE_NAME
+        ? files.concat(entryPath)
+        : files;
+    }, []);
+}
+
+/**
+ * This script aggregates every deployment manifest under `deployments/` into
+ * the repo-wide index of deployed contracts at `deployments/DEPLOYMENTS_INDEX.json`.
+ * The index is generated output, so is not committed.
+ */
+async function main() {
+  const manifests = findManifestFiles("deployments")
+    .sort()
+    .reduce<Record<string, ManifestEntry[]>>(
+      (manifests, manifestFile) => ({
+        ...manifests,
+        [manifestFile]: readManifest(path.join(PACKAGE_ROOT, manifestFile)),
+      }),
+      {}
+    );
+  const index = `${JSON.stringify(buildDeploymentsIndex(manifests), null, 2)}\n`;
+  const indexFile = path.join(PACKAGE_ROOT, INDEX_FILE);
+  fs.writeFileSync(indexFile, index);
+  console.log(
+    `[INFO] Indexed ${Object.keys(manifests).length} deployment manifests in ${INDEX_FILE}`
+  );
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -9,11 +9,6 @@ import fs from "fs";
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
 
-import {
-  syncContractMetadataAfterDeploy,
-  syncProjectMetadataAfterDeploy,
-} from "../../util/graphql-utils";
-
 import {
   BYTECODE_STORAGE_READER_LIBRARY_ADDRESSES,
   getActiveSharedMinterFilter,
@@ -26,6 +21,26 @@ import { tryVerify } from "../../util/verification";
 import { createEngineBucket } from "../../util/aws_s3";
 // delay to avoid issues with reorgs and tx failures
 import { delay, getConfigInputs, getNetworkName } from "../../util/utils";
+import { DeploymentJournal } from "../../util/deployment-journal";
+import {
+  SafeBatchCollector,
+  isBatchedCall,
+  isSafeBatchSimulationMode,
+  sendOrBatch,
+} from "../../util/safe-batch";
+import {
+  DeploymentPlan,
+  PlannedValue,
+  isPlanMode,
+} from "../../util/deployment-plan";
+import {
+  MANIFEST_FILE_NAME,
+  ManifestEntry,
+  SUMMARY_FILE_NAME,
+  getDeployedContract,
+  getGitCommit,
+  writeManifestEntry,
+} from "../../util/deployment-manifest";
 
 const ONE_HUNDRED_PERCENT = BigNumber.from(100);
 const TEN_THOUSAND_BASIS_POINTS = BigNumber.from(10000);
@@ -45,16 +60,24 @@ const SUPPORTED_CORE_CONTRACTS = [
  * reference for the steps required to deploy the V3 core contract suite.
  * IMPORTANT: This configures the core contract to use the active shared minter
  * filter and active shared randomizer as defined in constants.ts
+ * Completed steps are journaled next to DEPLOYMENTS.md, so re-running a failed
+ * deployment with the same config file resumes from the failed step.
+ * Run with `--plan` (or DEPLOY_PLAN=true) to only print the deployment plan.
+ * @dev exported to be driven on the Hardhat network by tests
  */
-async function main() {
+export async function main() {
   // get deployment configuration details
   const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
-    await getConfigInputs(
-      "deployments/engine/V3/deployment-config.template.ts",
-      "Engine deployment config file"
-    );
+    await getConfigInputs("engineSharedSuite", "Engine deployment config file");
 
   const [deployer] = await ethers.getSigners();
+  // calls the deployer wallet cannot make are written to Safe batch files
+  const safeBatches = new SafeBatchCollector({
+    outputDirectory: inputFileDirectory,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    name: "Engine deployment",
+    writeMultiSend: process.env.SAFE_BATCH_MULTISEND === "true",
+  });
 
   //////////////////////////////////////////////////////////////////////////////
   // INPUT VALIDATION BEGINS HERE
@@ -103,10 +126,12 @@ async function main() {
       "CoreRegistryV1",
       activeCoreRegistryAddress
     );
-    const requiredDeployer = await coreRegistryContract.owner();
-    if (requiredDeployer !== deployer.address) {
-      throw new Error(
-        `[ERROR] Active core registry address ${activeCoreRegistryAddress} is not owned by deployer wallet ${deployer.address}. Please use appropriate deployer wallet.`
+    // @dev registering the core contract on the core registry is batched for
+    // the core registry's owner if the deployer wallet does not own it
+    const coreRegistryOwner = await coreRegistryContract.owner();
+    if (coreRegistryOwner !== deployer.address) {
+      console.log(
+        `[INFO] Active core registry address ${activeCoreRegistryAddress} is not owned by deployer wallet ${deployer.address}, registering the core contract will be batched for its owner ${coreRegistryOwner}`
       );
     }
     // only allow supported core contract names to be deployed with this script
@@ -163,6 +188,16 @@ async function main() {
   // INPUT VALIDATION ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
 
+  // in plan mode, the steps below are planned by planning journals instead of
+  // being performed, leaving out steps already journaled
+  const plan = isPlanMode()
+    ? await DeploymentPlan.create({
+        title: deploymentConfigFile,
+        from: deployer.address,
+        provider: ethers.provider,
+      })
+    : undefined;
+
   // Perform the following steps for each to-be-deployed contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
@@ -173,6 +208,21 @@ async function main() {
       networkName,
       deployDetails.environment
     );
+    plan?.startSection(`${deploymentConfigFile}[${index}]`);
+    const journal = DeploymentJournal.open({
+      inputFileDirectory,
+      deploymentConfigFile,
+      index,
+      deployDetails,
+      provider: ethers.provider,
+      plan,
+    });
+    if (journal.isCompleted) {
+      console.log(
+        `[INFO] Skipping ${journal.key}, already deployed per journal ${journal.journalFile}`
+      );
+      continue;
+    }
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENT (SHARED) BEGINS HERE
@@ -194,11 +244,10 @@ async function main() {
       const adminACLFactory = await ethers.getContractFactory(
         deployDetails.adminACLContractName
       );
-      const adminACL = await adminACLFactory.deploy();
-      await adminACL.deployed();
-      adminACLAddress = adminACL.address;
-      console.log(
-        `[INFO] New Admin ACL ${deployDetails.adminACLContractName} deployed at address: ${adminACLAddress}`
+      adminACLAddress = await journal.deploy(
+        "deployAdminACL",
+        deployDetails.adminACLContractName,
+        adminACLFactory
       );
       await delay(EXTRA_DELAY_BETWEEN_TX);
     }
@@ -241,48 +290,64 @@ async function main() {
     const startingProjectId = deployDetails.startingProjectId;
     const autoApproveArtistSplitProposals =
       deployDetails.autoApproveArtistSplitProposals;
-    const genArt721Core = await genArt721CoreFactory.deploy(
-      tokenName,
-      tokenTicker,
-      renderProviderAddress,
-      platformProviderAddress,
-      randomizerAddress,
-      adminACLAddress,
-      startingProjectId,
-      autoApproveArtistSplitProposals
-    );
-
-    await genArt721Core.deployed();
-    console.log(
-      `[INFO] Core ${deployDetails.genArt721CoreContractName} deployed at ${genArt721Core.address}`
+    const genArt721CoreAddress = await journal.deploy(
+      "deployCore",
+      deployDetails.genArt721CoreContractName,
+      genArt721CoreFactory,
+      [
+        tokenName,
+        tokenTicker,
+        renderProviderAddress,
+        platformProviderAddress,
+        randomizerAddress,
+        adminACLAddress,
+        startingProjectId,
+        autoApproveArtistSplitProposals,
+      ],
+      { BytecodeStorageReader: bytecodeStorageLibraryAddress }
     );
+    const genArt721Core = genArt721CoreFactory.attach(genArt721CoreAddress);
     await delay(EXTRA_DELAY_BETWEEN_TX);
 
     // register core contract on core registry
-    let registeredContractOnCoreRegistry = false;
-    try {
-      const coreRegistryContract = await ethers.getContractAt(
-        "CoreRegistryV1",
-        activeCoreRegistryAddress
-      );
-      const coreType = await genArt721Core.coreType();
-      const coreVersion = await genArt721Core.coreVersion();
-      await coreRegistryContract
-        .connect(deployer)
-        .registerContract(
+    const coreRegistryContract = await ethers.getContractAt(
+      "CoreRegistryV1",
+      activeCoreRegistryAddress
+    );
+    const coreRegistryOwner = await coreRegistryContract.owner();
+    const registeredContractOnCoreRegistry = await journal.transactOrSkip(
+      "registerContract",
+      {
+        contractName: "CoreRegistryV1",
+        contract: coreRegistryContract,
+        functionName: "registerContract",
+        args: [
           genArt721Core.address,
-          ethers.utils.formatBytes32String(coreVersion),
-          ethers.utils.formatBytes32String(coreType)
+          new PlannedValue("coreVersion of the deployed core"),
+          new PlannedValue("coreType of the deployed core"),
+        ],
+        safe: coreRegistryOwner,
+      },
+      async () => {
+        const coreType = await genArt721Core.coreType();
+        const coreVersion = await genArt721Core.coreVersion();
+        return sendOrBatch(
+          safeBatches,
+          coreRegistryOwner,
+          coreRegistryContract.connect(deployer),
+          "registerContract",
+          [
+            genArt721Core.address,
+            ethers.utils.formatBytes32String(coreVersion),
+            ethers.utils.formatBytes32String(coreType),
+          ]
         );
+      }
+    );
+    if (registeredContractOnCoreRegistry) {
       console.log(
         `[INFO] Registered core contract ${genArt721Core.address} on core registry ${activeCoreRegistryAddress}`
       );
-      registeredContractOnCoreRegistry = true;
-    } catch (error) {
-      console.error(
-        `[ERROR] Failed to register core contract on core registry, please register manually!`
-      );
-      console.error(error);
     }
     await delay(EXTRA_DELAY_BETWEEN_TX);
 
@@ -296,29 +361,64 @@ async function main() {
     // SETUP BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
+    // calls restricted to the core contract's admin are batched for the
+    // AdminACL's superAdmin if the deployer wallet cannot make them, e.g.
+    // when using an existing AdminACL
+    // @dev a new AdminACL is not deployed yet when planning, and its
+    // superAdmin is the deployer wallet
+    const superAdminAddress =
+      (await ethers.provider.getCode(adminACLAddress)) === "0x"
+        ? deployer.address
+        : await (
+            await ethers.getContractAt("AdminACLV0", adminACLAddress)
+          ).superAdmin();
+    const coreContractName = deployDetails.genArt721CoreContractName;
+
     // Set the Minter to MinterFilter on the Core contract.
     const minterFilterAddress = getActiveSharedMinterFilter(
       networkName,
       deployDetails.environment
     );
-    await genArt721Core
-      .connect(deployer)
-      .updateMinterContract(minterFilterAddress);
-    console.log(
-      `[INFO] Updated the Minter Filter on the Core contract to ${minterFilterAddress}.`
+    const updateMinterTxHash = await journal.transactOrBatch(
+      "updateMinterContract",
+      {
+        contractName: coreContractName,
+        contract: genArt721Core.connect(deployer),
+        functionName: "updateMinterContract",
+        args: [minterFilterAddress],
+        safe: superAdminAddress,
+      },
+      safeBatches
     );
-    await delay(EXTRA_DELAY_BETWEEN_TX);
+    if (updateMinterTxHash) {
+      console.log(
+        `[INFO] Updated the Minter Filter on the Core contract to ${minterFilterAddress}.`
+      );
+      await delay(EXTRA_DELAY_BETWEEN_TX);
+    }
 
     if (deployDetails.addInitialProject) {
       // Create a project 0, and a token 0, on that empty project.
-      await genArt721Core.connect(deployer).addProject(
-        tokenName, // Use `tokenName` as placeholder for project 0 name
-        deployer.address // Use `deployer.address` as placeholder for project 0 artist
-      );
-      console.log(
-        `[INFO] Added ${tokenName} project ${startingProjectId} placeholder on ${tokenName} contract, artist is ${deployer.address}.`
+      const addProjectTxHash = await journal.transactOrBatch(
+        "addInitialProject",
+        {
+          contractName: coreContractName,
+          contract: genArt721Core.connect(deployer),
+          functionName: "addProject",
+          args: [
+            tokenName, // Use `tokenName` as placeholder for project 0 name
+            deployer.address, // Use `deployer.address` as placeholder for project 0 artist
+          ],
+          safe: superAdminAddress,
+        },
+        safeBatches
       );
-      await delay(EXTRA_DELAY_BETWEEN_TX);
+      if (addProjectTxHash) {
+        console.log(
+          `[INFO] Added ${tokenName} project ${startingProjectId} placeholder on ${tokenName} contract, artist is ${deployer.address}.`
+        );
+        await delay(EXTRA_DELAY_BETWEEN_TX);
+      }
     } else {
       console.log(`[INFO] Skipping adding placeholder initial project.`);
     }
@@ -329,93 +429,143 @@ async function main() {
     // update split percentages if something other than the default is provided
     // primary sales
     if (deployDetails.renderProviderSplitPercentagePrimary) {
-      // a render provider split percentage override was provided
-      // get current platform provider split percentage
-      const platformSplitPercentagePrimary =
-        await genArt721Core.platformProviderPrimarySalesPercentage();
-      if (
-        deployDetails.renderProviderSplitPercentagePrimary < 0 ||
-        deployDetails.renderProviderSplitPercentagePrimary >
-          ONE_HUNDRED_PERCENT.sub(platformSplitPercentagePrimary).toNumber()
-      ) {
-        console.log(
-          `[ERROR] renderProviderSplitPercentagePrimary must be between 0 and ${ONE_HUNDRED_PERCENT.sub(
-            platformSplitPercentagePrimary
-          ).toNumber()}, but is ${
-            deployDetails.renderProviderSplitPercentagePrimary
-          }`
-        );
-        console.log(
-          `[ACTION] Please manually configure the render provider split percentage on the core contract to a valid value.`
-        );
-      }
-      const currentRenderProviderSplitPercentagePrimary =
-        await genArt721Core.renderProviderPrimarySalesPercentage();
-      if (
-        deployDetails.renderProviderSplitPercentagePrimary ==
-        currentRenderProviderSplitPercentagePrimary.toNumber()
-      ) {
-        console.log(
-          `[INFO] Skipping update of render provider split percentage primary, since it is already equal to the value of ${currentRenderProviderSplitPercentagePrimary.toNumber()}.`
-        );
-      } else {
-        await genArt721Core
-          .connect(deployer)
-          .updateProviderPrimarySalesPercentages(
+      await journal.transact(
+        "updateProviderPrimarySalesPercentages",
+        {
+          contractName: coreContractName,
+          contract: genArt721Core,
+          functionName: "updateProviderPrimarySalesPercentages",
+          args: [
             deployDetails.renderProviderSplitPercentagePrimary,
-            platformSplitPercentagePrimary
+            new PlannedValue(
+              "current platform provider primary sales percentage"
+            ),
+          ],
+          safe: superAdminAddress,
+          condition: "skipped if the render provider split is already equal",
+        },
+        async () => {
+          // a render provider split percentage override was provided
+          // get current platform provider split percentage
+          const platformSplitPercentagePrimary =
+            await genArt721Core.platformProviderPrimarySalesPercentage();
+          if (
+            deployDetails.renderProviderSplitPercentagePrimary < 0 ||
+            deployDetails.renderProviderSplitPercentagePrimary >
+              ONE_HUNDRED_PERCENT.sub(platformSplitPercentagePrimary).toNumber()
+          ) {
+            console.log(
+              `[ERROR] renderProviderSplitPercentagePrimary must be between 0 and ${ONE_HUNDRED_PERCENT.sub(
+                platformSplitPercentagePrimary
+              ).toNumber()}, but is ${
+                deployDetails.renderProviderSplitPercentagePrimary
+              }`
+            );
+            console.log(
+              `[ACTION] Please manually configure the render provider split percentage on the core contract to a valid value.`
+            );
+          }
+          const currentRenderProviderSplitPercentagePrimary =
+            await genArt721Core.renderProviderPrimarySalesPercentage();
+          if (
+            deployDetails.renderProviderSplitPercentagePrimary ==
+            currentRenderProviderSplitPercentagePrimary.toNumber()
+          ) {
+            console.log(
+              `[INFO] Skipping update of render provider split percentage primary, since it is already equal to the value of ${currentRenderProviderSplitPercentagePrimary.toNumber()}.`
+            );
+            return undefined;
+          }
+          const tx = await sendOrBatch(
+            safeBatches,
+            superAdminAddress,
+            genArt721Core.connect(deployer),
+            "updateProviderPrimarySalesPercentages",
+            [
+              deployDetails.renderProviderSplitPercentagePrimary,
+              platformSplitPercentagePrimary,
+            ]
           );
-        console.log(
-          `[INFO] Updated render provider split percentage primary to ${
-            deployDetails.renderProviderSplitPercentagePrimary
-          } percent, maintained platform split as ${platformSplitPercentagePrimary.toNumber()} percent.`
-        );
-      }
+          if (!isBatchedCall(tx)) {
+            console.log(
+              `[INFO] Updated render provider split percentage primary to ${
+                deployDetails.renderProviderSplitPercentagePrimary
+              } percent, maintained platform split as ${platformSplitPercentagePrimary.toNumber()} percent.`
+            );
+          }
+          return tx;
+        }
+      );
     }
     // secondary sales
     if (deployDetails.renderProviderSplitBPSSecondary) {
-      // a render provider split percentage override was provided
-      // get current platform provider split percentage
-      const platformSplitBPSSecondary =
-        await genArt721Core.platformProviderSecondarySalesBPS();
-      if (
-        deployDetails.renderProviderSplitBPSSecondary < 0 ||
-        deployDetails.renderProviderSplitBPSSecondary >
-          TEN_THOUSAND_BASIS_POINTS.sub(platformSplitBPSSecondary).toNumber()
-      ) {
-        console.log(
-          `[ERROR] renderProviderSplitBPSSecondary must be between 0 and ${TEN_THOUSAND_BASIS_POINTS.sub(
-            platformSplitBPSSecondary
-          ).toNumber()}, but is ${
-            deployDetails.renderProviderSplitBPSSecondary
-          }`
-        );
-        console.log(
-          `[ACTION] Please manually configure the render provider split percentage on the core contract to a valid value.`
-        );
-      }
-      const currentRenderProviderSplitBPSSecondary =
-        await genArt721Core.renderProviderSecondarySalesBPS();
-      if (
-        deployDetails.renderProviderSplitBPSSecondary ==
-        currentRenderProviderSplitBPSSecondary.toNumber()
-      ) {
-        console.log(
-          `[INFO] Skipping update of render provider split percentage secondary, since it is already equal to the value of ${currentRenderProviderSplitBPSSecondary.toNumber()}.`
-        );
-      } else {
-        await genArt721Core
-          .connect(deployer)
-          .updateProviderSecondarySalesBPS(
+      await journal.transact(
+        "updateProviderSecondarySalesBPS",
+        {
+          contractName: coreContractName,
+          contract: genArt721Core,
+          functionName: "updateProviderSecondarySalesBPS",
+          args: [
             deployDetails.renderProviderSplitBPSSecondary,
-            platformSplitBPSSecondary
+            new PlannedValue("current platform provider secondary sales BPS"),
+          ],
+          safe: superAdminAddress,
+          condition: "skipped if the render provider split is already equal",
+        },
+        async () => {
+          // a render provider split percentage override was provided
+          // get current platform provider split percentage
+          const platformSplitBPSSecondary =
+            await genArt721Core.platformProviderSecondarySalesBPS();
+          if (
+            deployDetails.renderProviderSplitBPSSecondary < 0 ||
+            deployDetails.renderProviderSplitBPSSecondary >
+              TEN_THOUSAND_BASIS_POINTS.sub(
+                platformSplitBPSSecondary
+              ).toNumber()
+          ) {
+            console.log(
+              `[ERROR] renderProviderSplitBPSSecondary must be between 0 and ${TEN_THOUSAND_BASIS_POINTS.sub(
+                platformSplitBPSSecondary
+              ).toNumber()}, but is ${
+                deployDetails.renderProviderSplitBPSSecondary
+              }`
+            );
+            console.log(
+              `[ACTION] Please manually configure the render provider split percentage on the core contract to a valid value.`
+            );
+          }
+          const currentRenderProviderSplitBPSSecondary =
+            await genArt721Core.renderProviderSecondarySalesBPS();
+          if (
+            deployDetails.renderProviderSplitBPSSecondary ==
+            currentRenderProviderSplitBPSSecondary.toNumber()
+          ) {
+            console.log(
+              `[INFO] Skipping update of render provider split percentage secondary, since it is already equal to the value of ${currentRenderProviderSplitBPSSecondary.toNumber()}.`
+            );
+            return undefined;
+          }
+          const tx = await sendOrBatch(
+            safeBatches,
+            superAdminAddress,
+            genArt721Core.connect(deployer),
+            "updateProviderSecondarySalesBPS",
+            [
+              deployDetails.renderProviderSplitBPSSecondary,
+              platformSplitBPSSecondary,
+            ]
           );
-        console.log(
-          `[INFO] Updated render provider split percentage secondary to ${
-            deployDetails.renderProviderSplitBPSSecondary
-          } BPS, maintained platform split as ${platformSplitBPSSecondary.toNumber()} BPS.`
-        );
-      }
+          if (!isBatchedCall(tx)) {
+            console.log(
+              `[INFO] Updated render provider split percentage secondary to ${
+                deployDetails.renderProviderSplitBPSSecondary
+              } BPS, maintained platform split as ${platformSplitBPSSecondary.toNumber()} BPS.`
+            );
+          }
+          return tx;
+        }
+      );
     }
 
     // transfer superAdmin role on adminACL
@@ -430,15 +580,23 @@ async function main() {
     adminACL = adminACLFactory.attach(adminACLAddress);
     if (deployDetails.doTransferSuperAdmin) {
       // transfer superAdmin role on adminACL, triggering indexing update on new core contract
-      await adminACL
-        .connect(deployer)
-        .changeSuperAdmin(deployDetails.newSuperAdminAddress, [
-          genArt721Core.address,
-        ]);
-      console.log(
-        `[INFO] Transferred superAdmin role on adminACL to ${deployDetails.newSuperAdminAddress}.`
+      const changeSuperAdminTxHash = await journal.transactOrBatch(
+        "changeSuperAdmin",
+        {
+          contractName: adminACLContractName,
+          contract: adminACL.connect(deployer),
+          functionName: "changeSuperAdmin",
+          args: [deployDetails.newSuperAdminAddress, [genArt721Core.address]],
+          safe: superAdminAddress,
+        },
+        safeBatches
       );
-      await delay(EXTRA_DELAY_BETWEEN_TX);
+      if (changeSuperAdminTxHash) {
+        console.log(
+          `[INFO] Transferred superAdmin role on adminACL to ${deployDetails.newSuperAdminAddress}.`
+        );
+        await delay(EXTRA_DELAY_BETWEEN_TX);
+      }
     } else {
       console.log(`[INFO] Skipping transfer of superAdmin role on adminACL.`);
     }
@@ -451,38 +609,44 @@ async function main() {
     // VERIFICATION BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    // Output instructions for manual Etherscan verification.
-    const standardVerify = "yarn hardhat verify";
-    // CORE CONTRACT
-    // @dev do not use helper tryVerify here due to complex constructor args
-    try {
-      console.log(`[INFO] Verifying core contract contract deployment...`);
-      await hre.run("verify:verify", {
-        address: genArt721Core.address,
-        constructorArguments: [
-          tokenName, // name
-          tokenTicker, // ticker
-          renderProviderAddress, // render provider
-          platformProviderAddress, // platform provider
-          randomizerAddress, // randomizer
-          adminACLAddress, // admin acl
-          startingProjectId, // starting project id
-          autoApproveArtistSplitProposals, // auto approve artist split proposals
-        ],
-      });
-      console.log(
-        `[INFO] Core contract verified on Etherscan at ${genArt721Core.address}}`
-      );
-    } catch (error) {
-      console.error(
-        `[ERROR] Failed to verify core contract deployment, please verify manually!`
-      );
-      console.error(error);
-      console.log(
-        `[ACTION] Save the following constructor args config file to a constructor-args.js file, then verify core contract deployment with:`
-      );
-      console.log(
-        `module.exports = [
+    await journal.run(
+      "verify",
+      `verify ${coreContractName}${
+        deployDetails.existingAdminACL ? "" : " and AdminACL"
+      } on Etherscan`,
+      async () => {
+        // Output instructions for manual Etherscan verification.
+        const standardVerify = "yarn hardhat verify";
+        // CORE CONTRACT
+        // @dev do not use helper tryVerify here due to complex constructor args
+        try {
+          console.log(`[INFO] Verifying core contract contract deployment...`);
+          await hre.run("verify:verify", {
+            address: genArt721Core.address,
+            constructorArguments: [
+              tokenName, // name
+              tokenTicker, // ticker
+              renderProviderAddress, // render provider
+              platformProviderAddress, // platform provider
+              randomizerAddress, // randomizer
+              adminACLAddress, // admin acl
+              startingProjectId, // starting project id
+              autoApproveArtistSplitProposals, // auto approve artist split proposals
+            ],
+          });
+          console.log(
+            `[INFO] Core contract verified on Etherscan at ${genArt721Core.address}}`
+          );
+        } catch (error) {
+          console.error(
+            `[ERROR] Failed to verify core contract deployment, please verify manually!`
+          );
+          console.error(error);
+          console.log(
+            `[ACTION] Save the following constructor args config file to a constructor-args.js file, then verify core contract deployment with:`
+          );
+          console.log(
+            `module.exports = [
         "${tokenName}", // name
         "${tokenTicker}", // ticker
         "${renderProviderAddress}", // render provider
@@ -492,30 +656,41 @@ async function main() {
         ${startingProjectId}, // starting project id
         ${autoApproveArtistSplitProposals}, // auto approve artist split proposals
       ];`
-      );
-      console.log(
-        `${standardVerify} --network ${networkName} --constructor-args constructor-args.js ${genArt721Core.address}`
-      );
-    }
-    // ADMIN ACL CONTRACT
-    if (deployDetails.existingAdminACL == undefined) {
-      // only verify if we deployed a new adminACL contract
-      await tryVerify("AdminACL", adminACLAddress, [], networkName);
-    }
+          );
+          console.log(
+            `${standardVerify} --network ${networkName} --constructor-args constructor-args.js ${genArt721Core.address}`
+          );
+        }
+        // ADMIN ACL CONTRACT
+        if (deployDetails.existingAdminACL == undefined) {
+          // only verify if we deployed a new adminACL contract
+          await tryVerify("AdminACL", adminACLAddress, [], networkName);
+        }
+      }
+    );
 
     // create image bucket
-    let imageBucketCreated = false;
-    // @dev initial bucket name of TBD to handle case of failure to generate bucket.
+    // @dev bucket name of TBD handles the case of failure to generate bucket.
     // if bucket generation fails, TBD still enables output of DEPLOYMENTS file,
     // while making it clear that the bucket was not created
-    let bucketName = "TBD";
-    try {
-      ({ bucketName } = await createEngineBucket(tokenName, networkName));
-      console.log(`[INFO] Created image bucket ${bucketName}`);
-      imageBucketCreated = true;
-    } catch (error) {
-      console.log(`[ERROR] Failed to create image bucket`);
-    }
+    const { bucketName } = await journal.run(
+      "createImageBucket",
+      `create S3 image bucket for ${tokenName} on ${networkName}`,
+      async () => {
+        try {
+          const { bucketName } = await createEngineBucket(
+            tokenName,
+            networkName
+          );
+          console.log(`[INFO] Created image bucket ${bucketName}`);
+          return { bucketName };
+        } catch (error) {
+          console.log(`[ERROR] Failed to create image bucket`);
+          return { bucketName: "TBD" };
+        }
+      }
+    );
+    const imageBucketCreated = bucketName !== "TBD";
 
     //////////////////////////////////////////////////////////////////////////////
     // VERIFICATION ENDS HERE
@@ -525,62 +700,80 @@ async function main() {
     // DEPLOYMENTS.md BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.genArt721CoreContractName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${
-      genArt721Core.address
-    }#code
-
-**${
-      deployDetails.adminACLContractName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${adminACLAddress}#code
-
-**Core Registry:** https://${etherscanSubdomain}etherscan.io/address/${activeCoreRegistryAddress}#code
-
-**Shared Minter Filter:** https://${etherscanSubdomain}etherscan.io/address/${minterFilterAddress}#code
-
-**Minters:** All globally allowed minters on the shared minter filter contract may be used to mint tokens on the core contract.
-
-**Metadata**
-
-- **Starting Project Id:** ${deployDetails.startingProjectId}
-- **Token Name:** ${deployDetails.tokenName}
-- **Token Ticker:** ${deployDetails.tokenTicker}
-- **Auto Approve Artist Split Proposals:** ${autoApproveArtistSplitProposals}
-- **Render Provider Address, Primary Sales:** ${
-      deployDetails.renderProviderAddress
-    }
-- **Platform Provider Address, Primary Sales:** ${
-      deployDetails.platformProviderAddress
-    }
-- **BytecodeStorageReader Library:** ${bytecodeStorageLibraryAddress}
-
-**Other**
-
-- **Add initial project?:** ${deployDetails.addInitialProject}
-- **Add initial token?:** false
-- **Image Bucket:** ${bucketName}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(`[INFO] Deployment details written to ${outputSummaryFile}`);
+    await journal.run(
+      "writeDeploymentSummary",
+      `append a manifest entry to ${MANIFEST_FILE_NAME} and regenerate ${SUMMARY_FILE_NAME} from it in ${inputFileDirectory}`,
+      async () => {
+        const contracts: ManifestEntry["contracts"] = [
+          getDeployedContract(
+            deployDetails.genArt721CoreContractName,
+            journal.getStep("deployCore"),
+            [
+              tokenName,
+              tokenTicker,
+              renderProviderAddress,
+              platformProviderAddress,
+              randomizerAddress,
+              adminACLAddress,
+              startingProjectId,
+              autoApproveArtistSplitProposals,
+            ],
+            { BytecodeStorageReader: bytecodeStorageLibraryAddress }
+          ),
+        ];
+        const associatedContracts: ManifestEntry["associatedContracts"] = [
+          { label: "Core Registry", address: activeCoreRegistryAddress },
+          { label: "Shared Minter Filter", address: minterFilterAddress },
+        ];
+        if (deployDetails.existingAdminACL) {
+          associatedContracts.unshift({
+            label: deployDetails.adminACLContractName,
+            address: adminACLAddress,
+          });
+        } else {
+          contracts.push(
+            getDeployedContract(
+              deployDetails.adminACLContractName,
+              journal.getStep("deployAdminACL")
+            )
+          );
+        }
+        writeManifestEntry(inputFileDirectory, {
+          title: "Deployment",
+          network: networkName,
+          environment: deployDetails.environment,
+          deploymentConfigFile,
+          gitCommit: getGitCommit(),
+          deployedAt: new Date().toISOString(),
+          contracts,
+          associatedContracts,
+          notes: [
+            "**Minters:** All globally allowed minters on the shared minter filter contract may be used to mint tokens on the core contract.",
+          ],
+          details: {
+            Metadata: {
+              "Starting Project Id": deployDetails.startingProjectId,
+              "Token Name": deployDetails.tokenName,
+              "Token Ticker": deployDetails.tokenTicker,
+              "Auto Approve Artist Split Proposals":
+                autoApproveArtistSplitProposals,
+              "Render Provider Address, Primary Sales":
+                deployDetails.renderProviderAddress,
+              "Platform Provider Address, Primary Sales":
+                deployDetails.platformProviderAddress,
+            },
+            Other: {
+              "Add initial project?": deployDetails.addInitialProject,
+              "Add initial token?": false,
+              "Image Bucket": bucketName,
+            },
+          },
+        });
+        console.log(
+          `[INFO] Deployment details written to ${MANIFEST_FILE_NAME} and ${SUMMARY_FILE_NAME} in ${inputFileDirectory}`
+        );
+      }
+    );
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENTS.md ENDS HERE
@@ -590,21 +783,40 @@ Date: ${new Date().toISOString()}
     // HASURA METADATA UPSERT BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    await syncContractMetadataAfterDeploy(
-      genArt721Core.address, // contracts_metadata.address
-      deployDetails.tokenName, // contracts_metadata.name
-      bucketName, // contracts_metadata.bucket_name
-      deployDetails.defaultVerticalName // contracts_metadata.default_vertical_name (optional)
-    );
+    // @dev the Hardhat network is not indexed, so has no metadata to sync
+    if (networkName !== "hardhat") {
+      await journal.run(
+        "syncMetadata",
+        `upsert Hasura contract metadata of ${genArt721Core.address}${
+          deployDetails.addInitialProject
+            ? ` and project ${deployDetails.startingProjectId} metadata`
+            : ""
+        }, with default vertical ${deployDetails.defaultVerticalName}`,
+        async () => {
+          // @dev loaded on demand, since its GraphQL documents are generated by
+          // `yarn codegen`
+          const {
+            syncContractMetadataAfterDeploy,
+            syncProjectMetadataAfterDeploy,
+          } = await import("../../util/graphql-utils");
+          await syncContractMetadataAfterDeploy(
+            genArt721Core.address, // contracts_metadata.address
+            deployDetails.tokenName, // contracts_metadata.name
+            bucketName, // contracts_metadata.bucket_name
+            deployDetails.defaultVerticalName // contracts_metadata.default_vertical_name (optional)
+          );
 
-    if (deployDetails.addInitialProject) {
-      // also update the initial project's vertical name,
-      // since likely missed default vertical name during initial sync
-      await syncProjectMetadataAfterDeploy(
-        genArt721Core.address, // core contract address
-        deployDetails.startingProjectId, // project Id
-        deployer.address, // project artist address
-        deployDetails.defaultVerticalName // project vertical name
+          if (deployDetails.addInitialProject) {
+            // also update the initial project's vertical name,
+            // since likely missed default vertical name during initial sync
+            await syncProjectMetadataAfterDeploy(
+              genArt721Core.address, // core contract address
+              deployDetails.startingProjectId, // project Id
+              deployer.address, // project artist address
+              deployDetails.defaultVerticalName // project vertical name
+            );
+          }
+        }
       );
     }
     //////////////////////////////////////////////////////////////////////////////
@@ -615,6 +827,11 @@ Date: ${new Date().toISOString()}
     // FOLLOW-ON ACTIONS BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
+    // @dev plans end with the steps above
+    if (journal.isPlanning) {
+      continue;
+    }
+
     // Reminder to update provider payment addresses if left as deployer.
     if (deployDetails.renderProviderAddress.toLowerCase() == "deployer") {
       console.log(
@@ -634,11 +851,27 @@ Date: ${new Date().toISOString()}
       );
     }
 
-    if (!registeredContractOnCoreRegistry) {
+    if (journal.getStep("registerContract").status === "skipped") {
+      console.log(
+        `[ACTION] Deployer wallet failed the core registry's ownership check, please manually register the core contract ${genArt721Core.address} on the core registry at ${activeCoreRegistryAddress}.`
+      );
+    }
+
+    if (!safeBatches.isEmpty) {
+      if (
+        isSafeBatchSimulationMode() &&
+        !(await safeBatches.simulate(ethers.provider))
+      ) {
+        console.log(
+          `[ACTION] Fix the Safe batch calls that failed simulation before executing the batches.`
+        );
+      }
       console.log(
-        `[ACTION] Due to script failure, please manually register the core contract on the core registry at ${activeCoreRegistryAddress}:`
+        `[ACTION] Execute the Safe batches written to ${safeBatches.outputDirectory} for calls the deployer wallet could not make.`
       );
     }
+
+    journal.complete();
     // extra delay to ensure all logs are written to files
     await delay(1000);
 
@@ -646,11 +879,15 @@ Date: ${new Date().toISOString()}
     // FOLLOW-ON ACTIONS ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
   }
+
+  plan?.print();
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -10,6 +10,24 @@ import path from "path";
 
 // delay to avoid issues with reorgs and tx failures
 import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { DeploymentJournal } from "../util/deployment-journal";
+import {
+  SafeBatchCollector,
+  isSafeBatchSimulationMode,
+  sendOrBatch,
+} from "../util/safe-batch";
+import {
+  DeploymentPlan,
+  PlannedValue,
+  isPlanMode,
+} from "../util/deployment-plan";
+import {
+  MANIFEST_FILE_NAME,
+  SUMMARY_FILE_NAME,
+  getDeployedContract,
+  getGitCommit,
+  writeManifestEntry,
+} from "../util/deployment-manifest";
 const EXTRA_DELAY_BETWEEN_TX = 5000; // ms]
 
 import {
@@ -25,11 +43,18 @@ import {
   syncProjectMetadataAfterDeploy,
 } from "../util/graphql-utils";
 
+/**
+ * This script was created to deploy the V3 flagship core contract,
+ * configuring it to use the shared minter suite.
+ * Completed steps are journaled next to DEPLOYMENTS.md, so re-running a failed
+ * deployment with the same config file resumes from the failed step.
+ * Run with `--plan` (or DEPLOY_PLAN=true) to only print the deployment plan.
+ */
 async function main() {
   // get deployment configuration details
   const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
     await getConfigInputs(
-      "deployments/flagship/V3/deployment-config.template.ts",
+      "flagshipSharedSuite",
       "Flagship deployment config file"
     );
 
@@ -111,14 +136,25 @@ async function main() {
     "CoreRegistryV1",
     activeCoreRegistryAddress
   );
-  const requiredDeployer = await coreRegistryContract.owner();
-  if (requiredDeployer !== deployer.address) {
-    throw new Error(
-      `[ERROR] Active core registry address ${activeCoreRegistryAddress} is not owned by deployer wallet ${deployer.address}. Please use appropriate deployer wallet.`
+  // @dev registering the core contract on the core registry is batched for
+  // the core registry's owner if the deployer wallet does not own it
+  const coreRegistryOwner = await coreRegistryContract.owner();
+  if (coreRegistryOwner !== deployer.address) {
+    console.log(
+      `[INFO] Active core registry address ${activeCoreRegistryAddress} is not owned by deployer wallet ${deployer.address}, registering the core contract will be batched for its owner ${coreRegistryOwner}`
     );
   }
 
   const adminACL = AdminACLV0__factory.connect(adminACLAddress, deployer);
+  // calls restricted to the shared AdminACL's superAdmin are batched for it if
+  // the deployer wallet cannot make them
+  const superAdminAddress = await adminACL.superAdmin();
+  const safeBatches = new SafeBatchCollector({
+    outputDirectory: inputFileDirectory,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    name: "Flagship deployment",
+    writeMultiSend: process.env.SAFE_BATCH_MULTISEND === "true",
+  });
   const bytecodeStorageReaderAddress =
     BYTECODE_STORAGE_READER_LIBRARY_ADDRESSES[networkName];
 
@@ -132,53 +168,95 @@ async function main() {
   // // INPUT VALIDATION ENDS HERE
   // //////////////////////////////////////////////////////////////////////////////
 
+  // in plan mode, the steps below are planned by a planning journal instead
+  // of being performed, leaving out steps already journaled
+  const plan = isPlanMode()
+    ? await DeploymentPlan.create({
+        title: deploymentConfigFile,
+        from: deployer.address,
+        provider: ethers.provider,
+      })
+    : undefined;
+
+  // completed steps are journaled, so re-running a failed deployment with the
+  // same config file resumes from the failed step
+  const journal = DeploymentJournal.open({
+    inputFileDirectory,
+    deploymentConfigFile,
+    index: 0,
+    deployDetails,
+    provider: ethers.provider,
+    plan,
+  });
+  if (journal.isCompleted) {
+    console.log(
+      `[INFO] ${journal.key} already deployed per journal ${journal.journalFile}`
+    );
+    return;
+  }
+
   // //////////////////////////////////////////////////////////////////////////////
   // // DEPLOYMENT BEGINS HERE
   // //////////////////////////////////////////////////////////////////////////////
 
   // Deploy Core contract
+  const bytecodeStorageLibraries = {
+    "contracts/libs/v0.8.x/BytecodeStorageV1.sol:BytecodeStorageReader":
+      bytecodeStorageReaderAddress,
+  };
   const genArt721CoreFactory = new GenArt721CoreV3__factory(
-    {
-      "contracts/libs/v0.8.x/BytecodeStorageV1.sol:BytecodeStorageReader":
-        bytecodeStorageReaderAddress,
-    },
+    bytecodeStorageLibraries,
     deployer
   );
-  const genArt721Core = await genArt721CoreFactory.deploy(
-    tokenName,
-    deployDetails.tokenTicker,
-    randomizerAddress,
-    adminACLAddress,
-    deployDetails.startingProjectId
+  const genArt721CoreAddress = await journal.deploy(
+    "deployCore",
+    "GenArt721CoreV3",
+    genArt721CoreFactory,
+    [
+      tokenName,
+      deployDetails.tokenTicker,
+      randomizerAddress,
+      adminACLAddress,
+      deployDetails.startingProjectId,
+    ],
+    bytecodeStorageLibraries
   );
-  await genArt721Core.deployed();
+  const genArt721Core = genArt721CoreFactory.attach(genArt721CoreAddress);
   await delay(EXTRA_DELAY_BETWEEN_TX);
-  console.log(`GenArt721Core deployed at ${genArt721Core.address}`);
 
-  let registeredContractOnCoreRegistry = false;
-  try {
-    const coreRegistryContract = await ethers.getContractAt(
-      "CoreRegistryV1",
-      activeCoreRegistryAddress
-    );
-    const coreType = await genArt721Core.coreType();
-    const coreVersion = await genArt721Core.coreVersion();
-    await coreRegistryContract
-      .connect(deployer)
-      .registerContract(
+  const registeredContractOnCoreRegistry = await journal.transactOrSkip(
+    "registerContract",
+    {
+      contractName: "CoreRegistryV1",
+      contract: coreRegistryContract,
+      functionName: "registerContract",
+      args: [
         genArt721Core.address,
-        ethers.utils.formatBytes32String(coreVersion),
-        ethers.utils.formatBytes32String(coreType)
+        new PlannedValue("coreVersion of the deployed core"),
+        new PlannedValue("coreType of the deployed core"),
+      ],
+      safe: coreRegistryOwner,
+    },
+    async () => {
+      const coreType = await genArt721Core.coreType();
+      const coreVersion = await genArt721Core.coreVersion();
+      return sendOrBatch(
+        safeBatches,
+        coreRegistryOwner,
+        coreRegistryContract.connect(deployer),
+        "registerContract",
+        [
+          genArt721Core.address,
+          ethers.utils.formatBytes32String(coreVersion),
+          ethers.utils.formatBytes32String(coreType),
+        ]
       );
+    }
+  );
+  if (registeredContractOnCoreRegistry) {
     console.log(
       `[INFO] Registered core contract ${genArt721Core.address} on core registry ${activeCoreRegistryAddress}`
     );
-    registeredContractOnCoreRegistry = true;
-  } catch (error) {
-    console.error(
-      `[ERROR] Failed to register core contract on core registry, please register manually!`
-    );
-    console.error(error);
   }
   await delay(EXTRA_DELAY_BETWEEN_TX);
 
@@ -191,26 +269,44 @@ async function main() {
   //////////////////////////////////////////////////////////////////////////////
 
   // Sets MinterFilter as the minter for the contract
-  await genArt721Core
-    .connect(deployer)
-    .updateMinterContract(minterFilterAddress);
-  console.log(`[INFO] Updated the Minter Filter on the Core contract.`);
-  delay(EXTRA_DELAY_BETWEEN_TX);
+  const updateMinterTxHash = await journal.transactOrBatch(
+    "updateMinterContract",
+    {
+      contractName: "GenArt721CoreV3",
+      contract: genArt721Core.connect(deployer),
+      functionName: "updateMinterContract",
+      args: [minterFilterAddress],
+      safe: superAdminAddress,
+    },
+    safeBatches
+  );
+  if (updateMinterTxHash) {
+    console.log(`[INFO] Updated the Minter Filter on the Core contract.`);
+    delay(EXTRA_DELAY_BETWEEN_TX);
+  }
 
   // Update the Art Blocks primary and secondary payment Addresses (if different than default deployer address).
   if (
     deployDetails.artblocksPrimarySalesAddress &&
     deployDetails.artblocksPrimarySalesAddress !== deployer.address
   ) {
-    await genArt721Core
-      .connect(deployer)
-      .updateArtblocksPrimarySalesAddress(
-        deployDetails.artblocksPrimarySalesAddress
-      );
-    console.log(
-      `[INFO] Updated the artblocks primary sales payment address to: ${deployDetails.artblocksPrimarySalesAddress}.`
+    const updatePrimaryTxHash = await journal.transactOrBatch(
+      "updateArtblocksPrimarySalesAddress",
+      {
+        contractName: "GenArt721CoreV3",
+        contract: genArt721Core.connect(deployer),
+        functionName: "updateArtblocksPrimarySalesAddress",
+        args: [deployDetails.artblocksPrimarySalesAddress],
+        safe: superAdminAddress,
+      },
+      safeBatches
     );
-    delay(EXTRA_DELAY_BETWEEN_TX);
+    if (updatePrimaryTxHash) {
+      console.log(
+        `[INFO] Updated the artblocks primary sales payment address to: ${deployDetails.artblocksPrimarySalesAddress}.`
+      );
+      delay(EXTRA_DELAY_BETWEEN_TX);
+    }
   } else {
     console.log(
       `[INFO] artblocks primary sales payment address remains as deployer addresses: ${deployer.address}.`
@@ -221,15 +317,23 @@ async function main() {
     deployDetails.artblocksSecondarySalesAddress &&
     deployDetails.artblocksSecondarySalesAddress !== deployer.address
   ) {
-    await genArt721Core
-      .connect(deployer)
-      ["updateArtblocksSecondarySalesAddress(address)"](
-        deployDetails.artblocksSecondarySalesAddress
-      );
-    console.log(
-      `[INFO] Updated the artblocks secondary sales payment address to: ${deployDetails.artblocksSecondarySalesAddress}.`
+    const updateSecondaryTxHash = await journal.transactOrBatch(
+      "updateArtblocksSecondarySalesAddress",
+      {
+        contractName: "GenArt721CoreV3",
+        contract: genArt721Core.connect(deployer),
+        functionName: "updateArtblocksSecondarySalesAddress(address)",
+        args: [deployDetails.artblocksSecondarySalesAddress],
+        safe: superAdminAddress,
+      },
+      safeBatches
     );
-    delay(EXTRA_DELAY_BETWEEN_TX);
+    if (updateSecondaryTxHash) {
+      console.log(
+        `[INFO] Updated the artblocks secondary sales payment address to: ${deployDetails.artblocksSecondarySalesAddress}.`
+      );
+      delay(EXTRA_DELAY_BETWEEN_TX);
+    }
   } else {
     console.log(
       `[INFO] artblocks secondary sales payment address remains as deployer addresses: ${deployer.address}.`
@@ -238,21 +342,39 @@ async function main() {
 
   // (optional) add initial project
   if (deployDetails.addInitialProject) {
-    await genArt721Core.addProject(tokenName, deployer.address);
-    console.log(
-      `[INFO] Added initial project ${tokenName} on core contract at ${genArt721Core.address}.`
+    const addProjectTxHash = await journal.transactOrBatch(
+      "addInitialProject",
+      {
+        contractName: "GenArt721CoreV3",
+        contract: genArt721Core.connect(deployer),
+        functionName: "addProject",
+        args: [tokenName, deployer.address],
+        safe: superAdminAddress,
+      },
+      safeBatches
     );
+    if (addProjectTxHash) {
+      console.log(
+        `[INFO] Added initial project ${tokenName} on core contract at ${genArt721Core.address}.`
+      );
+    }
   } else {
     console.log(`Did not add an initial project.`);
   }
 
   // update super admin address
   if (deployDetails.newSuperAdminAddress) {
-    await adminACL
-      .connect(deployer)
-      .changeSuperAdmin(deployDetails.newSuperAdminAddress, [
-        genArt721Core.address,
-      ]);
+    await journal.transactOrBatch(
+      "changeSuperAdmin",
+      {
+        contractName: "AdminACLV0",
+        contract: adminACL.connect(deployer),
+        functionName: "changeSuperAdmin",
+        args: [deployDetails.newSuperAdminAddress, [genArt721Core.address]],
+        safe: superAdminAddress,
+      },
+      safeBatches
+    );
   }
 
   //////////////////////////////////////////////////////////////////////////////
@@ -262,43 +384,49 @@ async function main() {
   //////////////////////////////////////////////////////////////////////////////
   // VERIFICATION BEGINS HERE
   //////////////////////////////////////////////////////////////////////////////
-  const standardVerify = "yarn hardhat verify";
-  try {
-    console.log(`[INFO] Verifying core contract contract deployment...`);
-    await hre.run("verify:verify", {
-      address: genArt721Core.address,
-      constructorArguments: [
-        tokenName, // name
-        deployDetails.tokenTicker, // ticker
-        randomizerAddress, // randomizer
-        adminACLAddress, // admin acl
-        deployDetails.startingProjectId, // starting project id
-      ],
-    });
-    console.log(
-      `[INFO] Core contract verified on Etherscan at ${genArt721Core.address}}`
-    );
-  } catch (error) {
-    console.error(
-      `[ERROR] Failed to verify core contract deployment, please verify manually!`
-    );
-    console.error(error);
-    console.log(
-      `[ACTION] Save the following constructor args config file to a constructor-args.js file, then verify core contract deployment with:`
-    );
-    console.log(
-      `module.exports = [
-      "${tokenName}", // name
-      "${tokenTicker}", // ticker
-      "${randomizerAddress}", // randomizer
-      "${adminACLAddress}", // admin acl
-      ${deployDetails.startingProjectId}, // starting project id
-    ];`
-    );
-    console.log(
-      `${standardVerify} --network ${networkName} --constructor-args constructor-args.js ${genArt721Core.address}`
-    );
-  }
+  await journal.run(
+    "verify",
+    "verify GenArt721CoreV3 on Etherscan",
+    async () => {
+      const standardVerify = "yarn hardhat verify";
+      try {
+        console.log(`[INFO] Verifying core contract contract deployment...`);
+        await hre.run("verify:verify", {
+          address: genArt721Core.address,
+          constructorArguments: [
+            tokenName, // name
+            deployDetails.tokenTicker, // ticker
+            randomizerAddress, // randomizer
+            adminACLAddress, // admin acl
+            deployDetails.startingProjectId, // starting project id
+          ],
+        });
+        console.log(
+          `[INFO] Core contract verified on Etherscan at ${genArt721Core.address}}`
+        );
+      } catch (error) {
+        console.error(
+          `[ERROR] Failed to verify core contract deployment, please verify manually!`
+        );
+        console.error(error);
+        console.log(
+          `[ACTION] Save the following constructor args config file to a constructor-args.js file, then verify core contract deployment with:`
+        );
+        console.log(
+          `module.exports = [
+        "${tokenName}", // name
+        "${tokenTicker}", // ticker
+        "${randomizerAddress}", // randomizer
+        "${adminACLAddress}", // admin acl
+        ${deployDetails.startingProjectId}, // starting project id
+      ];`
+        );
+        console.log(
+          `${standardVerify} --network ${networkName} --constructor-args constructor-args.js ${genArt721Core.address}`
+        );
+      }
+    }
+  );
 
   //////////////////////////////////////////////////////////////////////////////
   // VERIFICATION ENDS HERE
@@ -309,66 +437,77 @@ async function main() {
   //////////////////////////////////////////////////////////////////////////////
 
   // create image bucket
-  let imageBucketCreated = false;
-  // @dev initial bucket name of TBD to handle case of failure to generate bucket.
+  // @dev bucket name of TBD handles the case of failure to generate bucket.
   // if bucket generation fails, TBD still enables output of DEPLOYMENTS file,
   // while making it clear that the bucket was not created
-  let bucketName = "TBD";
-  try {
-    ({ bucketName } = await createEngineBucket(tokenName, networkName));
-    console.log(`[INFO] Created image bucket ${bucketName}`);
-    imageBucketCreated = true;
-  } catch (error) {
-    console.log(`[ERROR] Failed to create image bucket`);
-  }
-
-  const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-  const etherscanSubdomain = networkName === "mainnet" ? "" : `${networkName}.`;
-  const outputMd = `
-  # Deployment
-
-  Date: ${new Date().toISOString()}
-
-  ## **Network:** ${networkName}
-
-  ## **Environment:** ${deployDetails.environment}
-
-  **Deployment Input File:** \`${deploymentConfigFile}\`
-
-  **GenArt721CoreV3:** https://${etherscanSubdomain}etherscan.io/address/${
-    genArt721Core.address
-  }#code
-
-  **AdminACLV0:** https://${etherscanSubdomain}etherscan.io/address/${adminACLAddress}#code
-
-  **Core Registry:** https://${etherscanSubdomain}etherscan.io/address/${activeCoreRegistryAddress}#code
-
-  **Shared Minter Filter:** https://${etherscanSubdomain}etherscan.io/address/${minterFilterAddress}#code
-
-  **Minters:** All globally allowed minters on the shared minter filter contract may be used to mint tokens on the core contract.
-
-  **Metadata**
-
-  - **Starting Project Id:** ${deployDetails.startingProjectId}
-  - **Token Name:** ${tokenName}
-  - **Token Ticker:** ${tokenTicker}
-  - **Art Blocks Address, Primary Sales:** ${
-    deployDetails.artblocksPrimarySalesAddress
-  }
-  - **BytecodeStorageReader Library:** ${bytecodeStorageReaderAddress}
-
-  **Other**
-
-  - **Add initial project?:** ${deployDetails.addInitialProject}
-  - **Add initial token?:** false
-  - **Image Bucket:** ${bucketName}
-
-  ---
-
-  `;
+  const { bucketName } = await journal.run(
+    "createImageBucket",
+    `create S3 image bucket for ${tokenName} on ${networkName}`,
+    async () => {
+      try {
+        const { bucketName } = await createEngineBucket(tokenName, networkName);
+        console.log(`[INFO] Created image bucket ${bucketName}`);
+        return { bucketName };
+      } catch (error) {
+        console.log(`[ERROR] Failed to create image bucket`);
+        return { bucketName: "TBD" };
+      }
+    }
+  );
 
-  fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-  console.log(`[INFO] Deployment details written to ${outputSummaryFile}`);
+  await journal.run(
+    "writeDeploymentSummary",
+    `append a manifest entry to ${MANIFEST_FILE_NAME} and regenerate ${SUMMARY_FILE_NAME} from it in ${inputFileDirectory}`,
+    async () => {
+      writeManifestEntry(inputFileDirectory, {
+        title: "Deployment",
+        network: networkName,
+        environment: deployDetails.environment,
+        deploymentConfigFile,
+        gitCommit: getGitCommit(),
+        deployedAt: new Date().toISOString(),
+        contracts: [
+          getDeployedContract(
+            "GenArt721CoreV3",
+            journal.getStep("deployCore"),
+            [
+              tokenName,
+              tokenTicker,
+              randomizerAddress,
+              adminACLAddress,
+              deployDetails.startingProjectId,
+            ],
+            { BytecodeStorageReader: bytecodeStorageReaderAddress }
+          ),
+        ],
+        associatedContracts: [
+          { label: "AdminACLV0", address: adminACLAddress },
+          { label: "Core Registry", address: activeCoreRegistryAddress },
+          { label: "Shared Minter Filter", address: minterFilterAddress },
+        ],
+        notes: [
+          "**Minters:** All globally allowed minters on the shared minter filter contract may be used to mint tokens on the core contract.",
+        ],
+        details: {
+          Metadata: {
+            "Starting Project Id": deployDetails.startingProjectId,
+            "Token Name": tokenName,
+            "Token Ticker": tokenTicker,
+            "Art Blocks Address, Primary Sales":
+              deployDetails.artblocksPrimarySalesAddress,
+          },
+          Other: {
+            "Add initial project?": deployDetails.addInitialProject,
+            "Add initial token?": false,
+            "Image Bucket": bucketName,
+          },
+        },
+      });
+      console.log(
+        `[INFO] Deployment details written to ${MANIFEST_FILE_NAME} and ${SUMMARY_FILE_NAME} in ${inputFileDirectory}`
+      );
+    }
+  );
 
   //////////////////////////////////////////////////////////////////////////////
   // DEPLOYMENTS.md ENDS HERE
@@ -377,28 +516,65 @@ async function main() {
   //////////////////////////////////////////////////////////////////////////////
   // HASURA METADATA UPSERT BEGINS HERE
   //////////////////////////////////////////////////////////////////////////////
-  await syncContractMetadataAfterDeploy(
-    genArt721Core.address, // contracts_metadata.address
-    tokenName, // contracts_metadata.name
-    bucketName, // contracts_metadata.bucket_name
-    "presents" // contracts_metadata.default_vertical_name (optional)
-  );
+  await journal.run(
+    "syncMetadata",
+    `upsert Hasura contract metadata of ${genArt721Core.address}${
+      deployDetails.addInitialProject
+        ? ` and project ${deployDetails.startingProjectId} metadata`
+        : ""
+    }, with default vertical presents`,
+    async () => {
+      await syncContractMetadataAfterDeploy(
+        genArt721Core.address, // contracts_metadata.address
+        tokenName, // contracts_metadata.name
+        bucketName, // contracts_metadata.bucket_name
+        "presents" // contracts_metadata.default_vertical_name (optional)
+      );
 
-  if (deployDetails.addInitialProject) {
-    // also update the initial project's vertical name,
-    // since likely missed default vertical name during initial sync
-    await syncProjectMetadataAfterDeploy(
-      genArt721Core.address, // core contract address
-      deployDetails.startingProjectId, // project Id
-      deployer.address, // project artist address
-      "presents" // project vertical name
-    );
-  }
+      if (deployDetails.addInitialProject) {
+        // also update the initial project's vertical name,
+        // since likely missed default vertical name during initial sync
+        await syncProjectMetadataAfterDeploy(
+          genArt721Core.address, // core contract address
+          deployDetails.startingProjectId, // project Id
+          deployer.address, // project artist address
+          "presents" // project vertical name
+        );
+      }
+    }
+  );
 
   //////////////////////////////////////////////////////////////////////////////
   // HASURA METADATA UPSERT ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
 
+  // @dev plans end with the steps above
+  if (plan) {
+    plan.print();
+    return;
+  }
+
+  if (journal.getStep("registerContract").status === "skipped") {
+    console.log(
+      `[ACTION] Deployer wallet failed the core registry's ownership check, please manually register the core contract ${genArt721Core.address} on the core registry at ${activeCoreRegistryAddress}.`
+    );
+  }
+
+  if (!safeBatches.isEmpty) {
+    if (
+      isSafeBatchSimulationMode() &&
+      !(await safeBatches.simulate(ethers.provider))
+    ) {
+      console.log(
+        `[ACTION] Fix the Safe batch calls that failed simulation before executing the batches.`
+      );
+    }
+    console.log(
+      `[ACTION] Execute the Safe batches written to ${safeBatches.outputDirectory} for calls the deployer wallet could not make.`
+    );
+  }
+
+  journal.complete();
   delay(3000);
 }
 
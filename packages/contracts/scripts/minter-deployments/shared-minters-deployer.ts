@@ -12,6 +12,19 @@ Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
 import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { DeploymentJournal } from "../util/deployment-journal";
+import { DeploymentPlan, isPlanMode } from "../util/deployment-plan";
+import {
+  MANIFEST_FILE_NAME,
+  SUMMARY_FILE_NAME,
+  getDeployedContract,
+  getGitCommit,
+  writeManifestEntry,
+} from "../util/deployment-manifest";
+import {
+  SafeBatchCollector,
+  isSafeBatchSimulationMode,
+} from "../util/safe-batch";
 import {
   DELEGATION_REGISTRY_ADDRESSES,
   EXTRA_DELAY_BETWEEN_TX,
@@ -23,22 +36,62 @@ const ASSUMED_MINTER_FILTER_NAME = "MinterFilterV2";
 
 const followOnActions: string[] = [];
 
+/**
+ * Gets the constructor args of shared minter `minterName`, adding the network's
+ * delegation registry if the minter needs it.
+ */
+function getMinterConstructorArgs(
+  minterName: string,
+  minterFilterAddress: string,
+  networkName: string
+): string[] {
+  const minterConstructorArgs = [minterFilterAddress];
+  // add delegation registry address to constructor args if needed
+  if (
+    minterName.includes("Holder") ||
+    minterName.includes("Merkle") ||
+    minterName.includes("Polyptych")
+  ) {
+    const delegationRegistryAddress =
+      DELEGATION_REGISTRY_ADDRESSES[networkName];
+    if (!delegationRegistryAddress) {
+      throw new Error(
+        `[ERROR] delegationRegistryAddress must be defined on network ${networkName}, but is ${delegationRegistryAddress}`
+      );
+    }
+    minterConstructorArgs.push(DELEGATION_REGISTRY_ADDRESSES[networkName]);
+  }
+  return minterConstructorArgs;
+}
+
 /**
  * This generic script was created to deploy shared minter contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the contract.
+ * Completed steps are journaled next to DEPLOYMENTS.md, so re-running a failed
+ * deployment with the same config file resumes from the failed step.
+ * Run with `--plan` (or DEPLOY_PLAN=true) to only print the deployment plan,
+ * and with `--simulate-safe-batches` (or SAFE_BATCH_SIMULATE=true) to simulate
+ * any Safe batches once written.
  */
 async function main() {
   // get deployment configuration details
   const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
     await getConfigInputs(
-      "deployments/minters/shared-minter-deploy-config.template.ts",
+      "sharedMinters",
       "shared minter deployment config file"
     );
 
   // get accounts and network
   const [deployer] = await ethers.getSigners();
   const networkName = await getNetworkName();
+  // calls the deployer wallet cannot make are written to Safe batch files
+  const safeBatches = new SafeBatchCollector({
+    outputDirectory: inputFileDirectory,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    name: "Shared minter deployment",
+    writeMultiSend: process.env.SAFE_BATCH_MULTISEND === "true",
+  });
 
   //////////////////////////////////////////////////////////////////////////////
   // INPUT VERIFICATION BEGINS HERE
@@ -65,9 +118,34 @@ async function main() {
   // INPUT VERIFICATION ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
 
+  // in plan mode, the steps below are planned by planning journals instead of
+  // being performed, leaving out steps already journaled
+  const plan = isPlanMode()
+    ? await DeploymentPlan.create({
+        title: deploymentConfigFile,
+        from: deployer.address,
+        provider: ethers.provider,
+      })
+    : undefined;
+
   // Perform the following steps for each to-be-deployed contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
+    plan?.startSection(`${deploymentConfigFile}[${index}]`);
+    const journal = DeploymentJournal.open({
+      inputFileDirectory,
+      deploymentConfigFile,
+      index,
+      deployDetails,
+      provider: ethers.provider,
+      plan,
+    });
+    if (journal.isCompleted) {
+      console.log(
+        `[INFO] Skipping ${journal.key}, already deployed per journal ${journal.journalFile}`
+      );
+      continue;
+    }
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENT BEGINS HERE
@@ -75,28 +153,17 @@ async function main() {
 
     // deploy new shared minter contract
     const minterName = deployDetails.minterName;
-    const minterConstructorArgs = [deployDetails.minterFilterAddress];
-    // add delegation registry address to constructor args if needed
-    if (
-      minterName.includes("Holder") ||
-      minterName.includes("Merkle") ||
-      minterName.includes("Polyptych")
-    ) {
-      const delegationRegistryAddress =
-        DELEGATION_REGISTRY_ADDRESSES[networkName];
-      if (!delegationRegistryAddress) {
-        throw new Error(
-          `[ERROR] delegationRegistryAddress must be defined on network ${networkName}, but is ${delegationRegistryAddress}`
-        );
-      }
-      minterConstructorArgs.push(DELEGATION_REGISTRY_ADDRESSES[networkName]);
-    }
+    const minterConstructorArgs = getMinterConstructorArgs(
+      minterName,
+      deployDetails.minterFilterAddress,
+      networkName
+    );
     const minterFactory = await ethers.getContractFactory(minterName);
-    const minter = await minterFactory.deploy(...minterConstructorArgs);
-    await minter.deployed();
-    const minterAddress = minter.address;
-    console.log(
-      `[INFO] ${deployDetails.minterName} deployed at ${minterAddress}`
+    const minterAddress = await journal.deploy(
+      "deployMinter",
+      minterName,
+      minterFactory,
+      minterConstructorArgs
     );
     await delay(EXTRA_DELAY_BETWEEN_TX);
 
@@ -114,21 +181,31 @@ async function main() {
         ASSUMED_MINTER_FILTER_NAME,
         deployDetails.minterFilterAddress
       );
-      try {
-        const tx = await minterFilter.approveMinterGlobally(minterAddress);
-        await tx.wait();
+      // @dev only the minter filter's admin may approve minters globally
+      const minterFilterAdminACL = await ethers.getContractAt(
+        "AdminACLV0",
+        await minterFilter.adminACLContract()
+      );
+      const txHash = await journal.transactOrBatch(
+        "approveMinterGlobally",
+        {
+          contractName: ASSUMED_MINTER_FILTER_NAME,
+          contract: minterFilter,
+          functionName: "approveMinterGlobally",
+          args: [minterAddress],
+          safe: await minterFilterAdminACL.superAdmin(),
+        },
+        safeBatches
+      );
+      if (txHash) {
         console.log(
           `[INFO] ${deployDetails.minterName} approved globally on minter filter at ${deployDetails.minterFilterAddress}`
         );
         await delay(EXTRA_DELAY_BETWEEN_TX);
-      } catch (error) {
-        console.log(
-          `[ERROR] ${deployDetails.minterName} failed to approve globally on minter filter at ${deployDetails.minterFilterAddress}`
-        );
-        console.log(error);
+      } else if (!journal.isPlanning) {
         // push action onto follow-on actions
         followOnActions.push(
-          `[ACTION] ${deployDetails.minterName}: call approveMinterGlobally(${minterAddress}) on ${deployDetails.minterFilterAddress} from admin wallet`
+          `[ACTION] ${deployDetails.minterName}: execute the Safe batch in ${safeBatches.outputDirectory} to approveMinterGlobally(${minterAddress}) on ${deployDetails.minterFilterAddress}`
         );
       }
     }
@@ -142,11 +219,16 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     // verify shared minter
-    await tryVerify(
-      deployDetails.minterName,
-      minterAddress,
-      minterConstructorArgs,
-      networkName
+    await journal.run(
+      "verify",
+      `verify ${deployDetails.minterName} on Etherscan`,
+      () =>
+        tryVerify(
+          deployDetails.minterName,
+          minterAddress,
+          minterConstructorArgs,
+          networkName
+        )
     );
 
     //////////////////////////////////////////////////////////////////////////////
@@ -157,40 +239,59 @@ async function main() {
     // DEPLOYMENTS.md BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Shared Minter Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.minterName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${minterAddress}#code
-
-**Associated Minter Filter:** ${deployDetails.minterFilterAddress}
-
-**Deployment Args:** ${minterConstructorArgs}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
+    await journal.run(
+      "writeDeploymentSummary",
+      `append a manifest entry to ${MANIFEST_FILE_NAME} and regenerate ${SUMMARY_FILE_NAME} from it in ${inputFileDirectory}`,
+      async () => {
+        writeManifestEntry(inputFileDirectory, {
+          title: "Shared Minter Deployment",
+          network: networkName,
+          environment: deployDetails.environment,
+          deploymentConfigFile,
+          gitCommit: getGitCommit(),
+          deployedAt: new Date().toISOString(),
+          contracts: [
+            getDeployedContract(
+              deployDetails.minterName,
+              journal.getStep("deployMinter"),
+              minterConstructorArgs
+            ),
+          ],
+          associatedContracts: [
+            {
+              label: "Associated Minter Filter",
+              address: deployDetails.minterFilterAddress,
+            },
+          ],
+          notes: [],
+          details: {},
+        });
+        console.log(
+          `[INFO] Deployment details written/appended to ${MANIFEST_FILE_NAME} and ${SUMMARY_FILE_NAME} in ${inputFileDirectory}`
+        );
+      }
     );
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENTS.md ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
+
+    journal.complete();
+  }
+
+  if (plan) {
+    plan.print();
+    return;
+  }
+
+  if (
+    !safeBatches.isEmpty &&
+    isSafeBatchSimulationMode() &&
+    !(await safeBatches.simulate(ethers.provider))
+  ) {
+    followOnActions.push(
+      `[ACTION] Fix the Safe batch calls that failed simulation before executing the batches.`
+    );
   }
 
   console.log(`[INFO] Done!`);
@@ -12,18 +12,31 @@ Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
 import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { DeploymentJournal } from "../util/deployment-journal";
+import { DeploymentPlan, isPlanMode } from "../util/deployment-plan";
+import {
+  MANIFEST_FILE_NAME,
+  ManifestEntry,
+  SUMMARY_FILE_NAME,
+  getDeployedContract,
+  getGitCommit,
+  writeManifestEntry,
+} from "../util/deployment-manifest";
 import { EXTRA_DELAY_BETWEEN_TX } from "../util/constants";
 
 /**
  * This generic script was created to deploy shared minter filter contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the contract.
+ * Completed steps are journaled next to DEPLOYMENTS.md, so re-running a failed
+ * deployment with the same config file resumes from the failed step.
+ * Run with `--plan` (or DEPLOY_PLAN=true) to only print the deployment plan.
  */
 async function main() {
   // get deployment configuration details
   const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
     await getConfigInputs(
-      "deployments/minter-filter/shared-minter-filter-deploy-config.template.ts",
+      "sharedMinterFilter",
       "shared minter-filter deployment config file"
     );
 
@@ -62,12 +75,10 @@ async function main() {
       await ethers.getContractFactory(deployDetails.adminACLContractName);
     }
     // check sufficient coreRegistry input
-    if (
-      !(
-        deployDetails.existingCoreRegistry ||
-        deployDetails.coreRegistryContractName
-      )
-    ) {
+    if (!(
+      deployDetails.existingCoreRegistry ||
+      deployDetails.coreRegistryContractName
+    )) {
       throw new Error(
         `[ERROR] existingAdminACL or adminACLContractName must be defined at index ${index}`
       );
@@ -77,9 +88,34 @@ async function main() {
   // INPUT VERIFICATION ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
 
+  // in plan mode, the steps below are planned by planning journals instead of
+  // being performed, leaving out steps already journaled
+  const plan = isPlanMode()
+    ? await DeploymentPlan.create({
+        title: deploymentConfigFile,
+        from: deployer.address,
+        provider: ethers.provider,
+      })
+    : undefined;
+
   // Perform the following steps for each to-be-deployed contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
+    plan?.startSection(`${deploymentConfigFile}[${index}]`);
+    const journal = DeploymentJournal.open({
+      inputFileDirectory,
+      deploymentConfigFile,
+      index,
+      deployDetails,
+      provider: ethers.provider,
+      plan,
+    });
+    if (journal.isCompleted) {
+      console.log(
+        `[INFO] Skipping ${journal.key}, already deployed per journal ${journal.journalFile}`
+      );
+      continue;
+    }
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENT BEGINS HERE
@@ -98,12 +134,11 @@ async function main() {
       const adminACLContractFactory = await ethers.getContractFactory(
         deployDetails.adminACLContractName
       );
-      const adminACLContract = await adminACLContractFactory.deploy();
-      await adminACLContract.deployed();
       // update existing AdminACL for use in the rest of the script
-      adminACLContractAddress = adminACLContract.address;
-      console.log(
-        `[INFO] Admin ACL contract ${deployDetails.adminACLContractName} deployed at ${adminACLContractAddress}`
+      adminACLContractAddress = await journal.deploy(
+        "deployAdminACL",
+        deployDetails.adminACLContractName,
+        adminACLContractFactory
       );
       await delay(EXTRA_DELAY_BETWEEN_TX);
     }
@@ -121,12 +156,11 @@ async function main() {
       const coreRegistryContractFactory = await ethers.getContractFactory(
         deployDetails.coreRegistryContractName
       );
-      const coreRegistryContract = await coreRegistryContractFactory.deploy();
-      await coreRegistryContract.deployed();
       // update existing Core Registry for use in the rest of the script
-      coreRegistryAddress = coreRegistryContract.address;
-      console.log(
-        `[INFO] Core Registry contract ${deployDetails.coreRegistryContractName} deployed at ${coreRegistryAddress}`
+      coreRegistryAddress = await journal.deploy(
+        "deployCoreRegistry",
+        deployDetails.coreRegistryContractName,
+        coreRegistryContractFactory
       );
       await delay(EXTRA_DELAY_BETWEEN_TX);
     }
@@ -139,13 +173,11 @@ async function main() {
     const minterFilterFactory = await ethers.getContractFactory(
       deployDetails.minterFilterName
     );
-    const minterFilter = await minterFilterFactory.deploy(
-      ...minterFilterConstructorArgs
-    );
-    await minterFilter.deployed();
-    const minterFilterAddress = minterFilter.address;
-    console.log(
-      `[INFO] ${deployDetails.minterFilterName} deployed at ${minterFilterAddress}`
+    const minterFilterAddress = await journal.deploy(
+      "deployMinterFilter",
+      deployDetails.minterFilterName,
+      minterFilterFactory,
+      minterFilterConstructorArgs
     );
     await delay(EXTRA_DELAY_BETWEEN_TX);
 
@@ -165,32 +197,38 @@ async function main() {
     // VERIFICATION BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    // verify any new adminACL contract
-    if (!deployDetails.existingAdminACL) {
-      await tryVerify(
-        deployDetails.adminACLContractName,
-        adminACLContractAddress,
-        [],
-        networkName
-      );
-    }
-
-    // verify any new core registry contract
-    if (!deployDetails.existingCoreRegistry) {
-      await tryVerify(
-        deployDetails.coreRegistryContractName,
-        coreRegistryAddress,
-        [],
-        networkName
-      );
-    }
-
-    // verify shared minter filter
-    await tryVerify(
-      deployDetails.minterFilterName,
-      minterFilterAddress,
-      minterFilterConstructorArgs,
-      networkName
+    await journal.run(
+      "verify",
+      `verify ${deployDetails.minterFilterName} and any new AdminACL and core registry on Etherscan`,
+      async () => {
+        // verify any new adminACL contract
+        if (!deployDetails.existingAdminACL) {
+          await tryVerify(
+            deployDetails.adminACLContractName,
+            adminACLContractAddress,
+            [],
+            networkName
+          );
+        }
+
+        // verify any new core registry contract
+        if (!deployDetails.existingCoreRegistry) {
+          await tryVerify(
+            deployDetails.coreRegistryContractName,
+            coreRegistryAddress,
+            [],
+            networkName
+          );
+        }
+
+        // verify shared minter filter
+        await tryVerify(
+          deployDetails.minterFilterName,
+          minterFilterAddress,
+          minterFilterConstructorArgs,
+          networkName
+        );
+      }
     );
 
     //////////////////////////////////////////////////////////////////////////////
@@ -201,42 +239,73 @@ async function main() {
     // DEPLOYMENTS.md BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Shared Minter Filter Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.minterFilterName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${minterFilterAddress}#code
-
-**Associated AdminACL contract:** ${adminACLContractAddress}
-
-**Associated CoreRegistry contract:** ${coreRegistryAddress}
-
-**Deployment Args:** ${minterFilterConstructorArgs}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
+    await journal.run(
+      "writeDeploymentSummary",
+      `append a manifest entry to ${MANIFEST_FILE_NAME} and regenerate ${SUMMARY_FILE_NAME} from it in ${inputFileDirectory}`,
+      async () => {
+        const contracts: ManifestEntry["contracts"] = [];
+        const associatedContracts: ManifestEntry["associatedContracts"] = [];
+        if (deployDetails.existingAdminACL) {
+          associatedContracts.push({
+            label: "Associated AdminACL contract",
+            address: adminACLContractAddress,
+          });
+        } else {
+          contracts.push(
+            getDeployedContract(
+              deployDetails.adminACLContractName,
+              journal.getStep("deployAdminACL")
+            )
+          );
+        }
+        if (deployDetails.existingCoreRegistry) {
+          associatedContracts.push({
+            label: "Associated CoreRegistry contract",
+            address: coreRegistryAddress,
+          });
+        } else {
+          contracts.push(
+            getDeployedContract(
+              deployDetails.coreRegistryContractName,
+              journal.getStep("deployCoreRegistry")
+            )
+          );
+        }
+        contracts.push(
+          getDeployedContract(
+            deployDetails.minterFilterName,
+            journal.getStep("deployMinterFilter"),
+            minterFilterConstructorArgs
+          )
+        );
+        writeManifestEntry(inputFileDirectory, {
+          title: "Shared Minter Filter Deployment",
+          network: networkName,
+          environment: deployDetails.environment,
+          deploymentConfigFile,
+          gitCommit: getGitCommit(),
+          deployedAt: new Date().toISOString(),
+          contracts,
+          associatedContracts,
+          notes: [],
+          details: {},
+        });
+        console.log(
+          `[INFO] Deployment details written/appended to ${MANIFEST_FILE_NAME} and ${SUMMARY_FILE_NAME} in ${inputFileDirectory}`
+        );
+      }
     );
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENTS.md ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
+
+    journal.complete();
+  }
+
+  if (plan) {
+    plan.print();
+    return;
   }
 
   console.log(`[INFO] Done!`);
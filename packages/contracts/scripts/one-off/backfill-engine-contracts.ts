@@ -1,21 +1,56 @@
 import { contract, ethers } from "hardhat";
-import contractsQueryResult from "./engine-contracts-staging.json";
+import fs from "fs";
+import path from "path";
+import { getActiveCoreRegistry } from "../util/constants";
+import { getNetworkName } from "../util/utils";
+import {
+  SafeBatchCollector,
+  isSafeBatchSimulationMode,
+} from "../util/safe-batch";
 
 // This script is a one-off script to backfill the core registry with all of the
 // contracts that have been deployed to a network. It is a one-off script that should be ran with:
-// `yarn hardhat run --network <network> scripts/one-off/backfill-engine-contracts.ts`
+// `ENVIRONMENT=<environment> SAFE_BATCH_OUTPUT_DIRECTORY=<directory> yarn hardhat run --network <network> scripts/one-off/backfill-engine-contracts.ts`
+// or, when run directly, with `--environment <environment> --output-directory <directory>`.
+// The contracts are read from the query result `engine-contracts-<environment>.json` next to this script.
 
 // NOTE: Only V3+ core contracts should be registered on the core registry. V1 and V2
 // contracts should not be registered on the core registry, because they do not integrate
 // with the shared minter suite, and the Core Registry acts as the allowlist for the shared minter
 // filter.
 
+// reads `--<name> <value>` from the script's arguments or, since `hardhat run`
+// does not forward arguments to scripts, the `envVar` environment variable
+function getArgument(name: string, envVar: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? process.env[envVar] : process.argv[index + 1];
+  if (!value) {
+    throw new Error(`[ERROR] Missing ${name}, pass --${name} or set ${envVar}`);
+  }
+  return value;
+}
+
 /**
  * Converts a query of our indexed data to a calldata array for the core registry
  * `registerContracts` function. This is a one-off script to backfill the core registry
  * with a subsequent etherscan/multisig call to register all of the contracts.
+ * The call is also written to a Safe Transaction Builder batch file for the
+ * core registry's owner, in the output directory.
  */
 async function buildCoreRegistryTransaction() {
+  // environment of the contracts in the query result
+  const environment = getArgument("environment", "ENVIRONMENT");
+  const outputDirectory = getArgument(
+    "output-directory",
+    "SAFE_BATCH_OUTPUT_DIRECTORY"
+  );
+  const contractsQueryResult: { address: string; contract_type: string }[] =
+    JSON.parse(
+      fs.readFileSync(
+        path.join(__dirname, `engine-contracts-${environment}.json`),
+        "utf8"
+      )
+    );
   // Core registry function inputs for bulk registration
   const outputCalldata = [[], [], []];
   for (let i = 0; i < contractsQueryResult.length; i++) {
@@ -38,6 +73,32 @@ async function buildCoreRegistryTransaction() {
   }
   // output to console
   console.log(JSON.stringify(outputCalldata).replace(/"/g, ""));
+  // output to Safe batch file
+  const coreRegistry = await ethers.getContractAt(
+    "CoreRegistryV1",
+    await getActiveCoreRegistry(await getNetworkName(), environment)
+  );
+  const safeBatches = new SafeBatchCollector({
+    outputDirectory,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    name: "Backfill engine contracts",
+    writeMultiSend: process.env.SAFE_BATCH_MULTISEND === "true",
+  });
+  const batchFile = safeBatches.add(
+    await coreRegistry.owner(),
+    coreRegistry,
+    "registerContracts",
+    outputCalldata
+  );
+  console.log(`[INFO] Safe batch written to ${batchFile}`);
+  if (
+    isSafeBatchSimulationMode() &&
+    !(await safeBatches.simulate(ethers.provider))
+  ) {
+    console.log(
+      `[ACTION] Fix the Safe batch calls that failed simulation before executing the batch.`
+    );
+  }
 }
 
 buildCoreRegistryTransaction()
@@ -12,18 +12,31 @@ Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
 import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { DeploymentJournal } from "../util/deployment-journal";
+import { DeploymentPlan, isPlanMode } from "../util/deployment-plan";
+import {
+  MANIFEST_FILE_NAME,
+  ManifestEntry,
+  SUMMARY_FILE_NAME,
+  getDeployedContract,
+  getGitCommit,
+  writeManifestEntry,
+} from "../util/deployment-manifest";
 import { EXTRA_DELAY_BETWEEN_TX } from "../util/constants";
 
 /**
  * This generic script was created to deploy shared randomizer contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the shared randomizer contract.
+ * Completed steps are journaled next to DEPLOYMENTS.md, so re-running a failed
+ * deployment with the same config file resumes from the failed step.
+ * Run with `--plan` (or DEPLOY_PLAN=true) to only print the deployment plan.
  */
 async function main() {
   // get deployment configuration details
   const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
     await getConfigInputs(
-      "deployments/randomizer/shared-randomizer-deploy-config.template.ts",
+      "sharedRandomizer",
       "shared randomizer deployment config file"
     );
 
@@ -59,12 +72,10 @@ async function main() {
         );
       }
     }
-    if (
-      !(
-        deployDetails.pseudorandomAtomicContractAddress ||
-        deployDetails.pseudorandomAtomicContractName
-      )
-    ) {
+    if (!(
+      deployDetails.pseudorandomAtomicContractAddress ||
+      deployDetails.pseudorandomAtomicContractName
+    )) {
       throw new Error(
         `[ERROR] pseudorandomAtomicContractAddress or pseudorandomAtomicContractName must be defined at index ${index}`
       );
@@ -74,9 +85,34 @@ async function main() {
   // INPUT VERIFICATION ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
 
+  // in plan mode, the steps below are planned by planning journals instead of
+  // being performed, leaving out steps already journaled
+  const plan = isPlanMode()
+    ? await DeploymentPlan.create({
+        title: deploymentConfigFile,
+        from: deployer.address,
+        provider: ethers.provider,
+      })
+    : undefined;
+
   // Perform the following steps for each to-be-deployed randomizer contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
+    plan?.startSection(`${deploymentConfigFile}[${index}]`);
+    const journal = DeploymentJournal.open({
+      inputFileDirectory,
+      deploymentConfigFile,
+      index,
+      deployDetails,
+      provider: ethers.provider,
+      plan,
+    });
+    if (journal.isCompleted) {
+      console.log(
+        `[INFO] Skipping ${journal.key}, already deployed per journal ${journal.journalFile}`
+      );
+      continue;
+    }
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENT BEGINS HERE
@@ -93,14 +129,11 @@ async function main() {
       const pseudorandomAtomicContractFactory = await ethers.getContractFactory(
         deployDetails.pseudorandomAtomicContractName
       );
-      const pseudorandomAtomicContract =
-        await pseudorandomAtomicContractFactory.deploy();
-      await pseudorandomAtomicContract.deployed();
       // update pseudorandomAtomicContractAddress for use in the rest of the script
-      deployDetails.pseudorandomAtomicContractAddress =
-        pseudorandomAtomicContract.address;
-      console.log(
-        `[INFO] pseudorandom atomic contract ${deployDetails.pseudorandomAtomicContractName} deployed at ${deployDetails.pseudorandomAtomicContractAddress}`
+      deployDetails.pseudorandomAtomicContractAddress = await journal.deploy(
+        "deployPseudorandomAtomic",
+        deployDetails.pseudorandomAtomicContractName,
+        pseudorandomAtomicContractFactory
       );
       await delay(EXTRA_DELAY_BETWEEN_TX);
     }
@@ -112,13 +145,11 @@ async function main() {
     const randomizerFactory = await ethers.getContractFactory(
       deployDetails.randomizerName
     );
-    const randomizer = await randomizerFactory.deploy(
-      ...randomizerConstructorArgs
-    );
-    await randomizer.deployed();
-    const randomizerAddress = randomizer.address;
-    console.log(
-      `[INFO] ${deployDetails.randomizerName} deployed at ${randomizerAddress}`
+    const randomizerAddress = await journal.deploy(
+      "deployRandomizer",
+      deployDetails.randomizerName,
+      randomizerFactory,
+      randomizerConstructorArgs
     );
     await delay(EXTRA_DELAY_BETWEEN_TX);
 
@@ -139,11 +170,16 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     // verify shared randomizer (not pseudorandom atomic contract at this time)
-    await tryVerify(
-      deployDetails.randomizerName,
-      randomizerAddress,
-      randomizerConstructorArgs,
-      networkName
+    await journal.run(
+      "verify",
+      `verify ${deployDetails.randomizerName} on Etherscan`,
+      () =>
+        tryVerify(
+          deployDetails.randomizerName,
+          randomizerAddress,
+          randomizerConstructorArgs,
+          networkName
+        )
     );
 
     //////////////////////////////////////////////////////////////////////////////
@@ -154,42 +190,64 @@ async function main() {
     // DEPLOYMENTS.md BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Shared Randomizer Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.randomizerName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${randomizerAddress}#code
-
-**Associated pseudorandom atomic contract:** ${
-      deployDetails.pseudorandomAtomicContractAddress
-    }
-
-**Deployment Args:** ${randomizerConstructorArgs}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
+    await journal.run(
+      "writeDeploymentSummary",
+      `append a manifest entry to ${MANIFEST_FILE_NAME} and regenerate ${SUMMARY_FILE_NAME} from it in ${inputFileDirectory}`,
+      async () => {
+        const contracts = [
+          getDeployedContract(
+            deployDetails.randomizerName,
+            journal.getStep("deployRandomizer"),
+            randomizerConstructorArgs
+          ),
+        ];
+        const associatedContracts: ManifestEntry["associatedContracts"] = [];
+        // record a pseudorandom atomic contract deployed by this deployment as
+        // such
+        const pseudorandomAtomicStep = journal.getStep(
+          "deployPseudorandomAtomic"
+        );
+        if (pseudorandomAtomicStep) {
+          contracts.unshift(
+            getDeployedContract(
+              deployDetails.pseudorandomAtomicContractName,
+              pseudorandomAtomicStep
+            )
+          );
+        } else {
+          associatedContracts.push({
+            label: "Associated pseudorandom atomic contract",
+            address: deployDetails.pseudorandomAtomicContractAddress,
+          });
+        }
+        writeManifestEntry(inputFileDirectory, {
+          title: "Shared Randomizer Deployment",
+          network: networkName,
+          environment: deployDetails.environment,
+          deploymentConfigFile,
+          gitCommit: getGitCommit(),
+          deployedAt: new Date().toISOString(),
+          contracts,
+          associatedContracts,
+          notes: [],
+          details: {},
+        });
+        console.log(
+          `[INFO] Deployment details written/appended to ${MANIFEST_FILE_NAME} and ${SUMMARY_FILE_NAME} in ${inputFileDirectory}`
+        );
+      }
     );
 
     //////////////////////////////////////////////////////////////////////////////
     // DEPLOYMENTS.md ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
+
+    journal.complete();
+  }
+
+  if (plan) {
+    plan.print();
+    return;
   }
 
   console.log(`[INFO] Done!`);
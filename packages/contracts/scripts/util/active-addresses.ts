@@ -0,0 +1,31 @@
+// Per-network address tables for the shared minter suite.
+// @dev the tables are kept in active-addresses.json, which is published with
+// the package so that the @artblocks/sdk package may consume them at runtime.
+import activeAddresses from "./active-addresses.json";
+
+// delegation registry (delegate.cash v1) addresses on supported networks
+// @dev minters validate delegate-vault pairings against this registry
+// note: same address for all networks
+export const DELEGATION_REGISTRY_ADDRESSES: { [network: string]: string } =
+  activeAddresses.DELEGATION_REGISTRY_ADDRESSES;
+
+// delegate.xyz v2 registry addresses on supported networks, queried by the
+// SDK alongside the v1 registry
+// note: same address for all networks
+export const DELEGATION_REGISTRY_V2_ADDRESSES: {
+  [network: string]: string;
+} = activeAddresses.DELEGATION_REGISTRY_V2_ADDRESSES;
+
+// Active shared minter filter contracts being used for the shared minter
+// suite, on each network and environment.
+// format is [network]: { [environment]: [minter filter address] }
+export const ACTIVE_SHARED_MINTER_FILTERS: {
+  [network: string]: { [environment: string]: string };
+} = activeAddresses.ACTIVE_SHARED_MINTER_FILTERS;
+
+// Active shared randomizer contracts being used for the shared minter
+// suite, on each network and environment.
+// format is [network]: { [environment]: [randomizer address] }
+export const ACTIVE_SHARED_RANDOMIZERS: {
+  [network: string]: { [environment: string]: string };
+} = activeAddresses.ACTIVE_SHARED_RANDOMIZERS;
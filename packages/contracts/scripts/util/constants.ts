@@ -1,17 +1,22 @@
 import { ethers } from "hardhat";
+import {
+  DELEGATION_REGISTRY_ADDRESSES,
+  DELEGATION_REGISTRY_V2_ADDRESSES,
+  ACTIVE_SHARED_MINTER_FILTERS,
+  ACTIVE_SHARED_RANDOMIZERS,
+} from "./active-addresses";
 
 // empirically have found adding 10 seconds between txs in scripts is enough to
 // avoid chain reorgs and tx failures
 export const EXTRA_DELAY_BETWEEN_TX = 10000; // ms
 
-// delegation registry addresses on supported networks
-export const DELEGATION_REGISTRY_ADDRESSES = {
-  // note: same address for goerli and mainnet
-  goerli: "0x00000000000076A84feF008CDAbe6409d2FE638B",
-  mainnet: "0x00000000000076A84feF008CDAbe6409d2FE638B",
-  sepolia: "0x00000000000076A84feF008CDAbe6409d2FE638B",
-  arbitrum: "0x00000000000076A84feF008CDAbe6409d2FE638B",
-  "arbitrum-sepolia": "0x00000000000076A84feF008CDAbe6409d2FE638B",
+// per-network address tables are defined in a hardhat-free module so they
+// may be shared with the SDK
+export {
+  DELEGATION_REGISTRY_ADDRESSES,
+  DELEGATION_REGISTRY_V2_ADDRESSES,
+  ACTIVE_SHARED_MINTER_FILTERS,
+  ACTIVE_SHARED_RANDOMIZERS,
 };
 
 // BytecodeStorageReader library addresses on supported networks
@@ -45,32 +50,6 @@ export function getActiveSharedMinterFilter(
   }
   return activeMinterFilter;
 }
-// Active shared minter filter contracts being used for the shared minter
-// suite, on each network and environment.
-// format is [network]: { [environment]: [minter filter address] }
-const ACTIVE_SHARED_MINTER_FILTERS = {
-  goerli: {
-    dev: "0x15B337C090170D56e45124ebd2Ce278a5b6Ff101",
-    staging: "0xD1d9aD8B1B520F19DFE43Cc975b9470840e8b824",
-  },
-  mainnet: {
-    mainnet: "0xa2ccfE293bc2CDD78D8166a82D1e18cD2148122b",
-  },
-  "arbitrum-goerli": {
-    dev: "0xTBD",
-    staging: "0xTBD",
-  },
-  "arbitrum-sepolia": {
-    "arbitrum-staging": "0xa07f47c30C262adcC263A4D44595972c50e04db7",
-  },
-  arbitrum: {
-    mainnet: "0x94560abECb897f359ee1A6Ed0E922315Da11752d",
-  },
-  sepolia: {
-    dev: "0x29e9f09244497503f304FA549d50eFC751D818d2",
-    staging: "0xa07f47c30C262adcC263A4D44595972c50e04db7",
-  },
-};
 
 /**
  * Get active shared randomizer contract address for the given network and
@@ -92,32 +71,6 @@ export function getActiveSharedRandomizer(
   }
   return activeSharedRandomizer;
 }
-// Active shared randomizer contracts being used for the shared minter
-// suite, on each network and environment.
-// format is [network]: { [environment]: [randomizer address] }
-const ACTIVE_SHARED_RANDOMIZERS = {
-  goerli: {
-    dev: "0x16D3b6164E7F05869287CC0fE57f3EA2572178A0",
-    staging: "0xC91CFC2062D8B4Ff53A7c8836CAEf925a7C78c81",
-  },
-  mainnet: {
-    mainnet: "0x13178A7a8A1A9460dBE39f7eCcEbD91B31752b91",
-  },
-  "arbitrum-goerli": {
-    dev: "0xTBD",
-    staging: "0xTBD",
-  },
-  "arbitrum-sepolia": {
-    "arbitrum-staging": "0x28f2D3805652FB5d359486dFfb7D08320D403240",
-  },
-  arbitrum: {
-    mainnet: "0x6a5976391E708fBf918c3786cd1FcbB88732fbc1",
-  },
-  sepolia: {
-    dev: "0xA6F7e62F3B52552f79b2Baa2858a1DB18016c09B",
-    staging: "0x28f2D3805652FB5d359486dFfb7D08320D403240",
-  },
-};
 
 /**
  * Gets active core registry contract address for the given network and
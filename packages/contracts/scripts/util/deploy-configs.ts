@@ -0,0 +1,374 @@
+import path from "path";
+import { z } from "zod";
+
+// @dev this module must not import hardhat, so that deployment configs may be
+// validated without connecting to a network
+
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+const address = z
+  .string()
+  .regex(ADDRESS_REGEX, { message: "must be a 0x-prefixed address" });
+
+// render and platform provider addresses may be the special value "deployer",
+// which is replaced with the deployer wallet's address
+const addressOrDeployer = z
+  .string()
+  .refine(
+    (value) => value.toLowerCase() === "deployer" || ADDRESS_REGEX.test(value),
+    { message: 'must be a 0x-prefixed address or "deployer"' }
+  );
+
+const contractName = z.string().min(1);
+
+const baseDeployConfig = z.object({
+  network: z.string().min(1),
+  // only used for metadata purposes, and to verify NODE_ENV when deploying
+  environment: z.string().min(1),
+});
+
+// require a contract name when no existing contract address is provided
+const requireNameWithoutExisting =
+  (existingKey: string, nameKey: string) =>
+  (config: Record<string, unknown>, ctx: z.RefinementCtx) => {
+    if (!config[existingKey] && !config[nameKey]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [nameKey],
+        message: `required when ${existingKey} is not defined`,
+      });
+    }
+  };
+
+const requireSuperAdminWhenTransferring = (
+  config: { doTransferSuperAdmin?: boolean; newSuperAdminAddress?: string },
+  ctx: z.RefinementCtx
+) => {
+  if (config.doTransferSuperAdmin && !config.newSuperAdminAddress) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["newSuperAdminAddress"],
+      message: "required when doTransferSuperAdmin is true",
+    });
+  }
+};
+
+const engineCoreFields = {
+  existingAdminACL: address.optional(),
+  adminACLContractName: contractName.optional(),
+  genArt721CoreContractName: contractName,
+  tokenName: z.string().min(1),
+  tokenTicker: z.string().min(1),
+  startingProjectId: z.number().int().nonnegative(),
+  autoApproveArtistSplitProposals: z.boolean(),
+  renderProviderAddress: addressOrDeployer,
+  platformProviderAddress: addressOrDeployer,
+  addInitialProject: z.boolean().optional(),
+  doTransferSuperAdmin: z.boolean().optional(),
+  newSuperAdminAddress: address.optional(),
+  renderProviderSplitPercentagePrimary: z
+    .number()
+    .int()
+    .min(0)
+    .max(100)
+    .optional(),
+  renderProviderSplitBPSSecondary: z
+    .number()
+    .int()
+    .min(0)
+    .max(10000)
+    .optional(),
+  defaultVerticalName: z.string().min(1).optional(),
+};
+
+export const sharedRandomizerDeployConfig = baseDeployConfig
+  .extend({
+    randomizerName: contractName,
+    // an existing pseudorandom atomic contract, or the name of one to deploy
+    pseudorandomAtomicContractAddress: address.optional(),
+    pseudorandomAtomicContractName: contractName.optional(),
+  })
+  .strict()
+  .superRefine(
+    requireNameWithoutExisting(
+      "pseudorandomAtomicContractAddress",
+      "pseudorandomAtomicContractName"
+    )
+  );
+
+export const sharedMinterFilterDeployConfig = baseDeployConfig
+  .extend({
+    minterFilterName: contractName,
+    existingAdminACL: address.optional(),
+    adminACLContractName: contractName.optional(),
+    existingCoreRegistry: address.optional(),
+    coreRegistryContractName: contractName.optional(),
+  })
+  .strict()
+  .superRefine(
+    requireNameWithoutExisting("existingAdminACL", "adminACLContractName")
+  )
+  .superRefine(
+    requireNameWithoutExisting(
+      "existingCoreRegistry",
+      "coreRegistryContractName"
+    )
+  );
+
+export const sharedMinterDeployConfig = baseDeployConfig
+  .extend({
+    minterName: contractName,
+    minterFilterAddress: address,
+    // may only be true when deploying from the minter filter's admin wallet
+    approveMinterGlobally: z.boolean().optional(),
+  })
+  .strict();
+
+export const engineSharedSuiteDeployConfig = baseDeployConfig
+  .extend(engineCoreFields)
+  .strict()
+  .superRefine(
+    requireNameWithoutExisting("existingAdminACL", "adminACLContractName")
+  )
+  .superRefine(requireSuperAdminWhenTransferring);
+
+export const flagshipSharedSuiteDeployConfig = baseDeployConfig
+  .extend({
+    tokenName: z.string().min(1),
+    tokenTicker: z.string().min(1),
+    startingProjectId: z.number().int().nonnegative(),
+    addInitialProject: z.boolean().optional(),
+    newSuperAdminAddress: address.optional(),
+    artblocksPrimarySalesAddress: address.optional(),
+    artblocksSecondarySalesAddress: address.optional(),
+  })
+  .strict();
+
+export const legacyEngineDeployConfig = baseDeployConfig
+  .extend({
+    ...engineCoreFields,
+    engineRegistryAddress: address,
+    randomizerContractName: contractName,
+    minterFilterContractName: contractName,
+    minters: z.array(contractName),
+    addInitialToken: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine(
+    requireNameWithoutExisting("existingAdminACL", "adminACLContractName")
+  )
+  .superRefine(requireSuperAdminWhenTransferring);
+
+export const legacyMinterDeployConfig = baseDeployConfig
+  .extend({
+    minterName: contractName,
+    genArt721V3CoreAddress: address,
+    minterFilterAddress: address,
+  })
+  .strict();
+
+export type SharedRandomizerDeployConfig = z.infer<
+  typeof sharedRandomizerDeployConfig
+>;
+export type SharedMinterFilterDeployConfig = z.infer<
+  typeof sharedMinterFilterDeployConfig
+>;
+export type SharedMinterDeployConfig = z.infer<typeof sharedMinterDeployConfig>;
+export type EngineSharedSuiteDeployConfig = z.infer<
+  typeof engineSharedSuiteDeployConfig
+>;
+export type FlagshipSharedSuiteDeployConfig = z.infer<
+  typeof flagshipSharedSuiteDeployConfig
+>;
+export type LegacyEngineDeployConfig = z.infer<typeof legacyEngineDeployConfig>;
+export type LegacyMinterDeployConfig = z.infer<typeof legacyMinterDeployConfig>;
+
+/**
+ * The deployers that read deployment config files, keyed by name. Each
+ * deployer reads the array exported as `exportName` from a config file under
+ * `configDirectory`, validated by `schema`.
+ */
+export const DEPLOYERS = {
+  sharedRandomizer: {
+    script: "scripts/randomizer-deployments/shared-randomizer-deployer.ts",
+    exportName: "deployConfigDetailsArray",
+    configDirectory: "deployments/randomizer",
+    template:
+      "deployments/randomizer/shared-randomizer-deploy-config.template.ts",
+    schema: sharedRandomizerDeployConfig,
+  },
+  sharedMinterFilter: {
+    script:
+      "scripts/minter-filter-deployments/shared-minter-filter-deployer.ts",
+    exportName: "deployConfigDetailsArray",
+    configDirectory: "deployments/minter-filter",
+    template:
+      "deployments/minter-filter/shared-minter-filter-deploy-config.template.ts",
+    schema: sharedMinterFilterDeployConfig,
+  },
+  sharedMinters: {
+    script: "scripts/minter-deployments/shared-minters-deployer.ts",
+    exportName: "deployConfigDetailsArray",
+    configDirectory: "deployments/minters",
+    template: "deployments/minters/shared-minter-deploy-config.template.ts",
+    schema: sharedMinterDeployConfig,
+  },
+  engineSharedSuite: {
+    script: "scripts/engine/V3/generic-engine-shared-suite-deployer.ts",
+    exportName: "deployConfigDetailsArray",
+    configDirectory: "deployments/engine",
+    template: "deployments/engine/deployment-config.template.ts",
+    schema: engineSharedSuiteDeployConfig,
+  },
+  flagshipSharedSuite: {
+    script: "scripts/flagship/generic-flagship-shared-suite-deployer.ts",
+    exportName: "deployConfigDetailsArray",
+    configDirectory: "deployments/flagship",
+    template: "deployments/flagship/V3/deployment-config.template.ts",
+    schema: flagshipSharedSuiteDeployConfig,
+  },
+  // @dev deprecated deployers, still used to record past deployments
+  legacyEngine: {
+    script: "scripts/engine/V3/deprecated/generic-engine-deployer.ts",
+    exportName: "deployDetailsArray",
+    configDirectory: "deployments/engine",
+    template: undefined,
+    schema: legacyEngineDeployConfig,
+  },
+  legacyMinter: {
+    script: "scripts/minter-deployments/V3/generic-minter-deployer-v3core.ts",
+    exportName: "minterDeployDetailsArray",
+    configDirectory: "deployments/engine",
+    template: undefined,
+    schema: legacyMinterDeployConfig,
+  },
+} as const;
+
+export type DeployerName = keyof typeof DEPLOYERS;
+
+/**
+ * The validated config of one deployment, discriminated by deployer.
+ */
+export type DeployConfigDetails<D extends DeployerName> = z.infer<
+  (typeof DEPLOYERS)[D]["schema"]
+>;
+
+/**
+ * Validation failures of a deployment config file, e.g.
+ * `deployConfigDetailsArray[0].minterName: missing required field`.
+ */
+export class DeployConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(configFile: string, issues: string[]) {
+    super(
+      `[ERROR] Invalid deployment config file ${configFile}:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "DeployConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+const formatPath = (exportName: string, issuePath: (string | number)[]) =>
+  issuePath.reduce<string>(
+    (formatted, key) =>
+      typeof key === "number" ? `${formatted}[${key}]` : `${formatted}.${key}`,
+    exportName
+  );
+
+const formatIssue = (exportName: string, issue: z.ZodIssue): string => {
+  const location = formatPath(exportName, issue.path);
+  if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+    return `${location}: unknown key(s) ${issue.keys.join(", ")}`;
+  }
+  if (
+    issue.code === z.ZodIssueCode.invalid_type &&
+    issue.received === z.ZodParsedType.undefined
+  ) {
+    return `${location}: missing required field`;
+  }
+  return `${location}: ${issue.message}`;
+};
+
+const parseExports = <D extends DeployerName>(
+  deployer: D,
+  configModule: Record<string, unknown>
+): { issues: string[]; configs?: DeployConfigDetails<D>[] } => {
+  const { exportName, schema } = DEPLOYERS[deployer];
+  if (!(exportName in configModule)) {
+    const found = Object.keys(configModule).filter((key) => key !== "default");
+    // point to the deployer reading the found export, if any
+    const readers = (Object.keys(DEPLOYERS) as DeployerName[])
+      .filter((name) => found.includes(DEPLOYERS[name].exportName))
+      .map(
+        (name) =>
+          `${DEPLOYERS[name].exportName} is read by ${DEPLOYERS[name].script}`
+      );
+    return {
+      issues: [
+        `expected export ${exportName}, found ${
+          found.length ? found.join(", ") : "no exports"
+        }`,
+        ...readers,
+      ],
+    };
+  }
+  const result = z.array(schema).nonempty().safeParse(configModule[exportName]);
+  if (result.success === false) {
+    return {
+      issues: result.error.issues.map((issue) =>
+        formatIssue(exportName, issue)
+      ),
+    };
+  }
+  return { issues: [], configs: result.data };
+};
+
+/**
+ * Validate the exports of a deployment config file for a deployer.
+ * @param deployer deployer reading the config file
+ * @param configModule exports of the config file
+ * @returns formatted issues, empty if the config file is valid
+ */
+export function validateDeployConfigModule(
+  deployer: DeployerName,
+  configModule: Record<string, unknown>
+): string[] {
+  return parseExports(deployer, configModule).issues;
+}
+
+/**
+ * Parse the exports of a deployment config file for a deployer.
+ * @param deployer deployer reading the config file
+ * @param configModule exports of the config file
+ * @param configFile path of the config file, for error messages
+ * @returns the validated deployment configs
+ * @throws DeployConfigValidationError if the config file is invalid
+ */
+export function parseDeployConfigModule<D extends DeployerName>(
+  deployer: D,
+  configModule: Record<string, unknown>,
+  configFile: string
+): DeployConfigDetails<D>[] {
+  const { issues, configs } = parseExports(deployer, configModule);
+  if (!configs) {
+    throw new DeployConfigValidationError(configFile, issues);
+  }
+  return configs;
+}
+
+/**
+ * Get the deployers that may read a config file, by its directory.
+ * @param configFile path of the config file, relative to the package root
+ * @returns names of the deployers reading configs from the file's directory,
+ * current deployers first
+ */
+export function getDeployersForConfigFile(configFile: string): DeployerName[] {
+  const normalized = configFile.split(path.sep).join("/");
+  return (Object.keys(DEPLOYERS) as DeployerName[]).filter(
+    (deployer) =>
+      normalized.indexOf(`${DEPLOYERS[deployer].configDirectory}/`) === 0
+  );
+}
@@ -0,0 +1,470 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  ContractFactory,
+  ContractReceipt,
+  ContractTransaction,
+  providers,
+} from "ethers";
+import { DeploymentPlan, PlannedCall } from "./deployment-plan";
+import {
+  SafeBatchCollector,
+  SafeBatchedCall,
+  isAdminRevert,
+  isBatchedCall,
+  sendOrBatch,
+} from "./safe-batch";
+
+// @dev this module must not import hardhat, so that it may be used with any
+// provider (e.g. the Hardhat network in tests)
+
+export const JOURNAL_FILE_NAME = "DEPLOYMENT_JOURNAL.json";
+
+export type JournalStep = {
+  // pending steps have sent a transaction that was not yet confirmed, or
+  // added their call to a Safe batch that is left to be executed, and skipped
+  // steps failed an admin or ownership check and are left to be performed
+  // manually
+  status: "pending" | "completed" | "skipped";
+  txHash?: string;
+  // Safe batch file the step's call was added to, and the Safe to execute it
+  safeBatchFile?: string;
+  safeAddress?: string;
+  // block the step's transaction was mined in, once completed
+  blockNumber?: number;
+  // address of the contract deployed by the step, if any
+  address?: string;
+  // any other values the step produced, e.g. an image bucket name
+  outputs?: Record<string, string>;
+  // error the step was skipped for
+  error?: string;
+  updatedAt: string;
+};
+
+export type JournalEntry = {
+  deploymentConfigFile: string;
+  index: number;
+  network: string;
+  environment: string;
+  // hash of the deploy config details the steps were performed for
+  configHash: string;
+  steps: Record<string, JournalStep>;
+  completedAt?: string;
+};
+
+type JournalFile = Record<string, JournalEntry>;
+
+export class DeploymentJournalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentJournalError";
+  }
+}
+
+function hashDeployDetails(deployDetails: object): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(deployDetails))
+    .digest("hex");
+}
+
+function readJournalFile(journalFile: string): JournalFile {
+  if (!fs.existsSync(journalFile)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(journalFile, "utf8"));
+}
+
+/**
+ * Step journal of a single deploy config details entry, persisted as JSON
+ * next to DEPLOYMENTS.md. Every step records its tx hash and any deployed
+ * address as soon as it is known, so re-running a deployer with the same
+ * config skips completed steps and resumes from the first incomplete one.
+ * Steps are identified by name, which must be unique within a deployment.
+ * A journal opened with a plan adds the steps to the plan instead of
+ * performing them, leaving out steps already journaled, and writes nothing.
+ */
+export class DeploymentJournal {
+  readonly journalFile: string;
+  readonly key: string;
+  private entry: JournalEntry;
+  private provider: providers.Provider;
+  private plan?: DeploymentPlan;
+
+  private constructor(
+    journalFile: string,
+    key: string,
+    entry: JournalEntry,
+    provider: providers.Provider,
+    plan?: DeploymentPlan
+  ) {
+    this.journalFile = journalFile;
+    this.key = key;
+    this.entry = entry;
+    this.provider = provider;
+    this.plan = plan;
+  }
+
+  /**
+   * Opens the journal of the deploy config details at `index` of
+   * `deploymentConfigFile`, creating it if it does not exist yet.
+   * @dev throws if the journaled deploy config details were since changed,
+   * because the journaled steps may not apply to the changed config
+   */
+  static open({
+    inputFileDirectory,
+    deploymentConfigFile,
+    index,
+    deployDetails,
+    provider,
+    plan,
+  }: {
+    inputFileDirectory: string;
+    deploymentConfigFile: string;
+    index: number;
+    // @dev fields are optional in the config types inferred without
+    // strictNullChecks, but are required by the config schemas
+    deployDetails: { network?: string; environment?: string };
+    provider: providers.Provider;
+    plan?: DeploymentPlan;
+  }): DeploymentJournal {
+    const journalFile = path.join(inputFileDirectory, JOURNAL_FILE_NAME);
+    const key = `${path.basename(deploymentConfigFile)}[${index}]`;
+    const configHash = hashDeployDetails(deployDetails);
+    let entry = readJournalFile(journalFile)[key];
+    if (entry && entry.configHash !== configHash) {
+      throw new DeploymentJournalError(
+        `[ERROR] Deploy config details ${key} changed since they were journaled in ${journalFile}. Restore them to resume the journaled deployment, or remove ${key} from the journal to start a new deployment.`
+      );
+    }
+    if (!entry) {
+      entry = {
+        deploymentConfigFile,
+        index,
+        network: deployDetails.network,
+        environment: deployDetails.environment,
+        configHash,
+        steps: {},
+      };
+    }
+    const journal = new DeploymentJournal(
+      journalFile,
+      key,
+      entry,
+      provider,
+      plan
+    );
+    if (!plan) {
+      journal.save();
+    }
+    return journal;
+  }
+
+  /**
+   * Whether the journal only plans its steps, without performing them.
+   */
+  get isPlanning(): boolean {
+    return this.plan !== undefined;
+  }
+
+  /**
+   * Whether every step of the deployment was completed by a previous run.
+   */
+  get isCompleted(): boolean {
+    return this.entry.completedAt !== undefined;
+  }
+
+  getStep(name: string): JournalStep | undefined {
+    return this.entry.steps[name];
+  }
+
+  /**
+   * Deploys `contractName` via `factory`, unless a previous run already did.
+   * Returns the address of the deployed contract, or its predicted address
+   * when planning. `libraries` linked by the factory are only planned.
+   */
+  async deploy(
+    name: string,
+    contractName: string,
+    factory: ContractFactory,
+    args: unknown[] = [],
+    libraries: Record<string, string> = {}
+  ): Promise<string> {
+    const step = await this.resume(name);
+    if (step) {
+      return step.address;
+    }
+    if (this.plan) {
+      return this.plan.deploy(name, contractName, factory, args, libraries);
+    }
+    const contract = await this.attempt(name, () => factory.deploy(...args));
+    this.record(name, "pending", { txHash: contract.deployTransaction.hash });
+    const receipt = await this.attempt(name, () =>
+      contract.deployTransaction.wait()
+    );
+    console.log(`[INFO] ${contractName} deployed at ${contract.address}`);
+    return this.record(name, "completed", {
+      txHash: contract.deployTransaction.hash,
+      blockNumber: receipt.blockNumber,
+      address: contract.address,
+    }).address;
+  }
+
+  /**
+   * Sends a transaction, unless a previous run already did. `sendFn` may
+   * resolve to undefined when no transaction is required, in which case the
+   * step is completed without a tx hash, or to a call added to a Safe batch,
+   * in which case the step is left pending until the Safe executes it.
+   * Returns the tx hash of the step, if sent by the deployer wallet.
+   * `call` is the call `sendFn` makes, as planned.
+   */
+  async transact(
+    name: string,
+    call: PlannedCall,
+    sendFn: () => Promise<ContractTransaction | SafeBatchedCall | undefined>
+  ) {
+    const step = await this.resume(name);
+    if (step) {
+      return step.txHash;
+    }
+    if (this.plan) {
+      await this.planCall(name, call);
+      return undefined;
+    }
+    return this.send(name, sendFn, (fn) => this.attempt(name, fn));
+  }
+
+  /**
+   * Makes `call` from its contract's signer like `transact`, adding it to the
+   * batch of `call.safe` instead if the signer fails an admin or ownership
+   * check of the call.
+   */
+  async transactOrBatch(
+    name: string,
+    call: PlannedCall,
+    safeBatches: SafeBatchCollector
+  ) {
+    return this.transact(name, call, () =>
+      sendOrBatch(
+        safeBatches,
+        call.safe,
+        call.contract,
+        call.functionName,
+        call.args
+      )
+    );
+  }
+
+  /**
+   * Sends a transaction like `transact`, but skips the step instead of
+   * stopping the deployment if the deployer wallet fails an admin or
+   * ownership check of the call. Skipped steps are journaled and not retried
+   * by later runs; any other failure stops the deployment like `transact`.
+   * Returns whether the step was completed, rather than skipped or batched.
+   */
+  async transactOrSkip(
+    name: string,
+    call: PlannedCall,
+    sendFn: () => Promise<ContractTransaction | SafeBatchedCall | undefined>
+  ): Promise<boolean> {
+    const step = await this.resume(name);
+    if (step) {
+      return step.status === "completed";
+    }
+    if (this.plan) {
+      await this.planCall(name, call);
+      return false;
+    }
+    const stepBefore = this.entry.steps[name];
+    try {
+      await this.send(name, sendFn, (fn) => fn());
+      return this.entry.steps[name].status === "completed";
+    } catch (error) {
+      // @dev a sent transaction stays pending, for later runs to confirm
+      const sent = this.entry.steps[name] !== stepBefore;
+      if (sent || !isAdminRevert(error)) {
+        this.logFailure(name);
+        throw error;
+      }
+      console.log(
+        `[ACTION] Deployer wallet failed an admin or ownership check of step ${name}, which was skipped. It must be performed manually.`
+      );
+      this.record(name, "skipped", { error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Performs an off-chain step, unless a previous run already did. Returns
+   * the outputs of the step, which are journaled for later runs, or no
+   * outputs when planning. `description` describes the step in plans.
+   */
+  async run<T extends Record<string, string>>(
+    name: string,
+    description: string,
+    runFn: () => Promise<T | void>
+  ): Promise<T> {
+    const step = await this.resume(name);
+    if (step) {
+      return (step.outputs || {}) as T;
+    }
+    if (this.plan) {
+      this.plan.offChain(name, description);
+      return {} as T;
+    }
+    const outputs = (await this.attempt(name, runFn)) || ({} as T);
+    this.record(name, "completed", { outputs });
+    return outputs;
+  }
+
+  /**
+   * Marks the deployment as completed, so that later runs of the same
+   * config skip it entirely.
+   */
+  complete() {
+    if (this.plan) {
+      return;
+    }
+    this.entry.completedAt = new Date().toISOString();
+    this.save();
+  }
+
+  // sends the step's transaction and waits for it, journaling its tx hash as
+  // soon as it is sent
+  private async send(
+    name: string,
+    sendFn: () => Promise<ContractTransaction | SafeBatchedCall | undefined>,
+    attemptFn: <T>(fn: () => Promise<T>) => Promise<T>
+  ): Promise<string | undefined> {
+    const result = await attemptFn(sendFn);
+    if (isBatchedCall(result)) {
+      this.record(name, "pending", {
+        safeBatchFile: result.batchFile,
+        safeAddress: result.safeAddress,
+      });
+      return undefined;
+    }
+    const tx = result;
+    let receipt: ContractReceipt | undefined;
+    if (tx) {
+      this.record(name, "pending", { txHash: tx.hash });
+      receipt = await attemptFn(() => tx.wait());
+    }
+    return this.record(name, "completed", {
+      txHash: tx?.hash,
+      blockNumber: receipt?.blockNumber,
+    }).txHash;
+  }
+
+  private async planCall(name: string, call: PlannedCall) {
+    await this.plan.call(
+      name,
+      call.contractName,
+      call.contract,
+      call.functionName,
+      call.args,
+      { safe: call.safe, condition: call.condition }
+    );
+  }
+
+  // returns the step if a previous run completed, skipped or batched it,
+  // confirming any pending transaction first
+  private async resume(name: string): Promise<JournalStep | undefined> {
+    let step = this.entry.steps[name];
+    if (step?.status === "pending" && !step.safeBatchFile) {
+      step = await this.confirm(name, step);
+    }
+    let reason: string;
+    if (step?.status === "completed") {
+      reason = `completed per journal ${this.journalFile}${
+        step.txHash ? ` in tx ${step.txHash}` : ""
+      }${step.address ? `, deployed at ${step.address}` : ""}`;
+    } else if (step?.status === "skipped") {
+      reason = `skipped per journal ${this.journalFile}. It must be performed manually.`;
+    } else if (step?.safeBatchFile) {
+      // @dev batched calls are not batched again, the Safe executes them
+      reason = `pending execution of Safe batch ${step.safeBatchFile} by ${step.safeAddress} per journal ${this.journalFile}`;
+    } else {
+      return undefined;
+    }
+    if (this.plan) {
+      this.plan.journaled(name, reason);
+    } else {
+      console.log(`[INFO] Skipping step ${name}, ${reason}`);
+    }
+    return step;
+  }
+
+  // returns the pending step completed once its transaction is mined, or
+  // undefined if the transaction failed or was dropped, to be sent again
+  // @dev plans do not wait for pending transactions, nor journal them
+  private async confirm(
+    name: string,
+    step: JournalStep
+  ): Promise<JournalStep | undefined> {
+    // @dev a pending transaction unknown to the provider was dropped, and is
+    // sent again
+    const tx = await this.provider.getTransaction(step.txHash);
+    if (!tx) {
+      return undefined;
+    }
+    let receipt: providers.TransactionReceipt | null;
+    if (this.plan) {
+      receipt = await this.provider.getTransactionReceipt(step.txHash);
+    } else {
+      console.log(
+        `[INFO] Waiting for journaled transaction ${step.txHash} of step ${name}...`
+      );
+      receipt = await this.provider.waitForTransaction(step.txHash);
+    }
+    if (receipt?.status !== 1) {
+      return undefined;
+    }
+    const details = {
+      txHash: step.txHash,
+      blockNumber: receipt.blockNumber,
+      address: receipt.contractAddress || undefined,
+    };
+    return this.plan
+      ? { ...step, status: "completed", ...details }
+      : this.record(name, "completed", details);
+  }
+
+  private async attempt<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      this.logFailure(name);
+      throw error;
+    }
+  }
+
+  private logFailure(name: string) {
+    console.log(
+      `[ERROR] Step ${name} failed. Completed steps are journaled in ${this.journalFile}; re-run with the same deployment config file to resume from this step.`
+    );
+  }
+
+  private record(
+    name: string,
+    status: JournalStep["status"],
+    details: Omit<JournalStep, "status" | "updatedAt">
+  ): JournalStep {
+    const step: JournalStep = {
+      status,
+      ...details,
+      updatedAt: new Date().toISOString(),
+    };
+    this.entry.steps[name] = step;
+    this.save();
+    return step;
+  }
+
+  private save() {
+    // @dev re-read the file, to keep entries of other deploy config details
+    const journal = readJournalFile(this.journalFile);
+    journal[this.key] = this.entry;
+    fs.writeFileSync(this.journalFile, `${JSON.stringify(journal, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,245 @@
+import { execSync } from "child_process";
+import fs from "fs";
+import path from "path";
+
+import { JournalStep } from "./deployment-journal";
+
+// @dev this module must not import hardhat, so that manifests may be read and
+// indexed without a network
+
+export const MANIFEST_FILE_NAME = "DEPLOYMENTS.json";
+export const SUMMARY_FILE_NAME = "DEPLOYMENTS.md";
+
+// marks the start of the section of DEPLOYMENTS.md rendered from the manifest
+const GENERATED_SECTION_MARKER = `<!-- Generated from ${MANIFEST_FILE_NAME}, do not edit below this line -->\n`;
+
+// block explorers of the networks deployed to, keyed by network name
+const EXPLORER_URLS: Record<string, string> = {
+  mainnet: "https://etherscan.io",
+  goerli: "https://goerli.etherscan.io",
+  sepolia: "https://sepolia.etherscan.io",
+  arbitrum: "https://arbiscan.io",
+  "arbitrum-goerli": "https://goerli.arbiscan.io",
+  "arbitrum-sepolia": "https://sepolia.arbiscan.io",
+};
+
+export type ManifestContract = {
+  contractName: string;
+  address: string;
+  constructorArgs: (string | number | boolean)[];
+  // linked library addresses, keyed by library name
+  libraries: Record<string, string>;
+  txHash?: string;
+  blockNumber?: number;
+};
+
+export type ManifestEntry = {
+  // heading of the entry in DEPLOYMENTS.md
+  title: string;
+  network: string;
+  environment: string;
+  deploymentConfigFile: string;
+  gitCommit: string;
+  deployedAt: string;
+  // contracts deployed by the deployment
+  contracts: ManifestContract[];
+  // pre-existing contracts the deployment uses, e.g. a shared minter filter
+  associatedContracts: { label: string; address: string }[];
+  // Markdown-only notes and detail sections, e.g. a "Metadata" section
+  notes: string[];
+  details: Record<string, Record<string, string | number | boolean>>;
+};
+
+export type DeploymentsIndexEntry = ManifestContract & {
+  network: string;
+  environment: string;
+  deploymentConfigFile: string;
+  manifestFile: string;
+  gitCommit: string;
+  deployedAt: string;
+};
+
+/**
+ * Returns the git commit deployments are made from, suffixed with `-dirty` if
+ * the working tree has uncommitted changes.
+ */
+export function getGitCommit(): string {
+  try {
+    const commit = execSync("git rev-parse HEAD", { cwd: __dirname })
+      .toString()
+      .trim();
+    const isDirty =
+      execSync("git status --porcelain", { cwd: __dirname })
+        .toString()
+        .trim() !== "";
+    return isDirty ? `${commit}-dirty` : commit;
+  } catch (error) {
+    return "unknown";
+  }
+}
+
+/**
+ * Returns the block explorer URL of `address` (or of a transaction, if `type`
+ * is "tx") on `network`, or undefined if no block explorer is known.
+ */
+export function getExplorerUrl(
+  network: string,
+  addressOrTxHash: string,
+  type: "address" | "tx" = "address"
+): string | undefined {
+  const explorerUrl = EXPLORER_URLS[network];
+  if (!explorerUrl) {
+    return undefined;
+  }
+  return `${explorerUrl}/${type}/${addressOrTxHash}${
+    type === "address" ? "#code" : ""
+  }`;
+}
+
+/**
+ * Returns the manifest record of a contract deployed by a journaled step.
+ */
+export function getDeployedContract(
+  contractName: string,
+  step: JournalStep,
+  constructorArgs: ManifestContract["constructorArgs"] = [],
+  libraries: ManifestContract["libraries"] = {}
+): ManifestContract {
+  return {
+    contractName,
+    address: step.address,
+    constructorArgs,
+    libraries,
+    txHash: step.txHash,
+    blockNumber: step.blockNumber,
+  };
+}
+
+export function readManifest(manifestFile: string): ManifestEntry[] {
+  if (!fs.existsSync(manifestFile)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(manifestFile, "utf8"));
+}
+
+/**
+ * Renders a manifest entry as its section of DEPLOYMENTS.md.
+ */
+export function renderManifestEntry(entry: ManifestEntry): string {
+  const link = (address: string) =>
+    getExplorerUrl(entry.network, address) || address;
+  const sections = [
+    `# ${entry.title}`,
+    `Date: ${entry.deployedAt}`,
+    `## **Network:** ${entry.network}`,
+    `## **Environment:** ${entry.environment}`,
+    `**Deployment Input File:** \`${entry.deploymentConfigFile}\``,
+    `**Git Commit:** ${entry.gitCommit}`,
+  ];
+  entry.contracts.forEach((contract) => {
+    const lines = [`**${contract.contractName}:** ${link(contract.address)}`];
+    if (contract.txHash) {
+      lines.push(
+        `- **Deployment Tx:** ${
+          getExplorerUrl(entry.network, contract.txHash, "tx") ||
+          contract.txHash
+        } (block ${contract.blockNumber})`
+      );
+    }
+    if (contract.constructorArgs.length) {
+      lines.push(
+        `- **Deployment Args:** ${contract.constructorArgs.join(", ")}`
+      );
+    }
+    Object.entries(contract.libraries).forEach(([library, address]) =>
+      lines.push(`- **Linked ${library} Library:** ${address}`)
+    );
+    sections.push(lines.join("\n"));
+  });
+  entry.associatedContracts.forEach(({ label, address }) =>
+    sections.push(`**${label}:** ${link(address)}`)
+  );
+  sections.push(...entry.notes);
+  Object.entries(entry.details).forEach(([heading, details]) =>
+    sections.push(
+      `**${heading}**`,
+      Object.entries(details)
+        .map(([key, value]) => `- **${key}:** ${value}`)
+        .join("\n")
+    )
+  );
+  sections.push("---");
+  return `\n${sections.join("\n\n")}\n\n`;
+}
+
+/**
+ * Renders DEPLOYMENTS.md from every entry of a manifest, below `preamble`.
+ */
+export function renderManifest(
+  manifest: ManifestEntry[],
+  preamble = ""
+): string {
+  return `${preamble}${GENERATED_SECTION_MARKER}${manifest
+    .map(renderManifestEntry)
+    .join("")}`;
+}
+
+/**
+ * Appends `entry` to the manifest in `inputFileDirectory`, and regenerates
+ * DEPLOYMENTS.md from the whole manifest.
+ * @dev content of DEPLOYMENTS.md above the generated section, e.g. deployments
+ * made before manifests were written, is kept as is
+ */
+export function writeManifestEntry(
+  inputFileDirectory: string,
+  entry: ManifestEntry
+) {
+  const manifestFile = path.join(inputFileDirectory, MANIFEST_FILE_NAME);
+  const manifest = readManifest(manifestFile);
+  manifest.push(entry);
+  fs.writeFileSync(manifestFile, `${JSON.stringify(manifest, null, 2)}\n`);
+  const summaryFile = path.join(inputFileDirectory, SUMMARY_FILE_NAME);
+  const summary = fs.existsSync(summaryFile)
+    ? fs.readFileSync(summaryFile, "utf8")
+    : "";
+  const markerIndex = summary.indexOf(GENERATED_SECTION_MARKER);
+  fs.writeFileSync(
+    summaryFile,
+    renderManifest(
+      manifest,
+      markerIndex === -1 ? summary : summary.slice(0, markerIndex)
+    )
+  );
+}
+
+/**
+ * Builds the repo-wide index of deployed contracts from manifests, keyed by
+ * the manifest file paths, ordered by network, environment and deployment
+ * date, then by deployment order.
+ */
+export function buildDeploymentsIndex(
+  manifests: Record<string, ManifestEntry[]>
+): DeploymentsIndexEntry[] {
+  const index: DeploymentsIndexEntry[] = [];
+  Object.entries(manifests).forEach(([manifestFile, entries]) =>
+    entries.forEach((entry) =>
+      entry.contracts.forEach((contract) =>
+        index.push({
+          ...contract,
+          network: entry.network,
+          environment: entry.environment,
+          deploymentConfigFile: entry.deploymentConfigFile,
+          manifestFile,
+          gitCommit: entry.gitCommit,
+          deployedAt: entry.deployedAt,
+        })
+      )
+    )
+  );
+  return index.sort(
+    (a, b) =>
+      a.network.localeCompare(b.network) ||
+      a.environment.localeCompare(b.environment) ||
+      a.deployedAt.localeCompare(b.deployedAt)
+  );
+}
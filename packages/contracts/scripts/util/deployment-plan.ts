@@ -0,0 +1,329 @@
+import {
+  BaseContract,
+  BigNumber,
+  ContractFactory,
+  providers,
+  utils,
+} from "ethers";
+import { isAdminRevert } from "./safe-batch";
+
+// @dev this module must not import hardhat, so that plans may be built
+// against any provider
+
+/**
+ * Whether a deployer was asked to only print its deployment plan, via the
+ * `--plan` argument or, since `hardhat run` does not forward arguments to
+ * scripts, the `DEPLOY_PLAN=true` environment variable.
+ */
+export function isPlanMode(): boolean {
+  return process.argv.includes("--plan") || process.env.DEPLOY_PLAN === "true";
+}
+
+/**
+ * Placeholder for an argument that is only known once earlier steps of a
+ * deployment are sent, e.g. a value read from a contract deployed by the
+ * deployment.
+ */
+export class PlannedValue {
+  readonly description: string;
+
+  constructor(description: string) {
+    this.description = description;
+  }
+
+  toString(): string {
+    return `<${this.description}>`;
+  }
+}
+
+// call of a deployment step, as planned
+export type PlannedCall = {
+  contractName: string;
+  contract: BaseContract;
+  functionName: string;
+  args: unknown[];
+  // Safe the call is batched for if the deployer wallet cannot make it
+  safe?: string;
+  // when the call is skipped, if ever
+  condition?: string;
+};
+
+export type PlanStep = {
+  // journaled steps were already performed by a previous run
+  kind: "deploy" | "call" | "off-chain" | "journaled";
+  // deploy config details the step belongs to
+  section: string;
+  name: string;
+  description: string;
+  // decoded arguments, as `name: value` lines
+  args: string[];
+  // estimated gas of the deployer wallet's transaction, if any
+  gas?: BigNumber;
+  note?: string;
+};
+
+function formatArg(value: unknown): string {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map(formatArg));
+  }
+  return String(value);
+}
+
+function decodeArgs(inputs: utils.ParamType[], args: unknown[]): string[] {
+  return inputs.map(
+    (input, index) =>
+      `${input.name || `arg${index}`}: ${formatArg(args[index])}`
+  );
+}
+
+function hasPlannedValue(args: unknown[]): boolean {
+  return args.some((arg) =>
+    Array.isArray(arg) ? hasPlannedValue(arg) : arg instanceof PlannedValue
+  );
+}
+
+function revertReason(error: unknown): string {
+  return (error as { reason?: string }).reason || (error as Error).message;
+}
+
+/**
+ * Ordered plan of the contract deployments, calls and off-chain side effects
+ * of a deployment, built without sending anything. Contract addresses are
+ * predicted from the deployer wallet's nonce, and gas is estimated for every
+ * transaction whose target and arguments are already known on chain.
+ * Deployers build their plan by performing their steps with a planning
+ * `DeploymentJournal`, so steps completed by a previous run are not planned.
+ */
+export class DeploymentPlan {
+  readonly title: string;
+  readonly from: string;
+  readonly steps: PlanStep[] = [];
+  private provider: providers.Provider;
+  private gasPrice: BigNumber;
+  private nonce: number;
+  private section = "";
+  // lowercase addresses of the contracts deployed by the plan
+  private plannedAddresses = new Set<string>();
+
+  private constructor(
+    title: string,
+    from: string,
+    provider: providers.Provider,
+    gasPrice: BigNumber,
+    nonce: number
+  ) {
+    this.title = title;
+    this.from = from;
+    this.provider = provider;
+    this.gasPrice = gasPrice;
+    this.nonce = nonce;
+  }
+
+  static async create({
+    title,
+    from,
+    provider,
+  }: {
+    title: string;
+    from: string;
+    provider: providers.Provider;
+  }): Promise<DeploymentPlan> {
+    const [gasPrice, nonce] = await Promise.all([
+      provider.getGasPrice(),
+      provider.getTransactionCount(from, "pending"),
+    ]);
+    return new DeploymentPlan(title, from, provider, gasPrice, nonce);
+  }
+
+  /**
+   * Starts a new section of the plan, e.g. for the next deploy config details
+   * of a config file.
+   */
+  startSection(section: string) {
+    this.section = section;
+  }
+
+  /**
+   * Plans the deployment of `contractName` by the deployer wallet, returning
+   * the predicted address of the deployed contract.
+   */
+  async deploy(
+    name: string,
+    contractName: string,
+    factory: ContractFactory,
+    args: unknown[],
+    libraries: Record<string, string> = {}
+  ): Promise<string> {
+    const address = utils.getContractAddress({
+      from: this.from,
+      nonce: this.nonce++,
+    });
+    this.plannedAddresses.add(address.toLowerCase());
+    const linking = Object.entries(libraries)
+      .map(([library, libraryAddress]) => `${library} at ${libraryAddress}`)
+      .join(", ");
+    const step = this.addStep({
+      kind: "deploy",
+      name,
+      description: `deploy ${contractName} at ${address} (predicted)${
+        linking ? `, linking ${linking}` : ""
+      }`,
+      args: decodeArgs(factory.interface.deploy.inputs, args),
+    });
+    if (hasPlannedValue(args)) {
+      step.note = "gas not estimated, arguments depend on earlier steps";
+      return address;
+    }
+    try {
+      step.gas = await this.provider.estimateGas({
+        from: this.from,
+        data: factory.getDeployTransaction(...args).data,
+      });
+    } catch (error) {
+      step.note = this.referencesPlannedAddress(args)
+        ? "gas not estimated, the constructor depends on contracts deployed by earlier steps"
+        : `gas estimation failed, the deployment would revert: ${revertReason(
+            error
+          )}`;
+    }
+    return address;
+  }
+
+  /**
+   * Plans a call of `functionName` on `contract` by the deployer wallet.
+   * Calls failing an admin or ownership check for the deployer wallet are
+   * planned as batched for `options.safe`, if given, as done by `sendOrBatch`.
+   * `options.condition` describes when the call is skipped, if ever.
+   */
+  async call(
+    name: string,
+    contractName: string,
+    contract: BaseContract,
+    functionName: string,
+    args: unknown[],
+    options: { safe?: string; condition?: string } = {}
+  ) {
+    const fragment = contract.interface.getFunction(functionName);
+    const step = this.addStep({
+      kind: "call",
+      name,
+      description: `call ${contractName}.${fragment.name} on ${contract.address}${
+        options.condition ? `, ${options.condition}` : ""
+      }`,
+      args: decodeArgs(fragment.inputs, args),
+    });
+    const batchedIfReverting = options.safe
+      ? `; batched for Safe ${options.safe} if the deployer wallet cannot call it`
+      : "";
+    if (hasPlannedValue(args) || this.isPlannedAddress(contract.address)) {
+      step.note = `gas not estimated, the call depends on earlier steps${batchedIfReverting}`;
+      this.nonce++;
+      return;
+    }
+    try {
+      step.gas = await this.provider.estimateGas({
+        from: this.from,
+        to: contract.address,
+        data: contract.interface.encodeFunctionData(fragment, args),
+      });
+      this.nonce++;
+    } catch (error) {
+      // @dev calls taking contracts deployed by the plan may only revert
+      // because those contracts are not deployed yet
+      if (this.referencesPlannedAddress(args)) {
+        step.note = `gas not estimated, the call depends on contracts deployed by earlier steps${batchedIfReverting}`;
+        this.nonce++;
+      } else if (options.safe && isAdminRevert(error)) {
+        step.note = `deployer wallet cannot call it, batched for Safe ${options.safe}`;
+      } else {
+        step.note = `gas estimation failed, the call would revert: ${revertReason(
+          error
+        )}`;
+        this.nonce++;
+      }
+    }
+  }
+
+  /**
+   * Plans an off-chain side effect of the deployment, e.g. an S3 bucket or a
+   * Hasura upsert.
+   */
+  offChain(name: string, description: string) {
+    this.addStep({ kind: "off-chain", name, description, args: [] });
+  }
+
+  /**
+   * Lists a step a previous run of the deployment already performed per its
+   * journal, which is not performed again.
+   */
+  journaled(name: string, description: string) {
+    this.addStep({ kind: "journaled", name, description, args: [] });
+  }
+
+  print() {
+    console.log(`[INFO] Deployment plan for ${this.title}. Nothing was sent.`);
+    console.log(
+      `[INFO] Deployer wallet: ${this.from}, gas price: ${utils.formatUnits(
+        this.gasPrice,
+        "gwei"
+      )} gwei`
+    );
+    let section: string;
+    this.steps.forEach((step, index) => {
+      if (step.section !== section) {
+        section = step.section;
+        console.log(`[INFO] ${section}`);
+      }
+      console.log(
+        `  ${index + 1}. [${step.kind}] ${step.name}: ${step.description}`
+      );
+      step.args.forEach((arg) => console.log(`       ${arg}`));
+      if (step.gas) {
+        console.log(
+          `       gas: ${step.gas.toString()} (${this.formatCost(step.gas)})`
+        );
+      }
+      if (step.note) {
+        console.log(`       ${step.note}`);
+      }
+    });
+    const transactions = this.steps.filter(
+      (step) => step.kind === "deploy" || step.kind === "call"
+    );
+    const estimated = transactions.filter((step) => step.gas);
+    const totalGas = estimated.reduce(
+      (total, step) => total.add(step.gas),
+      BigNumber.from(0)
+    );
+    console.log(
+      `[INFO] Estimated total: ${totalGas.toString()} gas (${this.formatCost(
+        totalGas
+      )}) for ${estimated.length} of ${transactions.length} planned transactions`
+    );
+  }
+
+  private isPlannedAddress(value: unknown): boolean {
+    return (
+      typeof value === "string" &&
+      this.plannedAddresses.has(value.toLowerCase())
+    );
+  }
+
+  private referencesPlannedAddress(args: unknown[]): boolean {
+    return args.some((arg) =>
+      Array.isArray(arg)
+        ? this.referencesPlannedAddress(arg)
+        : this.isPlannedAddress(arg)
+    );
+  }
+
+  private addStep(step: Omit<PlanStep, "section">): PlanStep {
+    const planStep = { ...step, section: this.section };
+    this.steps.push(planStep);
+    return planStep;
+  }
+
+  private formatCost(gas: BigNumber): string {
+    return `${utils.formatEther(gas.mul(this.gasPrice))} ETH`;
+  }
+}
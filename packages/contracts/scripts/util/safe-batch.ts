@@ -0,0 +1,385 @@
+import fs from "fs";
+import path from "path";
+import {
+  BaseContract,
+  BigNumber,
+  ContractTransaction,
+  providers,
+  utils,
+} from "ethers";
+
+// @dev this module must not import hardhat, so that batches may be built and
+// simulated against any provider (e.g. the Hardhat network in tests)
+
+// Safe MultiSendCallOnly v1.3.0, deployed at the same address on all networks
+// supported by the Safe Transaction Builder
+export const MULTI_SEND_CALL_ONLY_ADDRESS =
+  "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D";
+
+// Safe operation of a MultiSend payload, which is delegatecalled by the Safe
+const DELEGATE_CALL_OPERATION = 1;
+
+const MULTI_SEND_INTERFACE = new utils.Interface([
+  "function multiSend(bytes transactions)",
+]);
+
+// Safe v1.3.0 StorageAccessible, which delegatecalls a contract from the Safe
+// and always reverts, with whether the delegatecall succeeded followed by the
+// length and bytes of its return data
+const SAFE_SIMULATION_INTERFACE = new utils.Interface([
+  "function simulateAndRevert(address targetContract, bytes calldataPayload)",
+]);
+
+// revert reasons of the admin and ownership checks of the contracts configured
+// by the deployers, which are the only reverts whose calls are batched
+export const ADMIN_REVERT_REASONS = [
+  "Only Admin ACL allowed",
+  "Only Core AdminACL allowed",
+  "Only superAdmin",
+  "Ownable: caller is not the owner",
+];
+
+/**
+ * Whether a deployer was asked to simulate its Safe batches once written, via
+ * the `--simulate-safe-batches` argument or, since `hardhat run` does not
+ * forward arguments to scripts, the `SAFE_BATCH_SIMULATE=true` environment
+ * variable.
+ */
+export function isSafeBatchSimulationMode(): boolean {
+  return (
+    process.argv.includes("--simulate-safe-batches") ||
+    process.env.SAFE_BATCH_SIMULATE === "true"
+  );
+}
+
+/**
+ * Whether `error` is the revert of an admin or ownership check, i.e. the call
+ * reverted because of its sender.
+ */
+export function isAdminRevert(error: unknown): boolean {
+  const { reason, message } = error as { reason?: string; message?: string };
+  return ADMIN_REVERT_REASONS.some(
+    (adminReason) =>
+      reason?.includes(adminReason) || message?.includes(adminReason)
+  );
+}
+
+export type SafeBatchTransaction = {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: {
+    inputs: { internalType: string; name: string; type: string }[];
+    name: string;
+    payable: boolean;
+  };
+  contractInputsValues: Record<string, string>;
+};
+
+// Safe Transaction Builder batch file format, which may be loaded via the
+// Transaction Builder's drag and drop area
+export type SafeTransactionBuilderBatch = {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+};
+
+// call added to the batch of a Safe instead of being sent
+export type SafeBatchedCall = {
+  safeAddress: string;
+  batchFile: string;
+};
+
+// single transaction executing every call of a batch via MultiSend
+export type SafeMultiSendPayload = {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+};
+
+// Transaction Builder input values are strings, with arrays JSON-encoded
+function formatInputValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map(formatInputValue));
+  }
+  return value.toString();
+}
+
+// Transaction Builder inputs are keyed by name, so unnamed inputs are named by
+// their position
+function inputName(input: utils.ParamType, index: number): string {
+  return input.name || `arg${index}`;
+}
+
+function encodeBatchTransaction(
+  contract: BaseContract,
+  functionName: string,
+  args: unknown[]
+): SafeBatchTransaction {
+  const fragment = contract.interface.getFunction(functionName);
+  return {
+    to: contract.address,
+    value: "0",
+    data: contract.interface.encodeFunctionData(fragment, args),
+    contractMethod: {
+      inputs: fragment.inputs.map((input, index) => ({
+        internalType: input.type,
+        name: inputName(input, index),
+        type: input.type,
+      })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues: fragment.inputs.reduce(
+      (values, input, index) => ({
+        ...values,
+        [inputName(input, index)]: formatInputValue(args[index]),
+      }),
+      {}
+    ),
+  };
+}
+
+/**
+ * Encodes the calls of a batch as a single MultiSend transaction, to be
+ * executed by a Safe via delegatecall to `multiSendAddress`.
+ */
+export function encodeMultiSend(
+  batch: SafeTransactionBuilderBatch,
+  multiSendAddress: string = MULTI_SEND_CALL_ONLY_ADDRESS
+): SafeMultiSendPayload {
+  const transactions = utils.hexConcat(
+    batch.transactions.map((transaction) =>
+      utils.solidityPack(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [
+          0, // call operation
+          transaction.to,
+          transaction.value,
+          utils.hexDataLength(transaction.data),
+          transaction.data,
+        ]
+      )
+    )
+  );
+  return {
+    to: multiSendAddress,
+    value: "0",
+    data: MULTI_SEND_INTERFACE.encodeFunctionData("multiSend", [transactions]),
+    operation: DELEGATE_CALL_OPERATION,
+  };
+}
+
+/**
+ * Collects calls the deployer wallet cannot make, grouped by the Safe that
+ * must make them. Every Safe's batch is written to a Safe Transaction Builder
+ * batch file in `outputDirectory` as soon as a call is added, and optionally
+ * to a MultiSend payload file, so batches survive a failed deployment.
+ */
+export class SafeBatchCollector {
+  readonly outputDirectory: string;
+  private chainId: number;
+  private name: string;
+  private writeMultiSend: boolean;
+  private createdAt = Date.now();
+  private batches: Record<string, SafeTransactionBuilderBatch> = {};
+
+  constructor({
+    outputDirectory,
+    chainId,
+    name,
+    writeMultiSend = false,
+  }: {
+    outputDirectory: string;
+    chainId: number;
+    name: string;
+    writeMultiSend?: boolean;
+  }) {
+    this.outputDirectory = outputDirectory;
+    this.chainId = chainId;
+    this.name = name;
+    this.writeMultiSend = writeMultiSend;
+  }
+
+  get isEmpty(): boolean {
+    return Object.keys(this.batches).length === 0;
+  }
+
+  getBatch(safeAddress: string): SafeTransactionBuilderBatch | undefined {
+    return this.batches[utils.getAddress(safeAddress)];
+  }
+
+  /**
+   * Returns the path of the batch file of `safeAddress`.
+   */
+  getBatchFile(safeAddress: string): string {
+    return path.join(
+      this.outputDirectory,
+      `SAFE_BATCH.${utils.getAddress(safeAddress)}.${this.createdAt}.json`
+    );
+  }
+
+  /**
+   * Adds a call of `functionName` on `contract` to the batch of `safeAddress`,
+   * returning the path of the written batch file.
+   */
+  add(
+    safeAddress: string,
+    contract: BaseContract,
+    functionName: string,
+    args: unknown[]
+  ): string {
+    const safe = utils.getAddress(safeAddress);
+    if (!this.batches[safe]) {
+      this.batches[safe] = {
+        version: "1.0",
+        chainId: this.chainId.toString(),
+        createdAt: this.createdAt,
+        meta: {
+          name: this.name,
+          description: `Calls the deployer wallet could not make, to be executed by Safe ${safe}`,
+          txBuilderVersion: "1.16.1",
+          createdFromSafeAddress: safe,
+          createdFromOwnerAddress: "",
+        },
+        transactions: [],
+      };
+    }
+    this.batches[safe].transactions.push(
+      encodeBatchTransaction(contract, functionName, args)
+    );
+    return this.write(safe);
+  }
+
+  /**
+   * Simulates every batch as executed by its Safe, i.e. its MultiSend payload
+   * delegatecalled from the Safe via `simulateAndRevert`, against the current
+   * state of `provider`'s network. Returns whether all batches succeeded,
+   * logging any batch that did not.
+   * @dev simulated batches do not change state, and their Safes must be Safe
+   * v1.3.0 or later. MultiSend does not forward reverts, so a failed batch is
+   * reported without the reason of the call that failed.
+   */
+  async simulate(
+    provider: providers.Provider,
+    multiSendAddress: string = MULTI_SEND_CALL_ONLY_ADDRESS
+  ): Promise<boolean> {
+    // @dev delegatecalls to an address without code succeed
+    if ((await provider.getCode(multiSendAddress)) === "0x") {
+      console.log(
+        `[ERROR] Safe batches cannot be simulated, no MultiSend contract is deployed at ${multiSendAddress}`
+      );
+      return false;
+    }
+    let succeeded = true;
+    for (const [safe, batch] of Object.entries(this.batches)) {
+      const payload = encodeMultiSend(batch, multiSendAddress);
+      const batchDescription = `Safe batch ${this.getBatchFile(safe)} of ${
+        batch.transactions.length
+      } calls`;
+      let result: string;
+      try {
+        // @dev the provider returns the revert data of calls reverting with data
+        result = await provider.call({
+          to: safe,
+          data: SAFE_SIMULATION_INTERFACE.encodeFunctionData(
+            "simulateAndRevert",
+            [payload.to, payload.data]
+          ),
+        });
+      } catch (error) {
+        succeeded = false;
+        console.log(
+          `[ERROR] ${batchDescription} could not be simulated by Safe ${safe}: ${
+            (error as { reason?: string }).reason || (error as Error).message
+          }`
+        );
+        continue;
+      }
+      if (utils.hexDataLength(result) < 64) {
+        succeeded = false;
+        console.log(
+          `[ERROR] ${batchDescription} could not be simulated, ${safe} is not a Safe v1.3.0 or later`
+        );
+      } else if (BigNumber.from(utils.hexDataSlice(result, 0, 32)).isZero()) {
+        succeeded = false;
+        console.log(
+          `[ERROR] ${batchDescription} reverts when executed by Safe ${safe}`
+        );
+      } else {
+        console.log(
+          `[INFO] Simulated ${batchDescription} as executed by Safe ${safe}`
+        );
+      }
+    }
+    return succeeded;
+  }
+
+  private write(safe: string): string {
+    const batchFile = this.getBatchFile(safe);
+    fs.writeFileSync(
+      batchFile,
+      `${JSON.stringify(this.batches[safe], null, 2)}\n`
+    );
+    if (this.writeMultiSend) {
+      fs.writeFileSync(
+        batchFile.replace(/\.json$/, ".multisend.json"),
+        `${JSON.stringify(encodeMultiSend(this.batches[safe]), null, 2)}\n`
+      );
+    }
+    return batchFile;
+  }
+}
+
+/**
+ * Whether `result` of `sendOrBatch` is a call added to a Safe batch, rather
+ * than a sent transaction.
+ */
+export function isBatchedCall(
+  result: ContractTransaction | SafeBatchedCall | undefined
+): result is SafeBatchedCall {
+  return result !== undefined && "batchFile" in result;
+}
+
+/**
+ * Sends a call of `functionName` on `contract` from its signer, unless the
+ * signer fails an admin or ownership check of the call, in which case it is
+ * added to the batch of `safeAddress` instead.
+ * @dev the call is simulated first; calls reverting for any other reason are
+ * not batched, and the revert is thrown
+ */
+export async function sendOrBatch(
+  safeBatches: SafeBatchCollector,
+  safeAddress: string,
+  contract: BaseContract,
+  functionName: string,
+  args: unknown[]
+): Promise<ContractTransaction | SafeBatchedCall> {
+  try {
+    await contract.callStatic[functionName](...args);
+  } catch (error) {
+    if (!isAdminRevert(error)) {
+      throw error;
+    }
+    const batchFile = safeBatches.add(
+      safeAddress,
+      contract,
+      functionName,
+      args
+    );
+    console.log(
+      `[ACTION] Deployer wallet cannot call ${functionName} on ${contract.address}; added it to Safe batch ${batchFile}, to be executed by ${safeAddress}`
+    );
+    return { safeAddress, batchFile };
+  }
+  return contract.functions[functionName](...args);
+}
@@ -2,9 +2,21 @@ import prompt from "prompt";
 import fs from "fs";
 import path from "path";
 var util = require("util");
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import {
+  DEPLOYERS,
+  DeployConfigDetails,
+  DeployerName,
+  parseDeployConfigModule,
+} from "./deploy-configs";
+import { isPlanMode } from "./deployment-plan";
 
 export function delay(ms: number) {
+  // @dev plans send nothing, and the Hardhat network mines every transaction
+  // as it is sent, so neither has anything to wait for
+  if (isPlanMode() || hre.network.name === "hardhat") {
+    return Promise.resolve();
+  }
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
@@ -28,53 +40,18 @@ export async function getAppPath() {
   }
 }
 
-export type DeployConfigDetails = {
-  network?: string;
-  environment?: string;
-  // shared randomizer fields
-  randomizerName?: string;
-  pseudorandomAtomicContractAddress?: string;
-  pseudorandomAtomicContractName?: string;
-  // shared minter filter fields
-  existingAdminACL?: string;
-  adminACLContractName?: string;
-  minterFilterName?: string;
-  existingCoreRegistry?: string;
-  coreRegistryContractName?: string;
-  // shared minter fields
-  minterName?: string;
-  minterFilterAddress?: string;
-  approveMinterGlobally?: boolean;
-  // engine core fields (shared minter suite)
-  genArt721CoreContractName?: string;
-  tokenName?: string;
-  tokenTicker?: string;
-  startingProjectId?: number;
-  autoApproveArtistSplitProposals?: boolean;
-  renderProviderAddress?: string;
-  platformProviderAddress?: string;
-  addInitialProject?: boolean;
-  doTransferSuperAdmin?: boolean;
-  newSuperAdminAddress?: string;
-  renderProviderSplitPercentagePrimary?: number;
-  renderProviderSplitBPSSecondary?: number;
-  defaultVerticalName?: string;
-  // flagship core fields
-  artblocksPrimarySalesAddress?: string;
-  artblocksSecondarySalesAddress?: string;
-};
-
-export async function getConfigInputs(
-  exampleConfigPath: string,
+export async function getConfigInputs<D extends DeployerName>(
+  deployer: D,
   promptMessage: string
 ): Promise<{
-  deployConfigDetailsArray: DeployConfigDetails[];
+  deployConfigDetailsArray: DeployConfigDetails<D>[];
   deploymentConfigFile: string;
   inputFileDirectory: string;
 }> {
   // get repo's root directory absolute path
   const appPath = await getAppPath();
   console.log(appPath);
+  const exampleConfigPath = DEPLOYERS[deployer].template;
   console.log(
     `[INFO] example deployment config file is:\n\n${exampleConfigPath}\n`
   );
@@ -88,23 +65,38 @@ export async function getConfigInputs(
   const fullDeploymentConfigPath = path.join(appPath, deploymentConfigFile);
   const fullImportPath = path.join(fullDeploymentConfigPath);
   const inputFileDirectory = path.dirname(fullImportPath);
-  let deployConfigDetailsArray: DeployConfigDetails[];
+  let configModule: Record<string, unknown>;
   try {
-    ({ deployConfigDetailsArray } = await import(fullImportPath));
+    configModule = await import(fullImportPath);
   } catch (error) {
     throw new Error(
       `[ERROR] Unable to import deployment configuration file at: ${fullDeploymentConfigPath}
-      Please ensure the file exists (e.g. deployments/engine/V3/internal-testing/dev-example/minter-deploy-config-01.dev.ts)`
+      Please ensure the file exists (e.g. ${exampleConfigPath})`
     );
   }
+  // validate against the deployer's schema before anything is deployed
+  // @dev throws if the file has unknown keys, missing fields or the wrong export
+  const deployConfigDetailsArray = parseDeployConfigModule(
+    deployer,
+    configModule,
+    fullDeploymentConfigPath
+  );
   // record all deployment logs to a file, monkey-patching stdout
-  const pathToMyLogFile = path.join(inputFileDirectory, "DEPLOYMENT_LOGS.log");
-  var myLogFileStream = fs.createWriteStream(pathToMyLogFile, { flags: "a+" });
-  var log_stdout = process.stdout;
-  console.log = function (d) {
-    myLogFileStream.write(util.format(d) + "\n");
-    log_stdout.write(util.format(d) + "\n");
-  };
+  // @dev plans are not deployments, so are only printed
+  if (!isPlanMode()) {
+    const pathToMyLogFile = path.join(
+      inputFileDirectory,
+      "DEPLOYMENT_LOGS.log"
+    );
+    var myLogFileStream = fs.createWriteStream(pathToMyLogFile, {
+      flags: "a+",
+    });
+    var log_stdout = process.stdout;
+    console.log = function (d) {
+      myLogFileStream.write(util.format(d) + "\n");
+      log_stdout.write(util.format(d) + "\n");
+    };
+  }
   // record relevant deployment information in logs
   console.log(`----------------------------------------`);
   console.log(`[INFO] Datetime of deployment: ${new Date().toISOString()}`);
@@ -123,6 +115,9 @@ export async function getNetworkName() {
     // The arbitrum-sepolia rpc currently only returns a chainId
     // for arbitrum-sepolia so we need to manually set the name here
     networkName = "arbitrum-sepolia";
+  } else if (networkName === "unknown" && network.chainId === 31337) {
+    // the Hardhat network only returns its chainId as well
+    networkName = "hardhat";
   }
 
   return networkName;
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+import fs from "fs";
+import path from "path";
+
+import {
+  DEPLOYERS,
+  DeployerName,
+  getDeployersForConfigFile,
+  validateDeployConfigModule,
+} from "./util/deploy-configs";
+
+// package root, which deployment config paths are relative to
+const PACKAGE_ROOT = path.join(__dirname, "..");
+
+function findConfigFiles(directory: string): string[] {
+  return fs
+    .readdirSync(path.join(PACKAGE_ROOT, directory), { withFileTypes: true })
+    .reduce<string[]>((files, entry) => {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return files.concat(findConfigFiles(entryPath));
+      }
+      return entry.name.endsWith(".ts") ? files.concat(entryPath) : files;
+    }, []);
+}
+
+function validateConfigFile(configFile: string): {
+  deployer?: DeployerName;
+  issues: string[];
+} {
+  const deployers = getDeployersForConfigFile(configFile);
+  if (!deployers.length) {
+    return { issues: ["no deployer reads config files from this directory"] };
+  }
+  let configModule: Record<string, unknown>;
+  try {
+    configModule = require(path.join(PACKAGE_ROOT, configFile));
+  } catch (error) {
+    return { issues: [`unable to import: ${(error as Error).message}`] };
+  }
+  // config files are read by the deployer whose export they define; files
+  // defining none are reported against the current deployer
+  const deployer =
+    deployers.find((name) => DEPLOYERS[name].exportName in configModule) ||
+    deployers[0];
+  return {
+    deployer,
+    issues: validateDeployConfigModule(deployer, configModule),
+  };
+}
+
+/**
+ * This script validates every deployment config file under `deployments/`
+ * against the schema of the deployer that reads it, reporting unknown keys,
+ * missing required fields and wrong export names.
+ * It exits with a non-zero code if any config file is invalid.
+ */
+async function main() {
+  const configFiles = findConfigFiles("deployments");
+  let invalidCount = 0;
+  for (const configFile of configFiles) {
+    const { deployer, issues } = validateConfigFile(configFile);
+    if (!issues.length) {
+      continue;
+    }
+    invalidCount++;
+    console.log(
+      `[ERROR] ${configFile}${
+        deployer ? ` (read by ${DEPLOYERS[deployer].script})` : ""
+      }`
+    );
+    issues.forEach((issue) => console.log(`  - ${issue}`));
+  }
+  console.log(
+    `[INFO] Validated ${configFiles.length} deployment config files, ${invalidCount} invalid`
+  );
+  if (invalidCount) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
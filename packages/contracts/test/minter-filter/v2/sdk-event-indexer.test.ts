@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  loadFixture,
+  takeSnapshot,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { setupConfigWitMinterFilterV2Suite } from "../../util/fixtures";
+import { deployAndGet, deployCore, safeAddProject } from "../../util/common";
+import { EventIndexer, MemoryIndexerStore } from "../../util/sdk";
+import { Logger } from "@ethersproject/logger";
+// hide nuisance logs about event overloading
+Logger.setLogLevel(Logger.levels.ERROR);
+
+const runForEach = [
+  {
+    core: "GenArt721CoreV3",
+  },
+  {
+    core: "GenArt721CoreV3_Engine",
+  },
+];
+
+runForEach.forEach((params) => {
+  describe(`SDK EventIndexer w/ core ${params.core}`, async function () {
+    async function _beforeEach() {
+      // load minter filter V2 fixture
+      const config = await loadFixture(setupConfigWitMinterFilterV2Suite);
+      // deploy core contract and register on core registry
+      ({
+        genArt721Core: config.genArt721Core,
+        randomizer: config.randomizer,
+        adminACL: config.adminACL,
+      } = await deployCore(config, params.core, config.coreRegistry));
+      await config.genArt721Core.updateMinterContract(
+        config.minterFilter.address
+      );
+      config.minter = await deployAndGet(config, "MinterSetPriceV5", [
+        config.minterFilter.address,
+      ]);
+      await config.minterFilter
+        .connect(config.accounts.deployer)
+        .approveMinterGlobally(config.minter.address);
+
+      // project zero, configured on the set price minter
+      await safeAddProject(
+        config.genArt721Core,
+        config.accounts.deployer,
+        config.accounts.artist.address
+      );
+      await config.genArt721Core
+        .connect(config.accounts.deployer)
+        .toggleProjectIsActive(config.projectZero);
+      await config.genArt721Core
+        .connect(config.accounts.artist)
+        .toggleProjectIsPaused(config.projectZero);
+      await config.genArt721Core
+        .connect(config.accounts.artist)
+        .updateProjectMaxInvocations(config.projectZero, 15);
+      await config.minterFilter
+        .connect(config.accounts.deployer)
+        .setMinterForProject(
+          config.projectZero,
+          config.genArt721Core.address,
+          config.minter.address
+        );
+      await config.minter
+        .connect(config.accounts.artist)
+        .updatePricePerTokenInWei(
+          config.projectZero,
+          config.genArt721Core.address,
+          config.pricePerTokenInWei
+        );
+      return config;
+    }
+
+    const indexerFor = (config) =>
+      new EventIndexer(ethers.provider, new MemoryIndexerStore(), {
+        coreContracts: [config.genArt721Core.address],
+        minterFilter: config.minterFilter.address,
+        minters: [config.minter.address],
+      });
+
+    const purchase = async (config) =>
+      config.minter
+        .connect(config.accounts.user)
+        .purchase(config.projectZero, config.genArt721Core.address, {
+          value: config.pricePerTokenInWei,
+        });
+
+    it("replays project, registration, configuration and mint events", async function () {
+      const config = await loadFixture(_beforeEach);
+      await purchase(config);
+      const indexer = indexerFor(config);
+      await indexer.sync();
+
+      const projectEvents = await indexer.store.getEvents({
+        coreContract: config.genArt721Core.address,
+        projectId: config.projectZero,
+      });
+      const names = projectEvents.map(({ name }) => name);
+      expect(names).to.include.members([
+        "ProjectMinterRegistered",
+        "PricePerTokenUpdated",
+        "Mint",
+      ]);
+      // bytes32 fields are decoded
+      const updates = projectEvents
+        .filter(({ name }) => name === "ProjectUpdated")
+        .map(({ args }) => args.update);
+      expect(updates).to.include.members([
+        "created",
+        "active",
+        "paused",
+        "maxInvocations",
+      ]);
+      // minter approval on the minter filter
+      const approvals = await indexer.store.getEvents({
+        names: ["MinterApprovedGlobally"],
+        address: config.minterFilter.address,
+      });
+      expect(approvals.map(({ args }) => args.minterType)).to.include(
+        "MinterSetPriceV5"
+      );
+      const [mint] = await indexer.store.getEvents({ names: ["Mint"] });
+      expect(mint.args).to.deep.equal({
+        to: config.accounts.user.address,
+        tokenId: "0",
+      });
+    });
+
+    it("resumes from its checkpoint", async function () {
+      const config = await loadFixture(_beforeEach);
+      const indexer = indexerFor(config);
+      const checkpoint = await indexer.sync();
+      await purchase(config);
+      await purchase(config);
+      const resumed = await indexer.sync();
+      expect(resumed.number).to.equal(checkpoint.number + 2);
+      expect(
+        await indexer.store.getEvents({
+          names: ["Mint"],
+          fromBlock: checkpoint.number + 1,
+        })
+      ).to.have.lengthOf(2);
+
+      // a fresh index of the same blocks matches the resumed one
+      const fresh = indexerFor(config);
+      await fresh.sync();
+      expect(await fresh.store.getEvents()).to.deep.equal(
+        await indexer.store.getEvents()
+      );
+    });
+
+    it("rolls back blocks reorged out of the chain", async function () {
+      const config = await loadFixture(_beforeEach);
+      const indexer = indexerFor(config);
+      const snapshot = await takeSnapshot();
+      await purchase(config);
+      await indexer.sync();
+      expect(
+        await indexer.store.getEvents({ names: ["Mint"] })
+      ).to.have.lengthOf(1);
+
+      // replace the purchase's block with a different update
+      await snapshot.restore();
+      await config.genArt721Core
+        .connect(config.accounts.artist)
+        .updateProjectMaxInvocations(config.projectZero, 10);
+      const checkpoint = await indexer.sync();
+      expect(checkpoint.hash).to.equal(
+        (await ethers.provider.getBlock("latest")).hash
+      );
+      expect(
+        await indexer.store.getEvents({ names: ["Mint"] })
+      ).to.have.lengthOf(0);
+      const [lastUpdate] = (
+        await indexer.store.getEvents({ names: ["ProjectUpdated"] })
+      ).slice(-1);
+      expect(lastUpdate.blockNumber).to.equal(checkpoint.number);
+      expect(lastUpdate.args.update).to.equal("maxInvocations");
+    });
+  });
+});
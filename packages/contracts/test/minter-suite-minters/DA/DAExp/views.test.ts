@@ -12,6 +12,7 @@ import {
   configureProjectZeroAuctionAndAdvanceToStart,
 } from "./helpers";
 import { Common_Views } from "../../common.views";
+import { getPrice } from "../../../util/sdk";
 import { Logger } from "@ethersproject/logger";
 // hide nuisance logs about event overloading
 Logger.setLogLevel(Logger.levels.ERROR);
@@ -281,5 +282,42 @@ runForEach.forEach((params) => {
         expect(projectAuctionParameters.basePrice).to.equal(config.basePrice);
       });
     });
+
+    describe("SDK price engine parity", async function () {
+      it("matches getPriceInfo to the wei throughout the auction", async function () {
+        const config = await loadFixture(_beforeEach);
+        // use a start price that exercises integer rounding between half-lives
+        config.startingPrice = config.basePrice.mul(5).add(7);
+        await configureProjectZeroAuction(config);
+        const auctionParameters = await config.minter.projectAuctionParameters(
+          config.projectZero,
+          config.genArt721Core.address
+        );
+        const auction = {
+          type: "exp" as const,
+          timestampStart: auctionParameters.timestampStart,
+          priceDecayHalfLifeSeconds:
+            auctionParameters.priceDecayHalfLifeSeconds,
+          startPrice: auctionParameters.startPrice,
+          basePrice: auctionParameters.basePrice,
+        };
+        // step through several half-lives at an interval that does not divide
+        // the half-life evenly
+        for (
+          let timestamp = config.startTime;
+          timestamp <= config.startTime + config.defaultHalfLife * 4;
+          timestamp += 7
+        ) {
+          await ethers.provider.send("evm_mine", [timestamp]);
+          const priceInfo = await config.minter.getPriceInfo(
+            config.projectZero,
+            config.genArt721Core.address
+          );
+          expect(getPrice(auction, timestamp)).to.equal(
+            priceInfo.tokenPriceInWei
+          );
+        }
+      });
+    });
   });
 });
@@ -12,6 +12,7 @@ import {
   configureProjectZeroAuctionAndAdvanceToStart,
 } from "./helpers";
 import { Common_Views } from "../../common.views";
+import { getPrice } from "../../../util/sdk";
 import { Logger } from "@ethersproject/logger";
 // hide nuisance logs about event overloading
 Logger.setLogLevel(Logger.levels.ERROR);
@@ -267,5 +268,41 @@ runForEach.forEach((params) => {
         expect(projectAuctionParameters.basePrice).to.equal(config.basePrice);
       });
     });
+
+    describe("SDK price engine parity", async function () {
+      it("matches getPriceInfo to the wei throughout the auction", async function () {
+        const config = await loadFixture(_beforeEach);
+        // use a start price that exercises integer rounding
+        config.startingPrice = config.basePrice.mul(5).add(7);
+        await configureProjectZeroAuction(config);
+        const auctionParameters = await config.minter.projectAuctionParameters(
+          config.projectZero,
+          config.genArt721Core.address
+        );
+        const auction = {
+          type: "lin" as const,
+          timestampStart: auctionParameters.timestampStart,
+          timestampEnd: auctionParameters.timestampEnd,
+          startPrice: auctionParameters.startPrice,
+          basePrice: auctionParameters.basePrice,
+        };
+        // step through the auction at an interval that does not divide the
+        // auction length evenly, ending after the auction has ended
+        for (
+          let timestamp = config.startTime;
+          timestamp <= config.endTime + ONE_MINUTE;
+          timestamp += 97
+        ) {
+          await ethers.provider.send("evm_mine", [timestamp]);
+          const priceInfo = await config.minter.getPriceInfo(
+            config.projectZero,
+            config.genArt721Core.address
+          );
+          expect(getPrice(auction, timestamp)).to.equal(
+            priceInfo.tokenPriceInWei
+          );
+        }
+      });
+    });
   });
 });
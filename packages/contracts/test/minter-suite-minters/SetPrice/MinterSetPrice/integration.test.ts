@@ -3,6 +3,12 @@ import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { setupConfigWitMinterFilterV2Suite } from "../../../util/fixtures";
 import { deployAndGet, deployCore, safeAddProject } from "../../../util/common";
 import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { expect } from "chai";
+import {
+  calculatePrimaryRevenueSplits,
+  ProviderRevenueConfig,
+} from "../../../util/sdk";
 import { revertMessages } from "../../constants";
 import { Logger } from "@ethersproject/logger";
 // hide nuisance logs about event overloading
@@ -466,6 +472,134 @@ runForEach.forEach((params) => {
               value: config.pricePerTokenInWei,
             });
         });
+
+        it("pays the primary revenue splits calculated by the SDK", async function () {
+          // get config from beforeEach
+          const config = this.config;
+          const core = config.genArt721Core;
+          // @dev odd price and additional payee split to exercise rounding
+          const price = config.pricePerTokenInWei.add(7);
+          await config.minter
+            .connect(config.accounts.artist)
+            .updatePricePerTokenInWei(config.projectZero, core.address, price);
+          const proposedAddressesAndSplits = [
+            config.projectZero,
+            config.accounts.artist.address,
+            config.accounts.additional.address,
+            33,
+            config.accounts.additional2.address,
+            50,
+          ];
+          await core
+            .connect(config.accounts.artist)
+            .proposeArtistPaymentAddressesAndSplits(
+              ...proposedAddressesAndSplits
+            );
+          await core
+            .connect(config.accounts.deployer)
+            .adminAcceptArtistAddressesAndSplits(...proposedAddressesAndSplits);
+          // build the SDK's revenue config from the core's public getters
+          const providers: ProviderRevenueConfig[] = config.isEngine
+            ? [
+                {
+                  role: "renderProvider",
+                  primarySalesAddress:
+                    await core.renderProviderPrimarySalesAddress(),
+                  primarySalesPercentage: (
+                    await core.renderProviderPrimarySalesPercentage()
+                  ).toNumber(),
+                  secondarySalesAddress:
+                    await core.renderProviderSecondarySalesAddress(),
+                  secondarySalesBPS: (
+                    await core.renderProviderSecondarySalesBPS()
+                  ).toNumber(),
+                },
+                {
+                  role: "platformProvider",
+                  primarySalesAddress:
+                    await core.platformProviderPrimarySalesAddress(),
+                  primarySalesPercentage: (
+                    await core.platformProviderPrimarySalesPercentage()
+                  ).toNumber(),
+                  secondarySalesAddress:
+                    await core.platformProviderSecondarySalesAddress(),
+                  secondarySalesBPS: (
+                    await core.platformProviderSecondarySalesBPS()
+                  ).toNumber(),
+                },
+              ]
+            : [
+                {
+                  role: "artblocks",
+                  primarySalesAddress:
+                    await core.artblocksPrimarySalesAddress(),
+                  primarySalesPercentage: (
+                    await core.artblocksPrimarySalesPercentage()
+                  ).toNumber(),
+                  secondarySalesAddress:
+                    await core.artblocksSecondarySalesAddress(),
+                  secondarySalesBPS: (
+                    await core.artblocksSecondarySalesBPS()
+                  ).toNumber(),
+                },
+              ];
+          const splits = calculatePrimaryRevenueSplits(
+            {
+              providers,
+              artistAddress: config.accounts.artist.address,
+              additionalPayeePrimarySalesAddress:
+                config.accounts.additional.address,
+              additionalPayeePrimarySalesPercentage: 33,
+              additionalPayeeSecondarySalesAddress:
+                config.accounts.additional2.address,
+              additionalPayeeSecondarySalesPercentage: 50,
+              secondaryMarketRoyaltyPercentage: (
+                await core.projectIdToSecondaryMarketRoyaltyPercentage(
+                  config.projectZero
+                )
+              ).toNumber(),
+            },
+            price
+          );
+          // SDK splits match the core's view
+          const coreSplits = await core.getPrimaryRevenueSplits(
+            config.projectZero,
+            price
+          );
+          const coreAmounts = config.isEngine
+            ? [
+                coreSplits.renderProviderRevenue_,
+                coreSplits.platformProviderRevenue_,
+              ]
+            : [coreSplits.artblocksRevenue_];
+          expect(splits.map(({ amount }) => amount)).to.deep.equal([
+            ...coreAmounts,
+            coreSplits.artistRevenue_,
+            coreSplits.additionalPayeePrimaryRevenue_,
+          ]);
+          // SDK splits match the minter's payouts, aggregated by recipient
+          const expectedPayouts = new Map<string, BigNumber>();
+          for (const { address, amount } of splits) {
+            expectedPayouts.set(
+              address,
+              (expectedPayouts.get(address) ?? BigNumber.from(0)).add(amount)
+            );
+          }
+          const recipients = Array.from(expectedPayouts.keys());
+          const balancesBefore = await Promise.all(
+            recipients.map((address) => ethers.provider.getBalance(address))
+          );
+          await config.minter
+            .connect(config.accounts.user)
+            .purchase(config.projectZero, core.address, { value: price });
+          for (let i = 0; i < recipients.length; i++) {
+            expect(
+              (await ethers.provider.getBalance(recipients[i])).sub(
+                balancesBefore[i]
+              )
+            ).to.equal(expectedPayouts.get(recipients[i]));
+          }
+        });
       });
 
       it("does not allow reentrant purchases", async function () {
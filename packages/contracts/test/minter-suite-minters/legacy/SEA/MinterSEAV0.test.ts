@@ -26,6 +26,7 @@ import {
   requireBigNumberIsClose,
 } from "../../../util/common";
 import { ONE_MINUTE, ONE_HOUR, ONE_DAY } from "../../../util/constants";
+import { encodeTokenId } from "../../../util/sdk";
 
 import { Minter_Common } from "../Minter.common";
 
@@ -1628,7 +1629,7 @@ for (const coreContractName of coreContractsToTest) {
           config.projectZeroTokenTwo.toString()
         );
         expect(
-          projectConfig.nextTokenNumber + config.projectZero * 1_000_000
+          encodeTokenId(config.projectZero, projectConfig.nextTokenNumber)
         ).to.equal(targetNextTokenId);
       });
 
@@ -1673,7 +1674,7 @@ for (const coreContractName of coreContractsToTest) {
           config.projectZeroTokenTwo.toString()
         );
         expect(
-          projectConfig.nextTokenNumber + config.projectZero * 1_000_000
+          encodeTokenId(config.projectZero, projectConfig.nextTokenNumber)
         ).to.equal(targetNextTokenId);
       });
 
@@ -0,0 +1,118 @@
+import { assert } from "chai";
+import path from "path";
+import {
+  DeployConfigValidationError,
+  getDeployersForConfigFile,
+  parseDeployConfigModule,
+  validateDeployConfigModule,
+} from "../../scripts/util/deploy-configs";
+
+const MINTER_FILTER_ADDRESS = "0xf4AC1A3904A1ED2c9E969666A24541bB6e4Cd39f";
+
+const sharedMinterConfig = {
+  network: "goerli",
+  environment: "dev",
+  minterName: "MinterSetPriceV5",
+  minterFilterAddress: MINTER_FILTER_ADDRESS,
+  approveMinterGlobally: true,
+};
+
+describe("Deployment config schemas", async function () {
+  it("parses a valid config", async function () {
+    const configs = parseDeployConfigModule(
+      "sharedMinters",
+      { deployConfigDetailsArray: [sharedMinterConfig] },
+      "config.ts"
+    );
+    assert.deepEqual(configs, [sharedMinterConfig]);
+  });
+
+  it("reports unknown keys and missing required fields", async function () {
+    const { minterFilterAddress, ...withoutFilter } = sharedMinterConfig;
+    const issues = validateDeployConfigModule("sharedMinters", {
+      deployConfigDetailsArray: [{ ...withoutFilter, minterFilterName: "x" }],
+    });
+    assert.sameMembers(issues, [
+      "deployConfigDetailsArray[0].minterFilterAddress: missing required field",
+      "deployConfigDetailsArray[0]: unknown key(s) minterFilterName",
+    ]);
+  });
+
+  it("reports wrong export names with the deployer reading them", async function () {
+    const issues = validateDeployConfigModule("engineSharedSuite", {
+      deployDetailsArray: [],
+    });
+    assert.deepEqual(issues, [
+      "expected export deployConfigDetailsArray, found deployDetailsArray",
+      "deployDetailsArray is read by scripts/engine/V3/deprecated/generic-engine-deployer.ts",
+    ]);
+  });
+
+  it("requires contract names when not using existing contracts", async function () {
+    const issues = validateDeployConfigModule("sharedMinterFilter", {
+      deployConfigDetailsArray: [
+        {
+          network: "goerli",
+          environment: "dev",
+          minterFilterName: "MinterFilterV2",
+          existingAdminACL: MINTER_FILTER_ADDRESS,
+        },
+      ],
+    });
+    assert.deepEqual(issues, [
+      "deployConfigDetailsArray[0].coreRegistryContractName: required when existingCoreRegistry is not defined",
+    ]);
+  });
+
+  it("requires a new super admin when transferring", async function () {
+    const issues = validateDeployConfigModule("engineSharedSuite", {
+      deployConfigDetailsArray: [
+        {
+          network: "goerli",
+          environment: "dev",
+          adminACLContractName: "AdminACLV1",
+          genArt721CoreContractName: "GenArt721CoreV3_Engine",
+          tokenName: "Engine Partner",
+          tokenTicker: "PRTNR",
+          startingProjectId: 0,
+          autoApproveArtistSplitProposals: true,
+          renderProviderAddress: "deployer",
+          platformProviderAddress: "0xTBD",
+          doTransferSuperAdmin: true,
+        },
+      ],
+    });
+    assert.deepEqual(issues, [
+      'deployConfigDetailsArray[0].platformProviderAddress: must be a 0x-prefixed address or "deployer"',
+      "deployConfigDetailsArray[0].newSuperAdminAddress: required when doTransferSuperAdmin is true",
+    ]);
+  });
+
+  it("throws for invalid configs when parsing", async function () {
+    try {
+      parseDeployConfigModule(
+        "sharedMinters",
+        { deployConfigDetailsArray: [] },
+        "config.ts"
+      );
+      assert.fail("expected a validation error");
+    } catch (error) {
+      assert.instanceOf(error, DeployConfigValidationError);
+      assert.include(error.message, "Invalid deployment config file config.ts");
+    }
+  });
+
+  it("finds the deployers reading a config file's directory", async function () {
+    assert.deepEqual(
+      getDeployersForConfigFile(
+        path.join("deployments", "minters", "mainnet", "config.mainnet.ts")
+      ),
+      ["sharedMinters"]
+    );
+    assert.deepEqual(
+      getDeployersForConfigFile("deployments/engine/V3/partners/x/config.ts"),
+      ["engineSharedSuite", "legacyEngine", "legacyMinter"]
+    );
+    assert.deepEqual(getDeployersForConfigFile("scripts/config.ts"), []);
+  });
+});
@@ -0,0 +1,592 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import prompt from "prompt";
+import { ethers, network } from "hardhat";
+import { Contract } from "ethers";
+
+import { main as deployEngine } from "../../scripts/engine/V3/generic-engine-shared-suite-deployer";
+import {
+  ACTIVE_SHARED_MINTER_FILTERS,
+  ACTIVE_SHARED_RANDOMIZERS,
+  BYTECODE_STORAGE_READER_LIBRARY_ADDRESSES,
+} from "../../scripts/util/constants";
+import {
+  DeploymentJournal,
+  DeploymentJournalError,
+  JOURNAL_FILE_NAME,
+} from "../../scripts/util/deployment-journal";
+import { DeploymentPlan } from "../../scripts/util/deployment-plan";
+import { SafeBatchCollector, sendOrBatch } from "../../scripts/util/safe-batch";
+import { getAppPath } from "../../scripts/util/utils";
+import {
+  T_Config,
+  TestAccountsArtBlocks,
+  deployAndGet,
+  deploySharedMinterFilter,
+  getAccounts,
+} from "./common";
+
+const deployDetails = {
+  network: "hardhat",
+  environment: "dev",
+  adminACLContractName: "AdminACLV0",
+};
+
+// deploys an AdminACL and core registry, then registers a contract on the core
+// registry from `registrant`, exercising each kind of journaled step
+// @dev registering is batched for the core registry's owner if `safeBatches`
+// is given, and the steps are only planned if `plan` is given
+async function runDeployment(
+  inputFileDirectory: string,
+  registrant: SignerWithAddress,
+  {
+    skipFailedRegistration = false,
+    safeBatches,
+    plan,
+  }: {
+    skipFailedRegistration?: boolean;
+    safeBatches?: SafeBatchCollector;
+    plan?: DeploymentPlan;
+  } = {}
+) {
+  const journal = DeploymentJournal.open({
+    inputFileDirectory,
+    deploymentConfigFile: "deployments/engine/deployment-config.dev.ts",
+    index: 0,
+    deployDetails,
+    provider: ethers.provider,
+    plan,
+  });
+  if (journal.isCompleted) {
+    return journal;
+  }
+  const adminACLFactory = await ethers.getContractFactory(
+    deployDetails.adminACLContractName
+  );
+  const adminACLAddress = await journal.deploy(
+    "deployAdminACL",
+    deployDetails.adminACLContractName,
+    adminACLFactory
+  );
+  const coreRegistryFactory = await ethers.getContractFactory("CoreRegistryV1");
+  const coreRegistryAddress = await journal.deploy(
+    "deployCoreRegistry",
+    "CoreRegistryV1",
+    coreRegistryFactory
+  );
+  const coreRegistry = coreRegistryFactory
+    .attach(coreRegistryAddress)
+    .connect(registrant);
+  const registerArgs = [
+    adminACLAddress,
+    ethers.utils.formatBytes32String("v3.0.0"),
+    ethers.utils.formatBytes32String("GenArt721CoreV3_Engine"),
+  ];
+  const registerContract = async () =>
+    safeBatches
+      ? sendOrBatch(
+          safeBatches,
+          await coreRegistry.owner(),
+          coreRegistry,
+          "registerContract",
+          registerArgs
+        )
+      : coreRegistry.registerContract(
+          registerArgs[0],
+          registerArgs[1],
+          registerArgs[2]
+        );
+  const call = {
+    contractName: "CoreRegistryV1",
+    contract: coreRegistry,
+    functionName: "registerContract",
+    args: registerArgs,
+  };
+  if (skipFailedRegistration) {
+    await journal.transactOrSkip("registerContract", call, registerContract);
+  } else {
+    await journal.transact("registerContract", call, registerContract);
+  }
+  journal.complete();
+  return journal;
+}
+
+function readJournal(inputFileDirectory: string) {
+  return JSON.parse(
+    fs.readFileSync(path.join(inputFileDirectory, JOURNAL_FILE_NAME), "utf8")
+  );
+}
+
+// routes the Hardhat network's JSON-RPC requests through `interceptor`, e.g.
+// to inject failures into a deployer's requests; returns a function restoring
+// the network's provider
+function interceptRequests(
+  interceptor: (
+    method: string,
+    params: any[],
+    send: (method: string, params: any[]) => Promise<any>
+  ) => Promise<any>
+): () => void {
+  const { send } = network.provider;
+  network.provider.send = (method: string, params: any[] = []) =>
+    interceptor(method, params, (method, params) =>
+      send.call(network.provider, method, params)
+    );
+  return () => {
+    network.provider.send = send;
+  };
+}
+
+describe("DeploymentJournal", async function () {
+  let inputFileDirectory: string;
+
+  beforeEach(async function () {
+    inputFileDirectory = fs.mkdtempSync(
+      path.join(os.tmpdir(), "deployment-journal-")
+    );
+  });
+
+  afterEach(async function () {
+    fs.rmSync(inputFileDirectory, { recursive: true, force: true });
+  });
+
+  it("resumes from a failed step without redeploying completed steps", async function () {
+    const accounts = await getAccounts();
+    // registering from a non-owner of the core registry forces the step to fail
+    let failed = false;
+    try {
+      await runDeployment(inputFileDirectory, accounts.artist);
+    } catch (error) {
+      failed = true;
+    }
+    assert.isTrue(failed, "expected the registerContract step to fail");
+    const failedRun =
+      readJournal(inputFileDirectory)["deployment-config.dev.ts[0]"];
+    assert.equal(failedRun.steps.deployAdminACL.status, "completed");
+    assert.equal(failedRun.steps.deployCoreRegistry.status, "completed");
+    assert.isUndefined(failedRun.steps.registerContract);
+    assert.isUndefined(failedRun.completedAt);
+
+    // re-running only sends the registerContract transaction
+    const nonceBefore = await accounts.deployer.getTransactionCount();
+    const journal = await runDeployment(inputFileDirectory, accounts.deployer);
+    assert.equal(
+      await accounts.deployer.getTransactionCount(),
+      nonceBefore + 1
+    );
+    assert.isTrue(journal.isCompleted);
+    assert.equal(
+      journal.getStep("deployCoreRegistry").address,
+      failedRun.steps.deployCoreRegistry.address
+    );
+    const registerContract = journal.getStep("registerContract");
+    const receipt = await ethers.provider.getTransactionReceipt(
+      registerContract.txHash
+    );
+    assert.equal(receipt.status, 1);
+    const coreRegistry = await ethers.getContractAt(
+      "CoreRegistryV1",
+      failedRun.steps.deployCoreRegistry.address
+    );
+    assert.isTrue(
+      await coreRegistry.isRegisteredContract(
+        failedRun.steps.deployAdminACL.address
+      )
+    );
+
+    // re-running a completed deployment sends nothing
+    await runDeployment(inputFileDirectory, accounts.deployer);
+    assert.equal(
+      await accounts.deployer.getTransactionCount(),
+      nonceBefore + 1
+    );
+  });
+
+  it("completes a pending step once its transaction is mined", async function () {
+    const accounts = await getAccounts();
+    const journal = await runDeployment(inputFileDirectory, accounts.deployer);
+    // simulate a run that stopped after sending the registerContract tx
+    const journalFile = readJournal(inputFileDirectory);
+    const entry = journalFile[journal.key];
+    entry.steps.registerContract.status = "pending";
+    delete entry.completedAt;
+    fs.writeFileSync(journal.journalFile, JSON.stringify(journalFile));
+
+    const nonceBefore = await accounts.deployer.getTransactionCount();
+    const resumed = await runDeployment(inputFileDirectory, accounts.deployer);
+    assert.equal(await accounts.deployer.getTransactionCount(), nonceBefore);
+    assert.equal(resumed.getStep("registerContract").status, "completed");
+    assert.equal(
+      resumed.getStep("registerContract").txHash,
+      entry.steps.registerContract.txHash
+    );
+  });
+
+  it("skips a failed optional step and does not retry it", async function () {
+    const accounts = await getAccounts();
+    const journal = await runDeployment(inputFileDirectory, accounts.artist, {
+      skipFailedRegistration: true,
+    });
+    assert.isTrue(journal.isCompleted);
+    const registerContract = journal.getStep("registerContract");
+    assert.equal(registerContract.status, "skipped");
+    assert.include(registerContract.error, "Ownable: caller is not the owner");
+
+    // re-running the deployment with the step left to be performed manually
+    // sends nothing
+    const journalFile = readJournal(inputFileDirectory);
+    delete journalFile[journal.key].completedAt;
+    fs.writeFileSync(journal.journalFile, JSON.stringify(journalFile));
+    const nonceBefore = await accounts.artist.getTransactionCount();
+    const resumed = await runDeployment(inputFileDirectory, accounts.artist, {
+      skipFailedRegistration: true,
+    });
+    assert.equal(await accounts.artist.getTransactionCount(), nonceBefore);
+    assert.equal(resumed.getStep("registerContract").status, "skipped");
+  });
+
+  it("stops the deployment if an optional step fails for another reason", async function () {
+    const accounts = await getAccounts();
+    const journal = await runDeployment(inputFileDirectory, accounts.deployer);
+    const journalFile = readJournal(inputFileDirectory);
+    delete journalFile[journal.key].steps.registerContract;
+    delete journalFile[journal.key].completedAt;
+    fs.writeFileSync(journal.journalFile, JSON.stringify(journalFile));
+    const resumed = DeploymentJournal.open({
+      inputFileDirectory,
+      deploymentConfigFile: "deployments/engine/deployment-config.dev.ts",
+      index: 0,
+      deployDetails,
+      provider: ethers.provider,
+    });
+    const coreRegistry = await ethers.getContractAt(
+      "CoreRegistryV1",
+      journal.getStep("deployCoreRegistry").address
+    );
+    try {
+      await resumed.transactOrSkip(
+        "registerContract",
+        {
+          contractName: "CoreRegistryV1",
+          contract: coreRegistry,
+          functionName: "registerContract",
+          args: [],
+        },
+        async () => {
+          throw new Error("socket hang up");
+        }
+      );
+      assert.fail("expected the registerContract step to fail");
+    } catch (error) {
+      assert.equal((error as Error).message, "socket hang up");
+    }
+    assert.isUndefined(resumed.getStep("registerContract"));
+  });
+
+  it("journals batched calls as pending and does not batch them again", async function () {
+    const accounts = await getAccounts();
+    const newSafeBatches = () =>
+      new SafeBatchCollector({
+        outputDirectory: inputFileDirectory,
+        chainId: 31337,
+        name: "Test deployment",
+      });
+    const safeBatches = newSafeBatches();
+    const journal = await runDeployment(inputFileDirectory, accounts.artist, {
+      safeBatches,
+    });
+    const registerContract = journal.getStep("registerContract");
+    assert.equal(registerContract.status, "pending");
+    assert.isUndefined(registerContract.txHash);
+    assert.equal(registerContract.safeAddress, accounts.deployer.address);
+    assert.equal(
+      registerContract.safeBatchFile,
+      safeBatches.getBatchFile(accounts.deployer.address)
+    );
+
+    // re-running the deployment leaves the batched call to the Safe
+    const journalFile = readJournal(inputFileDirectory);
+    delete journalFile[journal.key].completedAt;
+    fs.writeFileSync(journal.journalFile, JSON.stringify(journalFile));
+    const resumedSafeBatches = newSafeBatches();
+    const resumed = await runDeployment(inputFileDirectory, accounts.artist, {
+      safeBatches: resumedSafeBatches,
+    });
+    assert.isTrue(resumedSafeBatches.isEmpty);
+    assert.equal(resumed.getStep("registerContract").status, "pending");
+  });
+
+  it("plans only the steps not yet journaled", async function () {
+    const accounts = await getAccounts();
+    // registering from a non-owner of the core registry forces the step to fail
+    try {
+      await runDeployment(inputFileDirectory, accounts.artist);
+    } catch (error) {
+      // the deploy steps are journaled as completed
+    }
+    const journalBefore = fs.readFileSync(
+      path.join(inputFileDirectory, JOURNAL_FILE_NAME),
+      "utf8"
+    );
+    const nonceBefore = await accounts.deployer.getTransactionCount();
+    const plan = await DeploymentPlan.create({
+      title: "deployment-config.dev.ts",
+      from: accounts.deployer.address,
+      provider: ethers.provider,
+    });
+    const journal = await runDeployment(inputFileDirectory, accounts.deployer, {
+      plan,
+    });
+    assert.isTrue(journal.isPlanning);
+    assert.equal(await accounts.deployer.getTransactionCount(), nonceBefore);
+    assert.deepEqual(
+      plan.steps.map(({ kind, name }) => [kind, name]),
+      [
+        ["journaled", "deployAdminACL"],
+        ["journaled", "deployCoreRegistry"],
+        ["call", "registerContract"],
+      ]
+    );
+    assert.isTrue(plan.steps[2].gas.gt(0));
+    // plans write nothing to the journal
+    assert.equal(
+      fs.readFileSync(path.join(inputFileDirectory, JOURNAL_FILE_NAME), "utf8"),
+      journalBefore
+    );
+  });
+
+  it("refuses to resume a deployment whose config changed", async function () {
+    const accounts = await getAccounts();
+    await runDeployment(inputFileDirectory, accounts.deployer);
+    try {
+      DeploymentJournal.open({
+        inputFileDirectory,
+        deploymentConfigFile: "deployments/engine/deployment-config.dev.ts",
+        index: 0,
+        deployDetails: { ...deployDetails, environment: "staging" },
+        provider: ethers.provider,
+      });
+      assert.fail("expected a journal error");
+    } catch (error) {
+      assert.instanceOf(error, DeploymentJournalError);
+    }
+  });
+});
+
+describe("DeploymentJournal of the engine shared suite deployer", async function () {
+  const configKey = "deployment-config.dev.ts[0]";
+  // @dev the deployer redirects console.log to its log file
+  const { log } = console;
+  const nodeEnv = process.env.NODE_ENV;
+  let accounts: TestAccountsArtBlocks;
+  let coreRegistry: Contract;
+  let inputFileDirectory: string;
+  let restoreProvider: () => void;
+
+  beforeEach(async function () {
+    accounts = await getAccounts();
+    const config = { accounts } as T_Config;
+    const sharedMinterFilterSuite = await deploySharedMinterFilter(
+      config,
+      "MinterFilterV2"
+    );
+    coreRegistry = sharedMinterFilterSuite.coreRegistry;
+    const bytecodeStorageReader = await deployAndGet(
+      config,
+      "BytecodeStorageReader",
+      []
+    );
+    const pseudorandomAtomic = await deployAndGet(
+      config,
+      "PseudorandomAtomic",
+      []
+    );
+    const randomizer = await deployAndGet(config, "SharedRandomizerV0", [
+      pseudorandomAtomic.address,
+    ]);
+    ACTIVE_SHARED_MINTER_FILTERS.hardhat = {
+      dev: sharedMinterFilterSuite.minterFilter.address,
+    };
+    ACTIVE_SHARED_RANDOMIZERS.hardhat = { dev: randomizer.address };
+    BYTECODE_STORAGE_READER_LIBRARY_ADDRESSES["hardhat"] =
+      bytecodeStorageReader.address;
+    process.env.NODE_ENV = "dev";
+
+    inputFileDirectory = fs.mkdtempSync(
+      path.join(os.tmpdir(), "engine-deployment-")
+    );
+    const configFile = path.join(
+      inputFileDirectory,
+      "deployment-config.dev.ts"
+    );
+    const deployConfigDetailsArray = [
+      {
+        network: "hardhat",
+        environment: "dev",
+        adminACLContractName: "AdminACLV0",
+        genArt721CoreContractName: "GenArt721CoreV3_Engine",
+        tokenName: "Journaled Engine",
+        tokenTicker: "JRNL",
+        startingProjectId: 0,
+        autoApproveArtistSplitProposals: true,
+        renderProviderAddress: "deployer",
+        platformProviderAddress: "deployer",
+      },
+    ];
+    fs.writeFileSync(
+      configFile,
+      `export const deployConfigDetailsArray = ${JSON.stringify(
+        deployConfigDetailsArray,
+        null,
+        2
+      )};\n`
+    );
+    // answers the deployer's prompt for its config file
+    prompt.override = {
+      "Engine deployment config file": path.relative(
+        await getAppPath(),
+        configFile
+      ),
+    };
+    restoreProvider = interceptRequests((method, params, send) =>
+      send(method, params)
+    );
+  });
+
+  afterEach(async function () {
+    restoreProvider();
+    console.log = log;
+    prompt.override = undefined;
+    if (nodeEnv === undefined) {
+      delete process.env.NODE_ENV;
+    } else {
+      process.env.NODE_ENV = nodeEnv;
+    }
+    delete ACTIVE_SHARED_MINTER_FILTERS.hardhat;
+    delete ACTIVE_SHARED_RANDOMIZERS.hardhat;
+    delete BYTECODE_STORAGE_READER_LIBRARY_ADDRESSES["hardhat"];
+    fs.rmSync(inputFileDirectory, { recursive: true, force: true });
+  });
+
+  function readLogs() {
+    return fs.readFileSync(
+      path.join(inputFileDirectory, "DEPLOYMENT_LOGS.log"),
+      "utf8"
+    );
+  }
+
+  it("confirms the transaction of a failed step instead of sending it again", async function () {
+    const registerContract =
+      coreRegistry.interface.getSighash("registerContract");
+    let registerTxHash: string;
+    // the registerContract transaction is sent, but its receipt is never
+    // received
+    restoreProvider = interceptRequests(async (method, params, send) => {
+      if (
+        method === "eth_getTransactionReceipt" &&
+        params[0] === registerTxHash
+      ) {
+        throw new Error("socket hang up");
+      }
+      const result = await send(method, params);
+      if (
+        method === "eth_sendTransaction" &&
+        params[0].data?.startsWith(registerContract)
+      ) {
+        registerTxHash = result;
+      }
+      return result;
+    });
+    try {
+      await deployEngine();
+      assert.fail("expected the deployment to fail");
+    } catch (error) {
+      assert.include((error as Error).message, "socket hang up");
+    }
+    const failedRun = readJournal(inputFileDirectory)[configKey];
+    assert.deepEqual(Object.keys(failedRun.steps), [
+      "deployAdminACL",
+      "deployCore",
+      "registerContract",
+    ]);
+    assert.equal(failedRun.steps.registerContract.status, "pending");
+    assert.equal(failedRun.steps.registerContract.txHash, registerTxHash);
+    assert.isUndefined(failedRun.completedAt);
+    assert.include(readLogs(), "[ERROR] Step registerContract failed.");
+
+    // the resumed run confirms the registerContract transaction, and only
+    // sends the steps after it
+    restoreProvider();
+    const nonceBefore = await accounts.deployer.getTransactionCount();
+    await deployEngine();
+    assert.equal(
+      await accounts.deployer.getTransactionCount(),
+      nonceBefore + 1
+    );
+    const resumedRun = readJournal(inputFileDirectory)[configKey];
+    assert.deepEqual(Object.keys(resumedRun.steps), [
+      "deployAdminACL",
+      "deployCore",
+      "registerContract",
+      "updateMinterContract",
+      "verify",
+      "createImageBucket",
+      "writeDeploymentSummary",
+    ]);
+    assert.equal(resumedRun.steps.registerContract.status, "completed");
+    assert.equal(resumedRun.steps.registerContract.txHash, registerTxHash);
+    assert.isTrue(
+      await coreRegistry.isRegisteredContract(
+        resumedRun.steps.deployCore.address
+      )
+    );
+    assert.isDefined(resumedRun.completedAt);
+  });
+
+  it("skips a step failing an admin check, and reminds to perform it manually", async function () {
+    const registerContract =
+      coreRegistry.interface.getSighash("registerContract");
+    // the deployer wallet passes the simulated registerContract call, but
+    // fails the core registry's ownership check when sending it
+    restoreProvider = interceptRequests(async (method, params, send) => {
+      if (
+        method === "eth_estimateGas" &&
+        params[0].data?.startsWith(registerContract)
+      ) {
+        throw new Error(
+          "VM Exception while processing transaction: reverted with reason string 'Ownable: caller is not the owner'"
+        );
+      }
+      return send(method, params);
+    });
+    await deployEngine();
+    const entry = readJournal(inputFileDirectory)[configKey];
+    assert.equal(entry.steps.registerContract.status, "skipped");
+    assert.include(
+      entry.steps.registerContract.error,
+      "Ownable: caller is not the owner"
+    );
+    assert.equal(entry.steps.updateMinterContract.status, "completed");
+    assert.isDefined(entry.completedAt);
+    assert.isFalse(
+      await coreRegistry.isRegisteredContract(entry.steps.deployCore.address)
+    );
+    assert.include(
+      readLogs(),
+      `[ACTION] Deployer wallet failed the core registry's ownership check, please manually register the core contract ${entry.steps.deployCore.address}`
+    );
+
+    // re-running the completed deployment sends nothing
+    restoreProvider();
+    const nonceBefore = await accounts.deployer.getTransactionCount();
+    await deployEngine();
+    assert.equal(await accounts.deployer.getTransactionCount(), nonceBefore);
+    assert.equal(
+      readJournal(inputFileDirectory)[configKey].completedAt,
+      entry.completedAt
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  ManifestEntry,
+  buildDeploymentsIndex,
+  readManifest,
+  renderManifest,
+  renderManifestEntry,
+  writeManifestEntry,
+} from "../../scripts/util/deployment-manifest";
+
+const CORE_ADDRESS = "0x000000000000A791ABed33872C44a3D215a3743B";
+const MINTER_FILTER_ADDRESS = "0xf4AC1A3904A1ED2c9E969666A24541bB6e4Cd39f";
+const TX_HASH =
+  "0x6c1ee5c07a2cb6fbfe6d8e1ec3aa4d7b0a4b8d2b9e3c2a1f0e9d8c7b6a5f4e3d";
+
+function getEntry(overrides: Partial<ManifestEntry> = {}): ManifestEntry {
+  return {
+    title: "Engine Deployment: Test Partner",
+    network: "arbitrum",
+    environment: "mainnet",
+    deploymentConfigFile: "deployment-config.mainnet.ts",
+    gitCommit: "0123456789abcdef",
+    deployedAt: "2026-10-01T00:00:00.000Z",
+    contracts: [
+      {
+        contractName: "GenArt721CoreV3_Engine",
+        address: CORE_ADDRESS,
+        constructorArgs: ["Test Partner", "TEST"],
+        libraries: { BytecodeStorageReader: MINTER_FILTER_ADDRESS },
+        txHash: TX_HASH,
+        blockNumber: 123,
+      },
+    ],
+    associatedContracts: [
+      { label: "Shared Minter Filter", address: MINTER_FILTER_ADDRESS },
+    ],
+    notes: [],
+    details: { Metadata: { "Starting Project ID": 0 } },
+    ...overrides,
+  };
+}
+
+describe("Deployment manifests", async function () {
+  let inputFileDirectory: string;
+
+  beforeEach(async function () {
+    inputFileDirectory = fs.mkdtempSync(
+      path.join(os.tmpdir(), "deployment-manifest-")
+    );
+  });
+
+  afterEach(async function () {
+    fs.rmSync(inputFileDirectory, { recursive: true, force: true });
+  });
+
+  it("links to the block explorer of the deployed network", async function () {
+    const markdown = renderManifestEntry(getEntry());
+    assert.include(
+      markdown,
+      `**GenArt721CoreV3_Engine:** https://arbiscan.io/address/${CORE_ADDRESS}#code`
+    );
+    assert.include(
+      markdown,
+      `- **Deployment Tx:** https://arbiscan.io/tx/${TX_HASH} (block 123)`
+    );
+    assert.include(
+      markdown,
+      `**Shared Minter Filter:** https://arbiscan.io/address/${MINTER_FILTER_ADDRESS}#code`
+    );
+    assert.notInclude(markdown, "etherscan.io");
+  });
+
+  it("renders plain addresses on networks without a known explorer", async function () {
+    const markdown = renderManifestEntry(getEntry({ network: "hardhat" }));
+    assert.include(markdown, `**GenArt721CoreV3_Engine:** ${CORE_ADDRESS}`);
+  });
+
+  it("appends entries to the manifest and regenerates DEPLOYMENTS.md from it", async function () {
+    const summaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
+    const preamble = "# Deployment made before manifests were written\n";
+    fs.writeFileSync(summaryFile, preamble);
+    writeManifestEntry(inputFileDirectory, getEntry());
+    writeManifestEntry(
+      inputFileDirectory,
+      getEntry({ deployedAt: "2026-10-02T00:00:00.000Z" })
+    );
+    const manifest = readManifest(
+      path.join(inputFileDirectory, "DEPLOYMENTS.json")
+    );
+    assert.equal(manifest.length, 2);
+    assert.deepEqual(manifest[0], getEntry());
+    // the preamble is kept, and every entry is rendered once
+    const markdown = fs.readFileSync(summaryFile, "utf8");
+    assert.equal(markdown, renderManifest(manifest, preamble));
+    assert.isTrue(markdown.startsWith(preamble));
+    assert.include(
+      markdown,
+      renderManifestEntry(manifest[0]) + renderManifestEntry(manifest[1])
+    );
+  });
+
+  it("indexes deployed contracts by network, environment and date", async function () {
+    const index = buildDeploymentsIndex({
+      "deployments/b/DEPLOYMENTS.json": [
+        getEntry({ deployedAt: "2026-10-02T00:00:00.000Z" }),
+      ],
+      "deployments/a/DEPLOYMENTS.json": [
+        getEntry(),
+        getEntry({ network: "mainnet" }),
+      ],
+    });
+    assert.deepEqual(
+      index.map(({ network, manifestFile }) => [network, manifestFile]),
+      [
+        ["arbitrum", "deployments/a/DEPLOYMENTS.json"],
+        ["arbitrum", "deployments/b/DEPLOYMENTS.json"],
+        ["mainnet", "deployments/a/DEPLOYMENTS.json"],
+      ]
+    );
+    assert.equal(index[0].address, CORE_ADDRESS);
+    assert.equal(index[0].blockNumber, 123);
+  });
+});
@@ -0,0 +1,103 @@
+import { assert } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  DeploymentPlan,
+  PlannedValue,
+} from "../../scripts/util/deployment-plan";
+import { TestAccountsArtBlocks, getAccounts } from "./common";
+
+describe("DeploymentPlan", async function () {
+  let accounts: TestAccountsArtBlocks;
+
+  beforeEach(async function () {
+    accounts = await getAccounts();
+  });
+
+  it("predicts addresses and estimates gas without sending anything", async function () {
+    const plan = await DeploymentPlan.create({
+      title: "deployment-config.dev.ts",
+      from: accounts.deployer.address,
+      provider: ethers.provider,
+    });
+    const nonceBefore = await accounts.deployer.getTransactionCount();
+    const adminACLFactory = await ethers.getContractFactory("AdminACLV0");
+    const adminACLAddress = await plan.deploy(
+      "deployAdminACL",
+      "AdminACLV0",
+      adminACLFactory,
+      []
+    );
+    const coreRegistryFactory =
+      await ethers.getContractFactory("CoreRegistryV1");
+    const coreRegistryAddress = await plan.deploy(
+      "deployCoreRegistry",
+      "CoreRegistryV1",
+      coreRegistryFactory,
+      []
+    );
+    await plan.call(
+      "registerContract",
+      "CoreRegistryV1",
+      coreRegistryFactory.attach(coreRegistryAddress),
+      "registerContract",
+      [
+        adminACLAddress,
+        new PlannedValue("coreVersion of the deployed core"),
+        ethers.utils.formatBytes32String("GenArt721CoreV3_Engine"),
+      ]
+    );
+    plan.offChain("createImageBucket", "create S3 image bucket");
+    assert.equal(await accounts.deployer.getTransactionCount(), nonceBefore);
+
+    const [deployAdminACL, deployCoreRegistry, registerContract, bucket] =
+      plan.steps;
+    assert.isTrue(deployAdminACL.gas.gt(0));
+    assert.isTrue(deployCoreRegistry.gas.gt(0));
+    assert.isUndefined(registerContract.gas);
+    assert.include(
+      registerContract.args[1],
+      "coreVersion of the deployed core"
+    );
+    assert.equal(bucket.kind, "off-chain");
+
+    // predicted addresses match the deployed addresses
+    const adminACL = await adminACLFactory.connect(accounts.deployer).deploy();
+    const coreRegistry = await coreRegistryFactory
+      .connect(accounts.deployer)
+      .deploy();
+    assert.equal(adminACL.address, adminACLAddress);
+    assert.equal(coreRegistry.address, coreRegistryAddress);
+  });
+
+  it("plans calls the deployer wallet cannot make as batched", async function () {
+    const coreRegistry = await (
+      await ethers.getContractFactory("CoreRegistryV1")
+    )
+      .connect(accounts.deployer)
+      .deploy();
+    await coreRegistry.transferOwnership(accounts.artist.address);
+    const plan = await DeploymentPlan.create({
+      title: "deployment-config.dev.ts",
+      from: accounts.deployer.address,
+      provider: ethers.provider,
+    });
+    await plan.call(
+      "registerContract",
+      "CoreRegistryV1",
+      coreRegistry,
+      "registerContract",
+      [
+        accounts.user2.address,
+        ethers.utils.formatBytes32String("v3.0.0"),
+        ethers.utils.formatBytes32String("GenArt721CoreV3_Engine"),
+      ],
+      { safe: accounts.artist.address }
+    );
+    assert.isUndefined(plan.steps[0].gas);
+    assert.include(
+      plan.steps[0].note,
+      `batched for Safe ${accounts.artist.address}`
+    );
+  });
+});
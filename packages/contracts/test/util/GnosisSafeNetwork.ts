@@ -6,6 +6,15 @@ import Safe, {
   SafeAccountConfig,
   ContractNetworksConfig,
 } from "@gnosis.pm/safe-core-sdk";
+import { ContractReceipt } from "ethers";
+import {
+  SafeTransactionBuilderBatch,
+  encodeMultiSend,
+} from "../../scripts/util/safe-batch";
+
+const SAFE_EXECUTION_FAILURE_TOPIC = ethers.utils.id(
+  "ExecutionFailure(bytes32,uint256)"
+);
 
 export const getGnosisSafe = async (
   account1: SignerWithAddress,
@@ -52,3 +61,52 @@ export const getGnosisSafe = async (
   const safeSdk: Safe = await safeFactory.deploySafe({ safeAccountConfig });
   return safeSdk;
 };
+
+/**
+ * Simulates a Safe Transaction Builder batch by executing it from the Safe of
+ * `safeSdk` as a single MultiSend transaction, approved by `owners` up to the
+ * Safe's threshold.
+ * @dev throws if any call of the batch reverts
+ */
+export const simulateSafeBatch = async (
+  safeSdk: Safe,
+  batch: SafeTransactionBuilderBatch,
+  owners: SignerWithAddress[]
+): Promise<ContractReceipt> => {
+  const safeAddress = safeSdk.getAddress();
+  const payload = encodeMultiSend(batch, safeSdk.getMultiSendAddress());
+  const safeTransaction = await safeSdk.createTransaction({
+    to: payload.to,
+    value: payload.value,
+    data: payload.data,
+    operation: payload.operation,
+  });
+  const safeTxHash = await safeSdk.getTransactionHash(safeTransaction);
+  // all but the executing owner approve the transaction hash on-chain
+  const threshold = await safeSdk.getThreshold();
+  const ownerSdks = await Promise.all(
+    owners.slice(0, threshold).map((owner) =>
+      safeSdk.connect({
+        ethAdapter: new EthersAdapter({ ethers, signer: owner }),
+        safeAddress,
+      })
+    )
+  );
+  for (const ownerSdk of ownerSdks.slice(0, threshold - 1)) {
+    const approveTxResponse = await ownerSdk.approveTransactionHash(safeTxHash);
+    await approveTxResponse.transactionResponse?.wait();
+  }
+  const executeTxResponse =
+    await ownerSdks[threshold - 1].executeTransaction(safeTransaction);
+  const receipt = await executeTxResponse.transactionResponse?.wait();
+  // @dev the Safe does not revert on failure if it was given a safeTxGas
+  const failed = receipt.logs.some(
+    (log) =>
+      log.address.toLowerCase() === safeAddress.toLowerCase() &&
+      log.topics[0] === SAFE_EXECUTION_FAILURE_TOPIC
+  );
+  if (failed) {
+    throw new Error(`Safe batch ${batch.meta.name} failed to execute`);
+  }
+  return receipt;
+};
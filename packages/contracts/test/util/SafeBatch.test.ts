@@ -0,0 +1,223 @@
+import { assert } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import Safe from "@gnosis.pm/safe-core-sdk";
+import { ContractTransaction } from "ethers";
+
+import {
+  SafeBatchCollector,
+  isBatchedCall,
+  sendOrBatch,
+} from "../../scripts/util/safe-batch";
+import { TestAccountsArtBlocks, getAccounts } from "./common";
+import { getGnosisSafe, simulateSafeBatch } from "./GnosisSafeNetwork";
+
+const CORE_VERSION = ethers.utils.formatBytes32String("v3.0.0");
+const CORE_TYPE = ethers.utils.formatBytes32String("GenArt721CoreV3_Engine");
+
+describe("Safe batches", async function () {
+  let accounts: TestAccountsArtBlocks;
+  let safeSdk: Safe;
+  let outputDirectory: string;
+  let safeBatches: SafeBatchCollector;
+
+  beforeEach(async function () {
+    accounts = await getAccounts();
+    safeSdk = await getGnosisSafe(
+      accounts.artist,
+      accounts.additional,
+      accounts.user
+    );
+    outputDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "safe-batch-"));
+    safeBatches = new SafeBatchCollector({
+      outputDirectory,
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      name: "Test deployment",
+      writeMultiSend: true,
+    });
+  });
+
+  afterEach(async function () {
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+  });
+
+  // deploys a core registry owned by `owner`
+  async function deployCoreRegistry(owner: string) {
+    const coreRegistry = await (
+      await ethers.getContractFactory("CoreRegistryV1")
+    )
+      .connect(accounts.deployer)
+      .deploy();
+    await coreRegistry.transferOwnership(owner);
+    return coreRegistry.connect(accounts.deployer);
+  }
+
+  it("sends calls the deployer wallet can make", async function () {
+    const coreRegistry = await deployCoreRegistry(accounts.deployer.address);
+    const tx = await sendOrBatch(
+      safeBatches,
+      safeSdk.getAddress(),
+      coreRegistry,
+      "registerContract",
+      [accounts.user2.address, CORE_VERSION, CORE_TYPE]
+    );
+    assert.isFalse(isBatchedCall(tx));
+    await (tx as ContractTransaction).wait();
+    assert.isTrue(
+      await coreRegistry.isRegisteredContract(accounts.user2.address)
+    );
+    assert.isTrue(safeBatches.isEmpty);
+  });
+
+  it("batches calls the deployer wallet cannot make, and the Safe executes them", async function () {
+    const safeAddress = safeSdk.getAddress();
+    const coreRegistry = await deployCoreRegistry(safeAddress);
+    const tx = await sendOrBatch(
+      safeBatches,
+      safeAddress,
+      coreRegistry,
+      "registerContract",
+      [accounts.user2.address, CORE_VERSION, CORE_TYPE]
+    );
+    assert.deepEqual(tx, {
+      safeAddress,
+      batchFile: safeBatches.getBatchFile(safeAddress),
+    });
+    safeBatches.add(safeAddress, coreRegistry, "registerContracts", [
+      [accounts.artist2.address, accounts.additional2.address],
+      [CORE_VERSION, CORE_VERSION],
+      [CORE_TYPE, CORE_TYPE],
+    ]);
+
+    // the batch is written in the Safe Transaction Builder format
+    const batchFile = safeBatches.getBatchFile(safeAddress);
+    const batch = JSON.parse(fs.readFileSync(batchFile, "utf8"));
+    assert.equal(batch.meta.createdFromSafeAddress, safeAddress);
+    assert.equal(batch.transactions.length, 2);
+    assert.equal(batch.transactions[0].to, coreRegistry.address);
+    assert.equal(batch.transactions[0].contractMethod.name, "registerContract");
+    assert.deepEqual(batch.transactions[1].contractInputsValues, {
+      contractAddresses: JSON.stringify([
+        accounts.artist2.address,
+        accounts.additional2.address,
+      ]),
+      coreVersions: JSON.stringify([CORE_VERSION, CORE_VERSION]),
+      coreTypes: JSON.stringify([CORE_TYPE, CORE_TYPE]),
+    });
+    assert.isTrue(
+      fs.existsSync(batchFile.replace(/\.json$/, ".multisend.json"))
+    );
+
+    await simulateSafeBatch(safeSdk, batch, [
+      accounts.artist,
+      accounts.additional,
+    ]);
+    for (const registered of [
+      accounts.user2.address,
+      accounts.artist2.address,
+      accounts.additional2.address,
+    ]) {
+      assert.isTrue(await coreRegistry.isRegisteredContract(registered));
+    }
+  });
+
+  it("throws reverts other than admin checks instead of batching", async function () {
+    const coreRegistry = await deployCoreRegistry(accounts.deployer.address);
+    const args = [accounts.user2.address, CORE_VERSION, CORE_TYPE];
+    await coreRegistry.registerContract(args[0], args[1], args[2]);
+    // registering the same contract twice reverts for any sender
+    let failed = false;
+    try {
+      await sendOrBatch(
+        safeBatches,
+        safeSdk.getAddress(),
+        coreRegistry,
+        "registerContract",
+        args
+      );
+    } catch (error) {
+      failed = true;
+    }
+    assert.isTrue(failed, "expected the revert to be thrown");
+    assert.isTrue(safeBatches.isEmpty);
+  });
+
+  it("simulates batches as executed by their Safe", async function () {
+    const safeAddress = safeSdk.getAddress();
+    const multiSendAddress = safeSdk.getMultiSendAddress();
+    const coreRegistry = await deployCoreRegistry(safeAddress);
+    safeBatches.add(safeAddress, coreRegistry, "registerContract", [
+      accounts.user2.address,
+      CORE_VERSION,
+      CORE_TYPE,
+    ]);
+    // calls depending on an earlier call of the same batch are simulated
+    // after it
+    safeBatches.add(safeAddress, coreRegistry, "unregisterContract", [
+      accounts.user2.address,
+    ]);
+    assert.isTrue(
+      await safeBatches.simulate(ethers.provider, multiSendAddress)
+    );
+
+    // calls reverting for the Safe fail simulation
+    safeBatches.add(safeAddress, coreRegistry, "transferOwnership", [
+      ethers.constants.AddressZero,
+    ]);
+    assert.isFalse(
+      await safeBatches.simulate(ethers.provider, multiSendAddress)
+    );
+    assert.isFalse(
+      await coreRegistry.isRegisteredContract(accounts.user2.address)
+    );
+    assert.equal(await coreRegistry.owner(), safeAddress);
+  });
+
+  it("fails simulation of batches that cannot be executed by a Safe", async function () {
+    const coreRegistry = await deployCoreRegistry(accounts.deployer.address);
+    safeBatches.add(
+      accounts.deployer.address,
+      coreRegistry,
+      "registerContract",
+      [accounts.user2.address, CORE_VERSION, CORE_TYPE]
+    );
+    // the batch's Safe is not a Safe
+    assert.isFalse(
+      await safeBatches.simulate(ethers.provider, safeSdk.getMultiSendAddress())
+    );
+    // no MultiSend contract is deployed at its default address on the Hardhat
+    // network
+    assert.isFalse(await safeBatches.simulate(ethers.provider));
+  });
+
+  it("fails simulation of batches with reverting calls", async function () {
+    const safeAddress = safeSdk.getAddress();
+    const coreRegistry = await deployCoreRegistry(safeAddress);
+    // registering the same contract twice reverts
+    for (let i = 0; i < 2; i++) {
+      safeBatches.add(safeAddress, coreRegistry, "registerContract", [
+        accounts.user2.address,
+        CORE_VERSION,
+        CORE_TYPE,
+      ]);
+    }
+    assert.isFalse(
+      await safeBatches.simulate(ethers.provider, safeSdk.getMultiSendAddress())
+    );
+    let failed = false;
+    try {
+      await simulateSafeBatch(safeSdk, safeBatches.getBatch(safeAddress), [
+        accounts.artist,
+        accounts.additional,
+      ]);
+    } catch (error) {
+      failed = true;
+    }
+    assert.isTrue(failed, "expected the batch simulation to fail");
+    assert.isFalse(
+      await coreRegistry.isRegisteredContract(accounts.user2.address)
+    );
+  });
+});
@@ -6,6 +6,7 @@ import { ethers } from "hardhat";
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { Contract, BigNumber } from "ethers";
 import { ONE_MINUTE } from "./constants";
+import { encodeTokenId } from "./sdk";
 
 export type TestAccountsArtBlocks = {
   deployer: SignerWithAddress;
@@ -129,19 +130,17 @@ export async function assignDefaultConstants(
   config.projectTwo = projectZero + 2;
   config.projectThree = projectZero + 3;
   // token IDs
-  config.projectZeroTokenZero = new BN(config.projectZero).mul(
-    new BN("1000000")
-  );
-  config.projectZeroTokenOne = config.projectZeroTokenZero.add(new BN("1"));
-  config.projectZeroTokenTwo = config.projectZeroTokenOne.add(new BN("1"));
-  config.projectOneTokenZero = new BN(config.projectOne).mul(new BN("1000000"));
-  config.projectOneTokenOne = config.projectOneTokenZero.add(new BN("1"));
-  config.projectTwoTokenZero = new BN(config.projectTwo).mul(new BN("1000000"));
-  config.projectTwoTokenOne = config.projectTwoTokenZero.add(new BN("1"));
-  config.projectThreeTokenZero = new BN(config.projectThree).mul(
-    new BN("1000000")
-  );
-  config.projectThreeTokenOne = config.projectThreeTokenZero.add(new BN("1"));
+  const tokenId = (projectId: number, invocation: number) =>
+    new BN(encodeTokenId(projectId, invocation).toString());
+  config.projectZeroTokenZero = tokenId(config.projectZero, 0);
+  config.projectZeroTokenOne = tokenId(config.projectZero, 1);
+  config.projectZeroTokenTwo = tokenId(config.projectZero, 2);
+  config.projectOneTokenZero = tokenId(config.projectOne, 0);
+  config.projectOneTokenOne = tokenId(config.projectOne, 1);
+  config.projectTwoTokenZero = tokenId(config.projectTwo, 0);
+  config.projectTwoTokenOne = tokenId(config.projectTwo, 1);
+  config.projectThreeTokenZero = tokenId(config.projectThree, 0);
+  config.projectThreeTokenOne = tokenId(config.projectThree, 1);
   return config;
 }
 
@@ -395,7 +394,7 @@ export async function deployCore(
     coreContractName.endsWith("V3_Explorations")
   ) {
     let adminACLContractName =
-      _adminACLContractName ?? useAdminACLWithEvents
+      (_adminACLContractName ?? useAdminACLWithEvents)
         ? "MockAdminACLV0Events"
         : "AdminACLV0";
     adminACL = await deployAndGet(config, adminACLContractName, []);
@@ -0,0 +1,10 @@
+// SDK helpers tested against the contracts.
+// @dev imported from the SDK's source rather than the @artblocks/sdk package,
+// whose build depends on this package and on generated contract types. These
+// modules must only import ethers and each other.
+export { encodeTokenId } from "../../../sdk/src/tokens";
+export { getPrice } from "../../../sdk/src/pricing/dutch-auction";
+export { calculatePrimaryRevenueSplits } from "../../../sdk/src/pricing/revenue-splits";
+export type { ProviderRevenueConfig } from "../../../sdk/src/pricing/revenue-splits";
+export { EventIndexer } from "../../../sdk/src/indexer/event-indexer";
+export { MemoryIndexerStore } from "../../../sdk/src/indexer/store";
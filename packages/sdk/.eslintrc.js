@@ -1,6 +1,12 @@
 module.exports = {
   extends: ["custom"],
   env: { browser: true, es6: true },
+  rules: {
+    // the base rule reports the parameters of TypeScript function types and
+    // interface methods as unused
+    "no-unused-vars": "off",
+    "@typescript-eslint/no-unused-vars": "error",
+  },
   overrides: [
     {
       files: [
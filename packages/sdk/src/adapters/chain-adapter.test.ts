@@ -0,0 +1,181 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, Signer, ethers } from "ethers";
+
+import {
+  resolveSigner,
+  resolveSignerOrProvider,
+  AdapterTransactionTimeout,
+  ChainAdapter,
+  UnsupportedAdapterOperation,
+} from "./chain-adapter";
+import { SignerRequired } from "../errors";
+
+const ACCOUNT_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const TO_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const pendingTransaction = {
+  hash: TX_HASH,
+  blockHash: null,
+  blockNumber: null,
+  transactionIndex: null,
+  from: ACCOUNT_ADDRESS,
+  to: TO_ADDRESS,
+  gas: "0x5208",
+  gasPrice: "0x1",
+  input: "0x1234",
+  value: "0x64",
+  nonce: "0x0",
+};
+
+const mockAdapter = (unknownPolls = 0, lookupError?: Error) => {
+  let polls = 0;
+  return {
+    request: jest.fn(async (method: string) => {
+      switch (method) {
+        case "eth_chainId":
+          return "0x1";
+        case "eth_blockNumber":
+          return "0x2a";
+        case "eth_getTransactionByHash":
+          if (lookupError) {
+            throw lookupError;
+          }
+          return polls++ < unknownPolls ? null : pendingTransaction;
+        default:
+          throw new Error(`unexpected ${method}`);
+      }
+    }),
+    getAddress: jest.fn(async () => ACCOUNT_ADDRESS),
+    sendTransaction: jest.fn(async () => TX_HASH),
+  };
+};
+
+describe("resolveSignerOrProvider", () => {
+  it("returns ethers v5 signers and providers as-is", () => {
+    const provider = new ethers.providers.JsonRpcProvider();
+    const signer = new ethers.VoidSigner(ACCOUNT_ADDRESS, provider);
+    expect(resolveSignerOrProvider(provider)).toBe(provider);
+    expect(resolveSignerOrProvider(signer)).toBe(signer);
+  });
+
+  it("reads through a read-only adapter's JSON-RPC requests", async () => {
+    const { request } = mockAdapter();
+    const provider = resolveSignerOrProvider({
+      request,
+    }) as ethers.providers.Provider;
+
+    expect(Signer.isSigner(provider)).toBe(false);
+    expect(await provider.getBlockNumber()).toEqual(42);
+    expect(request).toBeCalledWith("eth_blockNumber", []);
+  });
+
+  it("wraps each adapter once", () => {
+    const adapter = mockAdapter();
+    expect(resolveSignerOrProvider(adapter)).toBe(
+      resolveSignerOrProvider(adapter)
+    );
+  });
+
+  describe("adapted signers", () => {
+    it("use the adapter's account", async () => {
+      const signer = resolveSigner(mockAdapter());
+      expect(await signer.getAddress()).toEqual(ACCOUNT_ADDRESS);
+      expect(await signer.provider?.getBlockNumber()).toEqual(42);
+    });
+
+    it("send transactions through the adapter", async () => {
+      const adapter = mockAdapter();
+      const signer = resolveSigner(adapter);
+
+      const response = await signer.sendTransaction({
+        to: TO_ADDRESS,
+        data: [0x12, 0x34],
+        value: 100,
+        gasLimit: 21_000,
+      });
+
+      expect(adapter.sendTransaction).toBeCalledWith({
+        from: ACCOUNT_ADDRESS,
+        to: TO_ADDRESS,
+        data: "0x1234",
+        value: BigNumber.from(100),
+        gasLimit: BigNumber.from(21_000),
+      });
+      expect(response.hash).toEqual(TX_HASH);
+      expect(response.value).toEqual(BigNumber.from(100));
+    });
+
+    it("wait for the sent transaction to reach the node", async () => {
+      const adapter = mockAdapter(1);
+      const signer = resolveSigner(adapter);
+
+      const response = await signer.sendTransaction({ to: TO_ADDRESS });
+
+      expect(adapter.sendTransaction).toBeCalledWith({
+        from: ACCOUNT_ADDRESS,
+        to: TO_ADDRESS,
+        data: "0x",
+        value: undefined,
+        gasLimit: undefined,
+      });
+      expect(response.hash).toEqual(TX_HASH);
+      expect(
+        adapter.request.mock.calls.filter(
+          ([method]) => method === "eth_getTransactionByHash"
+        )
+      ).toHaveLength(2);
+    });
+
+    it("give up on transactions the node never reports", async () => {
+      jest.useFakeTimers();
+      try {
+        const signer = resolveSigner(mockAdapter(Infinity));
+        const response = signer.sendTransaction({ to: TO_ADDRESS });
+        const assertion = expect(response).rejects.toThrowError(
+          new AdapterTransactionTimeout(TX_HASH, 120_000)
+        );
+        await jest.advanceTimersByTimeAsync(120_000);
+        await assertion;
+        expect(new AdapterTransactionTimeout(TX_HASH, 1).name).toEqual(
+          "AdapterTransactionTimeout"
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("rethrow errors reading the sent transaction", async () => {
+      const error = new Error("network error");
+      const signer = resolveSigner(mockAdapter(0, error));
+      await expect(
+        signer.sendTransaction({ to: TO_ADDRESS })
+      ).rejects.toThrowError("network error");
+    });
+
+    it("do not sign messages or transactions themselves", () => {
+      const signer = resolveSigner(mockAdapter());
+      expect(() => signer.signMessage("gm")).toThrowError(
+        UnsupportedAdapterOperation
+      );
+      expect(() => signer.signTransaction({})).toThrowError(
+        UnsupportedAdapterOperation
+      );
+      expect(() =>
+        signer.connect(new ethers.providers.JsonRpcProvider())
+      ).toThrowError(UnsupportedAdapterOperation);
+    });
+  });
+});
+
+describe("resolveSigner", () => {
+  it("returns ethers v5 signers as-is", () => {
+    const signer = new ethers.VoidSigner(ACCOUNT_ADDRESS);
+    expect(resolveSigner(signer)).toBe(signer);
+  });
+
+  it("throws for read-only adapters", () => {
+    const adapter: ChainAdapter = { request: mockAdapter().request };
+    expect(() => resolveSigner(adapter)).toThrowError(SignerRequired);
+  });
+});
@@ -0,0 +1,202 @@
+import { BigNumber, Signer, providers, utils } from "ethers";
+
+import { SignerRequired } from "../errors";
+
+/**
+ * A transaction sent through a `ChainAdapter`, as built by the SDK's
+ * contract calls.
+ */
+export type AdapterTransactionRequest = {
+  from: string;
+  to: string;
+  data: string;
+  value?: BigNumber;
+  gasLimit?: BigNumber;
+};
+
+/**
+ * The host application's chain client, as used by the SDK: reads are
+ * JSON-RPC requests, and transactions are sent from the client's account.
+ */
+export interface ChainAdapter {
+  /**
+   * @param method JSON-RPC method, e.g. "eth_call"
+   * @param params JSON-RPC parameters
+   * @returns the JSON-RPC result
+   */
+  request(method: string, params: unknown[]): Promise<unknown>;
+  /**
+   * @returns the address transactions are sent from; omitted by read-only
+   * adapters
+   */
+  getAddress?(): Promise<string>;
+  /**
+   * @param transaction transaction to send from the client's account
+   * @returns the transaction hash; omitted by read-only adapters
+   */
+  sendTransaction?(transaction: AdapterTransactionRequest): Promise<string>;
+}
+
+/**
+ * An ethers v5 signer or provider, or an adapter of any other client.
+ */
+export type SignerOrProviderLike = Signer | providers.Provider | ChainAdapter;
+
+/**
+ * @summary Error thrown when an operation the SDK never performs is
+ * requested from an adapter's signer.
+ * @description Adapted signers only send transactions, which the host
+ * client signs.
+ */
+export class UnsupportedAdapterOperation extends Error {
+  constructor(operation: string) {
+    super(`${operation} is not supported by adapted signers.`);
+    this.name = "UnsupportedAdapterOperation";
+  }
+}
+
+/**
+ * @summary Error thrown when a client cannot relay JSON-RPC requests.
+ * @description Adapters read through the client's JSON-RPC `send` or
+ * `request` method, which ethers fallback and custom providers lack.
+ */
+export class UnsupportedAdapterClient extends Error {
+  constructor(client: string) {
+    super(`${client} must be, or be connected to, a JSON-RPC provider.`);
+    this.name = "UnsupportedAdapterClient";
+  }
+}
+
+/**
+ * @summary Error thrown when a transaction sent through an adapter does not
+ * reach the SDK's provider in time.
+ * @description The host client returned the transaction hash, but the node
+ * read through the adapter never reported the transaction, e.g. because the
+ * client sent it to another network.
+ */
+export class AdapterTransactionTimeout extends Error {
+  constructor(hash: string, timeout: number) {
+    super(
+      `Transaction ${hash} was not found on the node after ${timeout / 1000} seconds.`
+    );
+    this.name = "AdapterTransactionTimeout";
+  }
+}
+
+// @dev how long a sent transaction is polled for, in milliseconds
+const TRANSACTION_LOOKUP_TIMEOUT = 120_000;
+
+/**
+ * @summary ethers v5 signer sending transactions through a `ChainAdapter`.
+ */
+class AdapterSigner extends Signer {
+  readonly provider: providers.Provider;
+  private readonly adapter: Required<ChainAdapter>;
+
+  constructor(adapter: Required<ChainAdapter>, provider: providers.Provider) {
+    super();
+    this.adapter = adapter;
+    this.provider = provider;
+  }
+
+  getAddress(): Promise<string> {
+    return this.adapter.getAddress();
+  }
+
+  async sendTransaction(
+    transaction: utils.Deferrable<providers.TransactionRequest>
+  ): Promise<providers.TransactionResponse> {
+    const tx = await utils.resolveProperties(
+      this.checkTransaction(transaction)
+    );
+    const hash = await this.adapter.sendTransaction({
+      from: tx.from as string,
+      to: tx.to as string,
+      data: utils.hexlify(tx.data || "0x"),
+      value: tx.value !== undefined ? BigNumber.from(tx.value) : undefined,
+      gasLimit:
+        tx.gasLimit !== undefined ? BigNumber.from(tx.gasLimit) : undefined,
+    });
+    // @dev the host client may return before its node has the transaction
+    const lookup = utils.poll(
+      async () => {
+        const response = await this.provider.getTransaction(hash);
+        return response || undefined;
+      },
+      { timeout: TRANSACTION_LOOKUP_TIMEOUT }
+    ) as Promise<providers.TransactionResponse>;
+    return lookup.catch((error: Error) => {
+      // @dev ethers' poll rejects with a plain "timeout" error
+      if (error.message === "timeout") {
+        throw new AdapterTransactionTimeout(hash, TRANSACTION_LOOKUP_TIMEOUT);
+      }
+      throw error;
+    });
+  }
+
+  signMessage(): Promise<string> {
+    throw new UnsupportedAdapterOperation("signMessage");
+  }
+
+  signTransaction(): Promise<string> {
+    throw new UnsupportedAdapterOperation("signTransaction");
+  }
+
+  connect(): Signer {
+    throw new UnsupportedAdapterOperation("connect");
+  }
+}
+
+const resolved = new WeakMap<ChainAdapter, Signer | providers.Provider>();
+
+/**
+ * @summary Get the ethers v5 signer or provider the SDK's contracts use for
+ * a client.
+ * @description ethers v5 signers and providers are used as-is. Adapters are
+ * wrapped once: reads become JSON-RPC requests to the adapter, and adapters
+ * with an account get a signer sending transactions through them.
+ * @param signerOrProvider ethers v5 signer or provider, or an adapter of
+ * another client
+ * @returns an ethers v5 signer, or a provider for read-only adapters
+ */
+export const resolveSignerOrProvider = (
+  signerOrProvider: SignerOrProviderLike
+): Signer | providers.Provider => {
+  if (
+    Signer.isSigner(signerOrProvider) ||
+    providers.Provider.isProvider(signerOrProvider)
+  ) {
+    return signerOrProvider;
+  }
+  const adapter = signerOrProvider;
+  let result = resolved.get(adapter);
+  if (!result) {
+    // @dev ethers defaults missing params to an empty array for EIP-1193
+    // providers
+    const provider = new providers.Web3Provider({
+      request: ({ method, params }) =>
+        adapter.request(method, params as unknown[]),
+    });
+    result =
+      adapter.getAddress && adapter.sendTransaction
+        ? new AdapterSigner(adapter as Required<ChainAdapter>, provider)
+        : provider;
+    resolved.set(adapter, result);
+  }
+  return result;
+};
+
+/**
+ * @summary Get the ethers v5 signer the SDK sends transactions with for a
+ * client.
+ * @param signer ethers v5 signer, or an adapter of another client
+ * @returns an ethers v5 signer
+ * @throws SignerRequired if the client cannot send transactions
+ */
+export const resolveSigner = (signer: Signer | ChainAdapter): Signer => {
+  const result = resolveSignerOrProvider(signer);
+  if (!Signer.isSigner(result)) {
+    throw new SignerRequired();
+  }
+  return result;
+};
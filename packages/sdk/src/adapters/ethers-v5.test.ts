@@ -0,0 +1,67 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import { ethersV5Adapter } from "./ethers-v5";
+import { UnsupportedAdapterClient } from "./chain-adapter";
+import { canActAsVaultFor } from "../purchase/delegation";
+
+const PRIVATE_KEY = `0x${"01".repeat(32)}`;
+const DELEGATE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const VAULT_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const TO_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const mockProvider = () => {
+  const provider = new ethers.providers.JsonRpcProvider();
+  const send = jest
+    .spyOn(provider, "send")
+    .mockImplementation(async (method: string) =>
+      method === "eth_call"
+        ? ethers.utils.defaultAbiCoder.encode(["bool"], [true])
+        : "0x1"
+    );
+  return { provider, send };
+};
+
+describe("ethersV5Adapter", () => {
+  it("reads through a provider", async () => {
+    const { provider, send } = mockProvider();
+    const adapter = ethersV5Adapter(provider);
+
+    expect(adapter.sendTransaction).toBeUndefined();
+    expect(
+      await canActAsVaultFor(adapter, DELEGATE_ADDRESS, VAULT_ADDRESS)
+    ).toBe(true);
+    expect(send).toBeCalledWith("eth_call", expect.anything());
+  });
+
+  it("reads through a signer's provider and sends from the signer", async () => {
+    const { provider, send } = mockProvider();
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const sendTransaction = jest
+      .spyOn(wallet, "sendTransaction")
+      .mockResolvedValue({ hash: TX_HASH } as never);
+    const adapter = ethersV5Adapter(wallet);
+
+    expect(await adapter.getAddress?.()).toEqual(wallet.address);
+    expect(
+      await canActAsVaultFor(adapter, DELEGATE_ADDRESS, VAULT_ADDRESS)
+    ).toBe(true);
+    expect(send).toBeCalledWith("eth_call", expect.anything());
+
+    const transaction = {
+      from: wallet.address,
+      to: TO_ADDRESS,
+      data: "0x1234",
+      value: BigNumber.from(100),
+    };
+    expect(await adapter.sendTransaction?.(transaction)).toEqual(TX_HASH);
+    expect(sendTransaction).toBeCalledWith(transaction);
+  });
+
+  it("throws for a signer without a JSON-RPC provider", () => {
+    expect(() => ethersV5Adapter(new ethers.Wallet(PRIVATE_KEY))).toThrowError(
+      UnsupportedAdapterClient
+    );
+  });
+});
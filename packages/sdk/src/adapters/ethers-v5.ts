@@ -0,0 +1,39 @@
+import { Signer, providers } from "ethers";
+
+import { ChainAdapter, UnsupportedAdapterClient } from "./chain-adapter";
+
+const jsonRpcProvider = (
+  provider: providers.Provider | undefined
+): providers.JsonRpcProvider => {
+  if (!(provider instanceof providers.JsonRpcProvider)) {
+    throw new UnsupportedAdapterClient("ethers v5 client");
+  }
+  return provider;
+};
+
+/**
+ * @summary Adapt an ethers v5 signer or JSON-RPC provider.
+ * @description The SDK accepts ethers v5 signers and providers directly;
+ * this adapter lets applications handle every client the same way.
+ * @param signerOrProvider ethers v5 signer connected to a JSON-RPC provider,
+ * or a JSON-RPC provider for reads only
+ * @returns the adapter
+ * @throws UnsupportedAdapterClient if no JSON-RPC provider is available
+ */
+export const ethersV5Adapter = (
+  signerOrProvider: Signer | providers.JsonRpcProvider
+): ChainAdapter => {
+  if (!Signer.isSigner(signerOrProvider)) {
+    return {
+      request: (method, params) => signerOrProvider.send(method, params),
+    };
+  }
+  const signer = signerOrProvider;
+  const provider = jsonRpcProvider(signer.provider);
+  return {
+    request: (method, params) => provider.send(method, params),
+    getAddress: () => signer.getAddress(),
+    sendTransaction: async (transaction) =>
+      (await signer.sendTransaction(transaction)).hash,
+  };
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber } from "ethers";
+import { AbiCoder, JsonRpcProvider, Wallet } from "ethers-v6";
+
+import { ethersV6Adapter } from "./ethers-v6";
+import { UnsupportedAdapterClient } from "./chain-adapter";
+import { canActAsVaultFor } from "../purchase/delegation";
+
+const PRIVATE_KEY = `0x${"01".repeat(32)}`;
+const DELEGATE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const VAULT_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const TO_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const mockProvider = () => {
+  const provider = new JsonRpcProvider(undefined, 1, { staticNetwork: true });
+  const send = jest
+    .spyOn(provider, "send")
+    .mockImplementation(async (method: string) =>
+      method === "eth_call"
+        ? AbiCoder.defaultAbiCoder().encode(["bool"], [true])
+        : "0x1"
+    );
+  return { provider, send };
+};
+
+describe("ethersV6Adapter", () => {
+  it("reads through a provider", async () => {
+    const { provider, send } = mockProvider();
+    const adapter = ethersV6Adapter(provider);
+
+    expect(adapter.sendTransaction).toBeUndefined();
+    expect(
+      await canActAsVaultFor(adapter, DELEGATE_ADDRESS, VAULT_ADDRESS)
+    ).toBe(true);
+    expect(send).toBeCalledWith("eth_call", expect.anything());
+  });
+
+  it("reads through a signer's provider and sends from the signer", async () => {
+    const { provider, send } = mockProvider();
+    const wallet = new Wallet(PRIVATE_KEY, provider);
+    const sendTransaction = jest
+      .spyOn(wallet, "sendTransaction")
+      .mockResolvedValue({ hash: TX_HASH } as never);
+    const adapter = ethersV6Adapter(wallet);
+
+    expect(await adapter.getAddress?.()).toEqual(wallet.address);
+    expect(
+      await canActAsVaultFor(adapter, DELEGATE_ADDRESS, VAULT_ADDRESS)
+    ).toBe(true);
+    expect(send).toBeCalledWith("eth_call", expect.anything());
+
+    expect(
+      await adapter.sendTransaction?.({
+        from: wallet.address,
+        to: TO_ADDRESS,
+        data: "0x1234",
+        value: BigNumber.from(100),
+        gasLimit: BigNumber.from(21_000),
+      })
+    ).toEqual(TX_HASH);
+    expect(sendTransaction).toBeCalledWith({
+      from: wallet.address,
+      to: TO_ADDRESS,
+      data: "0x1234",
+      value: BigInt(100),
+      gasLimit: BigInt(21_000),
+    });
+  });
+
+  it("sends transactions without a value or gas limit", async () => {
+    const wallet = new Wallet(PRIVATE_KEY, mockProvider().provider);
+    const sendTransaction = jest
+      .spyOn(wallet, "sendTransaction")
+      .mockResolvedValue({ hash: TX_HASH } as never);
+
+    await ethersV6Adapter(wallet).sendTransaction?.({
+      from: wallet.address,
+      to: TO_ADDRESS,
+      data: "0x",
+    });
+
+    expect(sendTransaction).toBeCalledWith({
+      from: wallet.address,
+      to: TO_ADDRESS,
+      data: "0x",
+      value: undefined,
+      gasLimit: undefined,
+    });
+  });
+
+  it("throws for a signer without a JSON-RPC provider", () => {
+    expect(() => ethersV6Adapter(new Wallet(PRIVATE_KEY))).toThrowError(
+      UnsupportedAdapterClient
+    );
+  });
+});
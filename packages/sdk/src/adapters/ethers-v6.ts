@@ -0,0 +1,65 @@
+import { ChainAdapter, UnsupportedAdapterClient } from "./chain-adapter";
+
+/**
+ * The parts of an ethers v6 `JsonRpcApiProvider`, such as a
+ * `JsonRpcProvider` or `BrowserProvider`, the adapter uses.
+ */
+export type EthersV6Provider = {
+  send(method: string, params: unknown[]): Promise<unknown>;
+};
+
+/**
+ * The parts of an ethers v6 `Signer` the adapter uses.
+ */
+export type EthersV6Signer = {
+  readonly provider: unknown;
+  getAddress(): Promise<string>;
+  sendTransaction(transaction: {
+    from: string;
+    to: string;
+    data: string;
+    value?: bigint;
+    gasLimit?: bigint;
+  }): Promise<{ hash: string }>;
+};
+
+const isJsonRpcProvider = (provider: unknown): provider is EthersV6Provider =>
+  !!provider && typeof (provider as EthersV6Provider).send === "function";
+
+/**
+ * @summary Adapt an ethers v6 signer or JSON-RPC provider.
+ * @description Types are structural, so the SDK does not depend on ethers
+ * v6 itself.
+ * @param signerOrProvider ethers v6 signer connected to a JSON-RPC provider,
+ * or a JSON-RPC provider for reads only
+ * @returns the adapter
+ * @throws UnsupportedAdapterClient if no JSON-RPC provider is available
+ */
+export const ethersV6Adapter = (
+  signerOrProvider: EthersV6Signer | EthersV6Provider
+): ChainAdapter => {
+  if (!("sendTransaction" in signerOrProvider)) {
+    return {
+      request: (method, params) => signerOrProvider.send(method, params),
+    };
+  }
+  const signer = signerOrProvider;
+  const provider = signer.provider;
+  if (!isJsonRpcProvider(provider)) {
+    throw new UnsupportedAdapterClient("ethers v6 signer");
+  }
+  return {
+    request: (method, params) => provider.send(method, params),
+    getAddress: () => signer.getAddress(),
+    sendTransaction: async ({ from, to, data, value, gasLimit }) =>
+      (
+        await signer.sendTransaction({
+          from,
+          to,
+          data,
+          value: value && value.toBigInt(),
+          gasLimit: gasLimit && gasLimit.toBigInt(),
+        })
+      ).hash,
+  };
+};
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber } from "ethers";
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  encodeAbiParameters,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { mainnet } from "viem/chains";
+
+import { viemAdapter } from "./viem";
+import { canActAsVaultFor } from "../purchase/delegation";
+
+const ACCOUNT_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const DELEGATE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const VAULT_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const TO_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const mockTransport = () => {
+  const request = jest.fn(
+    async ({ method }: { method: string; params?: unknown }) => {
+      switch (method) {
+        case "eth_call":
+          return encodeAbiParameters([{ type: "bool" }], [true]);
+        case "eth_accounts":
+        case "eth_requestAccounts":
+          return [ACCOUNT_ADDRESS];
+        case "eth_sendTransaction":
+          return TX_HASH;
+        default:
+          return "0x1";
+      }
+    }
+  );
+  return { transport: custom({ request }), request };
+};
+
+const requestParams = (request: ReturnType<typeof jest.fn>, method: string) =>
+  request.mock.calls
+    .map(([args]) => args as { method: string; params: unknown[] })
+    .find((args) => args.method === method)?.params;
+
+describe("viemAdapter", () => {
+  it("reads through a public client", async () => {
+    const { transport, request } = mockTransport();
+    const adapter = viemAdapter(createPublicClient({ transport }));
+
+    expect(adapter.sendTransaction).toBeUndefined();
+    expect(
+      await canActAsVaultFor(adapter, DELEGATE_ADDRESS, VAULT_ADDRESS)
+    ).toBe(true);
+    expect(requestParams(request, "eth_call")).toBeDefined();
+  });
+
+  it("sends from a wallet client's JSON-RPC account", async () => {
+    const { transport, request } = mockTransport();
+    const adapter = viemAdapter(
+      createPublicClient({ transport }),
+      createWalletClient({ account: ACCOUNT_ADDRESS, transport })
+    );
+
+    expect(await adapter.getAddress?.()).toEqual(ACCOUNT_ADDRESS);
+    expect(
+      await adapter.sendTransaction?.({
+        from: ACCOUNT_ADDRESS,
+        to: TO_ADDRESS,
+        data: "0x1234",
+        value: BigNumber.from(100),
+        gasLimit: BigNumber.from(21_000),
+      })
+    ).toEqual(TX_HASH);
+    expect(requestParams(request, "eth_sendTransaction")).toEqual([
+      expect.objectContaining({
+        from: ACCOUNT_ADDRESS,
+        to: TO_ADDRESS,
+        data: "0x1234",
+        value: "0x64",
+        gas: "0x5208",
+      }),
+    ]);
+  });
+
+  it("sends from the first address of a wallet client without an account", async () => {
+    const { transport, request } = mockTransport();
+    const adapter = viemAdapter(
+      createPublicClient({ transport }),
+      createWalletClient({ chain: mainnet, transport })
+    );
+
+    expect(await adapter.getAddress?.()).toEqual(ACCOUNT_ADDRESS);
+    expect(
+      await adapter.sendTransaction?.({
+        from: ACCOUNT_ADDRESS,
+        to: TO_ADDRESS,
+        data: "0x1234",
+      })
+    ).toEqual(TX_HASH);
+    expect(requestParams(request, "eth_sendTransaction")).toEqual([
+      expect.objectContaining({
+        from: ACCOUNT_ADDRESS,
+        to: TO_ADDRESS,
+        data: "0x1234",
+      }),
+    ]);
+  });
+
+  it("reads through the public client while a local account signs", async () => {
+    const { transport, request } = mockTransport();
+    const account = privateKeyToAccount(`0x${"01".repeat(32)}`);
+    const adapter = viemAdapter(
+      createPublicClient({ transport }),
+      createWalletClient({ account, transport })
+    );
+
+    expect(await adapter.getAddress?.()).toEqual(account.address);
+    expect(
+      await canActAsVaultFor(adapter, DELEGATE_ADDRESS, VAULT_ADDRESS)
+    ).toBe(true);
+    expect(requestParams(request, "eth_call")).toBeDefined();
+  });
+});
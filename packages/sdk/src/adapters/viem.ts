@@ -0,0 +1,59 @@
+import { ChainAdapter } from "./chain-adapter";
+
+/**
+ * The parts of a viem `PublicClient` or `WalletClient` the adapter reads
+ * through.
+ */
+export type ViemClient = {
+  request(args: { method: string; params?: unknown }): Promise<unknown>;
+};
+
+/**
+ * The parts of a viem `WalletClient` the adapter sends transactions with.
+ */
+export type ViemWalletClient = ViemClient & {
+  readonly account?: { address: string };
+  readonly chain?: unknown;
+  getAddresses(): Promise<readonly string[]>;
+  // @dev viem's parameters are generic over the client's chain and account,
+  // so no structural type matches every client
+  sendTransaction(args: never): Promise<string>;
+};
+
+/**
+ * @summary Adapt viem clients.
+ * @description Types are structural, so the SDK does not depend on viem
+ * itself. Transactions are sent from the wallet client's account, or its
+ * first address for JSON-RPC accounts, and skip the chain check when the
+ * wallet client has no chain.
+ * @param publicClient client to read through
+ * @param walletClient client to send transactions with, if any
+ * @returns the adapter
+ */
+export const viemAdapter = (
+  publicClient: ViemClient,
+  walletClient?: ViemWalletClient
+): ChainAdapter => {
+  const request: ChainAdapter["request"] = (method, params) =>
+    publicClient.request({ method, params });
+  if (!walletClient) {
+    return { request };
+  }
+  const getAddress = async () =>
+    walletClient.account
+      ? walletClient.account.address
+      : (await walletClient.getAddresses())[0];
+  return {
+    request,
+    getAddress,
+    sendTransaction: async ({ to, data, value, gasLimit }) =>
+      walletClient.sendTransaction({
+        account: walletClient.account || (await getAddress()),
+        chain: walletClient.chain || null,
+        to,
+        data,
+        value: value && value.toBigInt(),
+        gas: gasLimit && gasLimit.toBigInt(),
+      } as never),
+  };
+};
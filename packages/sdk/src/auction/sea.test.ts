@@ -0,0 +1,415 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import {
+  getMinimumNextBid,
+  getProjectSEAClient,
+  BidTooLow,
+  SEAAuctionUpdate,
+  SEAClient,
+} from "./sea";
+import { SignerRequired } from "../errors";
+import {
+  ProjectMinterNotConfigured,
+  ProjectPriceNotConfigured,
+  UnsupportedMinterType,
+} from "../purchase/purchase";
+import { mockMinterFilter, mockMinterType } from "../test-fixtures";
+import { MinterSEAV1__factory } from "../generated/contracts/factories/MinterSEAV1__factory";
+import { SEALib__factory } from "../generated/contracts/factories/SEALib__factory";
+
+const BIDDER_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const PROJECT_ID = 42;
+const TOKEN_ID = BigNumber.from(42_000_007);
+const NEXT_TOKEN_ID = TOKEN_ID.add(1);
+const END_TIME = 1_700_000_000;
+const ONE_ETH = ethers.utils.parseEther("1");
+
+const provider = new ethers.providers.JsonRpcProvider();
+const signer = new ethers.VoidSigner(BIDDER_ADDRESS, provider);
+
+const onChainAuction = (overrides = {}) => ({
+  tokenId: TOKEN_ID,
+  currentBid: ONE_ETH,
+  currentBidder: BIDDER_ADDRESS,
+  endTime: BigNumber.from(END_TIME),
+  minBidIncrementPercentage: 5,
+  settled: false,
+  ...overrides,
+});
+
+const noAuctionError = () =>
+  Object.assign(new Error("call revert exception"), {
+    reason: "No auction exists on project",
+  });
+
+type MockMinterOptions = {
+  auction?: ReturnType<typeof onChainAuction> | Error;
+  tokenToBid?: BigNumber;
+  isConfigured?: boolean;
+  minimumBid?: BigNumber;
+};
+
+const mockMinter = ({
+  auction = onChainAuction(),
+  tokenToBid = TOKEN_ID,
+  isConfigured = true,
+  minimumBid = ONE_ETH.mul(105).div(100),
+}: MockMinterOptions = {}) => {
+  const tx = { wait: async () => "receipt" };
+  const minter = {
+    address: MINTER_ADDRESS,
+    projectActiveAuctionDetails: jest.fn(async () => {
+      if (auction instanceof Error) {
+        throw auction;
+      }
+      return auction;
+    }),
+    getTokenToBid: async () => tokenToBid,
+    getPriceInfo: async () => ({
+      isConfigured,
+      tokenPriceInWei: minimumBid,
+      currencySymbol: "ETH",
+      currencyAddress: ethers.constants.AddressZero,
+    }),
+    createBid: jest.fn(async () => tx),
+    settleAuctionAndCreateBid: jest.fn(async () => tx),
+  };
+  MinterSEAV1__factory.connect = jest.fn().mockReturnValue(minter);
+  mockMinterType("MinterSEAV1");
+  return minter;
+};
+
+describe("getMinimumNextBid", () => {
+  it("rounds down like SEALib", () => {
+    expect(
+      getMinimumNextBid({
+        currentBid: BigNumber.from(999),
+        minBidIncrementPercentage: 5,
+      })
+    ).toEqual(BigNumber.from(1048));
+  });
+});
+
+describe("SEAClient", () => {
+  describe("getActiveAuction", () => {
+    it("returns the typed active auction", async () => {
+      mockMinter();
+      const client = new SEAClient(MINTER_ADDRESS, provider, 42, CORE_ADDRESS);
+      expect(await client.getActiveAuction()).toEqual({
+        tokenId: TOKEN_ID,
+        currentBid: ONE_ETH,
+        currentBidder: BIDDER_ADDRESS,
+        endTime: END_TIME,
+        minBidIncrementPercentage: 5,
+        settled: false,
+      });
+    });
+
+    it("returns null when no auction exists", async () => {
+      mockMinter({ auction: noAuctionError() });
+      const client = new SEAClient(MINTER_ADDRESS, provider, 42, CORE_ADDRESS);
+      expect(await client.getActiveAuction()).toBeNull();
+    });
+
+    it("rethrows other errors", async () => {
+      mockMinter({ auction: new Error("network error") });
+      const client = new SEAClient(MINTER_ADDRESS, provider, 42, CORE_ADDRESS);
+      await expect(client.getActiveAuction()).rejects.toThrowError(
+        "network error"
+      );
+    });
+  });
+
+  describe("getBidState", () => {
+    it("throws when auctions are not configured", async () => {
+      mockMinter({ auction: noAuctionError(), isConfigured: false });
+      const client = new SEAClient(MINTER_ADDRESS, provider, 42, CORE_ADDRESS);
+      await expect(client.getBidState()).rejects.toThrowError(
+        ProjectPriceNotConfigured
+      );
+    });
+  });
+
+  describe("bid", () => {
+    it("requires a signer", async () => {
+      mockMinter();
+      const client = new SEAClient(MINTER_ADDRESS, provider, 42, CORE_ADDRESS);
+      await expect(client.bid()).rejects.toThrowError(SignerRequired);
+    });
+
+    it("throws rather than submitting a bid that is too low", async () => {
+      const minter = mockMinter();
+      const client = new SEAClient(MINTER_ADDRESS, signer, 42, CORE_ADDRESS);
+      await expect(client.bid(ONE_ETH)).rejects.toThrowError(BidTooLow);
+      expect(minter.createBid).not.toBeCalled();
+    });
+
+    it("bids the minimum bid on the live auction by default", async () => {
+      const minter = mockMinter();
+      const client = new SEAClient(MINTER_ADDRESS, signer, 42, CORE_ADDRESS);
+      expect(await client.bid()).toEqual("receipt");
+      expect(minter.createBid).toBeCalledWith(TOKEN_ID, CORE_ADDRESS, {
+        value: ONE_ETH.mul(105).div(100),
+      });
+    });
+
+    it("initializes a new auction when no auction exists", async () => {
+      const minter = mockMinter({ auction: noAuctionError() });
+      const client = new SEAClient(MINTER_ADDRESS, signer, 42, CORE_ADDRESS);
+      await client.bid(ONE_ETH.mul(2));
+      expect(minter.createBid).toBeCalledWith(TOKEN_ID, CORE_ADDRESS, {
+        value: ONE_ETH.mul(2),
+      });
+    });
+
+    it("settles an ended auction and bids on the next token", async () => {
+      const minter = mockMinter({ tokenToBid: NEXT_TOKEN_ID });
+      const client = new SEAClient(MINTER_ADDRESS, signer, 42, CORE_ADDRESS);
+      await client.bid();
+      expect(minter.settleAuctionAndCreateBid).toBeCalledWith(
+        TOKEN_ID,
+        NEXT_TOKEN_ID,
+        CORE_ADDRESS,
+        { value: ONE_ETH.mul(105).div(100) }
+      );
+    });
+
+    it("does not settle an already settled auction", async () => {
+      const minter = mockMinter({
+        auction: onChainAuction({ settled: true }),
+        tokenToBid: NEXT_TOKEN_ID,
+      });
+      const client = new SEAClient(MINTER_ADDRESS, signer, 42, CORE_ADDRESS);
+      await client.bid();
+      expect(minter.createBid).toBeCalledWith(
+        NEXT_TOKEN_ID,
+        CORE_ADDRESS,
+        expect.anything()
+      );
+    });
+  });
+
+  describe("subscribe", () => {
+    const mockEvents = () => {
+      const handlers: { [eventName: string]: Function } = {};
+      const events = {
+        filters: {
+          AuctionInitialized: () => "AuctionInitialized",
+          AuctionBid: () => "AuctionBid",
+          AuctionSettled: () => "AuctionSettled",
+        },
+        on: jest.fn((eventName: string, handler: Function) => {
+          handlers[eventName] = handler;
+        }),
+        off: jest.fn((eventName: string) => {
+          delete handlers[eventName];
+        }),
+      };
+      SEALib__factory.connect = jest.fn().mockReturnValue(events);
+      return handlers;
+    };
+
+    const subscribe = async () => {
+      const handlers = mockEvents();
+      const updates: SEAAuctionUpdate[] = [];
+      const client = new SEAClient(
+        MINTER_ADDRESS,
+        provider,
+        PROJECT_ID,
+        CORE_ADDRESS
+      );
+      const unsubscribe = await client.subscribe((update) =>
+        updates.push(update)
+      );
+      return { handlers, updates, unsubscribe };
+    };
+
+    it("reports initialized auctions and settlements", async () => {
+      mockMinter();
+      const { handlers, updates } = await subscribe();
+      handlers.AuctionSettled(TOKEN_ID, CORE_ADDRESS, BIDDER_ADDRESS, ONE_ETH);
+      handlers.AuctionInitialized(
+        NEXT_TOKEN_ID,
+        CORE_ADDRESS,
+        BIDDER_ADDRESS,
+        ONE_ETH,
+        BigNumber.from(END_TIME + 3600),
+        5
+      );
+      expect(updates).toEqual([
+        {
+          type: "settled",
+          tokenId: TOKEN_ID,
+          winner: BIDDER_ADDRESS,
+          price: ONE_ETH,
+        },
+        {
+          type: "initialized",
+          tokenId: NEXT_TOKEN_ID,
+          bidder: BIDDER_ADDRESS,
+          bidAmount: ONE_ETH,
+          endTime: END_TIME + 3600,
+        },
+      ]);
+    });
+
+    it("ignores other projects on the same core contract", async () => {
+      mockMinter();
+      const { handlers, updates } = await subscribe();
+      const otherTokenId = BigNumber.from(7_000_000);
+      handlers.AuctionSettled(otherTokenId, CORE_ADDRESS, BIDDER_ADDRESS, 1);
+      handlers.AuctionInitialized(
+        otherTokenId,
+        CORE_ADDRESS,
+        BIDDER_ADDRESS,
+        1,
+        BigNumber.from(END_TIME),
+        5
+      );
+      await handlers.AuctionBid(otherTokenId, CORE_ADDRESS, BIDDER_ADDRESS, 1);
+      expect(updates).toEqual([]);
+    });
+
+    it("reports bids and the time-buffer extensions they cause", async () => {
+      const minter = mockMinter();
+      const { handlers, updates } = await subscribe();
+      minter.projectActiveAuctionDetails.mockResolvedValueOnce(
+        onChainAuction({ endTime: BigNumber.from(END_TIME + 120) })
+      );
+      await handlers.AuctionBid(TOKEN_ID, CORE_ADDRESS, BIDDER_ADDRESS, 2);
+      await handlers.AuctionBid(TOKEN_ID, CORE_ADDRESS, BIDDER_ADDRESS, 3);
+      expect(updates).toEqual([
+        {
+          type: "bid",
+          tokenId: TOKEN_ID,
+          bidder: BIDDER_ADDRESS,
+          bidAmount: 2,
+        },
+        {
+          type: "extended",
+          tokenId: TOKEN_ID,
+          previousEndTime: END_TIME,
+          endTime: END_TIME + 120,
+        },
+        {
+          type: "bid",
+          tokenId: TOKEN_ID,
+          bidder: BIDDER_ADDRESS,
+          bidAmount: 3,
+        },
+      ]);
+    });
+
+    it("reports failures to re-read the auction after a bid", async () => {
+      const minter = mockMinter();
+      const { handlers, updates } = await subscribe();
+      const rpcError = new Error("rate limited");
+      minter.projectActiveAuctionDetails.mockRejectedValueOnce(rpcError);
+      await handlers.AuctionBid(TOKEN_ID, CORE_ADDRESS, BIDDER_ADDRESS, 2);
+      minter.projectActiveAuctionDetails.mockResolvedValueOnce(
+        onChainAuction({ endTime: BigNumber.from(END_TIME + 120) })
+      );
+      await handlers.AuctionBid(TOKEN_ID, CORE_ADDRESS, BIDDER_ADDRESS, 3);
+      expect(updates).toEqual([
+        {
+          type: "bid",
+          tokenId: TOKEN_ID,
+          bidder: BIDDER_ADDRESS,
+          bidAmount: 2,
+        },
+        { type: "error", error: rpcError },
+        {
+          type: "bid",
+          tokenId: TOKEN_ID,
+          bidder: BIDDER_ADDRESS,
+          bidAmount: 3,
+        },
+        {
+          type: "extended",
+          tokenId: TOKEN_ID,
+          previousEndTime: END_TIME,
+          endTime: END_TIME + 120,
+        },
+      ]);
+    });
+
+    it("tracks the end time of newly initialized auctions", async () => {
+      const minter = mockMinter({ auction: noAuctionError() });
+      const { handlers, updates } = await subscribe();
+      handlers.AuctionInitialized(
+        TOKEN_ID,
+        CORE_ADDRESS,
+        BIDDER_ADDRESS,
+        ONE_ETH,
+        BigNumber.from(END_TIME - 60),
+        5
+      );
+      minter.projectActiveAuctionDetails.mockResolvedValueOnce(
+        onChainAuction()
+      );
+      await handlers.AuctionBid(TOKEN_ID, CORE_ADDRESS, BIDDER_ADDRESS, 2);
+      expect(updates[updates.length - 1]).toEqual({
+        type: "extended",
+        tokenId: TOKEN_ID,
+        previousEndTime: END_TIME - 60,
+        endTime: END_TIME,
+      });
+    });
+
+    it("removes its listeners when unsubscribed", async () => {
+      mockMinter();
+      const { handlers, unsubscribe } = await subscribe();
+      unsubscribe();
+      expect(handlers).toEqual({});
+    });
+  });
+});
+
+describe("getProjectSEAClient", () => {
+  it("throws when the project has no minter", async () => {
+    await expect(
+      getProjectSEAClient(
+        mockMinterFilter(MINTER_ADDRESS, false),
+        provider,
+        42,
+        CORE_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  it("throws for a non-SEA minter", async () => {
+    mockMinterType("MinterSetPriceV5");
+    await expect(
+      getProjectSEAClient(
+        mockMinterFilter(MINTER_ADDRESS),
+        provider,
+        42,
+        CORE_ADDRESS
+      )
+    ).rejects.toThrowError(UnsupportedMinterType);
+  });
+
+  it("returns a client for the project's SEA minter", async () => {
+    mockMinter();
+    const client = await getProjectSEAClient(
+      mockMinterFilter(MINTER_ADDRESS),
+      provider,
+      42,
+      CORE_ADDRESS
+    );
+    expect(client.projectId).toEqual(42);
+    expect(client.coreContract).toEqual(CORE_ADDRESS);
+    expect(client.minter.address).toEqual(MINTER_ADDRESS);
+  });
+});
+
+describe("SEA errors", () => {
+  it("specifies the name of BidTooLow with an error message", () => {
+    const error = new BidTooLow(ONE_ETH);
+    expect(error.name).toEqual("BidTooLow");
+    expect(error.message).toContain(ONE_ETH.toString());
+  });
+});
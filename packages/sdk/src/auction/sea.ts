@@ -0,0 +1,362 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Signer,
+  providers,
+} from "ethers";
+
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { MinterSEAV1 } from "../generated/contracts/MinterSEAV1";
+import { MinterSEAV1__factory } from "../generated/contracts/factories/MinterSEAV1__factory";
+import { SEALib__factory } from "../generated/contracts/factories/SEALib__factory";
+import { SignerRequired } from "../errors";
+import {
+  getProjectMinter,
+  ProjectPriceNotConfigured,
+  UnsupportedMinterType,
+} from "../purchase/purchase";
+import { decodeRevertError } from "../revert-reasons";
+import { decodeTokenId } from "../tokens";
+
+/**
+ * A project's active Serial English Auction, as stored by `SEALib`.
+ */
+export type SEAAuction = {
+  tokenId: BigNumber;
+  currentBid: BigNumber;
+  currentBidder: string;
+  /** unix timestamp, in seconds */
+  endTime: number;
+  minBidIncrementPercentage: number;
+  settled: boolean;
+};
+
+export type SEABidState = {
+  /** the project's active auction, or null if no auction exists yet */
+  auction: SEAAuction | null;
+  /** token ID that `bid` will bid on */
+  tokenToBid: BigNumber;
+  /** minimum bid, in wei, to become the leading bidder on `tokenToBid` */
+  minimumBid: BigNumber;
+};
+
+/**
+ * Auction activity observed on the minter for a project.
+ * `extended` is reported when a bid placed within the minter's time buffer
+ * pushed back the auction's end time. `error` is reported when the active
+ * auction could not be re-read after a bid; the subscription stays active.
+ */
+export type SEAAuctionUpdate =
+  | {
+      type: "initialized";
+      tokenId: BigNumber;
+      bidder: string;
+      bidAmount: BigNumber;
+      endTime: number;
+    }
+  | {
+      type: "bid";
+      tokenId: BigNumber;
+      bidder: string;
+      bidAmount: BigNumber;
+    }
+  | {
+      type: "extended";
+      tokenId: BigNumber;
+      previousEndTime: number;
+      endTime: number;
+    }
+  | {
+      type: "settled";
+      tokenId: BigNumber;
+      winner: string;
+      price: BigNumber;
+    }
+  | {
+      type: "error";
+      error: Error;
+    };
+
+export type SEAAuctionListener = (update: SEAAuctionUpdate) => void;
+
+/**
+ * @summary Error thrown when a bid is below the minimum bid required to
+ * become the leading bidder.
+ * @description Mirrors the "Bid is too low" revert in `SEALib.createBid`.
+ */
+export class BidTooLow extends Error {
+  constructor(minimumBid: BigNumber) {
+    super(`Bid is too low, the minimum bid is ${minimumBid.toString()} wei.`);
+    this.name = "BidTooLow";
+  }
+}
+
+/**
+ * @summary Minimum bid to outbid the current bid of an auction.
+ * @description Reproduces `SEALib.getMinimumNextBid`, including its integer
+ * rounding.
+ * @param auction active auction
+ * @returns minimum next bid, in wei
+ */
+export const getMinimumNextBid = (
+  auction: Pick<SEAAuction, "currentBid" | "minBidIncrementPercentage">
+): BigNumber => {
+  return auction.currentBid
+    .mul(100 + auction.minBidIncrementPercentage)
+    .div(100);
+};
+
+/**
+ * @summary Client for bidding on a project's Serial English Auctions.
+ * @description Wraps a `MinterSEAV1` for a single project, and reads the
+ * state bidding UIs need to submit bids that do not revert.
+ */
+export class SEAClient {
+  readonly signerOrProvider: Signer | providers.Provider;
+  readonly projectId: BigNumberish;
+  readonly coreContract: string;
+  readonly minter: MinterSEAV1;
+
+  /**
+   * @param minterAddress address of the project's SEA minter
+   * @param signerOrProvider ethers signer (to bid) or provider (read-only)
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   */
+  constructor(
+    minterAddress: string,
+    signerOrProvider: Signer | providers.Provider,
+    projectId: BigNumberish,
+    coreContract: string
+  ) {
+    this.signerOrProvider = signerOrProvider;
+    this.projectId = projectId;
+    this.coreContract = coreContract;
+    this.minter = MinterSEAV1__factory.connect(minterAddress, signerOrProvider);
+  }
+
+  /**
+   * @summary Get the project's active auction.
+   * @returns the most recent auction for the project, which may have ended
+   * or been settled, or null if no auction has been initialized
+   */
+  async getActiveAuction(): Promise<SEAAuction | null> {
+    try {
+      const auction = await this.minter.projectActiveAuctionDetails(
+        this.projectId,
+        this.coreContract
+      );
+      return {
+        tokenId: auction.tokenId,
+        currentBid: auction.currentBid,
+        currentBidder: auction.currentBidder,
+        endTime: auction.endTime.toNumber(),
+        minBidIncrementPercentage: auction.minBidIncrementPercentage,
+        settled: auction.settled,
+      };
+    } catch (error) {
+      if (decodeRevertError(error)?.code === "NO_AUCTION") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @summary Get the token and minimum bid for the next bid.
+   * @returns the active auction, the token to bid on and the minimum bid
+   * @throws ProjectPriceNotConfigured if auctions are not configured for the
+   * project
+   */
+  async getBidState(): Promise<SEABidState> {
+    const [auction, tokenToBid, priceInfo] = await Promise.all([
+      this.getActiveAuction(),
+      this.minter.getTokenToBid(this.projectId, this.coreContract),
+      this.minter.getPriceInfo(this.projectId, this.coreContract),
+    ]);
+    if (!priceInfo.isConfigured) {
+      throw new ProjectPriceNotConfigured();
+    }
+    return { auction, tokenToBid, minimumBid: priceInfo.tokenPriceInWei };
+  }
+
+  /**
+   * @summary Bid on the project's current (or next) token auction.
+   * @description If the active auction has ended but has not been settled,
+   * it is settled in the same transaction via `settleAuctionAndCreateBid`.
+   * Otherwise `createBid` is used, which also initializes the next auction.
+   * @param amount bid in wei, defaults to the minimum bid
+   * @returns the mined bid transaction receipt
+   * @throws SignerRequired if the client was initialized with a provider
+   * @throws BidTooLow if `amount` is below the minimum bid
+   */
+  async bid(amount?: BigNumberish): Promise<ContractReceipt> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new SignerRequired();
+    }
+    const { auction, tokenToBid, minimumBid } = await this.getBidState();
+    const value = amount === undefined ? minimumBid : BigNumber.from(amount);
+    if (value.lt(minimumBid)) {
+      throw new BidTooLow(minimumBid);
+    }
+    let tx: ContractTransaction;
+    if (auction && !auction.settled && !auction.tokenId.eq(tokenToBid)) {
+      tx = await this.minter.settleAuctionAndCreateBid(
+        auction.tokenId,
+        tokenToBid,
+        this.coreContract,
+        { value }
+      );
+    } else {
+      tx = await this.minter.createBid(tokenToBid, this.coreContract, {
+        value,
+      });
+    }
+    return tx.wait();
+  }
+
+  /**
+   * @summary Subscribe to the project's auction activity.
+   * @description Listens for the `SEALib` events emitted by the minter. After
+   * each bid the active auction is re-read to detect time-buffer extensions;
+   * if that read fails, an `error` update is reported instead.
+   * @param listener called with each update
+   * @returns a function that removes the subscription
+   */
+  async subscribe(listener: SEAAuctionListener): Promise<() => void> {
+    const events = SEALib__factory.connect(
+      this.minter.address,
+      this.signerOrProvider
+    );
+    const isProjectToken = (tokenId: BigNumber) =>
+      decodeTokenId(tokenId).projectId.eq(this.projectId);
+    let latest = await this.getActiveAuction();
+
+    const initializedFilter = events.filters.AuctionInitialized(
+      null,
+      this.coreContract
+    );
+    const onInitialized = (
+      tokenId: BigNumber,
+      _coreContract: string,
+      bidder: string,
+      bidAmount: BigNumber,
+      endTime: BigNumber,
+      minBidIncrementPercentage: number
+    ) => {
+      if (!isProjectToken(tokenId)) {
+        return;
+      }
+      listener({
+        type: "initialized",
+        tokenId,
+        bidder,
+        bidAmount,
+        endTime: endTime.toNumber(),
+      });
+      latest = {
+        tokenId,
+        currentBid: bidAmount,
+        currentBidder: bidder,
+        endTime: endTime.toNumber(),
+        minBidIncrementPercentage,
+        settled: false,
+      };
+    };
+
+    const bidFilter = events.filters.AuctionBid(null, this.coreContract);
+    const onBid = async (
+      tokenId: BigNumber,
+      _coreContract: string,
+      bidder: string,
+      bidAmount: BigNumber
+    ) => {
+      if (!isProjectToken(tokenId)) {
+        return;
+      }
+      listener({ type: "bid", tokenId, bidder, bidAmount });
+      const previous = latest;
+      // @dev event handlers are not awaited by ethers, so a failed read is
+      // reported to the listener rather than left as an unhandled rejection
+      try {
+        latest = await this.getActiveAuction();
+      } catch (error) {
+        listener({ type: "error", error: error as Error });
+        return;
+      }
+      if (
+        previous &&
+        latest &&
+        previous.tokenId.eq(tokenId) &&
+        latest.tokenId.eq(tokenId) &&
+        latest.endTime > previous.endTime
+      ) {
+        listener({
+          type: "extended",
+          tokenId,
+          previousEndTime: previous.endTime,
+          endTime: latest.endTime,
+        });
+      }
+    };
+
+    const settledFilter = events.filters.AuctionSettled(
+      null,
+      this.coreContract
+    );
+    const onSettled = (
+      tokenId: BigNumber,
+      _coreContract: string,
+      winner: string,
+      price: BigNumber
+    ) => {
+      if (!isProjectToken(tokenId)) {
+        return;
+      }
+      listener({ type: "settled", tokenId, winner, price });
+    };
+
+    events.on(initializedFilter, onInitialized);
+    events.on(bidFilter, onBid);
+    events.on(settledFilter, onSettled);
+    return () => {
+      events.off(initializedFilter, onInitialized);
+      events.off(bidFilter, onBid);
+      events.off(settledFilter, onSettled);
+    };
+  }
+}
+
+/**
+ * @summary Get an SEA client for a project assigned to an SEA minter.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer (to bid) or provider (read-only)
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns an SEA client for the project
+ * @throws UnsupportedMinterType if the project's minter is not an SEA minter
+ */
+export async function getProjectSEAClient(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<SEAClient> {
+  const { minterAddress, minterType } = await getProjectMinter(
+    minterFilter,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+  if (!minterType.startsWith("MinterSEA")) {
+    throw new UnsupportedMinterType(minterType);
+  }
+  return new SEAClient(
+    minterAddress,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { main, CLIEnvironment } from "./import-allowlist";
+import { Allowlist } from "../purchase/allowlist";
+
+const ADDRESS_A = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const ADDRESS_B = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+
+const mockEnvironment = (files: { [path: string]: string }) => {
+  const output = { log: [] as string[], error: [] as string[] };
+  const env: CLIEnvironment = {
+    readFile: (path) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return files[path];
+    },
+    writeFile: (path, contents) => {
+      files[path] = contents;
+    },
+    log: (message) => output.log.push(message),
+    error: (message) => output.error.push(message),
+  };
+  return { env, output };
+};
+
+describe("import-allowlist", () => {
+  it("prints the merkle root and writes the allowlist", () => {
+    const files = { "list.CSV": `${ADDRESS_A}\n0x1234\n${ADDRESS_B}` };
+    const { env, output } = mockEnvironment(files);
+    expect(main(["list.CSV", "--out", "out.json"], env)).toEqual(0);
+    const allowlist = new Allowlist([ADDRESS_A, ADDRESS_B]);
+    expect(output.log).toEqual([allowlist.root]);
+    expect(output.error[0]).toContain("row 2: invalid address 0x1234");
+    expect(
+      JSON.parse((files as { [path: string]: string })["out.json"])
+    ).toEqual(allowlist.toJSON());
+  });
+
+  it("accepts an explicit format", () => {
+    const { env, output } = mockEnvironment({ list: `["${ADDRESS_A}"]` });
+    expect(main(["list", "--format", "json"], env)).toEqual(0);
+    expect(output.log).toEqual([new Allowlist([ADDRESS_A]).root]);
+  });
+
+  it("fails without valid addresses", () => {
+    const { env, output } = mockEnvironment({ "list.json": "[]" });
+    expect(main(["list.json"], env)).toEqual(1);
+    expect(output.log).toEqual([]);
+    expect(output.error).toContain("No valid addresses found.");
+  });
+
+  it("reports unreadable or malformed files", () => {
+    const { env, output } = mockEnvironment({ "list.json": "{" });
+    expect(main(["missing.csv"], env)).toEqual(1);
+    expect(main(["list.json"], env)).toEqual(1);
+    expect(output.error).toEqual([
+      "ENOENT: no such file or directory, open 'missing.csv'",
+      expect.stringMatching(/^Unable to read allowlist file: /),
+    ]);
+    expect(output.log).toEqual([]);
+  });
+
+  it("prints usage for missing or unknown inputs", () => {
+    const { env, output } = mockEnvironment({});
+    expect(main([], env)).toEqual(1);
+    expect(main(["list.txt"], env)).toEqual(1);
+    expect(output.error[0]).toMatch(/^Usage/);
+  });
+
+  it("reads and writes files by default", () => {
+    const directory = mkdtempSync(join(tmpdir(), "import-allowlist-"));
+    const input = join(directory, "list.csv");
+    const out = join(directory, "allowlist.json");
+    writeFileSync(input, ADDRESS_A);
+    const log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+    const error = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    expect(main([input, "--out", out])).toEqual(0);
+    expect(JSON.parse(readFileSync(out, "utf8")).addresses).toEqual([
+      ADDRESS_A,
+    ]);
+    expect(log).toBeCalledWith(new Allowlist([ADDRESS_A]).root);
+    expect(error).toBeCalled();
+    log.mockRestore();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/* eslint-env node */
+import { readFileSync, writeFileSync } from "fs";
+import { extname } from "path";
+
+import {
+  formatAllowlistImportReport,
+  importAllowlist,
+  AllowlistFormat,
+} from "../purchase/allowlist-import";
+
+const USAGE =
+  "Usage: import-allowlist <file.csv|file.json> [--format csv|json] [--out allowlist.json]";
+
+export type CLIEnvironment = {
+  readFile: (path: string) => string;
+  writeFile: (path: string, contents: string) => void;
+  log: (message: string) => void;
+  error: (message: string) => void;
+};
+
+const defaultEnvironment: CLIEnvironment = {
+  readFile: (path) => readFileSync(path, "utf8"),
+  writeFile: (path, contents) => writeFileSync(path, contents),
+  log: (message) => console.log(message),
+  error: (message) => console.error(message),
+};
+
+/**
+ * @summary Import an allowlist file, report its issues and print its merkle
+ * root.
+ * @description The validation report is written to stderr and the merkle
+ * root to stdout. With `--out`, the serialized `Allowlist` is written to the
+ * provided path.
+ * @param args command line arguments, without the node and script paths
+ * @param env file system and console access, overridable for tests
+ * @returns process exit code, non-zero if the file could not be read or
+ * parsed, or if no valid address was imported
+ */
+export function main(
+  args: string[],
+  env: CLIEnvironment = defaultEnvironment
+): number {
+  const positional: string[] = [];
+  const options: { [name: string]: string } = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      options[args[i].slice(2)] = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  const [inputPath] = positional;
+  const format = (options.format ??
+    extname(inputPath ?? "")
+      .slice(1)
+      .toLowerCase()) as AllowlistFormat;
+  if (!inputPath || (format !== "csv" && format !== "json")) {
+    env.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const { allowlist, report } = importAllowlist(
+      env.readFile(inputPath),
+      format
+    );
+    env.error(formatAllowlistImportReport(report));
+    if (!allowlist) {
+      env.error("No valid addresses found.");
+      return 1;
+    }
+    if (options.out) {
+      env.writeFile(options.out, `${JSON.stringify(allowlist, null, 2)}\n`);
+    }
+    env.log(allowlist.root);
+    return 0;
+  } catch (error) {
+    env.error((error as Error).message);
+    return 1;
+  }
+}
+
+// @dev only run when executed directly, not when imported by tests
+/* istanbul ignore next */
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+import { existsSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { main, CLIEnvironment, FileDependencyCache } from "./render-token";
+import { DependencyRegistryV0__factory } from "../generated/contracts/factories/DependencyRegistryV0__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const REGISTRY_ADDRESS = "0x37861f95882ACDba2cCD84F5bFc4598e2ECDDdAF";
+const HASH =
+  "0x9f5ec8d5b0b7e1d8ec0a6e0e4f3c7e7b8f7d5a9c1e2b3a4d5c6b7a8f9e0d1c2b";
+const ARGS = [
+  "--core",
+  CORE_ADDRESS,
+  "--token",
+  "1000002",
+  "--dependency-registry",
+  REGISTRY_ADDRESS,
+];
+
+const mockContracts = (dependencyScriptCount = 1) => {
+  IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+    projectScriptDetails: async () => ({
+      scriptTypeAndVersion: "p5@1.0.0",
+      scriptCount: BigNumber.from(1),
+    }),
+    projectScriptByIndex: async () => "draw();",
+    tokenIdToHash: async () => HASH,
+  });
+  DependencyRegistryV0__factory.connect = jest.fn().mockReturnValue({
+    getDependencyTypeForProject: async () => "p5@1.0.0",
+    getDependencyScriptCount: async () => BigNumber.from(dependencyScriptCount),
+    getDependencyScript: async () => "var p5;",
+  });
+};
+
+const mockEnvironment = (cacheDirectory: string) => {
+  const files: { [path: string]: string } = {};
+  const output = { log: [] as string[], error: [] as string[] };
+  const env: CLIEnvironment = {
+    getProvider: jest.fn(() => new ethers.providers.JsonRpcProvider()),
+    getDependencyCache: (directory) =>
+      new FileDependencyCache(join(cacheDirectory, directory)),
+    writeFile: (path, contents) => {
+      files[path] = contents;
+    },
+    log: (message) => output.log.push(message),
+    error: (message) => output.error.push(message),
+  };
+  return { env, files, output };
+};
+
+describe("render-token", () => {
+  it("renders a token against a local node and caches its library", async () => {
+    mockContracts();
+    const directory = mkdtempSync(join(tmpdir(), "render-token-"));
+    const { env, files, output } = mockEnvironment(directory);
+    expect(await main(ARGS, env)).toEqual(0);
+    expect(env.getProvider).toBeCalledWith("http://127.0.0.1:8545");
+    expect(output.log).toEqual(["1000002.html"]);
+    expect(output.error).toEqual(["Rendered with p5@1.0.0 (chain)."]);
+    expect(files["1000002.html"]).toContain("<script>var p5;</script>");
+    expect(
+      readFileSync(
+        join(directory, ".dependency-cache", "p5%401.0.0.js"),
+        "utf8"
+      )
+    ).toEqual("var p5;");
+
+    // @dev the cached library is used once it is no longer read from chain
+    mockContracts(0);
+    expect(
+      await main(
+        [...ARGS, "--rpc", "http://localhost:8546", "--out", "token.html"],
+        env
+      )
+    ).toEqual(0);
+    expect(env.getProvider).toBeCalledWith("http://localhost:8546");
+    expect(output.error).toContain("Rendered with p5@1.0.0 (cache).");
+    expect(files["token.html"]).toContain("<script>var p5;</script>");
+  });
+
+  it("fails when the token cannot be rendered", async () => {
+    mockContracts(0);
+    const directory = mkdtempSync(join(tmpdir(), "render-token-"));
+    const { env, output } = mockEnvironment(directory);
+    expect(await main([...ARGS, "--cache", "empty"], env)).toEqual(1);
+    expect(output.error).toEqual([
+      "Dependency p5@1.0.0 is not available on chain or in the local cache.",
+    ]);
+    expect(existsSync(join(directory, "empty"))).toBe(false);
+  });
+
+  it("prints usage for missing arguments", async () => {
+    const { env, output } = mockEnvironment(tmpdir());
+    expect(await main(["--core", CORE_ADDRESS], env)).toEqual(1);
+    expect(await main(["1000002", ...ARGS.slice(0, 2)], env)).toEqual(1);
+    expect(output.error[0]).toMatch(/^Usage/);
+  });
+
+  it("writes files and uses a file cache by default", async () => {
+    mockContracts();
+    const directory = mkdtempSync(join(tmpdir(), "render-token-"));
+    const out = join(directory, "token.html");
+    const cache = join(directory, "cache");
+    const log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+    const error = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    expect(await main([...ARGS, "--cache", cache, "--out", out])).toEqual(0);
+    expect(readFileSync(out, "utf8")).toContain("draw();");
+    expect(existsSync(join(cache, "p5%401.0.0.js"))).toBe(true);
+    expect(log).toBeCalledWith(out);
+    expect(error).toBeCalled();
+    log.mockRestore();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/* eslint-env node */
+import { providers } from "ethers";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+import { DependencyCache, renderToken } from "../rendering/token-renderer";
+
+const USAGE =
+  "Usage: render-token --core <address> --token <tokenId> --dependency-registry <address> [--rpc http://127.0.0.1:8545] [--cache .dependency-cache] [--out <tokenId>.html]";
+
+/**
+ * @summary Dependency cache storing one script file per dependency type in
+ * a local directory.
+ */
+export class FileDependencyCache implements DependencyCache {
+  readonly directory: string;
+
+  /**
+   * @param directory cache directory, created on first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private pathFor(dependencyType: string): string {
+    return join(this.directory, `${encodeURIComponent(dependencyType)}.js`);
+  }
+
+  async get(dependencyType: string): Promise<string | undefined> {
+    const path = this.pathFor(dependencyType);
+    return existsSync(path) ? readFileSync(path, "utf8") : undefined;
+  }
+
+  async set(dependencyType: string, script: string): Promise<void> {
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(this.pathFor(dependencyType), script);
+  }
+}
+
+export type CLIEnvironment = {
+  getProvider: (rpcUrl: string) => providers.Provider;
+  getDependencyCache: (directory: string) => DependencyCache;
+  writeFile: (path: string, contents: string) => void;
+  log: (message: string) => void;
+  error: (message: string) => void;
+};
+
+const defaultEnvironment: CLIEnvironment = {
+  getProvider: (rpcUrl) => new providers.StaticJsonRpcProvider(rpcUrl),
+  getDependencyCache: (directory) => new FileDependencyCache(directory),
+  writeFile: (path, contents) => writeFileSync(path, contents),
+  log: (message) => console.log(message),
+  error: (message) => console.error(message),
+};
+
+/**
+ * @summary Render a token from on-chain script storage into a
+ * self-contained HTML file.
+ * @description Defaults to a local Hardhat node. Dependency libraries read
+ * from chain are cached, and the cache is used for libraries that are not
+ * on chain, so no request is made beyond the RPC endpoint. The path of the
+ * written file is printed to stdout.
+ * @param args command line arguments, without the node and script paths
+ * @param env provider, cache, file system and console access, overridable
+ * for tests
+ * @returns process exit code, non-zero if the token could not be rendered
+ */
+export async function main(
+  args: string[],
+  env: CLIEnvironment = defaultEnvironment
+): Promise<number> {
+  const options: { [name: string]: string } = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      options[args[i].slice(2)] = args[++i];
+    }
+  }
+  const { core, token } = options;
+  const dependencyRegistry = options["dependency-registry"];
+  if (!core || !token || !dependencyRegistry) {
+    env.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const { html, dependencyType, dependencySource } = await renderToken(
+      core,
+      dependencyRegistry,
+      env.getProvider(options.rpc ?? "http://127.0.0.1:8545"),
+      token,
+      {
+        dependencyCache: env.getDependencyCache(
+          options.cache ?? ".dependency-cache"
+        ),
+      }
+    );
+    const out = options.out ?? `${token}.html`;
+    env.writeFile(out, html);
+    env.error(`Rendered with ${dependencyType} (${dependencySource}).`);
+    env.log(out);
+    return 0;
+  } catch (error) {
+    env.error((error as Error).message);
+    return 1;
+  }
+}
+
+// @dev only run when executed directly, not when imported by tests
+/* istanbul ignore next */
+if (require.main === module) {
+  main(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * @summary Error thrown when a transaction is requested from an SDK that was
+ * initialized with a provider rather than a signer.
+ */
+export class SignerRequired extends Error {
+  constructor() {
+    super("A signer is required to send transactions.");
+    this.name = "SignerRequired";
+  }
+}
+
+/**
+ * @summary Error thrown when an operation needs to read from chain through a
+ * signer that is not connected to a provider.
+ */
+export class ProviderRequired extends Error {
+  constructor() {
+    super("The signer must be connected to a provider.");
+    this.name = "ProviderRequired";
+  }
+}
@@ -0,0 +1,19 @@
+import { Client, fetchExchange } from "@urql/core";
+
+/**
+ * @summary Create a client for the Art Blocks GraphQL API.
+ * @description Results are not cached, so that each query reflects the
+ * latest indexed configuration.
+ * @param endpoint URL of the GraphQL API
+ * @param headers headers sent with every request, e.g. an API key
+ * @returns urql client for the endpoint
+ */
+export const getGraphQLClient = (
+  endpoint: string,
+  headers: { [name: string]: string } = {}
+): Client =>
+  new Client({
+    url: endpoint,
+    fetchOptions: { headers },
+    exchanges: [fetchExchange],
+  });
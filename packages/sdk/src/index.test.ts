@@ -1,8 +1,408 @@
-import ArtBlocksSDK from "./index";
+import ArtBlocksSDK, {
+  InvalidMinterConfiguration,
+  ProjectMinterNotConfigured,
+  SignerRequired,
+  UnsupportedNetworkEnvironment,
+  resolveSigner,
+} from "./index";
 import { describe, expect, test } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import { CoreRegistryV1__factory } from "./generated/contracts/factories/CoreRegistryV1__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "./generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { ISharedMinterV0__factory } from "./generated/contracts/factories/ISharedMinterV0__factory";
+import { IDelegateRegistry__factory } from "./generated/contracts/factories/IDelegateRegistry__factory";
+import { IDelegationRegistry__factory } from "./generated/contracts/factories/IDelegationRegistry__factory";
+import { MinterDAExpSettlementV3__factory } from "./generated/contracts/factories/MinterDAExpSettlementV3__factory";
+import { MinterFilterV2__factory } from "./generated/contracts/factories/MinterFilterV2__factory";
+
+const CORE_REGISTRY_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
 
 describe("ArtBlocksSDK", () => {
-  test("is defined", () => {
-    expect(new ArtBlocksSDK()).toBeDefined();
+  const provider = new ethers.providers.JsonRpcProvider();
+
+  test("connects to the shared contracts for the network", () => {
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    expect(sdk.network).toEqual("mainnet");
+    expect(sdk.environment).toEqual("mainnet");
+    expect(sdk.minterFilter.address).toEqual(
+      "0xa2ccfE293bc2CDD78D8166a82D1e18cD2148122b"
+    );
+    expect(sdk.sharedRandomizer.address).toEqual(
+      "0x13178A7a8A1A9460dBE39f7eCcEbD91B31752b91"
+    );
+    expect(sdk.delegationRegistry.address).toEqual(
+      "0x00000000000076A84feF008CDAbe6409d2FE638B"
+    );
+  });
+
+  test("connects through a client adapter", () => {
+    const adapter = {
+      request: jest.fn(),
+      getAddress: jest.fn(),
+      sendTransaction: jest.fn(),
+    };
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: adapter,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    expect(sdk.signerOrProvider).toBe(resolveSigner(adapter));
+    expect(sdk.minterFilter.signer).toBe(sdk.signerOrProvider);
+  });
+
+  test("throws for an unsupported network and environment", () => {
+    expect(
+      () =>
+        new ArtBlocksSDK({
+          signerOrProvider: provider,
+          network: "mainnet",
+          environment: "dev",
+        })
+    ).toThrowError(UnsupportedNetworkEnvironment);
+  });
+
+  test("resolves and caches the core registry from the minter filter", async () => {
+    const coreRegistry = jest.fn(async () => CORE_REGISTRY_ADDRESS);
+    const mockMinterFilterConnect = jest.fn().mockReturnValue({ coreRegistry });
+    MinterFilterV2__factory.connect = mockMinterFilterConnect;
+    const mockCoreRegistryConnect = jest
+      .fn()
+      .mockReturnValue("mocked core registry");
+    CoreRegistryV1__factory.connect = mockCoreRegistryConnect;
+
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    expect(await sdk.getCoreRegistry()).toEqual("mocked core registry");
+    expect(await sdk.getCoreRegistry()).toEqual("mocked core registry");
+    expect(mockCoreRegistryConnect).toBeCalledWith(
+      CORE_REGISTRY_ADDRESS,
+      provider
+    );
+    expect(coreRegistry).toBeCalledTimes(1);
+  });
+
+  test("reads project minter configuration from chain without an endpoint", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    expect(sdk.graphqlClient).toBeUndefined();
+    await expect(
+      sdk.getProjectMinterConfiguration(0, CORE_REGISTRY_ADDRESS)
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  test("validates a minter configuration before building its transactions", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    ISharedMinterV0__factory.connect = jest.fn().mockReturnValue({
+      minterType: async () => "MinterSetPriceV5",
+    });
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => ({
+        invocations: BigNumber.from(0),
+        maxInvocations: BigNumber.from(1000),
+      }),
+    });
+    provider.getBlock = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ timestamp: 0 })) as never;
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.getMinterConfigurationTransactions(
+        0,
+        CORE_REGISTRY_ADDRESS,
+        CORE_REGISTRY_ADDRESS,
+        { maxInvocations: { maxInvocations: 1001 } }
+      )
+    ).rejects.toThrowError(InvalidMinterConfiguration);
+  });
+
+  test("creates a GraphQL client for the provided endpoint", () => {
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+      graphqlEndpoint: "http://localhost:8080/v1/graphql",
+    });
+    expect(sdk.graphqlClient).toBeDefined();
+  });
+
+  test("requires a signer to purchase", async () => {
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.purchase({ coreContract: CORE_REGISTRY_ADDRESS, projectId: 0 })
+    ).rejects.toThrowError(SignerRequired);
+  });
+
+  test("purchases through the shared minter filter", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: new ethers.VoidSigner(CORE_REGISTRY_ADDRESS, provider),
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.purchase({ coreContract: CORE_REGISTRY_ADDRESS, projectId: 0 })
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  test("requires a signer to simulate a purchase", async () => {
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.simulatePurchase({
+        coreContract: CORE_REGISTRY_ADDRESS,
+        projectId: 0,
+      })
+    ).rejects.toThrowError(SignerRequired);
+  });
+
+  test("simulates purchases through the shared minter filter", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: new ethers.VoidSigner(CORE_REGISTRY_ADDRESS, provider),
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    const simulation = await sdk.simulatePurchase({
+      coreContract: CORE_REGISTRY_ADDRESS,
+      projectId: 0,
+    });
+    expect(simulation.ok).toBe(false);
+    expect(!simulation.ok && simulation.error).toBeInstanceOf(
+      ProjectMinterNotConfigured
+    );
+  });
+
+  test("lists settlement receipts across settlement minters", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      getAllGloballyApprovedMinters: async () => [],
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    expect(await sdk.getSettlementReceipts(CORE_REGISTRY_ADDRESS)).toEqual([]);
+  });
+
+  test("requires a signer to reclaim settlement funds", async () => {
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(sdk.reclaimSettlementFunds([])).rejects.toThrowError(
+      SignerRequired
+    );
+  });
+
+  test("sends one reclaim transaction per settlement minter", async () => {
+    const populateTransaction = {
+      reclaimProjectExcessSettlementFundsTo: jest.fn(async () => ({
+        data: "0x01",
+      })),
+    };
+    MinterDAExpSettlementV3__factory.connect = jest
+      .fn()
+      .mockReturnValue({ populateTransaction });
+    const signer = new ethers.VoidSigner(CORE_REGISTRY_ADDRESS, provider);
+    signer.sendTransaction = jest.fn(async () => ({
+      wait: async () => "mined",
+    })) as unknown as typeof signer.sendTransaction;
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: signer,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    const receipt = {
+      minterAddress: CORE_REGISTRY_ADDRESS,
+      projectId: ethers.BigNumber.from(0),
+      coreContract: CORE_REGISTRY_ADDRESS,
+    };
+    expect(await sdk.reclaimSettlementFunds([receipt])).toEqual(["mined"]);
+    expect(
+      populateTransaction.reclaimProjectExcessSettlementFundsTo
+    ).toBeCalledWith(
+      CORE_REGISTRY_ADDRESS,
+      receipt.projectId,
+      CORE_REGISTRY_ADDRESS
+    );
+    await sdk.reclaimSettlementFunds([receipt], ethers.constants.AddressZero);
+    expect(
+      populateTransaction.reclaimProjectExcessSettlementFundsTo
+    ).toHaveBeenLastCalledWith(
+      ethers.constants.AddressZero,
+      receipt.projectId,
+      CORE_REGISTRY_ADDRESS
+    );
+  });
+
+  test("merges delegations from the network's registries", async () => {
+    IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+      getDelegationsByDelegate: async () => [],
+      checkDelegateForAll: async () => false,
+    });
+    IDelegateRegistry__factory.connect = jest.fn().mockReturnValue({
+      getIncomingDelegations: async () => [
+        {
+          type_: 1,
+          from: CORE_REGISTRY_ADDRESS,
+          contract_: ethers.constants.AddressZero,
+          tokenId: ethers.BigNumber.from(0),
+          rights: ethers.constants.HashZero,
+        },
+      ],
+      checkDelegateForAll: async () => true,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    expect(sdk.delegationProviders.map(({ version }) => version)).toEqual([
+      "v1",
+      "v2",
+    ]);
+    const delegations = await sdk.getDelegations(ethers.constants.AddressZero);
+    expect(delegations.map(({ registry, vault }) => [registry, vault])).toEqual(
+      [["v2", CORE_REGISTRY_ADDRESS]]
+    );
+    // minters only accept the v1 delegation, which does not exist
+    expect(
+      await sdk.canActAsVaultFor(
+        ethers.constants.AddressZero,
+        CORE_REGISTRY_ADDRESS
+      )
+    ).toBe(false);
+    expect(
+      await sdk.canActAsVaultForAny(
+        ethers.constants.AddressZero,
+        CORE_REGISTRY_ADDRESS
+      )
+    ).toBe(true);
+  });
+
+  test("checks ERC20 purchase status through the shared minter filter", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.getERC20PurchaseStatus(
+        0,
+        CORE_REGISTRY_ADDRESS,
+        CORE_REGISTRY_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  test("finds holder mint options through the shared minter filter", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.findHolderMintOptions(0, CORE_REGISTRY_ADDRESS, CORE_REGISTRY_ADDRESS)
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  test("finds polyptych mint options through the shared minter filter", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.findPolyptychMintOptions(
+        0,
+        CORE_REGISTRY_ADDRESS,
+        CORE_REGISTRY_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  test("requires a signer to increment a polyptych panel", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const readOnly = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      readOnly.incrementPolyptychPanel(0, CORE_REGISTRY_ADDRESS)
+    ).rejects.toThrowError(SignerRequired);
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: new ethers.VoidSigner(CORE_REGISTRY_ADDRESS, provider),
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.incrementPolyptychPanel(0, CORE_REGISTRY_ADDRESS)
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  test("gets SEA clients through the shared minter filter", async () => {
+    MinterFilterV2__factory.connect = jest.fn().mockReturnValue({
+      projectHasMinter: async () => false,
+    });
+    const sdk = new ArtBlocksSDK({
+      signerOrProvider: provider,
+      network: "mainnet",
+      environment: "mainnet",
+    });
+    await expect(
+      sdk.getSEAClient(0, CORE_REGISTRY_ADDRESS)
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+});
+
+describe("SignerRequired", () => {
+  test("specifies the name of the error with an error message", () => {
+    const error = new SignerRequired();
+    expect(error.name).toEqual("SignerRequired");
+    expect(error.message.length).toBeGreaterThan(0);
   });
 });
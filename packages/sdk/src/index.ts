@@ -1,5 +1,738 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractTransaction,
+  Signer,
+  providers,
+} from "ethers";
+import { Client } from "@urql/core";
+
+import { CoreRegistryV1 } from "./generated/contracts/CoreRegistryV1";
+import { IDelegationRegistry } from "./generated/contracts/IDelegationRegistry";
+import { MinterFilterV2 } from "./generated/contracts/MinterFilterV2";
+import { SharedRandomizerV0 } from "./generated/contracts/SharedRandomizerV0";
+import { CoreRegistryV1__factory } from "./generated/contracts/factories/CoreRegistryV1__factory";
+import { MinterFilterV2__factory } from "./generated/contracts/factories/MinterFilterV2__factory";
+import { SharedRandomizerV0__factory } from "./generated/contracts/factories/SharedRandomizerV0__factory";
+import { getProjectSEAClient, SEAClient } from "./auction/sea";
+import {
+  resolveSignerOrProvider,
+  SignerOrProviderLike,
+} from "./adapters/chain-adapter";
+import { SignerRequired } from "./errors";
+import { getGraphQLClient } from "./graphql-client";
+import {
+  ConfigurationTransaction,
+  getMinterConfigurationTransactions,
+  MinterConfigurationInput,
+} from "./minter-configuration/artist-configuration";
+import {
+  getProjectMinterConfiguration,
+  ProjectMinterConfiguration,
+} from "./minter-configuration/project-minter-configuration";
+import { getNetworkAddresses, NetworkAddresses } from "./networks";
+import {
+  getWalletSettlementReceipts,
+  populateReclaimTransactions,
+  SettlementReceipt,
+  SettlementReceiptKey,
+} from "./pricing/settlement-receipts";
+import {
+  canActAsVaultForAny,
+  getDelegationRegistryContract,
+  getMergedDelegations,
+  getNetworkDelegationProviders,
+  Delegation,
+  DelegationProvider,
+  DelegationScope,
+} from "./purchase/delegation";
+import {
+  findProjectHolderMintOptions,
+  HolderMintOption,
+  HolderMintOptionsParams,
+} from "./purchase/holder-eligibility";
+import {
+  findProjectPolyptychMintOptions,
+  incrementPolyptychPanel,
+  PolyptychMintOptions,
+} from "./purchase/polyptych";
+import { ERC20PurchaseStatus } from "./purchase/erc20";
+import {
+  getProjectERC20PurchaseStatus,
+  purchase,
+  simulatePurchase,
+  PurchaseParams,
+  PurchaseSimulation,
+} from "./purchase/purchase";
+
+export { ProviderRequired, SignerRequired } from "./errors";
+export {
+  getDelegationRegistryAddress,
+  getNetworkAddresses,
+  UnsupportedChain,
+  UnsupportedNetworkEnvironment,
+} from "./networks";
+export type { NetworkAddresses } from "./networks";
+export {
+  generateAllowlistMerkleProof,
+  generateUserMerkleProof,
+  hashAddress,
+  Allowlist,
+  AllowlistEntryDoesNotExist,
+  AllowlistRootMismatch,
+  EmptyAllowlist,
+  InvalidAllowlistAddress,
+} from "./purchase/allowlist";
+export type { AllowlistJSON } from "./purchase/allowlist";
+export {
+  formatAllowlistImportReport,
+  importAllowlist,
+  InvalidAllowlistFile,
+} from "./purchase/allowlist-import";
+export type {
+  AllowlistFormat,
+  AllowlistImport,
+  AllowlistImportReport,
+  AllowlistIssue,
+  AllowlistIssueReason,
+} from "./purchase/allowlist-import";
+export {
+  canActAsVaultFor,
+  canActAsVaultForAny,
+  delegationCovers,
+  getDelegateVaults,
+  getDelegationRegistryContract,
+  getDelegations,
+  getMergedDelegations,
+  getNetworkDelegationProviders,
+  resolveDelegationRegistry,
+  DelegationRegistryV1Provider,
+  DelegationRegistryV2Provider,
+  DELEGATION_REGISTRY,
+  DELEGATION_TYPES,
+  DELEGATION_V2_TYPES,
+} from "./purchase/delegation";
+export type {
+  Delegation,
+  DelegationProvider,
+  DelegationRegistryVersion,
+  DelegationScope,
+  DelegationType,
+} from "./purchase/delegation";
+export {
+  findHolderMintOptions,
+  findProjectHolderMintOptions,
+  getAllowedHolderProjects,
+  IndexedOwnershipSource,
+  OnChainOwnershipSource,
+} from "./purchase/holder-eligibility";
+export type {
+  HolderMintOption,
+  HolderMintOptionsParams,
+  HolderProject,
+  HolderPurchaseToArgs,
+  OwnershipSource,
+} from "./purchase/holder-eligibility";
+export {
+  findPolyptychMintOptions,
+  findProjectPolyptychMintOptions,
+  PolyptychPanelNotSoldOut,
+} from "./purchase/polyptych";
+export type {
+  PolyptychMintOption,
+  PolyptychMintOptions,
+} from "./purchase/polyptych";
+export {
+  assertERC20Funds,
+  getERC20PurchaseStatus,
+  populateERC20Approval,
+  InsufficientERC20Allowance,
+  InsufficientERC20Balance,
+} from "./purchase/erc20";
+export type {
+  ERC20CurrencyInfo,
+  ERC20PriceInfo,
+  ERC20PurchaseStatus,
+} from "./purchase/erc20";
+export {
+  getProjectERC20PurchaseStatus,
+  MINTER_PURCHASE_KINDS,
+  MintEventNotFound,
+  MissingPurchaseParameter,
+  ProjectMinterNotConfigured,
+  ProjectPriceNotConfigured,
+  UnsupportedMinterType,
+} from "./purchase/purchase";
+export type {
+  OwnedNFT,
+  PurchaseKind,
+  PurchaseParams,
+  PurchaseSimulation,
+} from "./purchase/purchase";
+export {
+  decodeRevertError,
+  getRevertReason,
+  AuctionStateError,
+  ContractRevertError,
+  InsufficientPayment,
+  InvalidConfiguration,
+  MinterNotConfigured,
+  NotEligible,
+  PaymentFailed,
+  ProjectNotMintable,
+  ProjectSoldOut,
+  UnauthorizedCaller,
+  REVERT_REASONS,
+} from "./revert-reasons";
+export type { RevertReasonEntry } from "./revert-reasons";
+export {
+  getAuctionEndTimestamp,
+  getPrice,
+  getPriceExp,
+  getPriceLin,
+  getPriceSchedule,
+  getTimestampForPrice,
+  AuctionNotConfigured,
+  AuctionNotStarted,
+  InvalidPriceScheduleInterval,
+} from "./pricing/dutch-auction";
+export { getDAAuction } from "./pricing/auction-parameters";
+export type {
+  DAAuction,
+  DAExpAuction,
+  DALinAuction,
+  PricePoint,
+} from "./pricing/dutch-auction";
+export {
+  getExcessSettlementFunds,
+  getSettlementPriceSafe,
+  isFinalSettlementPrice,
+  projectMaxHasBeenInvokedSafe,
+  NoPurchasesMade,
+} from "./pricing/settlement";
+export type {
+  InvocationsState,
+  SettlementAuctionState,
+} from "./pricing/settlement";
+export {
+  calculatePrimaryRevenueSplits,
+  calculateRoyaltyOverrideRoyalties,
+  calculateSecondaryRoyalties,
+  RoyaltyOverrideNotConfigured,
+} from "./pricing/revenue-splits";
+export type {
+  ProjectRevenueConfig,
+  ProviderRevenueConfig,
+  ProviderRole,
+  RevenueRole,
+  RevenueSplit,
+  RoyaltyOverrideConfig,
+  RoyaltySplit,
+} from "./pricing/revenue-splits";
+export {
+  getPrimaryRevenueSplits,
+  getProjectRevenueConfig,
+  getRoyaltyOverrideConfig,
+  getSecondaryRoyalties,
+  UnsupportedCoreType,
+} from "./pricing/project-revenue";
+export type { SecondaryRoyaltiesParams } from "./pricing/project-revenue";
+export {
+  getSettlementAuctionStatus,
+  getSettlementReceipts,
+  getWalletSettlementReceipts,
+  populateReclaimTransactions,
+} from "./pricing/settlement-receipts";
+export type {
+  SettlementAuctionStatus,
+  SettlementReceipt,
+  SettlementReceiptKey,
+} from "./pricing/settlement-receipts";
+export {
+  getMinimumNextBid,
+  getProjectSEAClient,
+  BidTooLow,
+  SEAClient,
+} from "./auction/sea";
+export type { SEAAuction, SEAAuctionUpdate, SEABidState } from "./auction/sea";
+export {
+  assertInvocationInRange,
+  buildTokenData,
+  decodeTokenId,
+  encodeTokenId,
+  hashSeedFromHash,
+  isInvocationInRange,
+  tokenHashFromHashSeed,
+  unpackOwnerAndHashSeed,
+  InvocationOutOfRange,
+} from "./tokens";
+export type { TokenData } from "./tokens";
+export {
+  buildTokenHTML,
+  getDependencyScript,
+  getProjectScript,
+  renderToken,
+  DependencyScriptUnavailable,
+  TokenHashNotAssigned,
+} from "./rendering/token-renderer";
+export type {
+  DependencyCache,
+  DependencySource,
+  RenderedToken,
+  RenderTokenParams,
+} from "./rendering/token-renderer";
+export { EventIndexer } from "./indexer/event-indexer";
+export type { EventIndexerParams } from "./indexer/event-indexer";
+export {
+  decodeBytes32Field,
+  decodeIndexedEvent,
+  CORE_EVENTS,
+  MINTER_EVENTS,
+  MINTER_FILTER_EVENTS,
+} from "./indexer/events";
+export type {
+  IndexedEvent,
+  IndexedEventArgs,
+  IndexedEventSource,
+} from "./indexer/events";
+export { MemoryIndexerStore } from "./indexer/store";
+export type {
+  IndexedBlock,
+  IndexedEventFilter,
+  IndexerStore,
+  MemoryIndexerStoreJSON,
+} from "./indexer/store";
+export { getGraphQLClient } from "./graphql-client";
+export {
+  queryProjectMinterConfiguration,
+  readProjectMinterConfiguration,
+} from "./minter-configuration/project-minter-configuration";
+export type { ProjectMinterConfiguration } from "./minter-configuration/project-minter-configuration";
+export {
+  buildMinterConfigurationTransactions,
+  getConfigurationContext,
+  validateMinterConfiguration,
+  InvalidMinterConfiguration,
+} from "./minter-configuration/artist-configuration";
+export type {
+  ConfigurationContext,
+  ConfigurationIssue,
+  ConfigurationTransaction,
+  ConfigurationValue,
+  HolderProjectInput,
+  MinterConfigurationInput,
+  MinterConfigurationParams,
+} from "./minter-configuration/artist-configuration";
+export {
+  getMinterConfigurationSchema,
+  MINTER_CONFIGURATION_SCHEMAS,
+} from "./minter-configuration/schemas";
+export type {
+  ConfigurationFieldSchema,
+  ConfigurationFormSchema,
+  ConfigurationRule,
+  MinterConfigurationSchema,
+} from "./minter-configuration/schemas";
+export {
+  resolveSigner,
+  resolveSignerOrProvider,
+  AdapterTransactionTimeout,
+  UnsupportedAdapterClient,
+  UnsupportedAdapterOperation,
+} from "./adapters/chain-adapter";
+export type {
+  AdapterTransactionRequest,
+  ChainAdapter,
+  SignerOrProviderLike,
+} from "./adapters/chain-adapter";
+export { ethersV5Adapter } from "./adapters/ethers-v5";
+export { ethersV6Adapter } from "./adapters/ethers-v6";
+export type { EthersV6Provider, EthersV6Signer } from "./adapters/ethers-v6";
+export { viemAdapter } from "./adapters/viem";
+export type { ViemClient, ViemWalletClient } from "./adapters/viem";
+
+export type ArtBlocksSDKOptions = {
+  /**
+   * ethers v5 signer (to send transactions) or provider (read-only), or an
+   * adapter of another client, e.g. `viemAdapter(publicClient, walletClient)`
+   */
+  signerOrProvider: SignerOrProviderLike;
+  /** network name, e.g. "mainnet", "goerli", "arbitrum" */
+  network: string;
+  /** environment name, e.g. "mainnet", "dev", "staging" */
+  environment: string;
+  /**
+   * Art Blocks GraphQL API endpoint, if any; configuration is read from
+   * chain without one
+   */
+  graphqlEndpoint?: string;
+};
+
+/**
+ * @summary Network-aware client for the Art Blocks shared minter suite.
+ * @description Resolves the shared contracts for the configured network and
+ * environment, and exposes typed handles to them connected to the provided
+ * signer or provider.
+ */
 export default class ArtBlocksSDK {
-  constructor() {
-    console.log("ArtBlocksSDK constructor");
+  readonly network: string;
+  readonly environment: string;
+  readonly signerOrProvider: Signer | providers.Provider;
+  readonly addresses: NetworkAddresses;
+  readonly minterFilter: MinterFilterV2;
+  readonly sharedRandomizer: SharedRandomizerV0;
+  readonly delegationRegistry: IDelegationRegistry;
+  /** backends of the delegation registries the network supports */
+  readonly delegationProviders: DelegationProvider[];
+  /** client for the Art Blocks GraphQL API, if an endpoint was provided */
+  readonly graphqlClient?: Client;
+  private coreRegistry?: Promise<CoreRegistryV1>;
+
+  /**
+   * @param options signer or provider, network and environment to use
+   * @throws UnsupportedNetworkEnvironment if any shared contract address is
+   * unknown for the network and environment
+   */
+  constructor({
+    signerOrProvider,
+    network,
+    environment,
+    graphqlEndpoint,
+  }: ArtBlocksSDKOptions) {
+    this.network = network;
+    this.environment = environment;
+    this.signerOrProvider = resolveSignerOrProvider(signerOrProvider);
+    this.addresses = getNetworkAddresses(network, environment);
+    this.minterFilter = MinterFilterV2__factory.connect(
+      this.addresses.minterFilter,
+      this.signerOrProvider
+    );
+    this.sharedRandomizer = SharedRandomizerV0__factory.connect(
+      this.addresses.sharedRandomizer,
+      this.signerOrProvider
+    );
+    this.delegationRegistry = getDelegationRegistryContract(
+      this.addresses.delegationRegistry,
+      this.signerOrProvider
+    );
+    this.delegationProviders = getNetworkDelegationProviders(
+      this.addresses,
+      this.signerOrProvider
+    );
+    if (graphqlEndpoint) {
+      this.graphqlClient = getGraphQLClient(graphqlEndpoint);
+    }
+  }
+
+  /**
+   * @summary Get the core registry used by the shared minter filter.
+   * @description The core registry is not tracked per network, so it is
+   * read from the active minter filter on first use and cached.
+   * @returns the core registry contract interface
+   */
+  getCoreRegistry(): Promise<CoreRegistryV1> {
+    if (!this.coreRegistry) {
+      this.coreRegistry = this.minterFilter
+        .coreRegistry()
+        .then((address) =>
+          CoreRegistryV1__factory.connect(address, this.signerOrProvider)
+        );
+    }
+    return this.coreRegistry;
+  }
+
+  /**
+   * @summary Get a wallet's delegations on every delegation registry the
+   * network supports.
+   * @param walletAddress delegate wallet
+   * @returns merged delegations, each tagged with its registry
+   */
+  getDelegations(walletAddress: string): Promise<Delegation[]> {
+    return getMergedDelegations(this.delegationProviders, walletAddress);
+  }
+
+  /**
+   * @summary Whether a delegate may act on behalf of a vault on the network's
+   * v1 delegation registry.
+   * @description Checks the delegation the way `MinterSetPriceHolderV5` and
+   * `MinterSetPriceMerkleV5` validate a vault, so use it when choosing a vault
+   * to purchase with.
+   * @param delegate wallet acting on behalf of the vault
+   * @param vault wallet that delegated
+   * @param scope contract and token ID to act on, if any
+   * @returns true if the v1 registry has a delegation covering the scope
+   */
+  canActAsVaultFor(
+    delegate: string,
+    vault: string,
+    scope?: DelegationScope
+  ): Promise<boolean> {
+    // @dev the network's v1 registry backend always comes first
+    return this.delegationProviders[0].canActAsVaultFor(delegate, vault, scope);
+  }
+
+  /**
+   * @summary Whether a delegate may act on behalf of a vault on any
+   * delegation registry the network supports.
+   * @description Minters only accept v1 delegations, so a vault this returns
+   * true for may still be rejected by a minter; use `canActAsVaultFor` when
+   * choosing a vault to purchase with.
+   * @param delegate wallet acting on behalf of the vault
+   * @param vault wallet that delegated
+   * @param scope contract and token ID to act on, if any
+   * @returns true if any registry has a delegation covering the scope
+   */
+  canActAsVaultForAny(
+    delegate: string,
+    vault: string,
+    scope?: DelegationScope
+  ): Promise<boolean> {
+    return canActAsVaultForAny(
+      this.delegationProviders,
+      delegate,
+      vault,
+      scope
+    );
+  }
+
+  /**
+   * @summary Purchase a token from a project's shared minter.
+   * @description Resolves the project's minter on the minter filter and
+   * dispatches to the purchase call its minter type expects.
+   * @param params project and minter-specific purchase parameters
+   * @returns the minted token ID
+   * @throws SignerRequired if the SDK was initialized with a provider
+   */
+  async purchase(params: PurchaseParams): Promise<BigNumber> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new SignerRequired();
+    }
+    return purchase(this.minterFilter, this.signerOrProvider, params);
+  }
+
+  /**
+   * @summary Simulate a purchase from a project's shared minter without
+   * sending a transaction.
+   * @param params project and minter-specific purchase parameters
+   * @returns the token ID the purchase would mint, or the typed error it
+   * would fail with
+   * @throws SignerRequired if the SDK was initialized with a provider
+   */
+  async simulatePurchase(params: PurchaseParams): Promise<PurchaseSimulation> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new SignerRequired();
+    }
+    return simulatePurchase(this.minterFilter, this.signerOrProvider, params);
+  }
+
+  /**
+   * @summary Get a project's configuration on its shared minter.
+   * @description Queries the GraphQL API if an endpoint was provided, and
+   * otherwise reads the configuration from chain.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @returns minter address and type, price or auction parameters, currency,
+   * merkle root, holder projects and max invocations
+   */
+  getProjectMinterConfiguration(
+    projectId: BigNumberish,
+    coreContract: string
+  ): Promise<ProjectMinterConfiguration> {
+    return getProjectMinterConfiguration(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract,
+      this.graphqlClient
+    );
+  }
+
+  /**
+   * @summary Get the transactions that bring a project's minter to a desired
+   * configuration, for the project's artist to send.
+   * @description Validates the input against the minter's schema and
+   * on-chain minimums, assigns the minter to the project if needed, and
+   * skips forms that already match the current configuration.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @param minterAddress minter to configure
+   * @param input desired values, keyed by form and field of the minter's
+   * schema
+   * @returns unsigned transactions, in the order they must be sent
+   * @throws InvalidMinterConfiguration if the minter would reject the input
+   */
+  getMinterConfigurationTransactions(
+    projectId: BigNumberish,
+    coreContract: string,
+    minterAddress: string,
+    input: MinterConfigurationInput
+  ): Promise<ConfigurationTransaction[]> {
+    return getMinterConfigurationTransactions(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract,
+      minterAddress,
+      input,
+      this.graphqlClient
+    );
+  }
+
+  /**
+   * @summary Check a wallet's balance and allowance for a project priced in
+   * an ERC20 token.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @param owner wallet paying for the purchase
+   * @returns the project's currency, and the wallet's balance and allowance
+   */
+  getERC20PurchaseStatus(
+    projectId: BigNumberish,
+    coreContract: string,
+    owner: string
+  ): Promise<ERC20PurchaseStatus> {
+    return getProjectERC20PurchaseStatus(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract,
+      owner
+    );
+  }
+
+  /**
+   * @summary Find the owned NFTs that qualify a wallet to purchase a project
+   * assigned to a holder minter.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @param wallet purchasing wallet, whose delegated vaults are also searched
+   * @param options recipient of the token and source of ownership data
+   * @returns qualifying owned NFTs, with the `purchaseTo` arguments for each
+   */
+  findHolderMintOptions(
+    projectId: BigNumberish,
+    coreContract: string,
+    wallet: string,
+    options?: HolderMintOptionsParams
+  ): Promise<HolderMintOption[]> {
+    return findProjectHolderMintOptions(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract,
+      wallet,
+      options
+    );
+  }
+
+  /**
+   * @summary Find the tokens a wallet may use as the source of a polyptych
+   * project's current panel.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @param wallet purchasing wallet, whose delegated vaults are also searched
+   * @param options recipient of the token and source of ownership data
+   * @returns the current panel ID, and each source token's minted panels,
+   * eligibility and parameters for `purchase`
+   */
+  findPolyptychMintOptions(
+    projectId: BigNumberish,
+    coreContract: string,
+    wallet: string,
+    options?: HolderMintOptionsParams
+  ): Promise<PolyptychMintOptions> {
+    return findProjectPolyptychMintOptions(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract,
+      wallet,
+      options
+    );
+  }
+
+  /**
+   * @summary Move a polyptych project to its next panel, as its artist.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @returns the `incrementPolyptychProjectPanelId` transaction
+   * @throws SignerRequired if the SDK was initialized with a provider
+   * @throws PolyptychPanelNotSoldOut if the current panel can still be minted
+   */
+  async incrementPolyptychPanel(
+    projectId: BigNumberish,
+    coreContract: string
+  ): Promise<ContractTransaction> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new SignerRequired();
+    }
+    return incrementPolyptychPanel(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract
+    );
+  }
+
+  /**
+   * @summary Get a bidding client for a project on a Serial English Auction
+   * minter.
+   * @param projectId project ID on the core contract
+   * @param coreContract core contract of the project
+   * @returns an SEA client connected to the SDK's signer or provider
+   */
+  getSEAClient(
+    projectId: BigNumberish,
+    coreContract: string
+  ): Promise<SEAClient> {
+    return getProjectSEAClient(
+      this.minterFilter,
+      this.signerOrProvider,
+      projectId,
+      coreContract
+    );
+  }
+
+  /**
+   * @summary List a wallet's settlement auction receipts.
+   * @description Searches every settlement minter globally approved on the
+   * minter filter.
+   * @param walletAddress purchaser wallet
+   * @returns receipts with their rebate and settlement auction status
+   */
+  getSettlementReceipts(walletAddress: string): Promise<SettlementReceipt[]> {
+    return getWalletSettlementReceipts(
+      this.minterFilter,
+      this.signerOrProvider,
+      walletAddress
+    );
+  }
+
+  /**
+   * @summary Reclaim excess settlement funds for settlement receipts.
+   * @param receipts receipts to reclaim, from `getSettlementReceipts`
+   * @param to recipient of the reclaimed funds, defaults to the signer
+   * @returns the mined reclaim transaction receipts, one per minter
+   * @throws SignerRequired if the SDK was initialized with a provider
+   */
+  async reclaimSettlementFunds(
+    receipts: SettlementReceiptKey[],
+    to?: string
+  ): Promise<providers.TransactionReceipt[]> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new SignerRequired();
+    }
+    const signer = this.signerOrProvider;
+    const transactions = await populateReclaimTransactions(
+      signer,
+      to ?? (await signer.getAddress()),
+      receipts
+    );
+    const transactionReceipts: providers.TransactionReceipt[] = [];
+    for (const transaction of transactions) {
+      const response = await signer.sendTransaction(transaction);
+      transactionReceipts.push(await response.wait());
+    }
+    return transactionReceipts;
   }
 }
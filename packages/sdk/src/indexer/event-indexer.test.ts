@@ -0,0 +1,250 @@
+import { describe, it, expect } from "@jest/globals";
+import { ethers, providers, utils } from "ethers";
+
+import { EventIndexer } from "./event-indexer";
+import { EVENT_INTERFACES } from "./events";
+import { MemoryIndexerStore } from "./store";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const MINTER_FILTER_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const MINTER_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const HOLDER_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+
+type ChainEvent = {
+  source: string;
+  address: string;
+  event: string;
+  values: unknown[];
+};
+
+const projectUpdated = (projectId: number, field: string): ChainEvent => ({
+  source: "core",
+  address: CORE_ADDRESS,
+  event: "ProjectUpdated",
+  values: [projectId, utils.formatBytes32String(field)],
+});
+
+const mint = (tokenId: number): ChainEvent => ({
+  source: "core",
+  address: CORE_ADDRESS,
+  event: "Mint",
+  values: [HOLDER_ADDRESS, tokenId],
+});
+
+const minterRegistered = (projectId: number): ChainEvent => ({
+  source: "minterFilter",
+  address: MINTER_FILTER_ADDRESS,
+  event: "ProjectMinterRegistered",
+  values: [projectId, CORE_ADDRESS, MINTER_ADDRESS, "MinterSetPriceV5"],
+});
+
+const priceUpdated = (projectId: number, price: number): ChainEvent => ({
+  source: "minter",
+  address: MINTER_ADDRESS,
+  event: "PricePerTokenUpdated",
+  values: [projectId, CORE_ADDRESS, price],
+});
+
+/**
+ * In-memory chain whose blocks each hold a list of events, and whose blocks
+ * after any height may be replaced to simulate a reorg.
+ */
+class MockChain {
+  blocks: { hash: string; logs: providers.Log[] }[] = [];
+  readonly provider = new ethers.providers.JsonRpcProvider();
+  readonly getLogs = jest.fn(
+    async ({ address, fromBlock, toBlock, topics }: providers.Filter) =>
+      this.blocks
+        .slice(fromBlock as number, (toBlock as number) + 1)
+        .reduce((logs, block) => logs.concat(block.logs), [] as providers.Log[])
+        .filter(
+          (log) =>
+            log.address === address &&
+            (topics?.[0] as string[]).includes(log.topics[0])
+        )
+  );
+
+  constructor() {
+    this.provider.getBlockNumber = async () => this.blocks.length - 1;
+    this.provider.getBlock = (async (number: number) =>
+      this.blocks[number] && {
+        number,
+        hash: this.blocks[number].hash,
+      }) as never;
+    this.provider.getLogs = this.getLogs as never;
+  }
+
+  mine(fork: string, ...events: ChainEvent[]) {
+    const number = this.blocks.length;
+    const hash = utils.id(`${fork} ${number}`);
+    this.blocks.push({
+      hash,
+      logs: events.map(({ source, address, event, values }, logIndex) => ({
+        ...EVENT_INTERFACES[source].encodeEventLog(
+          EVENT_INTERFACES[source].getEvent(event),
+          values
+        ),
+        address,
+        blockNumber: number,
+        blockHash: hash,
+        transactionHash: utils.id(`${hash} ${logIndex}`),
+        transactionIndex: 0,
+        logIndex,
+        removed: false,
+      })),
+    });
+  }
+
+  reorg(height: number) {
+    this.blocks = this.blocks.slice(0, height + 1);
+  }
+}
+
+const indexerFor = (chain: MockChain, params = {}) =>
+  new EventIndexer(chain.provider, new MemoryIndexerStore(), {
+    coreContracts: [CORE_ADDRESS],
+    minterFilter: MINTER_FILTER_ADDRESS,
+    minters: [MINTER_ADDRESS],
+    ...params,
+  });
+
+const eventSummary = async (indexer: EventIndexer) =>
+  (await indexer.store.getEvents()).map(
+    ({ name, blockNumber, args }) =>
+      `${blockNumber} ${name} ${Object.values(args).join(" ")}`
+  );
+
+describe("EventIndexer", () => {
+  it("replays core, minter filter and minter events in chain order", async () => {
+    const chain = new MockChain();
+    chain.mine("a");
+    chain.mine(
+      "a",
+      projectUpdated(0, "created"),
+      projectUpdated(0, "maxInvocations")
+    );
+    chain.mine("a", minterRegistered(0), priceUpdated(0, 100));
+    chain.mine("a", mint(0));
+    const indexer = indexerFor(chain);
+    expect(await indexer.sync()).toEqual({
+      number: 3,
+      hash: utils.id("a 3"),
+    });
+    expect(await eventSummary(indexer)).toEqual([
+      "1 ProjectUpdated 0 created",
+      "1 ProjectUpdated 0 maxInvocations",
+      `2 ProjectMinterRegistered 0 ${CORE_ADDRESS} ${MINTER_ADDRESS} MinterSetPriceV5`,
+      `2 PricePerTokenUpdated 0 ${CORE_ADDRESS} 100`,
+      `3 Mint ${HOLDER_ADDRESS} 0`,
+    ]);
+  });
+
+  it("reads blocks in batches, resuming from the checkpoint", async () => {
+    const chain = new MockChain();
+    for (let i = 0; i < 5; i++) {
+      chain.mine("a", mint(i));
+    }
+    const indexer = indexerFor(chain, {
+      coreContracts: [CORE_ADDRESS],
+      minterFilter: undefined,
+      minters: undefined,
+      startBlock: 1,
+      batchSize: 2,
+    });
+    expect(await indexer.sync(2)).toEqual({ number: 2, hash: utils.id("a 2") });
+    expect(await indexer.sync()).toEqual({ number: 4, hash: utils.id("a 4") });
+    expect(
+      chain.getLogs.mock.calls.map(([{ fromBlock, toBlock }]) => [
+        fromBlock,
+        toBlock,
+      ])
+    ).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect((await eventSummary(indexer)).length).toEqual(4);
+    // @dev nothing new to index
+    expect(await indexer.sync()).toEqual({ number: 4, hash: utils.id("a 4") });
+    expect(chain.getLogs).toBeCalledTimes(2);
+  });
+
+  it("leaves unconfirmed blocks unindexed", async () => {
+    const chain = new MockChain();
+    chain.mine("a", mint(0));
+    chain.mine("a", mint(1));
+    const indexer = indexerFor(chain, { confirmations: 1 });
+    expect(await indexer.sync()).toEqual({ number: 0, hash: utils.id("a 0") });
+    expect(await eventSummary(indexer)).toEqual([`0 Mint ${HOLDER_ADDRESS} 0`]);
+  });
+
+  it("stops at the chain head when asked to index past it", async () => {
+    const chain = new MockChain();
+    chain.mine("a", mint(0));
+    chain.mine("a", mint(1));
+    const indexer = indexerFor(chain, { confirmations: 1 });
+    expect(await indexer.sync(10)).toEqual({
+      number: 0,
+      hash: utils.id("a 0"),
+    });
+    expect(await eventSummary(indexer)).toEqual([`0 Mint ${HOLDER_ADDRESS} 0`]);
+  });
+
+  it("does nothing before the start block is mined", async () => {
+    const chain = new MockChain();
+    chain.mine("a", mint(0));
+    expect(
+      await indexerFor(chain, {
+        startBlock: 5,
+        coreContracts: undefined,
+      }).sync()
+    ).toBeUndefined();
+  });
+
+  it("rolls back reorged blocks to their common ancestor", async () => {
+    const chain = new MockChain();
+    chain.mine("a", projectUpdated(0, "created"));
+    chain.mine("a");
+    chain.mine("a", priceUpdated(0, 100));
+    chain.mine("a", mint(0));
+    const indexer = indexerFor(chain);
+    await indexer.sync();
+
+    chain.reorg(1);
+    chain.mine("b", priceUpdated(0, 200));
+    chain.mine("b");
+    chain.mine("b", mint(0));
+    expect(await indexer.sync()).toEqual({ number: 4, hash: utils.id("b 4") });
+    expect(await eventSummary(indexer)).toEqual([
+      "0 ProjectUpdated 0 created",
+      `2 PricePerTokenUpdated 0 ${CORE_ADDRESS} 200`,
+      `4 Mint ${HOLDER_ADDRESS} 0`,
+    ]);
+  });
+
+  it("rolls back to a shorter chain", async () => {
+    const chain = new MockChain();
+    chain.mine("a", projectUpdated(0, "created"));
+    chain.mine("a", mint(0));
+    const indexer = indexerFor(chain);
+    await indexer.sync();
+
+    chain.reorg(0);
+    expect(await indexer.rollbackReorg()).toEqual({
+      number: 0,
+      hash: utils.id("a 0"),
+    });
+    expect(await eventSummary(indexer)).toEqual(["0 ProjectUpdated 0 created"]);
+  });
+
+  it("reindexes from the start block when no indexed block remains", async () => {
+    const chain = new MockChain();
+    chain.mine("a", mint(0));
+    const indexer = indexerFor(chain);
+    await indexer.sync();
+
+    chain.reorg(-1);
+    chain.mine("b", mint(1));
+    expect(await indexer.sync()).toEqual({ number: 0, hash: utils.id("b 0") });
+    expect(await eventSummary(indexer)).toEqual([`0 Mint ${HOLDER_ADDRESS} 1`]);
+  });
+});
@@ -0,0 +1,157 @@
+// Replays core, minter filter and minter events into an indexer store.
+import { providers } from "ethers";
+
+import {
+  decodeIndexedEvent,
+  EVENT_INTERFACES,
+  IndexedEvent,
+  IndexedEventSource,
+} from "./events";
+import { IndexedBlock, IndexerStore } from "./store";
+
+export type EventIndexerParams = {
+  /** V3 core contracts whose project, platform and mint events are indexed */
+  coreContracts?: string[];
+  /** `MinterFilterV2` whose minter registrations are indexed */
+  minterFilter?: string;
+  /** shared minters whose project configuration events are indexed */
+  minters?: string[];
+  /** first block to index, e.g. the deployment block of the contracts */
+  startBlock?: number;
+  /** blocks read per `getLogs` request, 2000 by default */
+  batchSize?: number;
+  /**
+   * blocks behind the chain head left unindexed, 0 by default. Reorgs within
+   * indexed blocks are rolled back by the next `sync`.
+   */
+  confirmations?: number;
+};
+
+/**
+ * @summary Indexer replaying events of Art Blocks contracts into a store.
+ * @description Each `sync` resumes from the store's checkpoint, after first
+ * rolling back any indexed blocks that are no longer on chain. Events are
+ * read in batches of blocks, each committed with its last block as the new
+ * checkpoint.
+ */
+export class EventIndexer {
+  /** store receiving the indexed events */
+  readonly store: IndexerStore;
+  private readonly provider: providers.Provider;
+  private readonly contracts: {
+    source: IndexedEventSource;
+    address: string;
+  }[];
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+
+  /**
+   * @param provider ethers provider of the indexed chain
+   * @param store store receiving the indexed events
+   * @param params contracts to index and how to read them
+   */
+  constructor(
+    provider: providers.Provider,
+    store: IndexerStore,
+    params: EventIndexerParams
+  ) {
+    this.provider = provider;
+    this.store = store;
+    this.contracts = [
+      ...(params.coreContracts || []).map((address) => ({
+        source: "core" as const,
+        address,
+      })),
+      ...(params.minterFilter
+        ? [{ source: "minterFilter" as const, address: params.minterFilter }]
+        : []),
+      ...(params.minters || []).map((address) => ({
+        source: "minter" as const,
+        address,
+      })),
+    ];
+    this.startBlock = params.startBlock || 0;
+    this.batchSize = params.batchSize || 2000;
+    this.confirmations = params.confirmations || 0;
+  }
+
+  /**
+   * @summary Index events up to a block.
+   * @param toBlock last block to index, defaults to and is capped at the
+   * chain head less the configured confirmations
+   * @returns the new checkpoint, or undefined if nothing has been indexed
+   */
+  async sync(toBlock?: number): Promise<IndexedBlock | undefined> {
+    let checkpoint = await this.rollbackReorg();
+    const confirmedBlock =
+      (await this.provider.getBlockNumber()) - this.confirmations;
+    const lastBlock =
+      toBlock !== undefined
+        ? Math.min(toBlock, confirmedBlock)
+        : confirmedBlock;
+    let fromBlock = checkpoint ? checkpoint.number + 1 : this.startBlock;
+    while (fromBlock <= lastBlock) {
+      const batchToBlock = Math.min(fromBlock + this.batchSize - 1, lastBlock);
+      // @dev read the checkpoint block before its logs, so that a reorg
+      // between the two leaves a checkpoint the next sync rolls back
+      const block = await this.provider.getBlock(batchToBlock);
+      const events = await this.getEvents(fromBlock, batchToBlock);
+      checkpoint = { number: block.number, hash: block.hash };
+      await this.store.commit(events, checkpoint);
+      fromBlock = batchToBlock + 1;
+    }
+    return checkpoint;
+  }
+
+  /**
+   * @summary Roll the store back to its latest block still on chain.
+   * @returns the store's checkpoint after any rollback
+   */
+  async rollbackReorg(): Promise<IndexedBlock | undefined> {
+    const checkpoint = await this.store.getCheckpoint();
+    if (!checkpoint || (await this.isOnChain(checkpoint))) {
+      return checkpoint;
+    }
+    const blocks = await this.store.getBlocks();
+    let ancestor: IndexedBlock | undefined;
+    for (let i = blocks.length - 1; i >= 0 && !ancestor; i--) {
+      if (await this.isOnChain(blocks[i])) {
+        ancestor = blocks[i];
+      }
+    }
+    await this.store.rollback(ancestor);
+    return ancestor;
+  }
+
+  private async isOnChain({ number, hash }: IndexedBlock): Promise<boolean> {
+    const block = await this.provider.getBlock(number);
+    return !!block && block.hash === hash;
+  }
+
+  private async getEvents(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<IndexedEvent[]> {
+    const events = await Promise.all(
+      this.contracts.map(async ({ source, address }) => {
+        const eventInterface = EVENT_INTERFACES[source];
+        const logs = await this.provider.getLogs({
+          address,
+          fromBlock,
+          toBlock,
+          topics: [
+            Object.keys(eventInterface.events).map((signature) =>
+              eventInterface.getEventTopic(signature)
+            ),
+          ],
+        });
+        return logs.map((log) => decodeIndexedEvent(source, log));
+      })
+    );
+    return ([] as (IndexedEvent | undefined)[])
+      .concat(...events)
+      .filter((event): event is IndexedEvent => event !== undefined)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+}
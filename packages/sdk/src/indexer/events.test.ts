@@ -0,0 +1,172 @@
+import { describe, it, expect } from "@jest/globals";
+import { providers, utils } from "ethers";
+
+import {
+  decodeBytes32Field,
+  decodeIndexedEvent,
+  EVENT_INTERFACES,
+} from "./events";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const MINTER_FILTER_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const MINTER_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const HOLDER_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+
+const toLog = (
+  source: string,
+  address: string,
+  event: string,
+  values: unknown[]
+): providers.Log => ({
+  ...EVENT_INTERFACES[source].encodeEventLog(
+    EVENT_INTERFACES[source].getEvent(event),
+    values
+  ),
+  address: address.toLowerCase(),
+  blockNumber: 12,
+  blockHash: utils.id("block 12"),
+  transactionHash: utils.id("transaction"),
+  transactionIndex: 0,
+  logIndex: 3,
+  removed: false,
+});
+
+describe("decodeBytes32Field", () => {
+  it("decodes field names of any length", () => {
+    expect(
+      decodeBytes32Field(utils.formatBytes32String("maxInvocations"))
+    ).toEqual("maxInvocations");
+    const fullWidth = "artblocksCurationRegistryAddress";
+    expect(decodeBytes32Field(utils.toUtf8Bytes(fullWidth))).toEqual(fullWidth);
+  });
+
+  it("leaves values that are not text as hex", () => {
+    const hash = utils.id("merkle root");
+    expect(decodeBytes32Field(hash)).toEqual(hash);
+  });
+});
+
+describe("decodeIndexedEvent", () => {
+  it("decodes project updates into readable field names", () => {
+    expect(
+      decodeIndexedEvent(
+        "core",
+        toLog("core", CORE_ADDRESS, "ProjectUpdated", [
+          4,
+          utils.formatBytes32String("script"),
+        ])
+      )
+    ).toEqual({
+      source: "core",
+      name: "ProjectUpdated",
+      address: CORE_ADDRESS,
+      blockNumber: 12,
+      blockHash: utils.id("block 12"),
+      transactionHash: utils.id("transaction"),
+      logIndex: 3,
+      coreContract: CORE_ADDRESS,
+      projectId: "4",
+      args: { projectId: "4", update: "script" },
+    });
+  });
+
+  it("decodes platform updates, without a project", () => {
+    const event = decodeIndexedEvent(
+      "core",
+      toLog("core", CORE_ADDRESS, "PlatformUpdated", [
+        utils.formatBytes32String("nextProjectId"),
+      ])
+    );
+    expect(event?.args).toEqual({ field: "nextProjectId" });
+    expect(event?.projectId).toBeUndefined();
+  });
+
+  it("decodes the project of minted tokens", () => {
+    const event = decodeIndexedEvent(
+      "core",
+      toLog("core", CORE_ADDRESS, "Mint", [HOLDER_ADDRESS, 3_000_012])
+    );
+    expect(event).toMatchObject({
+      projectId: "3",
+      args: { to: HOLDER_ADDRESS, tokenId: "3000012" },
+    });
+  });
+
+  it("decodes minter registrations on the minter filter", () => {
+    expect(
+      decodeIndexedEvent(
+        "minterFilter",
+        toLog(
+          "minterFilter",
+          MINTER_FILTER_ADDRESS,
+          "ProjectMinterRegistered",
+          [0, CORE_ADDRESS, MINTER_ADDRESS, "MinterSetPriceV5"]
+        )
+      )
+    ).toMatchObject({
+      address: MINTER_FILTER_ADDRESS,
+      coreContract: CORE_ADDRESS,
+      projectId: "0",
+      args: {
+        projectId: "0",
+        coreContract: CORE_ADDRESS,
+        minter: MINTER_ADDRESS,
+        minterType: "MinterSetPriceV5",
+      },
+    });
+    const revoked = decodeIndexedEvent(
+      "minterFilter",
+      toLog("minterFilter", MINTER_FILTER_ADDRESS, "MinterRevokedGlobally", [
+        MINTER_ADDRESS,
+      ])
+    );
+    expect(revoked?.args).toEqual({ minter: MINTER_ADDRESS });
+    expect(revoked?.coreContract).toBeUndefined();
+  });
+
+  it("decodes generic minter config keys, leaving bytes32 values as hex", () => {
+    const merkleRoot = utils.id("merkle root");
+    const event = decodeIndexedEvent(
+      "minter",
+      toLog(
+        "minter",
+        MINTER_ADDRESS,
+        "ConfigValueSet(uint256,address,bytes32,bytes32)",
+        [7, CORE_ADDRESS, utils.formatBytes32String("merkleRoot"), merkleRoot]
+      )
+    );
+    expect(event).toMatchObject({
+      name: "ConfigValueSet",
+      coreContract: CORE_ADDRESS,
+      projectId: "7",
+      args: { key: "merkleRoot", value: merkleRoot },
+    });
+  });
+
+  it("decodes array arguments", () => {
+    const event = decodeIndexedEvent(
+      "minter",
+      toLog("minter", MINTER_ADDRESS, "AllowedHoldersOfProjects", [
+        7,
+        CORE_ADDRESS,
+        [CORE_ADDRESS],
+        [3],
+      ])
+    );
+    expect(event?.args).toMatchObject({
+      ownedNFTAddresses: [CORE_ADDRESS],
+      ownedNFTProjectIds: ["3"],
+    });
+  });
+
+  it("ignores logs of other events", () => {
+    expect(
+      decodeIndexedEvent(
+        "minter",
+        toLog("core", MINTER_ADDRESS, "PlatformUpdated", [
+          utils.formatBytes32String("nextProjectId"),
+        ])
+      )
+    ).toBeUndefined();
+  });
+});
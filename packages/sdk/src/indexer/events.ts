@@ -0,0 +1,188 @@
+// Events replayed by the event indexer, and their decoding into records.
+import { BigNumber, providers, utils } from "ethers";
+
+import { decodeTokenId } from "../tokens";
+
+/**
+ * Contracts the indexer reads events from.
+ */
+export type IndexedEventSource = "core" | "minterFilter" | "minter";
+
+/**
+ * Decoded event arguments, keyed by parameter name without its leading
+ * underscore. Integers are decimal strings, addresses are checksummed and
+ * bytes32 field names are decoded to text.
+ */
+export type IndexedEventArgs = { [name: string]: string | boolean | string[] };
+
+/**
+ * An event replayed into an indexer store.
+ */
+export type IndexedEvent = {
+  source: IndexedEventSource;
+  /** event name, e.g. `ProjectUpdated` */
+  name: string;
+  /** contract that emitted the event */
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** core contract the event concerns, if any */
+  coreContract?: string;
+  /** project the event concerns, as a decimal string, if any */
+  projectId?: string;
+  args: IndexedEventArgs;
+};
+
+/**
+ * Events of V3 core contracts, as declared by
+ * `IGenArt721CoreContractV3_Base`.
+ */
+export const CORE_EVENTS = [
+  "event Mint(address indexed _to, uint256 indexed _tokenId)",
+  "event PlatformUpdated(bytes32 indexed _field)",
+  "event ProjectUpdated(uint256 indexed _projectId, bytes32 indexed _update)",
+];
+
+/**
+ * Minter registration events of `MinterFilterV2`, as declared by
+ * `IMinterFilterV1`.
+ */
+export const MINTER_FILTER_EVENTS = [
+  "event MinterApprovedGlobally(address indexed minter, string minterType)",
+  "event MinterRevokedGlobally(address indexed minter)",
+  "event MinterApprovedForContract(address indexed coreContract, address indexed minter, string minterType)",
+  "event MinterRevokedForContract(address indexed coreContract, address indexed minter)",
+  "event ProjectMinterRegistered(uint256 indexed projectId, address indexed coreContract, address indexed minter, string minterType)",
+  "event ProjectMinterRemoved(uint256 indexed projectId, address indexed coreContract)",
+];
+
+/**
+ * Project configuration events of shared minters, as declared by the minter
+ * libraries.
+ */
+export const MINTER_EVENTS = [
+  // GenericMinterEventsLib
+  "event ConfigKeyRemoved(uint256 indexed projectId, address indexed coreContract, bytes32 key)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bool value)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, uint256 value)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, address value)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bytes32 value)",
+  "event ConfigValueAddedToSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, uint256 value)",
+  "event ConfigValueAddedToSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, address value)",
+  "event ConfigValueAddedToSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bytes32 value)",
+  "event ConfigValueRemovedFromSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, uint256 value)",
+  "event ConfigValueRemovedFromSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, address value)",
+  "event ConfigValueRemovedFromSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bytes32 value)",
+  // SetPriceLib
+  "event PricePerTokenUpdated(uint256 indexed projectId, address indexed coreContract, uint256 indexed pricePerToken)",
+  "event PricePerTokenReset(uint256 indexed projectId, address indexed coreContract)",
+  // MaxInvocationsLib
+  "event ProjectMaxInvocationsLimitUpdated(uint256 indexed projectId, address indexed coreContract, uint256 maxInvocations)",
+  // SplitFundsLib
+  "event ProjectCurrencyInfoUpdated(uint256 indexed projectId, address indexed coreContract, address indexed currencyAddress, string currencySymbol)",
+  // DAExpLib, DALinLib and DALib, whose reset SEALib shares
+  "event SetAuctionDetailsExp(uint256 indexed projectId, address indexed coreContract, uint40 auctionTimestampStart, uint40 priceDecayHalfLifeSeconds, uint256 startPrice, uint256 basePrice)",
+  "event SetAuctionDetailsLin(uint256 indexed projectId, address indexed coreContract, uint40 auctionTimestampStart, uint40 auctionTimestampEnd, uint256 startPrice, uint256 basePrice)",
+  "event ResetAuctionDetails(uint256 indexed projectId, address indexed coreContract)",
+  // SEALib
+  "event ConfiguredFutureAuctions(uint256 indexed projectId, address indexed coreContract, uint64 timestampStart, uint32 auctionDurationSeconds, uint256 basePrice, uint8 minBidIncrementPercentage)",
+  // TokenHolderLib
+  "event AllowedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+  "event RemovedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+];
+
+/**
+ * Interfaces decoding the events of each source.
+ */
+export const EVENT_INTERFACES: { [source: string]: utils.Interface } = {
+  core: new utils.Interface(CORE_EVENTS),
+  minterFilter: new utils.Interface(MINTER_FILTER_EVENTS),
+  minter: new utils.Interface(MINTER_EVENTS),
+};
+
+/**
+ * bytes32 parameters holding field names, such as the core's
+ * `FIELD_PROJECT_SCRIPT`, rather than values.
+ */
+const FIELD_PARAMS = ["_update", "_field", "key"];
+
+/**
+ * @summary Decode a bytes32 field name, such as a core's
+ * `FIELD_PROJECT_MAX_INVOCATIONS`, to text.
+ * @description Unlike `parseBytes32String`, accepts names filling all 32
+ * bytes, such as `artblocksCurationRegistryAddress`.
+ * @param field bytes32 field name
+ * @returns the field name, e.g. `maxInvocations`, or the field as hex if it
+ * is not UTF-8 text
+ */
+export const decodeBytes32Field = (field: utils.BytesLike): string => {
+  const bytes = utils.arrayify(field);
+  let length = bytes.length;
+  while (length > 0 && bytes[length - 1] === 0) {
+    length--;
+  }
+  try {
+    return utils.toUtf8String(bytes.slice(0, length));
+  } catch {
+    return utils.hexlify(field);
+  }
+};
+
+const formatArg = (value: unknown): string | boolean | string[] => {
+  if (Array.isArray(value)) {
+    return value.map((item) => formatArg(item) as string);
+  }
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  return value as string | boolean;
+};
+
+/**
+ * @summary Decode a log of an indexed contract into an event record.
+ * @param source kind of contract that emitted the log
+ * @param log log, as returned by `getLogs`
+ * @returns the event record, or undefined if the log is not an indexed event
+ */
+export const decodeIndexedEvent = (
+  source: IndexedEventSource,
+  log: providers.Log
+): IndexedEvent | undefined => {
+  let parsed: utils.LogDescription;
+  try {
+    parsed = EVENT_INTERFACES[source].parseLog(log);
+  } catch {
+    return undefined;
+  }
+  const args: IndexedEventArgs = {};
+  parsed.eventFragment.inputs.forEach((input, index) => {
+    args[input.name.replace(/^_/, "")] = FIELD_PARAMS.includes(input.name)
+      ? decodeBytes32Field(parsed.args[index])
+      : formatArg(parsed.args[index]);
+  });
+  const event: IndexedEvent = {
+    source,
+    name: parsed.name,
+    address: utils.getAddress(log.address),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    args,
+  };
+  if (source === "core") {
+    event.coreContract = event.address;
+  } else if (args.coreContract) {
+    event.coreContract = args.coreContract as string;
+  }
+  if (parsed.name === "Mint") {
+    event.projectId = decodeTokenId(
+      args.tokenId as string
+    ).projectId.toString();
+  } else if (args.projectId) {
+    event.projectId = args.projectId as string;
+  }
+  return event;
+};
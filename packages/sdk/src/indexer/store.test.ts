@@ -0,0 +1,114 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { IndexedEvent } from "./events";
+import { MemoryIndexerStore } from "./store";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const MINTER_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+
+const event = (
+  blockNumber: number,
+  name: string,
+  overrides: Partial<IndexedEvent> = {}
+): IndexedEvent => ({
+  source: "core",
+  name,
+  address: CORE_ADDRESS,
+  blockNumber,
+  blockHash: `0x${blockNumber}`,
+  transactionHash: "0x01",
+  logIndex: 0,
+  coreContract: CORE_ADDRESS,
+  projectId: "1",
+  args: {},
+  ...overrides,
+});
+
+const populatedStore = async () => {
+  const store = new MemoryIndexerStore();
+  await store.commit(
+    [event(3, "ProjectUpdated"), event(5, "Mint", { projectId: "2" })],
+    { number: 9, hash: "0x9" }
+  );
+  await store.commit(
+    [
+      event(12, "ProjectMinterRegistered", {
+        source: "minterFilter",
+        address: MINTER_ADDRESS,
+      }),
+      event(12, "PlatformUpdated", {
+        coreContract: undefined,
+        projectId: undefined,
+      }),
+    ],
+    { number: 20, hash: "0x20" }
+  );
+  return store;
+};
+
+describe("MemoryIndexerStore", () => {
+  it("starts without a checkpoint", async () => {
+    const store = new MemoryIndexerStore();
+    expect(await store.getCheckpoint()).toBeUndefined();
+    expect(await store.getEvents()).toEqual([]);
+  });
+
+  it("records the blocks of events and checkpoints", async () => {
+    const store = await populatedStore();
+    expect(await store.getCheckpoint()).toEqual({ number: 20, hash: "0x20" });
+    expect(await store.getBlocks()).toEqual([
+      { number: 3, hash: "0x3" },
+      { number: 5, hash: "0x5" },
+      { number: 9, hash: "0x9" },
+      { number: 12, hash: "0x12" },
+      { number: 20, hash: "0x20" },
+    ]);
+  });
+
+  it("filters events", async () => {
+    const store = await populatedStore();
+    const names = async (filter: object) =>
+      (await store.getEvents(filter)).map(({ name }) => name);
+    expect(await names({})).toEqual([
+      "ProjectUpdated",
+      "Mint",
+      "ProjectMinterRegistered",
+      "PlatformUpdated",
+    ]);
+    expect(await names({ names: ["Mint", "PlatformUpdated"] })).toEqual([
+      "Mint",
+      "PlatformUpdated",
+    ]);
+    expect(await names({ address: MINTER_ADDRESS.toLowerCase() })).toEqual([
+      "ProjectMinterRegistered",
+    ]);
+    expect(
+      await names({ coreContract: CORE_ADDRESS.toLowerCase(), projectId: 1 })
+    ).toEqual(["ProjectUpdated", "ProjectMinterRegistered"]);
+    expect(await names({ fromBlock: 4, toBlock: 11 })).toEqual(["Mint"]);
+  });
+
+  it("rolls back to a block", async () => {
+    const store = await populatedStore();
+    await store.rollback({ number: 5, hash: "0x5" });
+    expect(await store.getCheckpoint()).toEqual({ number: 5, hash: "0x5" });
+    expect(await store.getBlocks()).toHaveLength(2);
+    expect((await store.getEvents()).map(({ name }) => name)).toEqual([
+      "ProjectUpdated",
+      "Mint",
+    ]);
+    await store.rollback(undefined);
+    expect(await store.getCheckpoint()).toBeUndefined();
+    expect(await store.getBlocks()).toEqual([]);
+  });
+
+  it("round-trips through JSON", async () => {
+    const store = await populatedStore();
+    const restored = MemoryIndexerStore.fromJSON(
+      JSON.parse(JSON.stringify(store))
+    );
+    expect(await restored.getCheckpoint()).toEqual(await store.getCheckpoint());
+    expect(await restored.getBlocks()).toEqual(await store.getBlocks());
+    expect(await restored.getEvents()).toEqual(await store.getEvents());
+  });
+});
@@ -0,0 +1,142 @@
+// Stores of the event indexer.
+import { BigNumber, BigNumberish, utils } from "ethers";
+
+import { IndexedEvent } from "./events";
+
+/**
+ * A block the indexer has read, identified by its number and hash.
+ */
+export type IndexedBlock = {
+  number: number;
+  hash: string;
+};
+
+/**
+ * Criteria selecting indexed events. Every given criterion must match.
+ */
+export type IndexedEventFilter = {
+  /** event names, e.g. `["ProjectUpdated", "Mint"]` */
+  names?: string[];
+  /** contract that emitted the event */
+  address?: string;
+  coreContract?: string;
+  projectId?: BigNumberish;
+  fromBlock?: number;
+  toBlock?: number;
+};
+
+/**
+ * Storage of an indexer's events and checkpoint.
+ * @description Each commit must be applied atomically, so that a resumed
+ * indexer finds either all or none of a batch's events.
+ */
+export interface IndexerStore {
+  /** last block indexed, if any */
+  getCheckpoint(): Promise<IndexedBlock | undefined>;
+  /** blocks of indexed events and checkpoints, in ascending order */
+  getBlocks(): Promise<IndexedBlock[]>;
+  /** append events read up to and including the checkpoint block */
+  commit(events: IndexedEvent[], checkpoint: IndexedBlock): Promise<void>;
+  /** drop everything after a block, which becomes the checkpoint */
+  rollback(checkpoint: IndexedBlock | undefined): Promise<void>;
+  /** indexed events, in chain order */
+  getEvents(filter?: IndexedEventFilter): Promise<IndexedEvent[]>;
+}
+
+/**
+ * JSON serialization of a `MemoryIndexerStore`.
+ */
+export type MemoryIndexerStoreJSON = {
+  checkpoint?: IndexedBlock;
+  blocks: IndexedBlock[];
+  events: IndexedEvent[];
+};
+
+const sameAddress = (a: string | undefined, b: string): boolean =>
+  a !== undefined && utils.getAddress(a) === utils.getAddress(b);
+
+/**
+ * @summary Indexer store keeping events in memory.
+ * @description May be serialized with `JSON.stringify` and restored with
+ * `fromJSON` to resume indexing in a later process.
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private checkpoint?: IndexedBlock;
+  private blocks: IndexedBlock[] = [];
+  private events: IndexedEvent[] = [];
+
+  /**
+   * @summary Restore a store from its JSON serialization.
+   * @param json serialized store
+   * @returns the store
+   */
+  static fromJSON(json: MemoryIndexerStoreJSON): MemoryIndexerStore {
+    const store = new MemoryIndexerStore();
+    store.checkpoint = json.checkpoint;
+    store.blocks = json.blocks;
+    store.events = json.events;
+    return store;
+  }
+
+  async getCheckpoint(): Promise<IndexedBlock | undefined> {
+    return this.checkpoint;
+  }
+
+  async getBlocks(): Promise<IndexedBlock[]> {
+    return this.blocks;
+  }
+
+  async commit(
+    events: IndexedEvent[],
+    checkpoint: IndexedBlock
+  ): Promise<void> {
+    const blocks = events.map(({ blockNumber, blockHash }) => ({
+      number: blockNumber,
+      hash: blockHash,
+    }));
+    for (const block of [...blocks, checkpoint]) {
+      if (!this.blocks.some(({ number }) => number === block.number)) {
+        this.blocks.push(block);
+      }
+    }
+    this.blocks.sort((a, b) => a.number - b.number);
+    this.events.push(...events);
+    this.checkpoint = checkpoint;
+  }
+
+  async rollback(checkpoint: IndexedBlock | undefined): Promise<void> {
+    const last = checkpoint ? checkpoint.number : -1;
+    this.blocks = this.blocks.filter(({ number }) => number <= last);
+    this.events = this.events.filter(({ blockNumber }) => blockNumber <= last);
+    this.checkpoint = checkpoint;
+  }
+
+  async getEvents(filter: IndexedEventFilter = {}): Promise<IndexedEvent[]> {
+    const projectId =
+      filter.projectId !== undefined
+        ? BigNumber.from(filter.projectId).toString()
+        : undefined;
+    return this.events.filter(
+      (event) =>
+        (!filter.names || filter.names.includes(event.name)) &&
+        (!filter.address || sameAddress(event.address, filter.address)) &&
+        (!filter.coreContract ||
+          sameAddress(event.coreContract, filter.coreContract)) &&
+        (projectId === undefined || event.projectId === projectId) &&
+        (filter.fromBlock === undefined ||
+          event.blockNumber >= filter.fromBlock) &&
+        (filter.toBlock === undefined || event.blockNumber <= filter.toBlock)
+    );
+  }
+
+  /**
+   * @returns the store's checkpoint, blocks and events, for `JSON.stringify`
+   */
+  toJSON(): MemoryIndexerStoreJSON {
+    return {
+      checkpoint: this.checkpoint,
+      blocks: this.blocks,
+      events: this.events,
+    };
+  }
+}
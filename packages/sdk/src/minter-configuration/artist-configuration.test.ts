@@ -0,0 +1,834 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, constants, ethers } from "ethers";
+
+import {
+  buildMinterConfigurationTransactions,
+  ConfigurationContext,
+  getConfigurationContext,
+  getMinterConfigurationTransactions,
+  InvalidMinterConfiguration,
+  MinterConfigurationInput,
+  validateMinterConfiguration,
+} from "./artist-configuration";
+import { ProjectMinterConfiguration } from "./project-minter-configuration";
+import { UnsupportedMinterType } from "../purchase/purchase";
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { MinterDAExpV5__factory } from "../generated/contracts/factories/MinterDAExpV5__factory";
+import { MinterDALinV5__factory } from "../generated/contracts/factories/MinterDALinV5__factory";
+import { MinterFilterV2__factory } from "../generated/contracts/factories/MinterFilterV2__factory";
+import { MinterSetPriceHolderV5__factory } from "../generated/contracts/factories/MinterSetPriceHolderV5__factory";
+import { MinterSetPriceV5__factory } from "../generated/contracts/factories/MinterSetPriceV5__factory";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const HOLDER_CORE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const MINTER_FILTER_ADDRESS = "0x000000000000000000000000000000000000Fa11";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const OTHER_MINTER_ADDRESS = "0x64fBf08bF8F1a6c5F4dE3B91a04a49C1A1a73d0b";
+const TOKEN_ADDRESS = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+const MERKLE_ROOT =
+  "0x9f5ec8d5b0b7e1d8ec0a6e0e4f3c7e7b8f7d5a9c1e2b3a4d5c6b7a8f9e0d1c2b";
+const NOW = 1_700_000_000;
+
+const CONTEXT: ConfigurationContext = { timestamp: NOW };
+
+const provider = new ethers.providers.JsonRpcProvider();
+
+const currentConfiguration = (
+  overrides: Partial<ProjectMinterConfiguration> = {}
+): ProjectMinterConfiguration => ({
+  minterAddress: MINTER_ADDRESS,
+  minterType: "MinterSetPriceV5",
+  priceIsConfigured: true,
+  basePrice: BigNumber.from(100),
+  currencySymbol: "ETH",
+  currencyAddress: constants.AddressZero,
+  maxInvocations: 500,
+  auction: null,
+  merkleRoot: null,
+  holderProjects: null,
+  ...overrides,
+});
+
+const build = (
+  minterType: string,
+  input: MinterConfigurationInput,
+  current?: ProjectMinterConfiguration,
+  context: ConfigurationContext = CONTEXT
+) =>
+  buildMinterConfigurationTransactions({
+    minterFilterAddress: MINTER_FILTER_ADDRESS,
+    minterAddress: MINTER_ADDRESS,
+    minterType,
+    projectId: 7,
+    coreContract: CORE_ADDRESS,
+    input,
+    context,
+    current,
+  });
+
+describe("validateMinterConfiguration", () => {
+  const validate = (
+    minterType: string,
+    input: MinterConfigurationInput,
+    context: ConfigurationContext = CONTEXT
+  ) => validateMinterConfiguration(minterType, input, context);
+
+  it("accepts a valid configuration", () => {
+    expect(
+      validate("MinterSetPriceERC20V5", {
+        currency: { currencySymbol: "DAI", currencyAddress: TOKEN_ADDRESS },
+        price: { pricePerTokenInWei: "1000000000000000000" },
+      })
+    ).toEqual([]);
+  });
+
+  it("rejects forms the minter does not have", () => {
+    expect(
+      validate("MinterSetPriceV5", { merkleRoot: { root: MERKLE_ROOT } })
+    ).toEqual([
+      {
+        form: "merkleRoot",
+        message: "is not configurable on MinterSetPriceV5",
+      },
+    ]);
+  });
+
+  it("checks each field against its Solidity type", () => {
+    expect(
+      validate("MinterSetPriceERC20V5", {
+        currency: { currencySymbol: 1, currencyAddress: "0x1234" },
+        price: { pricePerTokenInWei: "one" },
+        maxInvocations: { maxInvocations: 2 ** 24 },
+      })
+    ).toEqual([
+      {
+        form: "currency",
+        field: "currencySymbol",
+        message: "must be a string",
+      },
+      {
+        form: "currency",
+        field: "currencyAddress",
+        message: "must be an address",
+      },
+      {
+        form: "price",
+        field: "pricePerTokenInWei",
+        message: "must be an integer",
+      },
+      {
+        form: "maxInvocations",
+        field: "maxInvocations",
+        message: "must fit in a uint24",
+      },
+    ]);
+    expect(
+      validate("MinterSetPriceMerkleV5", {
+        merkleRoot: { root: "0x1234" },
+        invocationsPerAddress: { maxInvocationsPerAddress: -1 },
+        price: {},
+      })
+    ).toEqual([
+      {
+        form: "merkleRoot",
+        field: "root",
+        message: "must be a 32-byte hex string",
+      },
+      {
+        form: "invocationsPerAddress",
+        field: "maxInvocationsPerAddress",
+        message: "must fit in a uint24",
+      },
+      { form: "price", field: "pricePerTokenInWei", message: "is required" },
+    ]);
+  });
+
+  it("checks each item of an array field", () => {
+    expect(
+      validate("MinterSetPriceHolderV5", {
+        holderProjects: { holderProjects: "0x" },
+      })
+    ).toEqual([
+      {
+        form: "holderProjects",
+        field: "holderProjects",
+        message: "must be an array",
+      },
+    ]);
+    expect(
+      validate("MinterSetPriceHolderV5", {
+        holderProjects: {
+          holderProjects: [
+            { contract: HOLDER_CORE_ADDRESS, projectId: 1 },
+            { contract: "0x1234", projectId: 2 },
+          ],
+        },
+      })
+    ).toEqual([
+      {
+        form: "holderProjects",
+        field: "holderProjects",
+        message: "[1].contract must be an address",
+      },
+    ]);
+  });
+
+  it("checks an ERC20 currency", () => {
+    expect(
+      validate("MinterSetPriceERC20V5", {
+        currency: {
+          currencySymbol: "ETH",
+          currencyAddress: constants.AddressZero,
+        },
+      })
+    ).toEqual([
+      {
+        form: "currency",
+        field: "currencyAddress",
+        message: "must be an ERC20 token, not the zero address",
+      },
+    ]);
+    expect(
+      validate("MinterSetPriceERC20V5", {
+        currency: { currencySymbol: "", currencyAddress: TOKEN_ADDRESS },
+      })
+    ).toEqual([
+      {
+        form: "currency",
+        field: "currencySymbol",
+        message: "must not be empty",
+      },
+    ]);
+  });
+
+  it("checks a merkle root", () => {
+    expect(
+      validate("MinterSetPriceMerkleV5", {
+        merkleRoot: { root: constants.HashZero },
+      })
+    ).toEqual([
+      { form: "merkleRoot", field: "root", message: "must be provided" },
+    ]);
+  });
+
+  it("checks an exponential Dutch auction", () => {
+    const auction = {
+      auctionTimestampStart: NOW + 60,
+      priceDecayHalfLifeSeconds: 300,
+      startPrice: 1000,
+      basePrice: 100,
+    };
+    expect(validate("MinterDAExpV5", { auction })).toEqual([]);
+    expect(
+      validate(
+        "MinterDAExpV5",
+        {
+          auction: {
+            ...auction,
+            auctionTimestampStart: NOW,
+            priceDecayHalfLifeSeconds: 299,
+            startPrice: 100,
+          },
+        },
+        { ...CONTEXT, minimumPriceDecayHalfLifeSeconds: 300 }
+      )
+    ).toEqual([
+      {
+        form: "auction",
+        field: "auctionTimestampStart",
+        message: "must be in the future",
+      },
+      {
+        form: "auction",
+        field: "startPrice",
+        message: "must be greater than the base price",
+      },
+      {
+        form: "auction",
+        field: "priceDecayHalfLifeSeconds",
+        message: "must be at least 300 seconds",
+      },
+    ]);
+    expect(
+      validate("MinterDAExpV5", {
+        auction: { ...auction, priceDecayHalfLifeSeconds: 44 },
+      })
+    ).toEqual([
+      {
+        form: "auction",
+        field: "priceDecayHalfLifeSeconds",
+        message: "must be at least 45 seconds",
+      },
+    ]);
+    // a half life of zero is rejected even if the minimum is zero
+    expect(
+      validate(
+        "MinterDAExpV5",
+        { auction: { ...auction, priceDecayHalfLifeSeconds: 0 } },
+        { ...CONTEXT, minimumPriceDecayHalfLifeSeconds: 0 }
+      )
+    ).toHaveLength(1);
+  });
+
+  it("rejects changes to a Dutch auction that has started", () => {
+    const auction = {
+      auctionTimestampStart: NOW + 60,
+      priceDecayHalfLifeSeconds: 300,
+      startPrice: 1000,
+      basePrice: 100,
+    };
+    expect(
+      validate(
+        "MinterDAExpV5",
+        { auction },
+        {
+          ...CONTEXT,
+          auctionTimestampStart: NOW,
+          maxHasBeenInvoked: false,
+        }
+      )
+    ).toEqual([
+      {
+        form: "auction",
+        message:
+          "can not be changed once the auction has started, unless the project has sold out",
+      },
+    ]);
+    // a future auction, an unconfigured auction and a sold out project may
+    // all be reconfigured
+    for (const context of [
+      { auctionTimestampStart: NOW + 1, maxHasBeenInvoked: false },
+      { auctionTimestampStart: 0, maxHasBeenInvoked: false },
+      { auctionTimestampStart: NOW - 60, maxHasBeenInvoked: true },
+    ]) {
+      expect(
+        validate("MinterDAExpV5", { auction }, { ...CONTEXT, ...context })
+      ).toEqual([]);
+    }
+  });
+
+  it("checks a linear Dutch auction", () => {
+    const auction = {
+      auctionTimestampStart: NOW + 60,
+      auctionTimestampEnd: NOW + 660,
+      startPrice: 1000,
+      basePrice: 100,
+    };
+    expect(validate("MinterDALinV5", { auction })).toEqual([]);
+    expect(
+      validate(
+        "MinterDALinV5",
+        { auction },
+        {
+          ...CONTEXT,
+          minimumAuctionLengthSeconds: 601,
+        }
+      )
+    ).toEqual([
+      {
+        form: "auction",
+        field: "auctionTimestampEnd",
+        message: "must be at least 601 seconds after the start",
+      },
+    ]);
+  });
+
+  it("checks Serial English Auctions", () => {
+    const auction = {
+      timestampStart: 0,
+      auctionDurationSeconds: 60,
+      basePrice: 100,
+      minBidIncrementPercentage: 5,
+    };
+    expect(validate("MinterSEAV1", { auction })).toEqual([]);
+    expect(
+      validate("MinterSEAV1", {
+        auction: { ...auction, timestampStart: NOW + 1 },
+      })
+    ).toEqual([]);
+    expect(
+      validate("MinterSEAV1", {
+        auction: {
+          timestampStart: NOW,
+          auctionDurationSeconds: 59,
+          basePrice: 0,
+          minBidIncrementPercentage: 0,
+        },
+      }).map(({ field }) => field)
+    ).toEqual([
+      "timestampStart",
+      "auctionDurationSeconds",
+      "basePrice",
+      "minBidIncrementPercentage",
+    ]);
+  });
+
+  it("checks max invocations against the core", () => {
+    const context = {
+      ...CONTEXT,
+      coreInvocations: 10,
+      coreMaxInvocations: 100,
+    };
+    expect(
+      validate("MinterSetPriceV5", { maxInvocations: { maxInvocations: 10 } })
+    ).toEqual([]);
+    expect(
+      validate(
+        "MinterSetPriceV5",
+        { maxInvocations: { maxInvocations: 101 } },
+        context
+      )
+    ).toEqual([
+      {
+        form: "maxInvocations",
+        field: "maxInvocations",
+        message: "must not exceed the core's max invocations of 100",
+      },
+    ]);
+    expect(
+      validate(
+        "MinterSetPriceV5",
+        { maxInvocations: { maxInvocations: 9 } },
+        context
+      )
+    ).toEqual([
+      {
+        form: "maxInvocations",
+        field: "maxInvocations",
+        message: "must not be less than the 10 tokens already minted",
+      },
+    ]);
+  });
+
+  it("throws for minter types without a schema", () => {
+    expect(() => validate("MinterSetPriceV4", {})).toThrow(
+      UnsupportedMinterType
+    );
+  });
+});
+
+describe("buildMinterConfigurationTransactions", () => {
+  const minterInterface = MinterSetPriceHolderV5__factory.createInterface();
+  const decode = (data: string) => {
+    const { name, args } = minterInterface.parseTransaction({ data });
+    return { name, args: args.slice(2) };
+  };
+
+  it("assigns the minter before applying every form", () => {
+    const transactions = build("MinterSetPriceV5", {
+      maxInvocations: { maxInvocations: 100 },
+      price: { pricePerTokenInWei: 100 },
+    });
+    expect(transactions.map(({ form, method }) => [form, method])).toEqual([
+      ["minter", "setMinterForProject"],
+      ["price", "updatePricePerTokenInWei"],
+      ["maxInvocations", "manuallyLimitProjectMaxInvocations"],
+    ]);
+    const [assign, price] = transactions;
+    expect(assign.transaction.to).toEqual(MINTER_FILTER_ADDRESS);
+    expect([
+      ...MinterFilterV2__factory.createInterface().decodeFunctionData(
+        "setMinterForProject",
+        assign.transaction.data as string
+      ),
+    ]).toEqual([BigNumber.from(7), CORE_ADDRESS, MINTER_ADDRESS]);
+    expect(price.transaction.to).toEqual(MINTER_ADDRESS);
+    expect(decode(price.transaction.data as string)).toEqual({
+      name: "updatePricePerTokenInWei",
+      args: [BigNumber.from(100)],
+    });
+  });
+
+  it("applies every form when switching minters", () => {
+    const transactions = build(
+      "MinterSetPriceV5",
+      { price: { pricePerTokenInWei: 100 } },
+      currentConfiguration({ minterAddress: OTHER_MINTER_ADDRESS })
+    );
+    expect(transactions.map(({ form }) => form)).toEqual(["minter", "price"]);
+  });
+
+  it("skips forms matching the current configuration", () => {
+    const current = currentConfiguration({
+      minterAddress: MINTER_ADDRESS.toLowerCase(),
+    });
+    expect(
+      build(
+        "MinterSetPriceV5",
+        {
+          price: { pricePerTokenInWei: "100" },
+          maxInvocations: { maxInvocations: 500 },
+        },
+        current
+      )
+    ).toEqual([]);
+    expect(
+      build(
+        "MinterSetPriceV5",
+        { price: { pricePerTokenInWei: 100 } },
+        currentConfiguration({ priceIsConfigured: false, basePrice: null })
+      ).map(({ form }) => form)
+    ).toEqual(["price"]);
+    expect(
+      build(
+        "MinterSetPriceV5",
+        { maxInvocations: { maxInvocations: 400 } },
+        current
+      ).map(({ form }) => form)
+    ).toEqual(["maxInvocations"]);
+  });
+
+  it("compares a currency and a merkle root", () => {
+    const currency = { currencySymbol: "DAI", currencyAddress: TOKEN_ADDRESS };
+    const erc20 = currentConfiguration({
+      minterType: "MinterSetPriceERC20V5",
+      currencySymbol: "DAI",
+      currencyAddress: TOKEN_ADDRESS.toLowerCase(),
+    });
+    expect(build("MinterSetPriceERC20V5", { currency }, erc20)).toEqual([]);
+    expect(
+      build(
+        "MinterSetPriceERC20V5",
+        { currency: { ...currency, currencySymbol: "USDC" } },
+        erc20
+      ).map(({ method }) => method)
+    ).toEqual(["updateProjectCurrencyInfo"]);
+
+    const merkle = currentConfiguration({
+      minterType: "MinterSetPriceMerkleV5",
+      merkleRoot: MERKLE_ROOT,
+    });
+    expect(
+      build(
+        "MinterSetPriceMerkleV5",
+        { merkleRoot: { root: MERKLE_ROOT.toUpperCase().replace("0X", "0x") } },
+        merkle
+      )
+    ).toEqual([]);
+    expect(
+      build(
+        "MinterSetPriceMerkleV5",
+        { merkleRoot: { root: MERKLE_ROOT } },
+        currentConfiguration({ merkleRoot: null })
+      ).map(({ method }) => method)
+    ).toEqual(["updateMerkleRoot"]);
+  });
+
+  it("compares Dutch auction parameters", () => {
+    const exp = {
+      auctionTimestampStart: NOW + 60,
+      priceDecayHalfLifeSeconds: 300,
+      startPrice: 1000,
+      basePrice: 100,
+    };
+    const current = currentConfiguration({
+      minterType: "MinterDAExpV5",
+      auction: {
+        type: "exp",
+        timestampStart: NOW + 60,
+        priceDecayHalfLifeSeconds: 300,
+        startPrice: BigNumber.from(1000),
+        basePrice: BigNumber.from(100),
+      },
+    });
+    expect(build("MinterDAExpV5", { auction: exp }, current)).toEqual([]);
+    expect(
+      build(
+        "MinterDAExpV5",
+        { auction: { ...exp, priceDecayHalfLifeSeconds: 600 } },
+        current
+      )
+    ).toHaveLength(1);
+    expect(
+      build(
+        "MinterDAExpV5",
+        { auction: exp },
+        currentConfiguration({ minterType: "MinterDAExpV5" })
+      )
+    ).toHaveLength(1);
+
+    const lin = {
+      auctionTimestampStart: NOW + 60,
+      auctionTimestampEnd: NOW + 660,
+      startPrice: 1000,
+      basePrice: 100,
+    };
+    const linCurrent = currentConfiguration({
+      minterType: "MinterDALinV5",
+      auction: {
+        type: "lin",
+        timestampStart: NOW + 60,
+        timestampEnd: NOW + 660,
+        startPrice: 1000,
+        basePrice: 100,
+      },
+    });
+    expect(build("MinterDALinV5", { auction: lin }, linCurrent)).toEqual([]);
+    const [transaction] = build(
+      "MinterDALinV5",
+      { auction: { ...lin, auctionTimestampEnd: NOW + 1200 } },
+      linCurrent
+    );
+    expect(
+      MinterDALinV5__factory.createInterface()
+        .decodeFunctionData(
+          "setAuctionDetails",
+          transaction.transaction.data as string
+        )
+        .slice(2)
+        .map(String)
+    ).toEqual([`${NOW + 60}`, `${NOW + 1200}`, "1000", "100"]);
+  });
+
+  it("always applies forms that are not compared", () => {
+    const sea = {
+      timestampStart: 0,
+      auctionDurationSeconds: 600,
+      basePrice: 100,
+      minBidIncrementPercentage: 5,
+    };
+    expect(
+      build(
+        "MinterSEAV1",
+        { auction: sea },
+        currentConfiguration({ minterType: "MinterSEAV1" })
+      ).map(({ method }) => method)
+    ).toEqual(["configureFutureAuctions"]);
+  });
+
+  it("applies holder projects as a diff", () => {
+    const current = currentConfiguration({
+      minterType: "MinterSetPriceHolderV5",
+      holderProjects: [
+        {
+          contract: HOLDER_CORE_ADDRESS.toLowerCase(),
+          projectId: BigNumber.from(1),
+        },
+        {
+          contract: HOLDER_CORE_ADDRESS.toLowerCase(),
+          projectId: BigNumber.from(2),
+        },
+      ],
+    });
+    const [transaction] = build(
+      "MinterSetPriceHolderV5",
+      {
+        holderProjects: {
+          holderProjects: [
+            { contract: HOLDER_CORE_ADDRESS, projectId: 2 },
+            { contract: CORE_ADDRESS, projectId: 3 },
+          ],
+        },
+      },
+      current
+    );
+    expect(decode(transaction.transaction.data as string)).toEqual({
+      name: "allowAndRemoveHoldersOfProjects",
+      args: [
+        [CORE_ADDRESS],
+        [BigNumber.from(3)],
+        [HOLDER_CORE_ADDRESS],
+        [BigNumber.from(1)],
+      ],
+    });
+    expect(
+      build(
+        "MinterSetPriceHolderV5",
+        {
+          holderProjects: {
+            holderProjects: [
+              { contract: HOLDER_CORE_ADDRESS, projectId: "1" },
+              { contract: HOLDER_CORE_ADDRESS, projectId: 2 },
+            ],
+          },
+        },
+        current
+      )
+    ).toEqual([]);
+  });
+
+  it("allows every holder project on a newly assigned minter", () => {
+    const [, transaction] = build("MinterSetPriceHolderV5", {
+      holderProjects: {
+        holderProjects: [{ contract: HOLDER_CORE_ADDRESS, projectId: 1 }],
+      },
+    });
+    expect(decode(transaction.transaction.data as string).args).toEqual([
+      [HOLDER_CORE_ADDRESS],
+      [BigNumber.from(1)],
+      [],
+      [],
+    ]);
+  });
+
+  it("throws for an invalid configuration", () => {
+    expect(() =>
+      build("MinterSetPriceV5", {
+        price: {},
+        merkleRoot: { root: MERKLE_ROOT },
+      })
+    ).toThrow(
+      new InvalidMinterConfiguration([
+        { form: "price", field: "pricePerTokenInWei", message: "is required" },
+        {
+          form: "merkleRoot",
+          message: "is not configurable on MinterSetPriceV5",
+        },
+      ])
+    );
+    expect(() => build("MinterSetPriceV5", { price: {} })).toThrowError(
+      "Invalid minter configuration: price.pricePerTokenInWei is required"
+    );
+  });
+});
+
+describe("getConfigurationContext", () => {
+  const mockChain = () => {
+    provider.getBlock = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ timestamp: NOW })) as never;
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => ({
+        invocations: BigNumber.from(10),
+        maxInvocations: BigNumber.from(100),
+      }),
+    });
+    MinterDAExpV5__factory.connect = jest.fn().mockReturnValue({
+      minimumPriceDecayHalfLifeSeconds: async () => BigNumber.from(60),
+      projectAuctionParameters: async () => ({ timestampStart: NOW - 60 }),
+      projectMaxHasBeenInvoked: async () => false,
+    });
+    MinterDALinV5__factory.connect = jest.fn().mockReturnValue({
+      minimumAuctionLengthSeconds: async () => BigNumber.from(3600),
+      projectAuctionParameters: async () => ({ timestampStart: 0 }),
+      projectMaxHasBeenInvoked: async () => true,
+    });
+  };
+
+  const read = (minterType: string) =>
+    getConfigurationContext(
+      MINTER_ADDRESS,
+      minterType,
+      provider,
+      7,
+      CORE_ADDRESS
+    );
+
+  it("reads the block timestamp and the core's invocations", async () => {
+    mockChain();
+    expect(await read("MinterSetPriceV5")).toEqual({
+      timestamp: NOW,
+      coreInvocations: 10,
+      coreMaxInvocations: 100,
+    });
+  });
+
+  it("reads a Dutch auction minter's minimums and the project's auction", async () => {
+    mockChain();
+    expect(await read("MinterDAExpHolderV5")).toMatchObject({
+      minimumPriceDecayHalfLifeSeconds: 60,
+      auctionTimestampStart: NOW - 60,
+      maxHasBeenInvoked: false,
+    });
+    expect(await read("MinterDALinV5")).toMatchObject({
+      minimumAuctionLengthSeconds: 3600,
+      auctionTimestampStart: 0,
+      maxHasBeenInvoked: true,
+    });
+    expect(MinterDAExpV5__factory.connect).toHaveBeenCalledWith(
+      MINTER_ADDRESS,
+      provider
+    );
+  });
+});
+
+describe("getMinterConfigurationTransactions", () => {
+  const mockChain = () => {
+    provider.getBlock = jest
+      .fn()
+      .mockReturnValue(Promise.resolve({ timestamp: NOW })) as never;
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => ({
+        invocations: BigNumber.from(0),
+        maxInvocations: BigNumber.from(1000),
+      }),
+    });
+    ISharedMinterV0__factory.connect = jest.fn().mockReturnValue({
+      minterType: async () => "MinterSetPriceV5",
+      getPriceInfo: async () => ({
+        isConfigured: true,
+        tokenPriceInWei: BigNumber.from(100),
+        currencySymbol: "ETH",
+        currencyAddress: constants.AddressZero,
+      }),
+    });
+    MinterSetPriceV5__factory.connect = jest.fn().mockReturnValue({
+      projectMaxInvocations: async () => BigNumber.from(1000),
+    });
+  };
+
+  const mockMinterFilter = (projectHasMinter: () => Promise<boolean>) =>
+    ({
+      address: MINTER_FILTER_ADDRESS,
+      projectHasMinter,
+      getMinterForProject: async () => MINTER_ADDRESS,
+    }) as unknown as MinterFilterV2;
+
+  const input = {
+    price: { pricePerTokenInWei: 200 },
+    maxInvocations: { maxInvocations: 1000 },
+  };
+
+  it("skips forms matching the project's current minter", async () => {
+    mockChain();
+    const transactions = await getMinterConfigurationTransactions(
+      mockMinterFilter(async () => true),
+      provider,
+      7,
+      CORE_ADDRESS,
+      MINTER_ADDRESS,
+      input
+    );
+    expect(transactions.map(({ form }) => form)).toEqual(["price"]);
+  });
+
+  it("assigns the minter to a project without one", async () => {
+    mockChain();
+    const signer = new ethers.Wallet(
+      "0x0123456789012345678901234567890123456789012345678901234567890123",
+      provider
+    );
+    const transactions = await getMinterConfigurationTransactions(
+      mockMinterFilter(async () => false),
+      signer,
+      7,
+      CORE_ADDRESS,
+      MINTER_ADDRESS,
+      input
+    );
+    expect(transactions.map(({ form }) => form)).toEqual([
+      "minter",
+      "price",
+      "maxInvocations",
+    ]);
+    expect(transactions[0].transaction.to).toEqual(MINTER_FILTER_ADDRESS);
+  });
+
+  it("rethrows errors reading the current configuration", async () => {
+    mockChain();
+    await expect(
+      getMinterConfigurationTransactions(
+        mockMinterFilter(async () => {
+          throw new Error("network error");
+        }),
+        provider,
+        7,
+        CORE_ADDRESS,
+        MINTER_ADDRESS,
+        input
+      )
+    ).rejects.toThrowError("network error");
+  });
+});
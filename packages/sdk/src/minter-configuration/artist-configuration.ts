@@ -0,0 +1,647 @@
+import {
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+  Signer,
+  constants,
+  providers,
+  utils,
+} from "ethers";
+import { Client } from "@urql/core";
+
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { MinterDAExpV5__factory } from "../generated/contracts/factories/MinterDAExpV5__factory";
+import { MinterDALinV5__factory } from "../generated/contracts/factories/MinterDALinV5__factory";
+import { MinterFilterV2__factory } from "../generated/contracts/factories/MinterFilterV2__factory";
+import { MinterSEAV1__factory } from "../generated/contracts/factories/MinterSEAV1__factory";
+import { MinterSetPriceERC20V5__factory } from "../generated/contracts/factories/MinterSetPriceERC20V5__factory";
+import { MinterSetPriceHolderV5__factory } from "../generated/contracts/factories/MinterSetPriceHolderV5__factory";
+import { MinterSetPriceMerkleV5__factory } from "../generated/contracts/factories/MinterSetPriceMerkleV5__factory";
+import { MinterSetPriceV5__factory } from "../generated/contracts/factories/MinterSetPriceV5__factory";
+import { ProjectMinterNotConfigured } from "../purchase/purchase";
+import {
+  getProjectMinterConfiguration,
+  ProjectMinterConfiguration,
+} from "./project-minter-configuration";
+import {
+  getMinterConfigurationSchema,
+  ConfigurationFieldSchema,
+  ConfigurationRule,
+} from "./schemas";
+
+export type HolderProjectInput = {
+  contract: string;
+  projectId: BigNumberish;
+};
+
+export type ConfigurationValue = BigNumberish | HolderProjectInput[];
+
+/**
+ * Desired values of a minter's forms, keyed by form and then by field, e.g.
+ * `{ price: { pricePerTokenInWei: "1000000000000000000" } }`. Forms that are
+ * left out are not changed.
+ */
+export type MinterConfigurationInput = {
+  [formKey: string]: { [field: string]: ConfigurationValue };
+};
+
+/**
+ * On-chain state that a minter's checks depend on.
+ */
+export type ConfigurationContext = {
+  /** latest block timestamp, in seconds */
+  timestamp: number;
+  /** minimum half life of a DAExp minter, defaults to its initial 45 seconds */
+  minimumPriceDecayHalfLifeSeconds?: number;
+  /** minimum auction length of a DALin minter, defaults to its initial 600 seconds */
+  minimumAuctionLengthSeconds?: number;
+  /** start of the project's current Dutch auction, or 0 if not configured */
+  auctionTimestampStart?: number;
+  /** whether the project has sold out on its Dutch auction minter */
+  maxHasBeenInvoked?: boolean;
+  /** project's invocations on its core contract */
+  coreInvocations?: number;
+  /** project's max invocations on its core contract */
+  coreMaxInvocations?: number;
+};
+
+/**
+ * A value that the minter would reject.
+ */
+export type ConfigurationIssue = {
+  form: string;
+  /** field of the form, or undefined for the form as a whole */
+  field?: string;
+  message: string;
+};
+
+/**
+ * A transaction that applies one form, or assigns the minter to the project
+ * (form `minter`).
+ */
+export type ConfigurationTransaction = {
+  form: string;
+  method: string;
+  transaction: PopulatedTransaction;
+};
+
+export type MinterConfigurationParams = {
+  /** address of the shared minter filter */
+  minterFilterAddress: string;
+  /** minter to configure, which is assigned to the project if needed */
+  minterAddress: string;
+  minterType: string;
+  projectId: BigNumberish;
+  coreContract: string;
+  input: MinterConfigurationInput;
+  context: ConfigurationContext;
+  /**
+   * the project's current minter configuration, if it has a minter; forms
+   * already matching it are skipped
+   */
+  current?: ProjectMinterConfiguration;
+};
+
+/**
+ * @summary Error thrown when a minter configuration would be rejected by
+ * the minter.
+ */
+export class InvalidMinterConfiguration extends Error {
+  readonly issues: ConfigurationIssue[];
+
+  constructor(issues: ConfigurationIssue[]) {
+    super(
+      `Invalid minter configuration: ${issues
+        .map(({ form, field, message }) =>
+          field ? `${form}.${field} ${message}` : `${form} ${message}`
+        )
+        .join("; ")}`
+    );
+    this.name = "InvalidMinterConfiguration";
+    this.issues = issues;
+  }
+}
+
+// @dev defaults of the minters' admin-configurable minimums
+const DEFAULT_MINIMUM_PRICE_DECAY_HALF_LIFE_SECONDS = 45;
+const DEFAULT_MINIMUM_AUCTION_LENGTH_SECONDS = 600;
+// @dev `MIN_AUCTION_DURATION_SECONDS` of MinterSEAV1
+const MINIMUM_SEA_AUCTION_DURATION_SECONDS = 60;
+
+type FormValues = { [field: string]: ConfigurationValue };
+
+type RuleCheck = (
+  values: FormValues,
+  context: ConfigurationContext
+) => Omit<ConfigurationIssue, "form"> | undefined;
+
+const num = (value: ConfigurationValue) =>
+  BigNumber.from(value as BigNumberish);
+
+/**
+ * Checks of the minters and their libraries, mirroring their reverts.
+ */
+const RULE_CHECKS: Record<ConfigurationRule, RuleCheck> = {
+  currencyIsERC20: ({ currencySymbol, currencyAddress }) => {
+    if (currencyAddress === constants.AddressZero) {
+      return {
+        field: "currencyAddress",
+        message: "must be an ERC20 token, not the zero address",
+      };
+    }
+    if (currencySymbol === "") {
+      return { field: "currencySymbol", message: "must not be empty" };
+    }
+  },
+  nonZeroMerkleRoot: ({ root }) =>
+    root === constants.HashZero
+      ? { field: "root", message: "must be provided" }
+      : undefined,
+  noModificationsMidAuction: (
+    _values,
+    { timestamp, auctionTimestampStart = 0, maxHasBeenInvoked = false }
+  ) =>
+    auctionTimestampStart !== 0 &&
+    timestamp >= auctionTimestampStart &&
+    !maxHasBeenInvoked
+      ? {
+          message:
+            "can not be changed once the auction has started, unless the project has sold out",
+        }
+      : undefined,
+  futureAuctionStart: ({ auctionTimestampStart }, { timestamp }) =>
+    num(auctionTimestampStart).lte(timestamp)
+      ? { field: "auctionTimestampStart", message: "must be in the future" }
+      : undefined,
+  futureOrImmediateAuctionStart: ({ timestampStart }, { timestamp }) =>
+    !num(timestampStart).isZero() && num(timestampStart).lte(timestamp)
+      ? { field: "timestampStart", message: "must be in the future, or 0" }
+      : undefined,
+  startPriceAboveBasePrice: ({ startPrice, basePrice }) =>
+    num(startPrice).lte(num(basePrice))
+      ? { field: "startPrice", message: "must be greater than the base price" }
+      : undefined,
+  minimumHalfLife: (
+    { priceDecayHalfLifeSeconds },
+    {
+      minimumPriceDecayHalfLifeSeconds = DEFAULT_MINIMUM_PRICE_DECAY_HALF_LIFE_SECONDS,
+    }
+  ) =>
+    num(priceDecayHalfLifeSeconds).lt(
+      Math.max(minimumPriceDecayHalfLifeSeconds, 1)
+    )
+      ? {
+          field: "priceDecayHalfLifeSeconds",
+          message: `must be at least ${minimumPriceDecayHalfLifeSeconds} seconds`,
+        }
+      : undefined,
+  minimumAuctionLength: (
+    { auctionTimestampStart, auctionTimestampEnd },
+    { minimumAuctionLengthSeconds = DEFAULT_MINIMUM_AUCTION_LENGTH_SECONDS }
+  ) =>
+    num(auctionTimestampEnd).lt(
+      num(auctionTimestampStart).add(minimumAuctionLengthSeconds)
+    )
+      ? {
+          field: "auctionTimestampEnd",
+          message: `must be at least ${minimumAuctionLengthSeconds} seconds after the start`,
+        }
+      : undefined,
+  minimumSEAAuctionDuration: ({ auctionDurationSeconds }) =>
+    num(auctionDurationSeconds).lt(MINIMUM_SEA_AUCTION_DURATION_SECONDS)
+      ? {
+          field: "auctionDurationSeconds",
+          message: `must be at least ${MINIMUM_SEA_AUCTION_DURATION_SECONDS} seconds`,
+        }
+      : undefined,
+  nonZeroBasePrice: ({ basePrice }) =>
+    num(basePrice).isZero()
+      ? { field: "basePrice", message: "must not be zero" }
+      : undefined,
+  nonZeroMinBidIncrement: ({ minBidIncrementPercentage }) =>
+    num(minBidIncrementPercentage).isZero()
+      ? { field: "minBidIncrementPercentage", message: "must not be zero" }
+      : undefined,
+  withinCoreInvocations: (
+    { maxInvocations },
+    { coreInvocations, coreMaxInvocations }
+  ) => {
+    if (
+      coreMaxInvocations !== undefined &&
+      num(maxInvocations).gt(coreMaxInvocations)
+    ) {
+      return {
+        field: "maxInvocations",
+        message: `must not exceed the core's max invocations of ${coreMaxInvocations}`,
+      };
+    }
+    if (
+      coreInvocations !== undefined &&
+      num(maxInvocations).lt(coreInvocations)
+    ) {
+      return {
+        field: "maxInvocations",
+        message: `must not be less than the ${coreInvocations} tokens already minted`,
+      };
+    }
+  },
+};
+
+/**
+ * @summary Check a value against its field's type.
+ * @returns the reason the value is invalid, if it is
+ */
+const checkField = (
+  value: ConfigurationValue | undefined,
+  field: ConfigurationFieldSchema
+): string | undefined => {
+  if (value === undefined || value === null) {
+    return "is required";
+  }
+  if (field.type === "array") {
+    if (!Array.isArray(value)) {
+      return "must be an array";
+    }
+    for (let i = 0; i < value.length; i++) {
+      const item = value[i];
+      for (const [name, itemField] of Object.entries(
+        field.items as { [name: string]: ConfigurationFieldSchema }
+      )) {
+        const reason = checkField(
+          (item as unknown as FormValues)[name],
+          itemField
+        );
+        if (reason) {
+          return `[${i}].${name} ${reason}`;
+        }
+      }
+    }
+    return undefined;
+  }
+  if (field.solidityType === "address") {
+    return utils.isAddress(value as string) ? undefined : "must be an address";
+  }
+  if (field.solidityType === "bytes32") {
+    return utils.isHexString(value, 32)
+      ? undefined
+      : "must be a 32-byte hex string";
+  }
+  if (field.type === "string") {
+    return typeof value === "string" ? undefined : "must be a string";
+  }
+  let integer: BigNumber;
+  try {
+    integer = BigNumber.from(value);
+  } catch {
+    return "must be an integer";
+  }
+  const bits = Number(field.solidityType.replace("uint", ""));
+  if (integer.isNegative() || integer.gte(BigNumber.from(2).pow(bits))) {
+    return `must fit in a ${field.solidityType}`;
+  }
+  return undefined;
+};
+
+/**
+ * @summary Check a desired configuration against a minter's rules.
+ * @description Checks each value against its field's Solidity type, then
+ * applies the minter's checks, such as a Dutch auction's start price being
+ * above its base price, or a Serial English Auction's minimum bid increment
+ * being non-zero.
+ * @param minterType the minter's `minterType()`
+ * @param input desired values of the forms to configure
+ * @param context on-chain state the minter's checks depend on
+ * @returns every issue found, or an empty array if the input is valid
+ * @throws UnsupportedMinterType if the minter type has no schema
+ */
+export const validateMinterConfiguration = (
+  minterType: string,
+  input: MinterConfigurationInput,
+  context: ConfigurationContext
+): ConfigurationIssue[] => {
+  const { forms } = getMinterConfigurationSchema(minterType);
+  const issues: ConfigurationIssue[] = [];
+  for (const [form, values] of Object.entries(input)) {
+    const formSchema = forms[form];
+    if (!formSchema) {
+      issues.push({ form, message: `is not configurable on ${minterType}` });
+      continue;
+    }
+    const fieldIssues = Object.entries(formSchema.properties).flatMap(
+      ([field, fieldSchema]) => {
+        const message = checkField(values[field], fieldSchema);
+        return message ? [{ form, field, message }] : [];
+      }
+    );
+    issues.push(...fieldIssues);
+    if (fieldIssues.length > 0) {
+      continue;
+    }
+    for (const rule of formSchema.rules) {
+      const issue = RULE_CHECKS[rule](values, context);
+      if (issue) {
+        issues.push({ form, ...issue });
+      }
+    }
+  }
+  return issues;
+};
+
+const MINTER_INTERFACES: utils.Interface[] = [
+  MinterSetPriceV5__factory.createInterface(),
+  MinterSetPriceERC20V5__factory.createInterface(),
+  MinterSetPriceMerkleV5__factory.createInterface(),
+  MinterSetPriceHolderV5__factory.createInterface(),
+  MinterDAExpV5__factory.createInterface(),
+  MinterSEAV1__factory.createInterface(),
+];
+
+const encodeMinterCall = (method: string, args: unknown[]): string =>
+  (
+    MINTER_INTERFACES.find((minterInterface) =>
+      Object.values(minterInterface.functions).some(
+        (fragment) => fragment.name === method
+      )
+    ) as utils.Interface
+  ).encodeFunctionData(method, args);
+
+const holderKey = ({ contract, projectId }: HolderProjectInput) =>
+  `${contract.toLowerCase()}-${BigNumber.from(projectId).toString()}`;
+
+/**
+ * @summary Get the holder projects to allow and remove to reach the desired
+ * list.
+ */
+const diffHolderProjects = (
+  desired: HolderProjectInput[],
+  current: HolderProjectInput[]
+) => {
+  const desiredKeys = new Set(desired.map(holderKey));
+  const currentKeys = new Set(current.map(holderKey));
+  return {
+    add: desired.filter((holder) => !currentKeys.has(holderKey(holder))),
+    remove: current.filter((holder) => !desiredKeys.has(holderKey(holder))),
+  };
+};
+
+/**
+ * @summary Whether a form's desired values already match the project's
+ * current configuration.
+ */
+const isUnchanged = (
+  form: string,
+  values: FormValues,
+  current: ProjectMinterConfiguration
+): boolean => {
+  switch (form) {
+    case "price":
+      return (
+        current.priceIsConfigured &&
+        !!current.basePrice?.eq(num(values.pricePerTokenInWei))
+      );
+    case "currency":
+      return (
+        current.currencySymbol === values.currencySymbol &&
+        current.currencyAddress.toLowerCase() ===
+          (values.currencyAddress as string).toLowerCase()
+      );
+    case "merkleRoot":
+      return (
+        current.merkleRoot?.toLowerCase() ===
+        (values.root as string).toLowerCase()
+      );
+    case "maxInvocations":
+      return current.maxInvocations === num(values.maxInvocations).toNumber();
+    case "auction": {
+      const { auction } = current;
+      if (!auction) {
+        return false;
+      }
+      const decay =
+        auction.type === "exp"
+          ? { priceDecayHalfLifeSeconds: auction.priceDecayHalfLifeSeconds }
+          : { auctionTimestampEnd: auction.timestampEnd };
+      return Object.entries({
+        auctionTimestampStart: auction.timestampStart,
+        startPrice: auction.startPrice,
+        basePrice: auction.basePrice,
+        ...decay,
+      }).every(
+        ([field, value]) =>
+          values[field] !== undefined && num(values[field]).eq(value)
+      );
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * @summary Build the transactions that bring a project's minter to a desired
+ * configuration.
+ * @description Validates the input, then returns one transaction per form
+ * that differs from the current configuration, in schema order. If the
+ * minter is not yet assigned to the project, `setMinterForProject` on the
+ * minter filter comes first, and every provided form is applied.
+ * @param params minter, project, desired values, context and current
+ * configuration
+ * @returns unsigned transactions, to be sent in order by the project's artist
+ * @throws InvalidMinterConfiguration if the minter would reject the input
+ * @throws UnsupportedMinterType if the minter type has no schema
+ */
+export const buildMinterConfigurationTransactions = ({
+  minterFilterAddress,
+  minterAddress,
+  minterType,
+  projectId,
+  coreContract,
+  input,
+  context,
+  current,
+}: MinterConfigurationParams): ConfigurationTransaction[] => {
+  const issues = validateMinterConfiguration(minterType, input, context);
+  if (issues.length > 0) {
+    throw new InvalidMinterConfiguration(issues);
+  }
+  const transactions: ConfigurationTransaction[] = [];
+  const minterIsAssigned =
+    current?.minterAddress.toLowerCase() === minterAddress.toLowerCase();
+  if (!minterIsAssigned) {
+    transactions.push({
+      form: "minter",
+      method: "setMinterForProject",
+      transaction: {
+        to: minterFilterAddress,
+        data: MinterFilterV2__factory.createInterface().encodeFunctionData(
+          "setMinterForProject",
+          [projectId, coreContract, minterAddress]
+        ),
+      },
+    });
+  }
+  const currentConfiguration = minterIsAssigned ? current : undefined;
+
+  const { forms } = getMinterConfigurationSchema(minterType);
+  for (const [form, { method, properties }] of Object.entries(forms)) {
+    const values = input[form];
+    if (
+      !values ||
+      (currentConfiguration && isUnchanged(form, values, currentConfiguration))
+    ) {
+      continue;
+    }
+    let args: unknown[];
+    if (form === "holderProjects") {
+      // @dev the desired list is applied as a diff against the current list
+      const { add, remove } = diffHolderProjects(
+        values.holderProjects as HolderProjectInput[],
+        currentConfiguration?.holderProjects ?? []
+      );
+      if (add.length === 0 && remove.length === 0) {
+        continue;
+      }
+      args = [
+        add.map(({ contract }) => contract),
+        add.map(({ projectId }) => projectId),
+        remove.map(({ contract }) => contract),
+        remove.map(({ projectId }) => projectId),
+      ];
+    } else {
+      args = Object.keys(properties).map((field) => values[field]);
+    }
+    transactions.push({
+      form,
+      method,
+      transaction: {
+        to: minterAddress,
+        data: encodeMinterCall(method, [projectId, coreContract, ...args]),
+      },
+    });
+  }
+  return transactions;
+};
+
+/**
+ * @summary Read the on-chain state a minter's checks depend on.
+ * @param minterAddress address of the minter
+ * @param minterType the minter's `minterType()`
+ * @param provider ethers provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns latest block timestamp, the minter's minimums, the project's
+ * current Dutch auction start and whether it has sold out, and the project's
+ * invocations on its core
+ */
+export async function getConfigurationContext(
+  minterAddress: string,
+  minterType: string,
+  provider: providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<ConfigurationContext> {
+  const [block, { invocations, maxInvocations }] = await Promise.all([
+    provider.getBlock("latest"),
+    IGenArt721CoreContractV3_Base__factory.connect(
+      coreContract,
+      provider
+    ).projectStateData(projectId),
+  ]);
+  const context: ConfigurationContext = {
+    timestamp: block.timestamp,
+    coreInvocations: invocations.toNumber(),
+    coreMaxInvocations: maxInvocations.toNumber(),
+  };
+  if (minterType.startsWith("MinterDAExp")) {
+    const minter = MinterDAExpV5__factory.connect(minterAddress, provider);
+    const [minimumHalfLife, { timestampStart }, maxHasBeenInvoked] =
+      await Promise.all([
+        minter.minimumPriceDecayHalfLifeSeconds(),
+        minter.projectAuctionParameters(projectId, coreContract),
+        minter.projectMaxHasBeenInvoked(projectId, coreContract),
+      ]);
+    context.minimumPriceDecayHalfLifeSeconds = minimumHalfLife.toNumber();
+    context.auctionTimestampStart = timestampStart;
+    context.maxHasBeenInvoked = maxHasBeenInvoked;
+  }
+  if (minterType.startsWith("MinterDALin")) {
+    const minter = MinterDALinV5__factory.connect(minterAddress, provider);
+    const [minimumAuctionLength, { timestampStart }, maxHasBeenInvoked] =
+      await Promise.all([
+        minter.minimumAuctionLengthSeconds(),
+        minter.projectAuctionParameters(projectId, coreContract),
+        minter.projectMaxHasBeenInvoked(projectId, coreContract),
+      ]);
+    context.minimumAuctionLengthSeconds = minimumAuctionLength.toNumber();
+    context.auctionTimestampStart = timestampStart;
+    context.maxHasBeenInvoked = maxHasBeenInvoked;
+  }
+  return context;
+}
+
+/**
+ * @summary Get the transactions that bring a project's minter to a desired
+ * configuration.
+ * @description Reads the minter's type, the on-chain state its checks
+ * depend on and the project's current configuration, then builds the
+ * transactions with `buildMinterConfigurationTransactions`.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param minterAddress minter to configure, assigned to the project if
+ * needed
+ * @param input desired values of the forms to configure
+ * @param client client for the GraphQL API, if an endpoint is configured
+ * @returns unsigned transactions, to be sent in order by the project's artist
+ * @throws InvalidMinterConfiguration if the minter would reject the input
+ */
+export async function getMinterConfigurationTransactions(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  minterAddress: string,
+  input: MinterConfigurationInput,
+  client?: Client
+): Promise<ConfigurationTransaction[]> {
+  const provider = Signer.isSigner(signerOrProvider)
+    ? (signerOrProvider.provider as providers.Provider)
+    : signerOrProvider;
+  const minterType = await ISharedMinterV0__factory.connect(
+    minterAddress,
+    provider
+  ).minterType();
+  const [context, current] = await Promise.all([
+    getConfigurationContext(
+      minterAddress,
+      minterType,
+      provider,
+      projectId,
+      coreContract
+    ),
+    getProjectMinterConfiguration(
+      minterFilter,
+      provider,
+      projectId,
+      coreContract,
+      client
+    ).catch((error) => {
+      if (error instanceof ProjectMinterNotConfigured) {
+        return undefined;
+      }
+      throw error;
+    }),
+  ]);
+  return buildMinterConfigurationTransactions({
+    minterFilterAddress: minterFilter.address,
+    minterAddress,
+    minterType,
+    projectId,
+    coreContract,
+    input,
+    context,
+    current,
+  });
+}
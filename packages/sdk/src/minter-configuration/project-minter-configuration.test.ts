@@ -0,0 +1,384 @@
+import { afterAll, beforeAll, describe, it, expect } from "@jest/globals";
+import { BigNumber, constants, ethers } from "ethers";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+import {
+  getProjectMinterConfiguration,
+  queryProjectMinterConfiguration,
+  readProjectMinterConfiguration,
+} from "./project-minter-configuration";
+import { getGraphQLClient } from "../graphql-client";
+import { ProjectMinterNotConfigured } from "../purchase/purchase";
+import { mockMinterFilter } from "../test-fixtures";
+import { ISharedMinterDAV0__factory } from "../generated/contracts/factories/ISharedMinterDAV0__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { MinterSetPriceHolderV5__factory } from "../generated/contracts/factories/MinterSetPriceHolderV5__factory";
+import { MinterSetPriceMerkleV5__factory } from "../generated/contracts/factories/MinterSetPriceMerkleV5__factory";
+import { MinterSetPriceV5__factory } from "../generated/contracts/factories/MinterSetPriceV5__factory";
+import { TokenHolderLib__factory } from "../generated/contracts/factories/TokenHolderLib__factory";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const HOLDER_CORE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const MERKLE_ROOT =
+  "0x9f5ec8d5b0b7e1d8ec0a6e0e4f3c7e7b8f7d5a9c1e2b3a4d5c6b7a8f9e0d1c2b";
+const PRICE = BigNumber.from(100);
+
+const provider = new ethers.providers.JsonRpcProvider();
+
+type GraphQLRequest = {
+  operationName?: string;
+  query: string;
+  variables: { projectId: string };
+};
+
+/**
+ * Local GraphQL server answering every request with the configured response.
+ */
+const mockGraphQLServer = () => {
+  const requests: GraphQLRequest[] = [];
+  let response: object = { data: null };
+  const server: Server = createServer((req: IncomingMessage, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push(JSON.parse(body));
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response));
+    });
+  });
+  return {
+    requests,
+    respond: (value: object) => {
+      response = value;
+    },
+    start: () =>
+      new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", () => resolve())
+      ),
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    url: () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+  };
+};
+
+const minterConfiguration = (minterType: string, overrides: object = {}) => ({
+  data: {
+    projects_metadata_by_pk: {
+      id: `${CORE_ADDRESS.toLowerCase()}-7`,
+      minter_configuration: {
+        id: `${MINTER_ADDRESS.toLowerCase()}-${CORE_ADDRESS.toLowerCase()}-7`,
+        base_price: "100",
+        currency_address: constants.AddressZero,
+        currency_symbol: "ETH",
+        price_is_configured: true,
+        max_invocations: 500,
+        extra_minter_details: {},
+        minter: { address: MINTER_ADDRESS, minter_type: minterType },
+        ...overrides,
+      },
+    },
+  },
+});
+
+describe("queryProjectMinterConfiguration", () => {
+  const server = mockGraphQLServer();
+  beforeAll(() => server.start());
+  afterAll(() => server.stop());
+
+  const query = () =>
+    queryProjectMinterConfiguration(
+      getGraphQLClient(server.url()),
+      7,
+      CORE_ADDRESS
+    );
+
+  it("queries the project's minter configuration by project ID", async () => {
+    server.respond(minterConfiguration("MinterSetPriceV5"));
+    expect(await query()).toEqual({
+      minterAddress: MINTER_ADDRESS,
+      minterType: "MinterSetPriceV5",
+      priceIsConfigured: true,
+      basePrice: PRICE,
+      currencySymbol: "ETH",
+      currencyAddress: constants.AddressZero,
+      maxInvocations: 500,
+      auction: null,
+      merkleRoot: null,
+      holderProjects: null,
+    });
+    const request = server.requests[server.requests.length - 1];
+    expect(request.query).toContain("GetProjectMinterConfiguration");
+    expect(request.variables).toEqual({
+      projectId: `${CORE_ADDRESS.toLowerCase()}-7`,
+    });
+  });
+
+  it.each([
+    [
+      "MinterDAExpV5",
+      { startTime: 1000, halfLifeSeconds: 300, startPrice: "1000" },
+      {
+        type: "exp",
+        timestampStart: 1000,
+        priceDecayHalfLifeSeconds: 300,
+        startPrice: BigNumber.from(1000),
+        basePrice: PRICE,
+      },
+    ],
+    [
+      "MinterDALinV5",
+      { startTime: 1000, endTime: 2000, startPrice: "1000" },
+      {
+        type: "lin",
+        timestampStart: 1000,
+        timestampEnd: 2000,
+        startPrice: BigNumber.from(1000),
+        basePrice: PRICE,
+      },
+    ],
+    [
+      "MinterDAExpSettlementV3",
+      {},
+      {
+        type: "exp",
+        timestampStart: 0,
+        priceDecayHalfLifeSeconds: 0,
+        startPrice: BigNumber.from(0),
+        basePrice: PRICE,
+      },
+    ],
+    [
+      "MinterDALinHolderV5",
+      {},
+      {
+        type: "lin",
+        timestampStart: 0,
+        timestampEnd: 0,
+        startPrice: BigNumber.from(0),
+        basePrice: PRICE,
+      },
+    ],
+  ])(
+    "parses the auction parameters of %s",
+    async (minterType, extra_minter_details, auction) => {
+      server.respond(minterConfiguration(minterType, { extra_minter_details }));
+      expect((await query()).auction).toEqual(auction);
+    }
+  );
+
+  it("parses the merkle root of a merkle minter", async () => {
+    server.respond(
+      minterConfiguration("MinterSetPriceMerkleV5", {
+        extra_minter_details: { merkleRoot: MERKLE_ROOT },
+      })
+    );
+    expect((await query()).merkleRoot).toEqual(MERKLE_ROOT);
+    server.respond(
+      minterConfiguration("MinterSetPriceMerkleV5", {
+        extra_minter_details: null,
+      })
+    );
+    expect((await query()).merkleRoot).toBeNull();
+  });
+
+  it("parses the holder projects of a holder minter", async () => {
+    server.respond(
+      minterConfiguration("MinterSetPriceHolderV5", {
+        extra_minter_details: {
+          allowlistedAddressAndProjectId: [`${HOLDER_CORE_ADDRESS}-3`],
+        },
+      })
+    );
+    expect((await query()).holderProjects).toEqual([
+      { contract: HOLDER_CORE_ADDRESS, projectId: BigNumber.from(3) },
+    ]);
+    server.respond(minterConfiguration("MinterSetPricePolyptychERC20V5"));
+    expect((await query()).holderProjects).toEqual([]);
+  });
+
+  it("returns no price or auction when the price is not configured", async () => {
+    server.respond(
+      minterConfiguration("MinterDAExpV5", {
+        base_price: "0",
+        price_is_configured: false,
+        max_invocations: null,
+      })
+    );
+    expect(await query()).toMatchObject({
+      priceIsConfigured: false,
+      basePrice: null,
+      maxInvocations: null,
+      auction: null,
+    });
+  });
+
+  it("throws when the project is not indexed with a minter", async () => {
+    server.respond({
+      data: {
+        projects_metadata_by_pk: { id: "0x", minter_configuration: null },
+      },
+    });
+    await expect(query()).rejects.toThrowError(ProjectMinterNotConfigured);
+    server.respond({ data: { projects_metadata_by_pk: null } });
+    await expect(query()).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  it("throws GraphQL errors", async () => {
+    server.respond({ errors: [{ message: "field not found" }] });
+    await expect(query()).rejects.toThrowError("field not found");
+  });
+});
+
+describe("readProjectMinterConfiguration", () => {
+  const mockMinter = ({
+    minterType = "MinterSetPriceV5",
+    isConfigured = true,
+  } = {}) => {
+    ISharedMinterV0__factory.connect = jest.fn().mockReturnValue({
+      minterType: async () => minterType,
+      getPriceInfo: async () => ({
+        isConfigured,
+        tokenPriceInWei: PRICE,
+        currencySymbol: "ETH",
+        currencyAddress: constants.AddressZero,
+      }),
+    });
+    MinterSetPriceV5__factory.connect = jest.fn().mockReturnValue({
+      projectMaxInvocations: async () => BigNumber.from(500),
+    });
+  };
+
+  const read = () =>
+    readProjectMinterConfiguration(
+      mockMinterFilter(MINTER_ADDRESS),
+      provider,
+      7,
+      CORE_ADDRESS
+    );
+
+  it("reads a set price minter's configuration", async () => {
+    mockMinter();
+    expect(await read()).toEqual({
+      minterAddress: MINTER_ADDRESS,
+      minterType: "MinterSetPriceV5",
+      priceIsConfigured: true,
+      basePrice: PRICE,
+      currencySymbol: "ETH",
+      currencyAddress: constants.AddressZero,
+      maxInvocations: 500,
+      auction: null,
+      merkleRoot: null,
+      holderProjects: null,
+    });
+  });
+
+  it("reads a Dutch auction's parameters", async () => {
+    mockMinter({ minterType: "MinterDAExpV5" });
+    ISharedMinterDAV0__factory.connect = jest.fn().mockReturnValue({
+      projectAuctionParameters: async () => [
+        1000,
+        300,
+        BigNumber.from(1000),
+        PRICE.div(2),
+      ],
+    });
+    expect(await read()).toMatchObject({
+      basePrice: PRICE.div(2),
+      auction: {
+        type: "exp",
+        timestampStart: 1000,
+        priceDecayHalfLifeSeconds: 300,
+        startPrice: BigNumber.from(1000),
+        basePrice: PRICE.div(2),
+      },
+    });
+  });
+
+  it("reads a merkle minter's root", async () => {
+    mockMinter({ minterType: "MinterSetPriceMerkleV5" });
+    const merkleProjectConfig = jest
+      .fn()
+      .mockReturnValueOnce(Promise.resolve([false, 0, MERKLE_ROOT]))
+      .mockReturnValueOnce(Promise.resolve([false, 0, constants.HashZero]));
+    MinterSetPriceMerkleV5__factory.connect = jest
+      .fn()
+      .mockReturnValue({ merkleProjectConfig });
+    expect((await read()).merkleRoot).toEqual(MERKLE_ROOT);
+    expect((await read()).merkleRoot).toBeNull();
+  });
+
+  it("reads a holder minter's allowed projects", async () => {
+    mockMinter({ minterType: "MinterSetPriceHolderV5", isConfigured: false });
+    TokenHolderLib__factory.connect = jest.fn().mockReturnValue({
+      filters: {
+        AllowedHoldersOfProjects: () => "allowed",
+        RemovedHoldersOfProjects: () => "removed",
+      },
+      queryFilter: async (filter: string) =>
+        filter === "allowed"
+          ? [
+              {
+                args: {
+                  ownedNFTAddresses: [HOLDER_CORE_ADDRESS],
+                  ownedNFTProjectIds: [BigNumber.from(3)],
+                },
+              },
+            ]
+          : [],
+    });
+    MinterSetPriceHolderV5__factory.connect = jest.fn().mockReturnValue({
+      allowedProjectHolders: async () => true,
+    });
+    expect(await read()).toMatchObject({
+      priceIsConfigured: false,
+      basePrice: null,
+      holderProjects: [
+        { contract: HOLDER_CORE_ADDRESS, projectId: BigNumber.from(3) },
+      ],
+    });
+  });
+
+  it("throws when the project has no minter", async () => {
+    await expect(
+      readProjectMinterConfiguration(
+        mockMinterFilter(MINTER_ADDRESS, false),
+        provider,
+        7,
+        CORE_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+});
+
+describe("getProjectMinterConfiguration", () => {
+  const server = mockGraphQLServer();
+  beforeAll(() => server.start());
+  afterAll(() => server.stop());
+
+  it("queries the GraphQL API when a client is provided", async () => {
+    server.respond(minterConfiguration("MinterSetPriceV5"));
+    const minterFilter = mockMinterFilter(MINTER_ADDRESS);
+    minterFilter.projectHasMinter = jest.fn() as never;
+    const configuration = await getProjectMinterConfiguration(
+      minterFilter,
+      provider,
+      7,
+      CORE_ADDRESS,
+      getGraphQLClient(server.url(), { "x-api-key": "key" })
+    );
+    expect(configuration.minterType).toEqual("MinterSetPriceV5");
+    expect(minterFilter.projectHasMinter).not.toBeCalled();
+  });
+
+  it("reads from chain without a client", async () => {
+    await expect(
+      getProjectMinterConfiguration(
+        mockMinterFilter(MINTER_ADDRESS, false),
+        provider,
+        7,
+        CORE_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+});
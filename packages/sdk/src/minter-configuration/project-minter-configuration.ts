@@ -0,0 +1,276 @@
+import { BigNumber, BigNumberish, Signer, constants, providers } from "ethers";
+import { Client } from "@urql/core";
+
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { MinterSetPriceMerkleV5__factory } from "../generated/contracts/factories/MinterSetPriceMerkleV5__factory";
+import { MinterSetPriceV5__factory } from "../generated/contracts/factories/MinterSetPriceV5__factory";
+import {
+  GetProjectMinterConfigurationDocument,
+  GetProjectMinterConfigurationQuery,
+} from "../generated/graphql";
+import { getDAAuction } from "../pricing/auction-parameters";
+import { DAAuction } from "../pricing/dutch-auction";
+import {
+  getAllowedHolderProjects,
+  HolderProject,
+} from "../purchase/holder-eligibility";
+import {
+  getProjectMinter,
+  MINTER_PURCHASE_KINDS,
+  ProjectMinterNotConfigured,
+} from "../purchase/purchase";
+
+/**
+ * A project's configuration on its shared minter, as read from the Art
+ * Blocks GraphQL API or directly from chain.
+ */
+export type ProjectMinterConfiguration = {
+  minterAddress: string;
+  minterType: string;
+  priceIsConfigured: boolean;
+  /**
+   * fixed token price, or the base price of a Dutch auction, in the
+   * currency's smallest unit; null if not configured
+   */
+  basePrice: BigNumber | null;
+  currencySymbol: string;
+  currencyAddress: string;
+  /** max invocations on the minter, which may be lower than the core's */
+  maxInvocations: number | null;
+  /** auction parameters of a configured Dutch auction minter */
+  auction: DAAuction | null;
+  /** merkle root of a merkle minter's allowlist, if set */
+  merkleRoot: string | null;
+  /** projects whose holders may purchase, for holder minters */
+  holderProjects: HolderProject[] | null;
+};
+
+type MinterConfigurationResult = NonNullable<
+  NonNullable<
+    GetProjectMinterConfigurationQuery["projects_metadata_by_pk"]
+  >["minter_configuration"]
+>;
+
+/**
+ * Minter-specific fields of `extra_minter_details`, as written by the
+ * indexer.
+ */
+type ExtraMinterDetails = {
+  startPrice?: string;
+  startTime?: number;
+  halfLifeSeconds?: number;
+  endTime?: number;
+  merkleRoot?: string;
+  /** holder projects, formatted as `${address}-${projectId}` */
+  allowlistedAddressAndProjectId?: string[];
+};
+
+const isMerkleMinter = (minterType: string) =>
+  MINTER_PURCHASE_KINDS[minterType] === "merkle";
+
+const isHolderMinter = (minterType: string) =>
+  MINTER_PURCHASE_KINDS[minterType] === "holder" ||
+  MINTER_PURCHASE_KINDS[minterType] === "holderERC20";
+
+const isDAMinter = (minterType: string) =>
+  minterType.startsWith("MinterDAExp") || minterType.startsWith("MinterDALin");
+
+const parseAuction = (
+  minterType: string,
+  basePrice: BigNumber,
+  details: ExtraMinterDetails
+): DAAuction => {
+  const auction = {
+    timestampStart: details.startTime ?? 0,
+    startPrice: BigNumber.from(details.startPrice ?? 0),
+    basePrice,
+  };
+  return minterType.startsWith("MinterDAExp")
+    ? {
+        type: "exp",
+        priceDecayHalfLifeSeconds: details.halfLifeSeconds ?? 0,
+        ...auction,
+      }
+    : { type: "lin", timestampEnd: details.endTime ?? 0, ...auction };
+};
+
+const parseMinterConfiguration = ({
+  base_price,
+  currency_address,
+  currency_symbol,
+  price_is_configured,
+  max_invocations,
+  extra_minter_details,
+  minter,
+}: MinterConfigurationResult): ProjectMinterConfiguration => {
+  const minterType = minter.minter_type;
+  const details: ExtraMinterDetails = extra_minter_details ?? {};
+  const basePrice =
+    price_is_configured && base_price ? BigNumber.from(base_price) : null;
+  return {
+    minterAddress: minter.address,
+    minterType,
+    priceIsConfigured: price_is_configured,
+    basePrice,
+    currencySymbol: currency_symbol,
+    currencyAddress: currency_address,
+    maxInvocations: max_invocations ?? null,
+    auction:
+      basePrice && isDAMinter(minterType)
+        ? parseAuction(minterType, basePrice, details)
+        : null,
+    merkleRoot: isMerkleMinter(minterType)
+      ? (details.merkleRoot ?? null)
+      : null,
+    holderProjects: isHolderMinter(minterType)
+      ? (details.allowlistedAddressAndProjectId ?? []).map((holder) => {
+          const [contract, projectId] = holder.split("-");
+          return { contract, projectId: BigNumber.from(projectId) };
+        })
+      : null,
+  };
+};
+
+/**
+ * @summary Query a project's minter configuration from the Art Blocks
+ * GraphQL API.
+ * @param client client for the GraphQL API, e.g. from `getGraphQLClient`
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns the project's minter configuration, as indexed
+ * @throws ProjectMinterNotConfigured if the project is not indexed with a
+ * minter
+ */
+export async function queryProjectMinterConfiguration(
+  client: Client,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<ProjectMinterConfiguration> {
+  const result = await client
+    .query(GetProjectMinterConfigurationDocument, {
+      projectId: `${coreContract.toLowerCase()}-${BigNumber.from(
+        projectId
+      ).toString()}`,
+    })
+    .toPromise();
+  if (result.error) {
+    throw result.error;
+  }
+  const configuration =
+    result.data?.projects_metadata_by_pk?.minter_configuration;
+  if (!configuration) {
+    throw new ProjectMinterNotConfigured();
+  }
+  return parseMinterConfiguration(configuration);
+}
+
+/**
+ * @summary Read a project's minter configuration directly from chain.
+ * @description Reads the same fields as `queryProjectMinterConfiguration`
+ * from the project's minter on the minter filter, for use without a
+ * GraphQL endpoint.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns the project's minter configuration
+ * @throws ProjectMinterNotConfigured if the project has no minter
+ */
+export async function readProjectMinterConfiguration(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<ProjectMinterConfiguration> {
+  const { minterAddress, minterType } = await getProjectMinter(
+    minterFilter,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+  const [priceInfo, maxInvocations] = await Promise.all([
+    ISharedMinterV0__factory.connect(
+      minterAddress,
+      signerOrProvider
+    ).getPriceInfo(projectId, coreContract),
+    MinterSetPriceV5__factory.connect(
+      minterAddress,
+      signerOrProvider
+    ).projectMaxInvocations(projectId, coreContract),
+  ]);
+  const { isConfigured, tokenPriceInWei, currencySymbol, currencyAddress } =
+    priceInfo;
+
+  const auction =
+    isConfigured && isDAMinter(minterType)
+      ? await getDAAuction(
+          minterAddress,
+          signerOrProvider,
+          projectId,
+          coreContract
+        )
+      : null;
+  let merkleRoot: string | null = null;
+  if (isMerkleMinter(minterType)) {
+    const [, , root] = await MinterSetPriceMerkleV5__factory.connect(
+      minterAddress,
+      signerOrProvider
+    ).merkleProjectConfig(projectId, coreContract);
+    merkleRoot = root === constants.HashZero ? null : root;
+  }
+  const holderProjects = isHolderMinter(minterType)
+    ? await getAllowedHolderProjects(
+        minterAddress,
+        signerOrProvider,
+        projectId,
+        coreContract
+      )
+    : null;
+
+  return {
+    minterAddress,
+    minterType,
+    priceIsConfigured: isConfigured,
+    basePrice: auction
+      ? BigNumber.from(auction.basePrice)
+      : isConfigured
+        ? tokenPriceInWei
+        : null,
+    currencySymbol,
+    currencyAddress,
+    maxInvocations: maxInvocations.toNumber(),
+    auction,
+    merkleRoot,
+    holderProjects,
+  };
+}
+
+/**
+ * @summary Get a project's minter configuration, from the Art Blocks GraphQL
+ * API if a client is provided, or else directly from chain.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param client client for the GraphQL API, if an endpoint is configured
+ * @returns the project's minter configuration
+ * @throws ProjectMinterNotConfigured if the project has no minter
+ */
+export async function getProjectMinterConfiguration(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  client?: Client
+): Promise<ProjectMinterConfiguration> {
+  if (client) {
+    return queryProjectMinterConfiguration(client, projectId, coreContract);
+  }
+  return readProjectMinterConfiguration(
+    minterFilter,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+}
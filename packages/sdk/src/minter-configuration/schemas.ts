@@ -0,0 +1,339 @@
+import { UnsupportedMinterType } from "../purchase/purchase";
+
+/**
+ * A configurable argument of a minter function, described in the manner of
+ * a JSON schema property.
+ */
+export type ConfigurationFieldSchema = {
+  type: "integer" | "string" | "array";
+  /** Solidity type of the argument, which bounds integers */
+  solidityType: string;
+  title: string;
+  description?: string;
+  /**
+   * how the value is interpreted: a price in the currency's smallest unit,
+   * a unix timestamp, a duration in seconds or a whole percentage
+   */
+  format?: "price" | "timestamp" | "seconds" | "percentage";
+  /** properties of each item of an array field */
+  items?: { [name: string]: ConfigurationFieldSchema };
+};
+
+/**
+ * Name of a check a minter makes on a form's values, beyond the bounds of
+ * each field's type. Checks are implemented by `validateMinterConfiguration`.
+ */
+export type ConfigurationRule =
+  | "currencyIsERC20"
+  | "nonZeroMerkleRoot"
+  | "noModificationsMidAuction"
+  | "futureAuctionStart"
+  | "futureOrImmediateAuctionStart"
+  | "startPriceAboveBasePrice"
+  | "minimumHalfLife"
+  | "minimumAuctionLength"
+  | "minimumSEAAuctionDuration"
+  | "nonZeroBasePrice"
+  | "nonZeroMinBidIncrement"
+  | "withinCoreInvocations";
+
+/**
+ * A group of fields applied together with one call to the minter.
+ */
+export type ConfigurationFormSchema = {
+  title: string;
+  /** minter function called to apply the form */
+  method: string;
+  /**
+   * arguments of `method` following `projectId` and `coreContract`, in
+   * call order
+   */
+  properties: { [name: string]: ConfigurationFieldSchema };
+  rules: ConfigurationRule[];
+};
+
+/**
+ * The configurable forms of a shared minter type, in the order their
+ * transactions are sent.
+ */
+export type MinterConfigurationSchema = {
+  minterType: string;
+  forms: { [formKey: string]: ConfigurationFormSchema };
+};
+
+const PRICE_FORM: ConfigurationFormSchema = {
+  title: "Price",
+  method: "updatePricePerTokenInWei",
+  properties: {
+    pricePerTokenInWei: {
+      type: "integer",
+      solidityType: "uint248",
+      title: "Price per token",
+      description: "in wei, or the smallest unit of an ERC20 currency",
+      format: "price",
+    },
+  },
+  rules: [],
+};
+
+const CURRENCY_FORM: ConfigurationFormSchema = {
+  title: "Currency",
+  method: "updateProjectCurrencyInfo",
+  properties: {
+    currencySymbol: {
+      type: "string",
+      solidityType: "string",
+      title: "Currency symbol",
+    },
+    currencyAddress: {
+      type: "string",
+      solidityType: "address",
+      title: "Currency address",
+      description: "ERC20 token contract",
+    },
+  },
+  rules: ["currencyIsERC20"],
+};
+
+const MERKLE_ROOT_FORM: ConfigurationFormSchema = {
+  title: "Allowlist",
+  method: "updateMerkleRoot",
+  properties: {
+    root: {
+      type: "string",
+      solidityType: "bytes32",
+      title: "Merkle root",
+      description: "root of the allowlist, e.g. `Allowlist.root`",
+    },
+  },
+  rules: ["nonZeroMerkleRoot"],
+};
+
+const INVOCATIONS_PER_ADDRESS_FORM: ConfigurationFormSchema = {
+  title: "Mints per address",
+  method: "setProjectInvocationsPerAddress",
+  properties: {
+    maxInvocationsPerAddress: {
+      type: "integer",
+      solidityType: "uint24",
+      title: "Max mints per address",
+      description: "0 for unlimited",
+    },
+  },
+  rules: [],
+};
+
+const HOLDER_PROJECTS_FORM: ConfigurationFormSchema = {
+  title: "Holder projects",
+  method: "allowAndRemoveHoldersOfProjects",
+  properties: {
+    holderProjects: {
+      type: "array",
+      solidityType: "tuple[]",
+      title: "Holder projects",
+      description:
+        "every project whose holders may purchase; projects not listed are removed",
+      items: {
+        contract: {
+          type: "string",
+          solidityType: "address",
+          title: "Core contract",
+        },
+        projectId: {
+          type: "integer",
+          solidityType: "uint256",
+          title: "Project ID",
+        },
+      },
+    },
+  },
+  rules: [],
+};
+
+const DA_START_PRICE_FIELD: ConfigurationFieldSchema = {
+  type: "integer",
+  solidityType: "uint88",
+  title: "Start price",
+  format: "price",
+};
+
+const DA_BASE_PRICE_FIELD: ConfigurationFieldSchema = {
+  type: "integer",
+  solidityType: "uint88",
+  title: "Base price",
+  format: "price",
+};
+
+const DA_START_FIELD: ConfigurationFieldSchema = {
+  type: "integer",
+  solidityType: "uint40",
+  title: "Auction start",
+  format: "timestamp",
+};
+
+const DA_EXP_AUCTION_FORM: ConfigurationFormSchema = {
+  title: "Exponential Dutch auction",
+  method: "setAuctionDetails",
+  properties: {
+    auctionTimestampStart: DA_START_FIELD,
+    priceDecayHalfLifeSeconds: {
+      type: "integer",
+      solidityType: "uint40",
+      title: "Price decay half life",
+      format: "seconds",
+    },
+    startPrice: DA_START_PRICE_FIELD,
+    basePrice: DA_BASE_PRICE_FIELD,
+  },
+  rules: [
+    "noModificationsMidAuction",
+    "futureAuctionStart",
+    "startPriceAboveBasePrice",
+    "minimumHalfLife",
+  ],
+};
+
+const DA_LIN_AUCTION_FORM: ConfigurationFormSchema = {
+  title: "Linear Dutch auction",
+  method: "setAuctionDetails",
+  properties: {
+    auctionTimestampStart: DA_START_FIELD,
+    auctionTimestampEnd: {
+      type: "integer",
+      solidityType: "uint40",
+      title: "Auction end",
+      format: "timestamp",
+    },
+    startPrice: DA_START_PRICE_FIELD,
+    basePrice: DA_BASE_PRICE_FIELD,
+  },
+  rules: [
+    "noModificationsMidAuction",
+    "futureAuctionStart",
+    "startPriceAboveBasePrice",
+    "minimumAuctionLength",
+  ],
+};
+
+const SEA_AUCTION_FORM: ConfigurationFormSchema = {
+  title: "Serial English Auctions",
+  method: "configureFutureAuctions",
+  properties: {
+    timestampStart: {
+      type: "integer",
+      solidityType: "uint64",
+      title: "First auction start",
+      description: "0 to start as soon as the first bid is placed",
+      format: "timestamp",
+    },
+    auctionDurationSeconds: {
+      type: "integer",
+      solidityType: "uint32",
+      title: "Auction duration",
+      format: "seconds",
+    },
+    basePrice: {
+      type: "integer",
+      solidityType: "uint256",
+      title: "Minimum initial bid",
+      format: "price",
+    },
+    minBidIncrementPercentage: {
+      type: "integer",
+      solidityType: "uint8",
+      title: "Minimum bid increment",
+      format: "percentage",
+    },
+  },
+  rules: [
+    "futureOrImmediateAuctionStart",
+    "minimumSEAAuctionDuration",
+    "nonZeroBasePrice",
+    "nonZeroMinBidIncrement",
+  ],
+};
+
+const MAX_INVOCATIONS_FORM: ConfigurationFormSchema = {
+  title: "Max invocations",
+  method: "manuallyLimitProjectMaxInvocations",
+  properties: {
+    maxInvocations: {
+      type: "integer",
+      solidityType: "uint24",
+      title: "Max invocations",
+      description: "may only limit the project's max invocations on its core",
+    },
+  },
+  rules: ["withinCoreInvocations"],
+};
+
+const schema = (
+  minterType: string,
+  forms: MinterConfigurationSchema["forms"]
+): MinterConfigurationSchema => ({
+  minterType,
+  forms: { ...forms, maxInvocations: MAX_INVOCATIONS_FORM },
+});
+
+/**
+ * Configuration schema of each shared minter type.
+ */
+export const MINTER_CONFIGURATION_SCHEMAS = [
+  schema("MinterSetPriceV5", { price: PRICE_FORM }),
+  schema("MinterSetPriceMerkleV5", {
+    price: PRICE_FORM,
+    merkleRoot: MERKLE_ROOT_FORM,
+    invocationsPerAddress: INVOCATIONS_PER_ADDRESS_FORM,
+  }),
+  schema("MinterSetPriceHolderV5", {
+    price: PRICE_FORM,
+    holderProjects: HOLDER_PROJECTS_FORM,
+  }),
+  schema("MinterSetPricePolyptychV5", {
+    price: PRICE_FORM,
+    holderProjects: HOLDER_PROJECTS_FORM,
+  }),
+  schema("MinterSetPriceERC20V5", {
+    currency: CURRENCY_FORM,
+    price: PRICE_FORM,
+  }),
+  schema("MinterSetPricePolyptychERC20V5", {
+    currency: CURRENCY_FORM,
+    price: PRICE_FORM,
+    holderProjects: HOLDER_PROJECTS_FORM,
+  }),
+  schema("MinterDAExpV5", { auction: DA_EXP_AUCTION_FORM }),
+  schema("MinterDAExpHolderV5", {
+    auction: DA_EXP_AUCTION_FORM,
+    holderProjects: HOLDER_PROJECTS_FORM,
+  }),
+  schema("MinterDAExpSettlementV3", { auction: DA_EXP_AUCTION_FORM }),
+  schema("MinterDALinV5", { auction: DA_LIN_AUCTION_FORM }),
+  schema("MinterDALinHolderV5", {
+    auction: DA_LIN_AUCTION_FORM,
+    holderProjects: HOLDER_PROJECTS_FORM,
+  }),
+  schema("MinterSEAV1", { auction: SEA_AUCTION_FORM }),
+].reduce<{ [minterType: string]: MinterConfigurationSchema }>(
+  (schemas, minterSchema) => ({
+    ...schemas,
+    [minterSchema.minterType]: minterSchema,
+  }),
+  {}
+);
+
+/**
+ * @summary Get the configuration schema of a shared minter type.
+ * @param minterType the minter's `minterType()`
+ * @returns the minter's configurable forms and their fields
+ * @throws UnsupportedMinterType if the minter type has no schema
+ */
+export const getMinterConfigurationSchema = (
+  minterType: string
+): MinterConfigurationSchema => {
+  const minterSchema = MINTER_CONFIGURATION_SCHEMAS[minterType];
+  if (!minterSchema) {
+    throw new UnsupportedMinterType(minterType);
+  }
+  return minterSchema;
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "@jest/globals";
+
+import activeAddresses from "@artblocks/contracts/scripts/util/active-addresses.json";
+import {
+  getDelegationRegistryAddress,
+  getNetworkAddresses,
+  UnsupportedChain,
+  UnsupportedNetworkEnvironment,
+} from "./networks";
+
+describe("getNetworkAddresses", () => {
+  it("returns checksummed addresses for a supported network", () => {
+    expect(getNetworkAddresses("sepolia", "dev")).toEqual({
+      minterFilter: "0x29e9f09244497503f304FA549d50eFC751D818d2",
+      sharedRandomizer: "0xA6F7e62F3B52552f79b2Baa2858a1DB18016c09B",
+      delegationRegistry: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+      delegationRegistryV2: "0x00000000000000447e69651d841bD8D104Bed493",
+    });
+  });
+
+  it("omits the v2 delegation registry where unsupported", () => {
+    const registries: Record<string, string> =
+      activeAddresses.DELEGATION_REGISTRY_V2_ADDRESSES;
+    const { sepolia } = registries;
+    delete registries.sepolia;
+    try {
+      expect(
+        getNetworkAddresses("sepolia", "dev").delegationRegistryV2
+      ).toBeUndefined();
+    } finally {
+      registries.sepolia = sepolia;
+    }
+  });
+
+  it("throws for an unknown network", () => {
+    expect(() => getNetworkAddresses("unknown", "mainnet")).toThrowError(
+      UnsupportedNetworkEnvironment
+    );
+  });
+
+  it("throws for a placeholder address", () => {
+    expect(() => getNetworkAddresses("arbitrum-goerli", "dev")).toThrowError(
+      "No active shared minter filter found for network arbitrum-goerli and environment dev"
+    );
+  });
+});
+
+describe("getDelegationRegistryAddress", () => {
+  it("returns the checksummed registry of a known chain", () => {
+    expect(getDelegationRegistryAddress(11155111)).toEqual(
+      "0x00000000000076A84feF008CDAbe6409d2FE638B"
+    );
+  });
+
+  it("throws for an unknown chain", () => {
+    expect(() => getDelegationRegistryAddress(1337)).toThrowError(
+      UnsupportedChain
+    );
+  });
+
+  it("throws for a known chain without a registry", () => {
+    expect(() => getDelegationRegistryAddress(421613)).toThrowError(
+      "No delegation registry found for chain ID 421613"
+    );
+  });
+
+  it("throws for a placeholder address", () => {
+    const registries: Record<string, string> =
+      activeAddresses.DELEGATION_REGISTRY_ADDRESSES;
+    const { sepolia } = registries;
+    registries.sepolia = "0xTBD";
+    try {
+      expect(() => getDelegationRegistryAddress(11155111)).toThrowError(
+        UnsupportedChain
+      );
+    } finally {
+      registries.sepolia = sepolia;
+    }
+  });
+});
+
+describe("UnsupportedChain", () => {
+  it("specifies the name of the error with an error message", () => {
+    const error = new UnsupportedChain(1);
+    expect(error.name).toEqual("UnsupportedChain");
+    expect(error.message.length).toBeGreaterThan(0);
+  });
+});
+
+describe("UnsupportedNetworkEnvironment", () => {
+  it("specifies the name of the error with an error message", () => {
+    const error = new UnsupportedNetworkEnvironment("x", "y", "z");
+    expect(error.name).toEqual("UnsupportedNetworkEnvironment");
+    expect(error.message.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,137 @@
+import { utils } from "ethers";
+import activeAddresses from "@artblocks/contracts/scripts/util/active-addresses.json";
+
+// address tables published by @artblocks/contracts, keyed by network (and
+// environment)
+const {
+  ACTIVE_SHARED_MINTER_FILTERS,
+  ACTIVE_SHARED_RANDOMIZERS,
+  DELEGATION_REGISTRY_ADDRESSES,
+  DELEGATION_REGISTRY_V2_ADDRESSES,
+}: {
+  ACTIVE_SHARED_MINTER_FILTERS: Record<string, Record<string, string>>;
+  ACTIVE_SHARED_RANDOMIZERS: Record<string, Record<string, string>>;
+  DELEGATION_REGISTRY_ADDRESSES: Record<string, string>;
+  DELEGATION_REGISTRY_V2_ADDRESSES: Record<string, string>;
+} = activeAddresses;
+
+// names, in the address tables, of the networks with known chain IDs
+const CHAIN_NETWORKS: Record<number, string> = {
+  1: "mainnet",
+  5: "goerli",
+  11155111: "sepolia",
+  42161: "arbitrum",
+  421613: "arbitrum-goerli",
+  421614: "arbitrum-sepolia",
+};
+
+/**
+ * @summary Addresses of the shared contracts used on a network/environment.
+ */
+export type NetworkAddresses = {
+  minterFilter: string;
+  sharedRandomizer: string;
+  /** delegate.cash v1 registry, which minters validate vaults against */
+  delegationRegistry: string;
+  /** delegate.xyz v2 registry, if the network supports it */
+  delegationRegistryV2?: string;
+};
+
+/**
+ * @summary Error thrown when no shared contract address is known for a
+ * network/environment.
+ * @description Thrown when the address tables in @artblocks/contracts do not
+ * define an address for the requested network and environment, or when the
+ * address defined is a placeholder (e.g. "0xTBD") rather than a deployed
+ * contract.
+ */
+export class UnsupportedNetworkEnvironment extends Error {
+  constructor(contractName: string, network: string, environment: string) {
+    super(
+      `No active ${contractName} found for network ${network} and environment ${environment}`
+    );
+    this.name = "UnsupportedNetworkEnvironment";
+  }
+}
+
+/**
+ * @summary Error thrown when no delegation registry address is known for a
+ * chain.
+ */
+export class UnsupportedChain extends Error {
+  constructor(chainId: number) {
+    super(`No delegation registry found for chain ID ${chainId}`);
+    this.name = "UnsupportedChain";
+  }
+}
+
+const requireAddress = (
+  address: string | undefined,
+  contractName: string,
+  network: string,
+  environment: string
+): string => {
+  if (!address || !utils.isAddress(address)) {
+    throw new UnsupportedNetworkEnvironment(contractName, network, environment);
+  }
+  return utils.getAddress(address);
+};
+
+/**
+ * @summary Get the shared contract addresses for a network and environment.
+ * @description Addresses are sourced from the per-network tables maintained in
+ * @artblocks/contracts, so the SDK always targets the same contracts as the
+ * deployment scripts.
+ * @param network network name (e.g. "mainnet", "goerli", "arbitrum")
+ * @param environment environment name (e.g. "mainnet", "dev", "staging")
+ * @returns checksummed addresses of the shared contracts
+ */
+export const getNetworkAddresses = (
+  network: string,
+  environment: string
+): NetworkAddresses => {
+  return {
+    minterFilter: requireAddress(
+      ACTIVE_SHARED_MINTER_FILTERS[network]?.[environment],
+      "shared minter filter",
+      network,
+      environment
+    ),
+    sharedRandomizer: requireAddress(
+      ACTIVE_SHARED_RANDOMIZERS[network]?.[environment],
+      "shared randomizer",
+      network,
+      environment
+    ),
+    delegationRegistry: requireAddress(
+      DELEGATION_REGISTRY_ADDRESSES[network],
+      "delegation registry",
+      network,
+      environment
+    ),
+    delegationRegistryV2:
+      DELEGATION_REGISTRY_V2_ADDRESSES[network] &&
+      requireAddress(
+        DELEGATION_REGISTRY_V2_ADDRESSES[network],
+        "delegation registry v2",
+        network,
+        environment
+      ),
+  };
+};
+
+/**
+ * @summary Get the delegate.cash v1 registry address on a chain.
+ * @param chainId chain ID of the network (e.g. 1 for mainnet)
+ * @returns checksummed address of the v1 registry
+ * @throws UnsupportedChain if the address tables do not define a registry
+ * for the chain
+ */
+export const getDelegationRegistryAddress = (chainId: number): string => {
+  const network = CHAIN_NETWORKS[chainId];
+  const address = network && DELEGATION_REGISTRY_ADDRESSES[network];
+  if (!address || !utils.isAddress(address)) {
+    throw new UnsupportedChain(chainId);
+  }
+  return utils.getAddress(address);
+};
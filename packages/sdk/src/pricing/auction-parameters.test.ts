@@ -0,0 +1,60 @@
+import { describe, it, expect } from "@jest/globals";
+import { ethers } from "ethers";
+
+import { getDAAuction } from "./auction-parameters";
+import { UnsupportedMinterType } from "../purchase/purchase";
+import { ISharedMinterDAV0__factory } from "../generated/contracts/factories/ISharedMinterDAV0__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+
+const ONE_ETH = ethers.utils.parseEther("1");
+const START = 1_700_000_000;
+
+describe("getDAAuction", () => {
+  const provider = new ethers.providers.JsonRpcProvider();
+  const mockMinter = (minterType: string, timestampOrHalfLife = 60) => {
+    ISharedMinterV0__factory.connect = jest.fn().mockReturnValue({
+      minterType: async () => minterType,
+    });
+    ISharedMinterDAV0__factory.connect = jest.fn().mockReturnValue({
+      projectAuctionParameters: async () => [
+        START,
+        timestampOrHalfLife,
+        ONE_ETH.mul(5),
+        ONE_ETH,
+      ],
+    });
+  };
+
+  it("reads exponential auction parameters", async () => {
+    mockMinter("MinterDAExpSettlementV3");
+    expect(
+      await getDAAuction(ethers.constants.AddressZero, provider, 0, "0x")
+    ).toEqual({
+      type: "exp",
+      timestampStart: START,
+      priceDecayHalfLifeSeconds: 60,
+      startPrice: ONE_ETH.mul(5),
+      basePrice: ONE_ETH,
+    });
+  });
+
+  it("reads linear auction parameters", async () => {
+    mockMinter("MinterDALinHolderV5", START + 60);
+    expect(
+      await getDAAuction(ethers.constants.AddressZero, provider, 0, "0x")
+    ).toEqual({
+      type: "lin",
+      timestampStart: START,
+      timestampEnd: START + 60,
+      startPrice: ONE_ETH.mul(5),
+      basePrice: ONE_ETH,
+    });
+  });
+
+  it("throws for a non-DA minter", async () => {
+    mockMinter("MinterSetPriceV5");
+    await expect(
+      getDAAuction(ethers.constants.AddressZero, provider, 0, "0x")
+    ).rejects.toThrowError(UnsupportedMinterType);
+  });
+});
@@ -0,0 +1,50 @@
+import { BigNumberish, Signer, providers } from "ethers";
+
+import { ISharedMinterDAV0__factory } from "../generated/contracts/factories/ISharedMinterDAV0__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { UnsupportedMinterType } from "../purchase/purchase";
+import { DAAuction } from "./dutch-auction";
+
+/**
+ * @summary Read a project's Dutch auction parameters from its minter.
+ * @param minterAddress address of a shared DAExp or DALin minter
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns auction parameters, typed by the minter's auction curve
+ */
+export async function getDAAuction(
+  minterAddress: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<DAAuction> {
+  const minterType = await ISharedMinterV0__factory.connect(
+    minterAddress,
+    signerOrProvider
+  ).minterType();
+  const [timestampStart, timestampOrHalfLife, startPrice, basePrice] =
+    await ISharedMinterDAV0__factory.connect(
+      minterAddress,
+      signerOrProvider
+    ).projectAuctionParameters(projectId, coreContract);
+  if (minterType.startsWith("MinterDAExp")) {
+    return {
+      type: "exp",
+      timestampStart,
+      priceDecayHalfLifeSeconds: timestampOrHalfLife,
+      startPrice,
+      basePrice,
+    };
+  }
+  if (minterType.startsWith("MinterDALin")) {
+    return {
+      type: "lin",
+      timestampStart,
+      timestampEnd: timestampOrHalfLife,
+      startPrice,
+      basePrice,
+    };
+  }
+  throw new UnsupportedMinterType(minterType);
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import {
+  getAuctionEndTimestamp,
+  getPrice,
+  getPriceExp,
+  getPriceLin,
+  getPriceSchedule,
+  getTimestampForPrice,
+  AuctionNotConfigured,
+  AuctionNotStarted,
+  InvalidPriceScheduleInterval,
+  DAExpAuction,
+  DALinAuction,
+} from "./dutch-auction";
+
+const ONE_ETH = ethers.utils.parseEther("1");
+const START = 1_700_000_000;
+
+const EXP_AUCTION: DAExpAuction = {
+  type: "exp",
+  timestampStart: START,
+  priceDecayHalfLifeSeconds: 60,
+  startPrice: ONE_ETH.mul(5),
+  basePrice: ONE_ETH,
+};
+
+const LIN_AUCTION: DALinAuction = {
+  type: "lin",
+  timestampStart: START,
+  timestampEnd: START + 100,
+  startPrice: 1000,
+  basePrice: 100,
+};
+
+describe("getPriceExp", () => {
+  it("halves the price every half-life, decaying linearly in between", () => {
+    expect(getPriceExp(EXP_AUCTION, START)).toEqual(ONE_ETH.mul(5));
+    expect(getPriceExp(EXP_AUCTION, START + 60)).toEqual(ONE_ETH.mul(5).div(2));
+    expect(getPriceExp(EXP_AUCTION, START + 90)).toEqual(
+      ONE_ETH.mul(5).div(2).mul(3).div(4)
+    );
+    expect(getPriceExp(EXP_AUCTION, START + 120)).toEqual(
+      ONE_ETH.mul(5).div(4)
+    );
+  });
+
+  it("rounds like DAExpLib", () => {
+    const auction = {
+      timestampStart: 0,
+      priceDecayHalfLifeSeconds: 3,
+      startPrice: 7,
+      basePrice: 0,
+    };
+    expect(
+      [1, 2, 3, 4, 5, 6].map((t) => getPriceExp(auction, t).toNumber())
+    ).toEqual([6, 5, 3, 3, 2, 1]);
+  });
+
+  it("does not decay below the base price", () => {
+    expect(getPriceExp(EXP_AUCTION, START + 60 * 300)).toEqual(ONE_ETH);
+  });
+
+  it("reverts like DAExpLib when unconfigured or not started", () => {
+    expect(() =>
+      getPriceExp({ ...EXP_AUCTION, priceDecayHalfLifeSeconds: 0 }, START)
+    ).toThrowError(AuctionNotConfigured);
+    expect(() => getPriceExp(EXP_AUCTION, START - 1)).toThrowError(
+      AuctionNotStarted
+    );
+  });
+});
+
+describe("getPriceLin", () => {
+  it("decays linearly, rounding like DALinLib", () => {
+    expect(getPriceLin(LIN_AUCTION, START + 1)).toEqual(BigNumber.from(991));
+    expect(getPriceLin(LIN_AUCTION, START + 33)).toEqual(BigNumber.from(703));
+    expect(getPriceLin(LIN_AUCTION, START + 99)).toEqual(BigNumber.from(109));
+    expect(getPriceLin(LIN_AUCTION, START + 100)).toEqual(BigNumber.from(100));
+  });
+
+  it("reverts like DALinLib when unconfigured or not started", () => {
+    expect(() => getPriceLin(LIN_AUCTION, START)).toThrowError(
+      AuctionNotStarted
+    );
+    expect(() =>
+      getPriceLin({ ...LIN_AUCTION, timestampStart: 0, timestampEnd: 0 }, 1)
+    ).toThrowError(AuctionNotConfigured);
+  });
+});
+
+describe("getPrice", () => {
+  it("returns the start price at or before the auction start", () => {
+    expect(getPrice(LIN_AUCTION, START)).toEqual(BigNumber.from(1000));
+    expect(getPrice(EXP_AUCTION, START - 10)).toEqual(ONE_ETH.mul(5));
+  });
+
+  it("dispatches on the auction curve", () => {
+    expect(getPrice(LIN_AUCTION, START + 33)).toEqual(BigNumber.from(703));
+    expect(getPrice(EXP_AUCTION, START + 60)).toEqual(ONE_ETH.mul(5).div(2));
+  });
+
+  it("throws when the auction is not configured", () => {
+    expect(() => getPrice({ ...LIN_AUCTION, startPrice: 0 }, START)).toThrow(
+      AuctionNotConfigured
+    );
+  });
+});
+
+describe("getTimestampForPrice", () => {
+  it("returns null when the target is below the base price", () => {
+    expect(getTimestampForPrice(EXP_AUCTION, ONE_ETH.sub(1))).toBeNull();
+  });
+
+  it("returns the start time when the target is at or above the start price", () => {
+    expect(getTimestampForPrice(EXP_AUCTION, ONE_ETH.mul(6))).toEqual(START);
+  });
+
+  it("returns the earliest time at which the price reaches the target", () => {
+    expect(getTimestampForPrice(EXP_AUCTION, ONE_ETH.mul(5).div(2))).toEqual(
+      START + 60
+    );
+    expect(getTimestampForPrice(LIN_AUCTION, 703)).toEqual(START + 33);
+    expect(getTimestampForPrice(LIN_AUCTION, 704)).toEqual(START + 33);
+  });
+});
+
+describe("getAuctionEndTimestamp", () => {
+  it("returns the time at which the base price is reached", () => {
+    expect(getAuctionEndTimestamp(LIN_AUCTION)).toEqual(START + 100);
+    const end = getAuctionEndTimestamp(EXP_AUCTION);
+    expect(getPrice(EXP_AUCTION, end)).toEqual(ONE_ETH);
+    expect(getPrice(EXP_AUCTION, end - 1).gt(ONE_ETH)).toBe(true);
+  });
+});
+
+describe("getPriceSchedule", () => {
+  it("lists prices at each interval until the base price is reached", () => {
+    expect(getPriceSchedule(LIN_AUCTION, 40)).toEqual([
+      { timestamp: START, price: BigNumber.from(1000) },
+      { timestamp: START + 40, price: BigNumber.from(640) },
+      { timestamp: START + 80, price: BigNumber.from(280) },
+      { timestamp: START + 100, price: BigNumber.from(100) },
+    ]);
+  });
+
+  it("defaults to one minute intervals", () => {
+    const schedule = getPriceSchedule(EXP_AUCTION);
+    expect(schedule[1]).toEqual({
+      timestamp: START + 60,
+      price: ONE_ETH.mul(5).div(2),
+    });
+    expect(schedule[schedule.length - 1].price).toEqual(ONE_ETH);
+  });
+
+  it.each([0, -60, NaN])("throws for an interval of %p seconds", (interval) => {
+    expect(() => getPriceSchedule(LIN_AUCTION, interval)).toThrowError(
+      InvalidPriceScheduleInterval
+    );
+  });
+});
+
+describe("dutch auction errors", () => {
+  it.each([
+    new AuctionNotConfigured(),
+    new AuctionNotStarted(),
+    new InvalidPriceScheduleInterval(0),
+  ])("specifies the name of $name with an error message", (error) => {
+    expect(error.name).toEqual(error.constructor.name);
+    expect(error.message.length).toBeGreaterThan(0);
+  });
+});
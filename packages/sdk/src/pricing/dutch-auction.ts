@@ -0,0 +1,235 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+/**
+ * Exponential Dutch auction parameters, as stored by `DAExpLib`.
+ */
+export type DAExpAuction = {
+  type: "exp";
+  timestampStart: number;
+  priceDecayHalfLifeSeconds: number;
+  startPrice: BigNumberish;
+  basePrice: BigNumberish;
+};
+
+/**
+ * Linear Dutch auction parameters, as stored by `DALinLib`.
+ */
+export type DALinAuction = {
+  type: "lin";
+  timestampStart: number;
+  timestampEnd: number;
+  startPrice: BigNumberish;
+  basePrice: BigNumberish;
+};
+
+export type DAAuction = DAExpAuction | DALinAuction;
+
+export type PricePoint = {
+  /** unix timestamp, in seconds */
+  timestamp: number;
+  /** price of a token at `timestamp`, in wei */
+  price: BigNumber;
+};
+
+/**
+ * @summary Error thrown when pricing an auction that is not configured.
+ * @description Mirrors the "Only configured auctions" revert in `DAExpLib`
+ * and `DALinLib`.
+ */
+export class AuctionNotConfigured extends Error {
+  constructor() {
+    super("Only configured auctions");
+    this.name = "AuctionNotConfigured";
+  }
+}
+
+/**
+ * @summary Error thrown when pricing an auction before it has started.
+ * @description Mirrors the "Auction not yet started" revert in `DAExpLib`
+ * and `DALinLib`.
+ */
+export class AuctionNotStarted extends Error {
+  constructor() {
+    super("Auction not yet started");
+    this.name = "AuctionNotStarted";
+  }
+}
+
+/**
+ * @summary Error thrown when a price schedule is requested with an interval
+ * that is not a positive number of seconds.
+ */
+export class InvalidPriceScheduleInterval extends Error {
+  constructor(intervalSeconds: number) {
+    super(
+      `Price schedule interval must be a positive number of seconds, got ${intervalSeconds}.`
+    );
+    this.name = "InvalidPriceScheduleInterval";
+  }
+}
+
+/**
+ * @summary Price of an exponential Dutch auction at `timestamp`.
+ * @description Reproduces `DAExpLib.getPriceExp` exactly, including its
+ * integer rounding and its reverts.
+ * @param auction exponential auction parameters
+ * @param timestamp unix timestamp, in seconds
+ * @returns price in wei
+ */
+export const getPriceExp = (
+  auction: Omit<DAExpAuction, "type">,
+  timestamp: number
+): BigNumber => {
+  const { timestampStart, priceDecayHalfLifeSeconds } = auction;
+  if (priceDecayHalfLifeSeconds <= 0) {
+    throw new AuctionNotConfigured();
+  }
+  if (timestamp < timestampStart) {
+    throw new AuctionNotStarted();
+  }
+  const elapsedTimeSeconds = timestamp - timestampStart;
+  let decayedPrice = BigNumber.from(auction.startPrice).shr(
+    Math.floor(elapsedTimeSeconds / priceDecayHalfLifeSeconds)
+  );
+  decayedPrice = decayedPrice.sub(
+    decayedPrice
+      .mul(elapsedTimeSeconds % priceDecayHalfLifeSeconds)
+      .div(priceDecayHalfLifeSeconds)
+      .shr(1)
+  );
+  const basePrice = BigNumber.from(auction.basePrice);
+  return decayedPrice.lt(basePrice) ? basePrice : decayedPrice;
+};
+
+/**
+ * @summary Price of a linear Dutch auction at `timestamp`.
+ * @description Reproduces `DALinLib.getPriceLin` exactly, including its
+ * integer rounding and its reverts.
+ * @param auction linear auction parameters
+ * @param timestamp unix timestamp, in seconds
+ * @returns price in wei
+ */
+export const getPriceLin = (
+  auction: Omit<DALinAuction, "type">,
+  timestamp: number
+): BigNumber => {
+  const { timestampStart, timestampEnd } = auction;
+  const startPrice = BigNumber.from(auction.startPrice);
+  const basePrice = BigNumber.from(auction.basePrice);
+  if (timestamp <= timestampStart) {
+    throw new AuctionNotStarted();
+  }
+  if (timestamp >= timestampEnd) {
+    if (timestampEnd <= 0) {
+      throw new AuctionNotConfigured();
+    }
+    return basePrice;
+  }
+  const elapsedTime = timestamp - timestampStart;
+  const duration = timestampEnd - timestampStart;
+  return startPrice.sub(
+    startPrice.sub(basePrice).mul(elapsedTime).div(duration)
+  );
+};
+
+/**
+ * @summary Price of a Dutch auction at `timestamp`.
+ * @description Matches the `tokenPriceInWei` returned by the DA minters'
+ * `getPriceInfo`: the start price is returned at or before the auction start
+ * time, rather than reverting.
+ * @param auction auction parameters
+ * @param timestamp unix timestamp, in seconds
+ * @returns price in wei
+ */
+export const getPrice = (auction: DAAuction, timestamp: number): BigNumber => {
+  if (BigNumber.from(auction.startPrice).isZero()) {
+    throw new AuctionNotConfigured();
+  }
+  if (timestamp <= auction.timestampStart) {
+    return BigNumber.from(auction.startPrice);
+  }
+  return auction.type === "exp"
+    ? getPriceExp(auction, timestamp)
+    : getPriceLin(auction, timestamp);
+};
+
+/**
+ * @summary Earliest timestamp at which the auction price is at or below
+ * `targetPrice`.
+ * @param auction auction parameters
+ * @param targetPrice target price, in wei
+ * @returns unix timestamp in seconds, or null if the auction's base price is
+ * above `targetPrice`
+ */
+export const getTimestampForPrice = (
+  auction: DAAuction,
+  targetPrice: BigNumberish
+): number | null => {
+  const target = BigNumber.from(targetPrice);
+  if (target.lt(auction.basePrice)) {
+    return null;
+  }
+  if (target.gte(auction.startPrice)) {
+    return auction.timestampStart;
+  }
+  // @dev the price is non-increasing over time, so binary search between the
+  // auction start and a time by which the base price must have been reached.
+  // An exponential auction's uint256 start price has decayed to zero after
+  // 256 half-lives.
+  let low = auction.timestampStart;
+  let high =
+    auction.type === "exp"
+      ? auction.timestampStart + auction.priceDecayHalfLifeSeconds * 256
+      : auction.timestampEnd;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (getPrice(auction, mid).lte(target)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * @summary Earliest timestamp at which the auction reaches its base price.
+ * @param auction auction parameters
+ * @returns unix timestamp, in seconds
+ */
+export const getAuctionEndTimestamp = (auction: DAAuction): number => {
+  return getTimestampForPrice(auction, auction.basePrice) as number;
+};
+
+/**
+ * @summary Price schedule of an auction, from its start until it reaches its
+ * base price.
+ * @param auction auction parameters
+ * @param intervalSeconds seconds between price points
+ * @returns price points, always including the auction start and the time at
+ * which the base price is reached
+ * @throws InvalidPriceScheduleInterval if `intervalSeconds` is not positive
+ */
+export const getPriceSchedule = (
+  auction: DAAuction,
+  intervalSeconds: number = 60
+): PricePoint[] => {
+  // @dev also rejects NaN, which would never advance the schedule either
+  if (!(intervalSeconds > 0)) {
+    throw new InvalidPriceScheduleInterval(intervalSeconds);
+  }
+  const endTimestamp = getAuctionEndTimestamp(auction);
+  const schedule: PricePoint[] = [];
+  for (
+    let timestamp = auction.timestampStart;
+    timestamp < endTimestamp;
+    timestamp += intervalSeconds
+  ) {
+    schedule.push({ timestamp, price: getPrice(auction, timestamp) });
+  }
+  schedule.push({
+    timestamp: endTimestamp,
+    price: BigNumber.from(auction.basePrice),
+  });
+  return schedule;
+};
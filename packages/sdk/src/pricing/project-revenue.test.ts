@@ -0,0 +1,214 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, constants, ethers, utils } from "ethers";
+
+import {
+  getPrimaryRevenueSplits,
+  getProjectRevenueConfig,
+  getRoyaltyOverrideConfig,
+  getSecondaryRoyalties,
+  UnsupportedCoreType,
+} from "./project-revenue";
+import { RoyaltyOverrideNotConfigured } from "./revenue-splits";
+import { GenArt721CoreV3__factory } from "../generated/contracts/factories/GenArt721CoreV3__factory";
+import { GenArt721CoreV3_Engine__factory } from "../generated/contracts/factories/GenArt721CoreV3_Engine__factory";
+import { GenArt721RoyaltyOverride__factory } from "../generated/contracts/factories/GenArt721RoyaltyOverride__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const OVERRIDE_ADDRESS = "0x7B8bA1D3Be7BC1C3E2d0E4E4C5F7C6C1fb2bB01C";
+const ARTBLOCKS_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const RENDER_PROVIDER_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const PLATFORM_PROVIDER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const ARTIST_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const ADDITIONAL_PAYEE_ADDRESS = "0x37861f95882ACDba2cCD84F5bFc4598e2ECDDdAF";
+
+const provider = new ethers.providers.JsonRpcProvider();
+
+const mockCore = (coreType: string) => {
+  IGenArt721CoreContractV3_Base__factory.connect = jest
+    .fn()
+    .mockReturnValue({ coreType: async () => coreType });
+  const projectFinance = {
+    projectIdToArtistAddress: jest.fn(async () => ARTIST_ADDRESS),
+    projectIdToAdditionalPayeePrimarySales: async () =>
+      ADDITIONAL_PAYEE_ADDRESS,
+    projectIdToAdditionalPayeePrimarySalesPercentage: async () =>
+      BigNumber.from(25),
+    projectIdToAdditionalPayeeSecondarySales: async () =>
+      ADDITIONAL_PAYEE_ADDRESS,
+    projectIdToAdditionalPayeeSecondarySalesPercentage: async () =>
+      BigNumber.from(40),
+    projectIdToSecondaryMarketRoyaltyPercentage: async () => BigNumber.from(5),
+  };
+  GenArt721CoreV3_Engine__factory.connect = jest.fn().mockReturnValue({
+    ...projectFinance,
+    renderProviderPrimarySalesAddress: async () => RENDER_PROVIDER_ADDRESS,
+    renderProviderPrimarySalesPercentage: async () => BigNumber.from(10),
+    renderProviderSecondarySalesAddress: async () => RENDER_PROVIDER_ADDRESS,
+    renderProviderSecondarySalesBPS: async () => BigNumber.from(250),
+    platformProviderPrimarySalesAddress: async () => PLATFORM_PROVIDER_ADDRESS,
+    platformProviderPrimarySalesPercentage: async () => BigNumber.from(10),
+    platformProviderSecondarySalesAddress: async () =>
+      PLATFORM_PROVIDER_ADDRESS,
+    platformProviderSecondarySalesBPS: async () => BigNumber.from(100),
+  });
+  GenArt721CoreV3__factory.connect = jest.fn().mockReturnValue({
+    artblocksPrimarySalesAddress: async () => ARTBLOCKS_ADDRESS,
+    artblocksPrimarySalesPercentage: async () => BigNumber.from(10),
+    artblocksSecondarySalesAddress: async () => ARTBLOCKS_ADDRESS,
+    artblocksSecondarySalesBPS: async () => BigNumber.from(250),
+  });
+  return projectFinance;
+};
+
+const mockRoyaltyOverride = ({
+  artblocksRoyaltyAddress = ARTBLOCKS_ADDRESS,
+  useOverride = false,
+} = {}) => {
+  GenArt721RoyaltyOverride__factory.connect = jest.fn().mockReturnValue({
+    tokenAddressToArtblocksRoyaltyAddress: async () => artblocksRoyaltyAddress,
+    tokenAddressToArtblocksBpsOverride: async () => ({
+      useOverride,
+      bps: BigNumber.from(useOverride ? 100 : 0),
+    }),
+    ARTBLOCKS_DEFAULT_BPS: async () => BigNumber.from(250),
+  });
+};
+
+describe("getProjectRevenueConfig", () => {
+  it("reads a flagship core's Art Blocks provider", async () => {
+    const projectFinance = mockCore("GenArt721CoreV3");
+    expect(await getProjectRevenueConfig(CORE_ADDRESS, provider, 3)).toEqual({
+      providers: [
+        {
+          role: "artblocks",
+          primarySalesAddress: ARTBLOCKS_ADDRESS,
+          primarySalesPercentage: 10,
+          secondarySalesAddress: ARTBLOCKS_ADDRESS,
+          secondarySalesBPS: 250,
+        },
+      ],
+      artistAddress: ARTIST_ADDRESS,
+      additionalPayeePrimarySalesAddress: ADDITIONAL_PAYEE_ADDRESS,
+      additionalPayeePrimarySalesPercentage: 25,
+      additionalPayeeSecondarySalesAddress: ADDITIONAL_PAYEE_ADDRESS,
+      additionalPayeeSecondarySalesPercentage: 40,
+      secondaryMarketRoyaltyPercentage: 5,
+    });
+    expect(projectFinance.projectIdToArtistAddress).toBeCalledWith(3);
+  });
+
+  it("reads an Engine Flex core's render and platform providers", async () => {
+    mockCore("GenArt721CoreV3_Engine_Flex");
+    const { providers } = await getProjectRevenueConfig(
+      CORE_ADDRESS,
+      provider,
+      3
+    );
+    expect(providers.map(({ role }) => role)).toEqual([
+      "renderProvider",
+      "platformProvider",
+    ]);
+    expect(providers[1]).toMatchObject({
+      primarySalesAddress: PLATFORM_PROVIDER_ADDRESS,
+      secondarySalesBPS: 100,
+    });
+  });
+
+  it("throws for unsupported core types", async () => {
+    mockCore("GenArt721CoreV2_PBAB");
+    await expect(
+      getProjectRevenueConfig(CORE_ADDRESS, provider, 3)
+    ).rejects.toThrowError(new UnsupportedCoreType("GenArt721CoreV2_PBAB"));
+  });
+});
+
+describe("getPrimaryRevenueSplits", () => {
+  it("splits a sale on an Engine core", async () => {
+    mockCore("GenArt721CoreV3_Engine");
+    const splits = await getPrimaryRevenueSplits(
+      CORE_ADDRESS,
+      provider,
+      3,
+      utils.parseEther("1")
+    );
+    expect(splits.map(({ role, amount }) => [role, amount])).toEqual([
+      ["renderProvider", utils.parseEther("0.1")],
+      ["platformProvider", utils.parseEther("0.1")],
+      ["artist", utils.parseEther("0.6")],
+      ["additionalPayee", utils.parseEther("0.2")],
+    ]);
+  });
+});
+
+describe("getRoyaltyOverrideConfig", () => {
+  it("reads the override's basis points for the core, or its default", async () => {
+    mockRoyaltyOverride();
+    expect(
+      await getRoyaltyOverrideConfig(OVERRIDE_ADDRESS, provider, CORE_ADDRESS)
+    ).toEqual({
+      artblocksRoyaltyAddress: ARTBLOCKS_ADDRESS,
+      artblocksBPS: 250,
+    });
+    mockRoyaltyOverride({ useOverride: true });
+    expect(
+      await getRoyaltyOverrideConfig(OVERRIDE_ADDRESS, provider, CORE_ADDRESS)
+    ).toMatchObject({ artblocksBPS: 100 });
+  });
+});
+
+describe("getSecondaryRoyalties", () => {
+  it("reads a token's project royalties from its core", async () => {
+    const projectFinance = mockCore("GenArt721CoreV3_Engine");
+    expect(
+      await getSecondaryRoyalties(CORE_ADDRESS, provider, 3_000_001)
+    ).toEqual([
+      { role: "artist", address: ARTIST_ADDRESS, bps: 300 },
+      { role: "additionalPayee", address: ADDITIONAL_PAYEE_ADDRESS, bps: 200 },
+      { role: "renderProvider", address: RENDER_PROVIDER_ADDRESS, bps: 250 },
+      {
+        role: "platformProvider",
+        address: PLATFORM_PROVIDER_ADDRESS,
+        bps: 100,
+      },
+    ]);
+    expect(projectFinance.projectIdToArtistAddress).toBeCalledWith(
+      BigNumber.from(3)
+    );
+  });
+
+  it("reports a flagship token's royalties through a royalty override", async () => {
+    mockCore("GenArt721CoreV3");
+    mockRoyaltyOverride({ useOverride: true });
+    const royalties = await getSecondaryRoyalties(
+      CORE_ADDRESS,
+      provider,
+      3_000_001,
+      { royaltyOverride: OVERRIDE_ADDRESS }
+    );
+    expect(royalties[2]).toEqual({
+      role: "artblocks",
+      address: ARTBLOCKS_ADDRESS,
+      bps: 100,
+    });
+  });
+
+  it("throws for royalty overrides of Engine cores", async () => {
+    mockCore("GenArt721CoreV3_Engine");
+    await expect(
+      getSecondaryRoyalties(CORE_ADDRESS, provider, 3_000_001, {
+        royaltyOverride: OVERRIDE_ADDRESS,
+      })
+    ).rejects.toThrowError(UnsupportedCoreType);
+  });
+
+  it("throws for royalty overrides without an Art Blocks address", async () => {
+    mockCore("GenArt721CoreV3");
+    mockRoyaltyOverride({ artblocksRoyaltyAddress: constants.AddressZero });
+    await expect(
+      getSecondaryRoyalties(CORE_ADDRESS, provider, 3_000_001, {
+        royaltyOverride: OVERRIDE_ADDRESS,
+      })
+    ).rejects.toThrowError(RoyaltyOverrideNotConfigured);
+  });
+});
@@ -0,0 +1,276 @@
+import { BigNumber, BigNumberish, Signer, providers } from "ethers";
+
+import { GenArt721CoreV3__factory } from "../generated/contracts/factories/GenArt721CoreV3__factory";
+import { GenArt721CoreV3_Engine__factory } from "../generated/contracts/factories/GenArt721CoreV3_Engine__factory";
+import { GenArt721RoyaltyOverride__factory } from "../generated/contracts/factories/GenArt721RoyaltyOverride__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { decodeTokenId } from "../tokens";
+import {
+  calculatePrimaryRevenueSplits,
+  calculateRoyaltyOverrideRoyalties,
+  calculateSecondaryRoyalties,
+  ProjectRevenueConfig,
+  ProviderRevenueConfig,
+  ProviderRole,
+  RevenueSplit,
+  RoyaltyOverrideConfig,
+  RoyaltySplit,
+} from "./revenue-splits";
+
+/**
+ * Core types whose revenue splits are supported, and whether each is an
+ * Engine core paying a render and a platform provider.
+ */
+const REVENUE_CORE_TYPES: { [coreType: string]: { isEngine: boolean } } = {
+  GenArt721CoreV3: { isEngine: false },
+  GenArt721CoreV3_Engine: { isEngine: true },
+  GenArt721CoreV3_Engine_Flex: { isEngine: true },
+};
+
+/**
+ * @summary Error thrown when a core contract's type is not supported by the
+ * requested operation.
+ * @description Revenue splits are supported on flagship V3, Engine and
+ * Engine Flex cores, and royalty overrides on flagship V3 cores only.
+ */
+export class UnsupportedCoreType extends Error {
+  constructor(coreType: string) {
+    super(`Core type ${coreType} is not supported by this operation.`);
+    this.name = "UnsupportedCoreType";
+  }
+}
+
+export type SecondaryRoyaltiesParams = {
+  /**
+   * address of a `GenArt721RoyaltyOverride` to report royalties of instead
+   * of the core's `getRoyalties`
+   */
+  royaltyOverride?: string;
+};
+
+/**
+ * @summary Read a project's revenue configuration from its core contract.
+ * @param coreContract address of a flagship V3, Engine or Engine Flex core
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @returns the project's artist, additional payees and royalty percentage,
+ * and the core's providers
+ * @throws UnsupportedCoreType for other core types
+ */
+export async function getProjectRevenueConfig(
+  coreContract: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish
+): Promise<ProjectRevenueConfig> {
+  const coreType = await IGenArt721CoreContractV3_Base__factory.connect(
+    coreContract,
+    signerOrProvider
+  ).coreType();
+  if (!REVENUE_CORE_TYPES[coreType]) {
+    throw new UnsupportedCoreType(coreType);
+  }
+
+  // @dev project finance getters are shared by flagship and Engine cores
+  const core = GenArt721CoreV3_Engine__factory.connect(
+    coreContract,
+    signerOrProvider
+  );
+  const [
+    providerConfigs,
+    artistAddress,
+    additionalPayeePrimarySalesAddress,
+    additionalPayeePrimarySalesPercentage,
+    additionalPayeeSecondarySalesAddress,
+    additionalPayeeSecondarySalesPercentage,
+    secondaryMarketRoyaltyPercentage,
+  ] = await Promise.all([
+    REVENUE_CORE_TYPES[coreType].isEngine
+      ? getEngineProviders(coreContract, signerOrProvider)
+      : getFlagshipProviders(coreContract, signerOrProvider),
+    core.projectIdToArtistAddress(projectId),
+    core.projectIdToAdditionalPayeePrimarySales(projectId),
+    core.projectIdToAdditionalPayeePrimarySalesPercentage(projectId),
+    core.projectIdToAdditionalPayeeSecondarySales(projectId),
+    core.projectIdToAdditionalPayeeSecondarySalesPercentage(projectId),
+    core.projectIdToSecondaryMarketRoyaltyPercentage(projectId),
+  ]);
+  return {
+    providers: providerConfigs,
+    artistAddress,
+    additionalPayeePrimarySalesAddress,
+    additionalPayeePrimarySalesPercentage:
+      additionalPayeePrimarySalesPercentage.toNumber(),
+    additionalPayeeSecondarySalesAddress,
+    additionalPayeeSecondarySalesPercentage:
+      additionalPayeeSecondarySalesPercentage.toNumber(),
+    secondaryMarketRoyaltyPercentage:
+      secondaryMarketRoyaltyPercentage.toNumber(),
+  };
+}
+
+const toProviderConfig = (
+  role: ProviderRole,
+  [
+    primarySalesAddress,
+    primarySalesPercentage,
+    secondarySalesAddress,
+    secondarySalesBPS,
+  ]: [string, BigNumber, string, BigNumber]
+): ProviderRevenueConfig => ({
+  role,
+  primarySalesAddress,
+  primarySalesPercentage: primarySalesPercentage.toNumber(),
+  secondarySalesAddress,
+  secondarySalesBPS: secondarySalesBPS.toNumber(),
+});
+
+const getFlagshipProviders = async (
+  coreContract: string,
+  signerOrProvider: Signer | providers.Provider
+): Promise<ProviderRevenueConfig[]> => {
+  const core = GenArt721CoreV3__factory.connect(coreContract, signerOrProvider);
+  return [
+    toProviderConfig(
+      "artblocks",
+      await Promise.all([
+        core.artblocksPrimarySalesAddress(),
+        core.artblocksPrimarySalesPercentage(),
+        core.artblocksSecondarySalesAddress(),
+        core.artblocksSecondarySalesBPS(),
+      ])
+    ),
+  ];
+};
+
+const getEngineProviders = async (
+  coreContract: string,
+  signerOrProvider: Signer | providers.Provider
+): Promise<ProviderRevenueConfig[]> => {
+  const core = GenArt721CoreV3_Engine__factory.connect(
+    coreContract,
+    signerOrProvider
+  );
+  const [renderProvider, platformProvider] = await Promise.all([
+    Promise.all([
+      core.renderProviderPrimarySalesAddress(),
+      core.renderProviderPrimarySalesPercentage(),
+      core.renderProviderSecondarySalesAddress(),
+      core.renderProviderSecondarySalesBPS(),
+    ]),
+    Promise.all([
+      core.platformProviderPrimarySalesAddress(),
+      core.platformProviderPrimarySalesPercentage(),
+      core.platformProviderSecondarySalesAddress(),
+      core.platformProviderSecondarySalesBPS(),
+    ]),
+  ]);
+  return [
+    toProviderConfig("renderProvider", renderProvider),
+    toProviderConfig("platformProvider", platformProvider),
+  ];
+};
+
+/**
+ * @summary Read a `GenArt721RoyaltyOverride`'s Art Blocks royalty
+ * configuration for a core contract.
+ * @param royaltyOverride address of a `GenArt721RoyaltyOverride`
+ * @param signerOrProvider ethers signer or provider
+ * @param coreContract address of a flagship V3 core
+ * @returns the Art Blocks royalty address, and the override's basis points
+ * for the core or its default basis points
+ */
+export async function getRoyaltyOverrideConfig(
+  royaltyOverride: string,
+  signerOrProvider: Signer | providers.Provider,
+  coreContract: string
+): Promise<RoyaltyOverrideConfig> {
+  const override = GenArt721RoyaltyOverride__factory.connect(
+    royaltyOverride,
+    signerOrProvider
+  );
+  const [artblocksRoyaltyAddress, bpsOverride, defaultBPS] = await Promise.all([
+    override.tokenAddressToArtblocksRoyaltyAddress(coreContract),
+    override.tokenAddressToArtblocksBpsOverride(coreContract),
+    override.ARTBLOCKS_DEFAULT_BPS(),
+  ]);
+  return {
+    artblocksRoyaltyAddress,
+    artblocksBPS: (bpsOverride.useOverride
+      ? bpsOverride.bps
+      : defaultBPS
+    ).toNumber(),
+  };
+}
+
+/**
+ * @summary Split a primary sale of a project between its recipients.
+ * @description Equivalent to the core's `getPrimaryRevenueSplits`. To
+ * split several prices, read the configuration once with
+ * `getProjectRevenueConfig` and split each with
+ * `calculatePrimaryRevenueSplits`.
+ * @param coreContract address of a flagship V3, Engine or Engine Flex core
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param price sale price of the token
+ * @returns each provider's, the artist's and the additional payee's
+ * revenue
+ * @throws UnsupportedCoreType for other core types
+ */
+export async function getPrimaryRevenueSplits(
+  coreContract: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  price: BigNumberish
+): Promise<RevenueSplit[]> {
+  return calculatePrimaryRevenueSplits(
+    await getProjectRevenueConfig(coreContract, signerOrProvider, projectId),
+    price
+  );
+}
+
+/**
+ * @summary Get the secondary royalties of a token.
+ * @param coreContract address of a flagship V3, Engine or Engine Flex core
+ * @param signerOrProvider ethers signer or provider
+ * @param tokenId token ID on the core contract
+ * @param options royalty override to report royalties of, if any
+ * @returns the royalty recipients and their basis points
+ * @throws UnsupportedCoreType for other core types, or for a royalty
+ * override on an Engine core
+ * @throws RoyaltyOverrideNotConfigured if the royalty override has no Art
+ * Blocks royalty address for the core contract
+ */
+export async function getSecondaryRoyalties(
+  coreContract: string,
+  signerOrProvider: Signer | providers.Provider,
+  tokenId: BigNumberish,
+  options: SecondaryRoyaltiesParams = {}
+): Promise<RoyaltySplit[]> {
+  // @dev the override reads `getRoyaltyData`, which only flagship cores
+  // implement
+  if (options.royaltyOverride) {
+    const coreType = await IGenArt721CoreContractV3_Base__factory.connect(
+      coreContract,
+      signerOrProvider
+    ).coreType();
+    if (coreType !== "GenArt721CoreV3") {
+      throw new UnsupportedCoreType(coreType);
+    }
+  }
+  const config = await getProjectRevenueConfig(
+    coreContract,
+    signerOrProvider,
+    decodeTokenId(tokenId).projectId
+  );
+  if (!options.royaltyOverride) {
+    return calculateSecondaryRoyalties(config);
+  }
+  return calculateRoyaltyOverrideRoyalties(
+    config,
+    await getRoyaltyOverrideConfig(
+      options.royaltyOverride,
+      signerOrProvider,
+      coreContract
+    )
+  );
+}
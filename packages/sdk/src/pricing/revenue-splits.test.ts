@@ -0,0 +1,184 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, constants, utils } from "ethers";
+
+import {
+  calculatePrimaryRevenueSplits,
+  calculateRoyaltyOverrideRoyalties,
+  calculateSecondaryRoyalties,
+  ProjectRevenueConfig,
+  RoyaltyOverrideNotConfigured,
+} from "./revenue-splits";
+
+const ARTBLOCKS_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const RENDER_PROVIDER_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const PLATFORM_PROVIDER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const ARTIST_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const ADDITIONAL_PRIMARY_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const ADDITIONAL_SECONDARY_ADDRESS =
+  "0x37861f95882ACDba2cCD84F5bFc4598e2ECDDdAF";
+
+const projectConfig = (
+  overrides: Partial<ProjectRevenueConfig> = {}
+): ProjectRevenueConfig => ({
+  providers: [
+    {
+      role: "artblocks",
+      primarySalesAddress: ARTBLOCKS_ADDRESS,
+      primarySalesPercentage: 10,
+      secondarySalesAddress: ARTBLOCKS_ADDRESS,
+      secondarySalesBPS: 250,
+    },
+  ],
+  artistAddress: ARTIST_ADDRESS,
+  additionalPayeePrimarySalesAddress: ADDITIONAL_PRIMARY_ADDRESS,
+  additionalPayeePrimarySalesPercentage: 0,
+  additionalPayeeSecondarySalesAddress: ADDITIONAL_SECONDARY_ADDRESS,
+  additionalPayeeSecondarySalesPercentage: 0,
+  secondaryMarketRoyaltyPercentage: 5,
+  ...overrides,
+});
+
+const engineProviders = [
+  {
+    role: "renderProvider" as const,
+    primarySalesAddress: RENDER_PROVIDER_ADDRESS,
+    primarySalesPercentage: 5,
+    secondarySalesAddress: RENDER_PROVIDER_ADDRESS,
+    secondarySalesBPS: 250,
+  },
+  {
+    role: "platformProvider" as const,
+    primarySalesAddress: PLATFORM_PROVIDER_ADDRESS,
+    primarySalesPercentage: 15,
+    secondarySalesAddress: PLATFORM_PROVIDER_ADDRESS,
+    secondarySalesBPS: 0,
+  },
+];
+
+describe("calculatePrimaryRevenueSplits", () => {
+  it("splits a flagship sale, without an additional payee", () => {
+    expect(
+      calculatePrimaryRevenueSplits(projectConfig(), utils.parseEther("1"))
+    ).toEqual([
+      {
+        role: "artblocks",
+        address: ARTBLOCKS_ADDRESS,
+        amount: utils.parseEther("0.1"),
+      },
+      {
+        role: "artist",
+        address: ARTIST_ADDRESS,
+        amount: utils.parseEther("0.9"),
+      },
+      {
+        role: "additionalPayee",
+        address: constants.AddressZero,
+        amount: BigNumber.from(0),
+      },
+    ]);
+  });
+
+  it("splits an Engine sale between both providers", () => {
+    const splits = calculatePrimaryRevenueSplits(
+      projectConfig({
+        providers: engineProviders,
+        additionalPayeePrimarySalesPercentage: 51,
+      }),
+      utils.parseEther("1")
+    );
+    expect(splits.map(({ role, amount }) => [role, amount])).toEqual([
+      ["renderProvider", utils.parseEther("0.05")],
+      ["platformProvider", utils.parseEther("0.15")],
+      ["artist", utils.parseEther("0.392")],
+      ["additionalPayee", utils.parseEther("0.408")],
+    ]);
+    expect(splits[3].address).toEqual(ADDITIONAL_PRIMARY_ADDRESS);
+  });
+
+  it("rounds down, leaving the remainder to the artist", () => {
+    const splits = calculatePrimaryRevenueSplits(
+      projectConfig({
+        providers: engineProviders,
+        additionalPayeePrimarySalesPercentage: 33,
+      }),
+      99
+    );
+    // @dev 99 * 5 / 100 = 4, 99 * 15 / 100 = 14, 81 * 33 / 100 = 26
+    expect(splits.map(({ amount }) => amount.toNumber())).toEqual([
+      4, 14, 55, 26,
+    ]);
+  });
+
+  it("nulls the artist address when the artist receives nothing", () => {
+    const [, artist, additionalPayee] = calculatePrimaryRevenueSplits(
+      projectConfig({ additionalPayeePrimarySalesPercentage: 100 }),
+      100
+    );
+    expect(artist).toEqual({
+      role: "artist",
+      address: constants.AddressZero,
+      amount: BigNumber.from(0),
+    });
+    expect(additionalPayee.amount).toEqual(BigNumber.from(90));
+  });
+});
+
+describe("calculateSecondaryRoyalties", () => {
+  it("reproduces a flagship core's getRoyalties", () => {
+    expect(
+      calculateSecondaryRoyalties(
+        projectConfig({ additionalPayeeSecondarySalesPercentage: 20 })
+      )
+    ).toEqual([
+      { role: "artist", address: ARTIST_ADDRESS, bps: 400 },
+      {
+        role: "additionalPayee",
+        address: ADDITIONAL_SECONDARY_ADDRESS,
+        bps: 100,
+      },
+      { role: "artblocks", address: ARTBLOCKS_ADDRESS, bps: 250 },
+    ]);
+  });
+
+  it("omits Engine recipients without basis points", () => {
+    expect(
+      calculateSecondaryRoyalties(projectConfig({ providers: engineProviders }))
+    ).toEqual([
+      { role: "artist", address: ARTIST_ADDRESS, bps: 500 },
+      { role: "renderProvider", address: RENDER_PROVIDER_ADDRESS, bps: 250 },
+    ]);
+  });
+});
+
+describe("calculateRoyaltyOverrideRoyalties", () => {
+  const override = {
+    artblocksRoyaltyAddress: RENDER_PROVIDER_ADDRESS,
+    artblocksBPS: 100,
+  };
+
+  it("reproduces GenArt721RoyaltyOverride.getRoyalties", () => {
+    expect(
+      calculateRoyaltyOverrideRoyalties(projectConfig(), override)
+    ).toEqual([
+      { role: "artist", address: ARTIST_ADDRESS, bps: 500 },
+      {
+        role: "additionalPayee",
+        address: ADDITIONAL_SECONDARY_ADDRESS,
+        bps: 0,
+      },
+      { role: "artblocks", address: RENDER_PROVIDER_ADDRESS, bps: 100 },
+    ]);
+  });
+
+  it("throws without an Art Blocks royalty address", () => {
+    expect(() =>
+      calculateRoyaltyOverrideRoyalties(projectConfig(), {
+        ...override,
+        artblocksRoyaltyAddress: constants.AddressZero,
+      })
+    ).toThrowError(RoyaltyOverrideNotConfigured);
+    expect(new RoyaltyOverrideNotConfigured().name).toEqual(
+      "RoyaltyOverrideNotConfigured"
+    );
+  });
+});
@@ -0,0 +1,202 @@
+// Primary revenue and secondary royalty calculations of Art Blocks V3 core
+// contracts.
+import { BigNumber, BigNumberish, constants } from "ethers";
+
+/**
+ * Provider roles: Art Blocks on flagship cores, and the render and platform
+ * providers on Engine and Engine Flex cores.
+ */
+export type ProviderRole = "artblocks" | "renderProvider" | "platformProvider";
+
+/**
+ * Recipient roles of a project's revenue.
+ */
+export type RevenueRole = ProviderRole | "artist" | "additionalPayee";
+
+/**
+ * A provider's revenue configuration on a core contract.
+ */
+export type ProviderRevenueConfig = {
+  role: ProviderRole;
+  primarySalesAddress: string;
+  /** percentage of primary sales, 0 to 100 */
+  primarySalesPercentage: number;
+  secondarySalesAddress: string;
+  /** basis points of secondary sales */
+  secondarySalesBPS: number;
+};
+
+/**
+ * A project's revenue configuration, as stored on its core contract.
+ */
+export type ProjectRevenueConfig = {
+  /** providers in the order the core pays them */
+  providers: ProviderRevenueConfig[];
+  artistAddress: string;
+  additionalPayeePrimarySalesAddress: string;
+  /** percentage of the artist's primary revenue, 0 to 100 */
+  additionalPayeePrimarySalesPercentage: number;
+  additionalPayeeSecondarySalesAddress: string;
+  /** percentage of the artist's royalties, 0 to 100 */
+  additionalPayeeSecondarySalesPercentage: number;
+  /** royalty percentage shared by the artist and additional payee */
+  secondaryMarketRoyaltyPercentage: number;
+};
+
+/**
+ * Art Blocks royalty configuration of a `GenArt721RoyaltyOverride` for a
+ * core contract.
+ */
+export type RoyaltyOverrideConfig = {
+  artblocksRoyaltyAddress: string;
+  artblocksBPS: number;
+};
+
+/**
+ * A recipient's share of a primary sale.
+ */
+export type RevenueSplit = {
+  role: RevenueRole;
+  /** zero address for artists and additional payees due no revenue */
+  address: string;
+  amount: BigNumber;
+};
+
+/**
+ * A recipient's share of secondary sales.
+ */
+export type RoyaltySplit = {
+  role: RevenueRole;
+  address: string;
+  bps: number;
+};
+
+/**
+ * @summary Error thrown when a royalty override has no Art Blocks royalty
+ * address for a core contract.
+ * @description Mirrors `GenArt721RoyaltyOverride.getRoyalties`, which
+ * reverts in this case.
+ */
+export class RoyaltyOverrideNotConfigured extends Error {
+  constructor() {
+    super("Art Blocks royalty address must be defined for contract.");
+    this.name = "RoyaltyOverrideNotConfigured";
+  }
+}
+
+/**
+ * @summary Split a primary sale between a project's recipients.
+ * @description Reproduces the core's `getPrimaryRevenueSplits`, which
+ * `SplitFundsLib` pays out: each provider receives its percentage of the
+ * price, rounded down, and the remainder is split between the additional
+ * payee and the artist, the artist receiving any rounding remainder.
+ * @param config the project's revenue configuration
+ * @param price sale price of the token
+ * @returns the providers' splits, then the artist's and the additional
+ * payee's, summing to the price
+ */
+export const calculatePrimaryRevenueSplits = (
+  config: ProjectRevenueConfig,
+  price: BigNumberish
+): RevenueSplit[] => {
+  const providerSplits = config.providers.map(
+    ({ role, primarySalesAddress, primarySalesPercentage }) => ({
+      role,
+      address: primarySalesAddress,
+      amount: BigNumber.from(price).mul(primarySalesPercentage).div(100),
+    })
+  );
+  const projectFunds = providerSplits.reduce(
+    (funds, { amount }) => funds.sub(amount),
+    BigNumber.from(price)
+  );
+  const additionalPayeeRevenue = projectFunds
+    .mul(config.additionalPayeePrimarySalesPercentage)
+    .div(100);
+  const artistRevenue = projectFunds.sub(additionalPayeeRevenue);
+  return [
+    ...providerSplits,
+    {
+      role: "artist",
+      address: artistRevenue.isZero()
+        ? constants.AddressZero
+        : config.artistAddress,
+      amount: artistRevenue,
+    },
+    {
+      role: "additionalPayee",
+      address: additionalPayeeRevenue.isZero()
+        ? constants.AddressZero
+        : config.additionalPayeePrimarySalesAddress,
+      amount: additionalPayeeRevenue,
+    },
+  ];
+};
+
+const artistRoyalties = (config: ProjectRevenueConfig): RoyaltySplit[] => [
+  {
+    role: "artist",
+    address: config.artistAddress,
+    bps:
+      (100 - config.additionalPayeeSecondarySalesPercentage) *
+      config.secondaryMarketRoyaltyPercentage,
+  },
+  {
+    role: "additionalPayee",
+    address: config.additionalPayeeSecondarySalesAddress,
+    bps:
+      config.additionalPayeeSecondarySalesPercentage *
+      config.secondaryMarketRoyaltyPercentage,
+  },
+];
+
+/**
+ * @summary Get the royalties of a project's tokens.
+ * @description Reproduces the core's `getRoyalties`, including its omission
+ * of recipients without basis points.
+ * @param config the project's revenue configuration
+ * @returns the artist's, additional payee's and providers' royalties
+ */
+export const calculateSecondaryRoyalties = (
+  config: ProjectRevenueConfig
+): RoyaltySplit[] =>
+  [
+    ...artistRoyalties(config),
+    ...config.providers.map(
+      ({ role, secondarySalesAddress, secondarySalesBPS }) => ({
+        role,
+        address: secondarySalesAddress,
+        bps: secondarySalesBPS,
+      })
+    ),
+  ].filter(({ bps }) => bps > 0);
+
+/**
+ * @summary Get the royalties of a flagship project's tokens as reported by
+ * a `GenArt721RoyaltyOverride`.
+ * @description Reproduces the override's `getRoyalties`, which always
+ * returns the artist, additional payee and Art Blocks, and pays Art Blocks
+ * the override's basis points rather than the core's.
+ * @param config the project's revenue configuration
+ * @param override the override's Art Blocks royalty configuration for the
+ * project's core contract
+ * @returns the artist's, additional payee's and Art Blocks' royalties
+ * @throws RoyaltyOverrideNotConfigured if the override has no Art Blocks
+ * royalty address for the core contract
+ */
+export const calculateRoyaltyOverrideRoyalties = (
+  config: ProjectRevenueConfig,
+  override: RoyaltyOverrideConfig
+): RoyaltySplit[] => {
+  if (override.artblocksRoyaltyAddress === constants.AddressZero) {
+    throw new RoyaltyOverrideNotConfigured();
+  }
+  return [
+    ...artistRoyalties(config),
+    {
+      role: "artblocks",
+      address: override.artblocksRoyaltyAddress,
+      bps: override.artblocksBPS,
+    },
+  ];
+};
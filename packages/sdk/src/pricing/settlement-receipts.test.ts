@@ -0,0 +1,244 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import {
+  getSettlementAuctionStatus,
+  getSettlementReceipts,
+  getWalletSettlementReceipts,
+  populateReclaimTransactions,
+} from "./settlement-receipts";
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { MinterDAExpSettlementV3__factory } from "../generated/contracts/factories/MinterDAExpSettlementV3__factory";
+import { SettlementExpLib__factory } from "../generated/contracts/factories/SettlementExpLib__factory";
+
+const WALLET_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const OTHER_CORE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const OTHER_MINTER_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const ONE_ETH = ethers.utils.parseEther("1");
+const START = 1_700_000_000;
+
+const provider = new ethers.providers.JsonRpcProvider();
+provider.getBlock = jest
+  .fn()
+  .mockResolvedValue({ timestamp: START + 60 }) as typeof provider.getBlock;
+
+type MockOptions = {
+  invocations?: number;
+  latestPurchasePrice?: BigNumber;
+};
+
+const mockSettlementContracts = ({
+  invocations = 5,
+  latestPurchasePrice = ONE_ETH.mul(3),
+}: MockOptions = {}) => {
+  const populateTransaction = {
+    reclaimProjectExcessSettlementFundsTo: jest.fn(
+      async (...args: unknown[]) => ({ data: "single", args })
+    ),
+    reclaimProjectsExcessSettlementFundsTo: jest.fn(
+      async (...args: unknown[]) => ({ data: "multiple", args })
+    ),
+  };
+  MinterDAExpSettlementV3__factory.connect = jest.fn().mockReturnValue({
+    projectAuctionParameters: async () => ({
+      timestampStart: START,
+      priceDecayHalfLifeSeconds: 60,
+      startPrice: ONE_ETH.mul(4),
+      basePrice: ONE_ETH,
+    }),
+    getProjectLatestPurchasePrice: async () => latestPurchasePrice,
+    getNumSettleableInvocations: async () => BigNumber.from(invocations),
+    projectMaxInvocations: async () => BigNumber.from(10),
+    getProjectExcessSettlementFunds: async () => ONE_ETH,
+    populateTransaction,
+  });
+  IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+    projectStateData: async () => ({
+      invocations: BigNumber.from(invocations),
+      maxInvocations: BigNumber.from(10),
+    }),
+  });
+  return populateTransaction;
+};
+
+const receiptEvent = (
+  projectId: number,
+  coreContract: string,
+  numPurchased: number,
+  netPosted: BigNumber
+) => ({
+  args: {
+    purchaser: WALLET_ADDRESS,
+    projectId: BigNumber.from(projectId),
+    coreContract,
+    numPurchased,
+    netPosted,
+  },
+});
+
+const mockReceiptEvents = (events: ReturnType<typeof receiptEvent>[]) => {
+  const queryFilter = jest.fn(async () => events);
+  SettlementExpLib__factory.connect = jest.fn().mockReturnValue({
+    filters: { ReceiptUpdated: (purchaser: string) => purchaser },
+    queryFilter,
+  });
+  return queryFilter;
+};
+
+describe("getSettlementAuctionStatus", () => {
+  it("prices an active auction at the latest block", async () => {
+    mockSettlementContracts();
+    expect(
+      await getSettlementAuctionStatus(
+        MINTER_ADDRESS,
+        provider,
+        0,
+        CORE_ADDRESS
+      )
+    ).toEqual({
+      latestPurchasePrice: ONE_ETH.mul(3),
+      numSettleableInvocations: 5,
+      settlementPrice: ONE_ETH.mul(2),
+      isFinalPrice: false,
+    });
+  });
+
+  it("reports the latest purchase price as final once sold out", async () => {
+    mockSettlementContracts({ invocations: 10 });
+    const signer = new ethers.VoidSigner(WALLET_ADDRESS, provider);
+    expect(
+      await getSettlementAuctionStatus(MINTER_ADDRESS, signer, 0, CORE_ADDRESS)
+    ).toEqual({
+      latestPurchasePrice: ONE_ETH.mul(3),
+      numSettleableInvocations: 10,
+      settlementPrice: ONE_ETH.mul(3),
+      isFinalPrice: true,
+    });
+  });
+
+  it("prices at the provided timestamp", async () => {
+    mockSettlementContracts();
+    const status = await getSettlementAuctionStatus(
+      MINTER_ADDRESS,
+      provider,
+      0,
+      CORE_ADDRESS,
+      START + 600
+    );
+    expect(status.settlementPrice).toEqual(ONE_ETH);
+    expect(status.isFinalPrice).toBe(true);
+  });
+});
+
+describe("getSettlementReceipts", () => {
+  it("returns no receipts for a wallet without purchases", async () => {
+    const queryFilter = mockReceiptEvents([]);
+    expect(
+      await getSettlementReceipts(MINTER_ADDRESS, provider, WALLET_ADDRESS)
+    ).toEqual([]);
+    expect(queryFilter).toBeCalledWith(WALLET_ADDRESS);
+  });
+
+  it("keeps the latest receipt per project and computes its rebate", async () => {
+    mockSettlementContracts();
+    mockReceiptEvents([
+      receiptEvent(0, CORE_ADDRESS, 1, ONE_ETH.mul(4)),
+      receiptEvent(1, CORE_ADDRESS, 1, ONE_ETH.mul(4)),
+      receiptEvent(0, CORE_ADDRESS.toLowerCase(), 2, ONE_ETH.mul(7)),
+    ]);
+    const receipts = await getSettlementReceipts(
+      MINTER_ADDRESS,
+      provider,
+      WALLET_ADDRESS
+    );
+    expect(receipts.map((receipt) => receipt.projectId.toNumber())).toEqual([
+      0, 1,
+    ]);
+    expect(receipts[0]).toEqual({
+      minterAddress: MINTER_ADDRESS,
+      projectId: BigNumber.from(0),
+      coreContract: CORE_ADDRESS.toLowerCase(),
+      numPurchased: 2,
+      netPosted: ONE_ETH.mul(7),
+      reclaimableFunds: ONE_ETH,
+      rebate: ONE_ETH.mul(3),
+      auction: {
+        latestPurchasePrice: ONE_ETH.mul(3),
+        numSettleableInvocations: 5,
+        settlementPrice: ONE_ETH.mul(2),
+        isFinalPrice: false,
+      },
+    });
+  });
+});
+
+describe("getWalletSettlementReceipts", () => {
+  it("searches every globally approved settlement minter", async () => {
+    mockSettlementContracts();
+    mockReceiptEvents([receiptEvent(0, CORE_ADDRESS, 1, ONE_ETH.mul(4))]);
+    const minterFilter = {
+      getAllGloballyApprovedMinters: async () => [
+        { minterAddress: MINTER_ADDRESS, minterType: "MinterSetPriceV5" },
+        {
+          minterAddress: OTHER_MINTER_ADDRESS,
+          minterType: "MinterDAExpSettlementV3",
+        },
+      ],
+    } as unknown as MinterFilterV2;
+    const receipts = await getWalletSettlementReceipts(
+      minterFilter,
+      provider,
+      WALLET_ADDRESS
+    );
+    expect(receipts.map(({ minterAddress }) => minterAddress)).toEqual([
+      OTHER_MINTER_ADDRESS,
+    ]);
+  });
+});
+
+describe("populateReclaimTransactions", () => {
+  it("builds one transaction per minter", async () => {
+    const populateTransaction = mockSettlementContracts();
+    const transactions = await populateReclaimTransactions(
+      provider,
+      WALLET_ADDRESS,
+      [
+        {
+          minterAddress: MINTER_ADDRESS,
+          projectId: 0,
+          coreContract: CORE_ADDRESS,
+        },
+        {
+          minterAddress: OTHER_MINTER_ADDRESS,
+          projectId: 1,
+          coreContract: CORE_ADDRESS,
+        },
+        {
+          minterAddress: OTHER_MINTER_ADDRESS,
+          projectId: 2,
+          coreContract: OTHER_CORE_ADDRESS,
+        },
+      ].map((receipt) => ({
+        ...receipt,
+        projectId: BigNumber.from(receipt.projectId),
+      }))
+    );
+    expect(transactions.map(({ data }) => data)).toEqual([
+      "single",
+      "multiple",
+    ]);
+    expect(
+      populateTransaction.reclaimProjectExcessSettlementFundsTo
+    ).toBeCalledWith(WALLET_ADDRESS, BigNumber.from(0), CORE_ADDRESS);
+    expect(
+      populateTransaction.reclaimProjectsExcessSettlementFundsTo
+    ).toBeCalledWith(
+      WALLET_ADDRESS,
+      [BigNumber.from(1), BigNumber.from(2)],
+      [CORE_ADDRESS, OTHER_CORE_ADDRESS]
+    );
+  });
+});
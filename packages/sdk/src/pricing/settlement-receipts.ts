@@ -0,0 +1,268 @@
+import {
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+  Signer,
+  providers,
+} from "ethers";
+
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { MinterDAExpSettlementV3__factory } from "../generated/contracts/factories/MinterDAExpSettlementV3__factory";
+import { SettlementExpLib__factory } from "../generated/contracts/factories/SettlementExpLib__factory";
+import {
+  getExcessSettlementFunds,
+  getSettlementPriceSafe,
+  isFinalSettlementPrice,
+  projectMaxHasBeenInvokedSafe,
+} from "./settlement";
+
+/**
+ * Settlement auction state of a project, as reported to its purchasers.
+ */
+export type SettlementAuctionStatus = {
+  /** price of the most recent purchase, from `getProjectLatestPurchasePrice` */
+  latestPurchasePrice: BigNumber;
+  /** purchases that settle at the final price, from `getNumSettleableInvocations` */
+  numSettleableInvocations: number;
+  /** price purchases currently settle at, with `getPriceSafe` semantics */
+  settlementPrice: BigNumber;
+  /** true once the settlement price can no longer decrease */
+  isFinalPrice: boolean;
+};
+
+/**
+ * A wallet's purchases on a settlement auction.
+ */
+export type SettlementReceipt = {
+  minterAddress: string;
+  projectId: BigNumber;
+  coreContract: string;
+  numPurchased: number;
+  /** funds posted and not yet reclaimed, in wei */
+  netPosted: BigNumber;
+  /** funds a reclaim would send now, from `getProjectExcessSettlementFunds` */
+  reclaimableFunds: BigNumber;
+  /** excess funds at the current settlement price, in wei */
+  rebate: BigNumber;
+  auction: SettlementAuctionStatus;
+};
+
+export type SettlementReceiptKey = Pick<
+  SettlementReceipt,
+  "minterAddress" | "projectId" | "coreContract"
+>;
+
+const getLatestBlockTimestamp = async (
+  signerOrProvider: Signer | providers.Provider
+): Promise<number> => {
+  const provider = Signer.isSigner(signerOrProvider)
+    ? (signerOrProvider.provider as providers.Provider)
+    : signerOrProvider;
+  return (await provider.getBlock("latest")).timestamp;
+};
+
+/**
+ * @summary Get a project's settlement auction status.
+ * @param minterAddress address of a `MinterDAExpSettlementV3`
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param timestamp unix timestamp to price at, defaults to the latest block
+ * @returns latest purchase price, settleable invocations, current settlement
+ * price and whether it is final
+ */
+export async function getSettlementAuctionStatus(
+  minterAddress: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  timestamp?: number
+): Promise<SettlementAuctionStatus> {
+  const minter = MinterDAExpSettlementV3__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const core = IGenArt721CoreContractV3_Base__factory.connect(
+    coreContract,
+    signerOrProvider
+  );
+  const [
+    auctionParameters,
+    latestPurchasePrice,
+    numSettleableInvocations,
+    localMaxInvocations,
+    projectStateData,
+    pricedAt,
+  ] = await Promise.all([
+    minter.projectAuctionParameters(projectId, coreContract),
+    minter.getProjectLatestPurchasePrice(projectId, coreContract),
+    minter.getNumSettleableInvocations(projectId, coreContract),
+    minter.projectMaxInvocations(projectId, coreContract),
+    core.projectStateData(projectId),
+    timestamp ?? getLatestBlockTimestamp(signerOrProvider),
+  ]);
+  const state = {
+    auction: auctionParameters,
+    latestPurchasePrice,
+    maxHasBeenInvoked: projectMaxHasBeenInvokedSafe({
+      coreInvocations: projectStateData.invocations,
+      coreMaxInvocations: projectStateData.maxInvocations,
+      localMaxInvocations,
+    }),
+  };
+  return {
+    latestPurchasePrice,
+    numSettleableInvocations: numSettleableInvocations.toNumber(),
+    settlementPrice: getSettlementPriceSafe(state, pricedAt),
+    isFinalPrice: isFinalSettlementPrice(
+      state,
+      numSettleableInvocations.toNumber(),
+      pricedAt
+    ),
+  };
+}
+
+/**
+ * @summary List a wallet's settlement receipts on a settlement minter.
+ * @description Receipts are discovered from the minter's `ReceiptUpdated`
+ * events, the latest of which holds a receipt's current state.
+ * @param minterAddress address of a `MinterDAExpSettlementV3`
+ * @param signerOrProvider ethers signer or provider
+ * @param walletAddress purchaser wallet
+ * @returns one receipt per project the wallet purchased on
+ */
+export async function getSettlementReceipts(
+  minterAddress: string,
+  signerOrProvider: Signer | providers.Provider,
+  walletAddress: string
+): Promise<SettlementReceipt[]> {
+  const settlementEvents = SettlementExpLib__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const receiptEvents = await settlementEvents.queryFilter(
+    settlementEvents.filters.ReceiptUpdated(walletAddress)
+  );
+  // @dev events are returned in chain order, so later updates overwrite
+  const latestReceipts = new Map(
+    receiptEvents.map(({ args }) => [
+      `${args.coreContract.toLowerCase()}-${args.projectId.toString()}`,
+      args,
+    ])
+  );
+  if (latestReceipts.size === 0) {
+    return [];
+  }
+
+  const minter = MinterDAExpSettlementV3__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const timestamp = await getLatestBlockTimestamp(signerOrProvider);
+  return Promise.all(
+    Array.from(latestReceipts.values()).map(
+      async ({ projectId, coreContract, numPurchased, netPosted }) => {
+        const [reclaimableFunds, auction] = await Promise.all([
+          minter.getProjectExcessSettlementFunds(
+            projectId,
+            coreContract,
+            walletAddress
+          ),
+          getSettlementAuctionStatus(
+            minterAddress,
+            signerOrProvider,
+            projectId,
+            coreContract,
+            timestamp
+          ),
+        ]);
+        return {
+          minterAddress,
+          projectId,
+          coreContract,
+          numPurchased,
+          netPosted,
+          reclaimableFunds,
+          rebate: getExcessSettlementFunds(
+            { netPosted, numPurchased },
+            auction.settlementPrice
+          ),
+          auction,
+        };
+      }
+    )
+  );
+}
+
+/**
+ * @summary List a wallet's settlement receipts across every settlement
+ * minter globally approved on a minter filter.
+ * @param minterFilter the shared minter filter
+ * @param signerOrProvider ethers signer or provider
+ * @param walletAddress purchaser wallet
+ * @returns receipts on all settlement minters
+ */
+export async function getWalletSettlementReceipts(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  walletAddress: string
+): Promise<SettlementReceipt[]> {
+  const minters = await minterFilter.getAllGloballyApprovedMinters();
+  const receipts = await Promise.all(
+    minters
+      .filter(({ minterType }) =>
+        minterType.startsWith("MinterDAExpSettlement")
+      )
+      .map(({ minterAddress }) =>
+        getSettlementReceipts(minterAddress, signerOrProvider, walletAddress)
+      )
+  );
+  return receipts.flat();
+}
+
+/**
+ * @summary Build the transactions that reclaim excess settlement funds.
+ * @description One transaction is built per minter. Receipts on a single
+ * project use `reclaimProjectExcessSettlementFundsTo`, and receipts on
+ * several projects use `reclaimProjectsExcessSettlementFundsTo`.
+ * @param signerOrProvider ethers signer or provider
+ * @param to recipient of the reclaimed funds
+ * @param receipts receipts to reclaim, e.g. from `getSettlementReceipts`
+ * @returns unsigned reclaim transactions
+ */
+export async function populateReclaimTransactions(
+  signerOrProvider: Signer | providers.Provider,
+  to: string,
+  receipts: SettlementReceiptKey[]
+): Promise<PopulatedTransaction[]> {
+  const receiptsByMinter = new Map<string, SettlementReceiptKey[]>();
+  for (const receipt of receipts) {
+    const minterReceipts = receiptsByMinter.get(receipt.minterAddress) ?? [];
+    minterReceipts.push(receipt);
+    receiptsByMinter.set(receipt.minterAddress, minterReceipts);
+  }
+  return Promise.all(
+    Array.from(receiptsByMinter.entries()).map(
+      ([minterAddress, minterReceipts]) => {
+        const minter = MinterDAExpSettlementV3__factory.connect(
+          minterAddress,
+          signerOrProvider
+        );
+        if (minterReceipts.length === 1) {
+          const [{ projectId, coreContract }] = minterReceipts;
+          return minter.populateTransaction.reclaimProjectExcessSettlementFundsTo(
+            to,
+            projectId,
+            coreContract
+          );
+        }
+        return minter.populateTransaction.reclaimProjectsExcessSettlementFundsTo(
+          to,
+          minterReceipts.map(({ projectId }) => projectId),
+          minterReceipts.map(({ coreContract }) => coreContract)
+        );
+      }
+    )
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "@jest/globals";
+import { ethers } from "ethers";
+
+import {
+  getExcessSettlementFunds,
+  getSettlementPriceSafe,
+  isFinalSettlementPrice,
+  projectMaxHasBeenInvokedSafe,
+  NoPurchasesMade,
+  SettlementAuctionState,
+} from "./settlement";
+import { AuctionNotStarted } from "./dutch-auction";
+
+const ONE_ETH = ethers.utils.parseEther("1");
+const START = 1_700_000_000;
+
+const STATE: SettlementAuctionState = {
+  auction: {
+    timestampStart: START,
+    priceDecayHalfLifeSeconds: 60,
+    startPrice: ONE_ETH.mul(4),
+    basePrice: ONE_ETH,
+  },
+  latestPurchasePrice: ONE_ETH.mul(3),
+  maxHasBeenInvoked: false,
+};
+
+describe("projectMaxHasBeenInvokedSafe", () => {
+  it("compares core invocations against the minter's max invocations", () => {
+    expect(
+      projectMaxHasBeenInvokedSafe({
+        coreInvocations: 5,
+        coreMaxInvocations: 10,
+        localMaxInvocations: 5,
+      })
+    ).toBe(true);
+    expect(
+      projectMaxHasBeenInvokedSafe({
+        coreInvocations: 4,
+        coreMaxInvocations: 10,
+        localMaxInvocations: 5,
+      })
+    ).toBe(false);
+  });
+
+  it("defers to the core when the minter's max invocations are stale", () => {
+    expect(
+      projectMaxHasBeenInvokedSafe({
+        coreInvocations: 8,
+        coreMaxInvocations: 8,
+        localMaxInvocations: 10,
+      })
+    ).toBe(true);
+    expect(
+      projectMaxHasBeenInvokedSafe({
+        coreInvocations: 7,
+        coreMaxInvocations: 8,
+        localMaxInvocations: 10,
+      })
+    ).toBe(false);
+  });
+});
+
+describe("getSettlementPriceSafe", () => {
+  it("uses the latest purchase price once sold out", () => {
+    expect(
+      getSettlementPriceSafe({ ...STATE, maxHasBeenInvoked: true }, START + 600)
+    ).toEqual(ONE_ETH.mul(3));
+  });
+
+  it("uses the current auction price before a sellout", () => {
+    expect(getSettlementPriceSafe(STATE, START + 60)).toEqual(ONE_ETH.mul(2));
+  });
+
+  it("reverts like getPriceSafe before the auction starts", () => {
+    expect(() => getSettlementPriceSafe(STATE, START - 1)).toThrowError(
+      AuctionNotStarted
+    );
+  });
+});
+
+describe("isFinalSettlementPrice", () => {
+  it("is final once sold out or at the base price", () => {
+    expect(
+      isFinalSettlementPrice({ ...STATE, maxHasBeenInvoked: true }, 3, START)
+    ).toBe(true);
+    expect(isFinalSettlementPrice(STATE, 3, START + 120)).toBe(true);
+  });
+
+  it("is not final while the price may still decay", () => {
+    expect(isFinalSettlementPrice(STATE, 3, START + 60)).toBe(false);
+  });
+
+  it("is not final without settleable purchases", () => {
+    expect(isFinalSettlementPrice(STATE, 0, START + 120)).toBe(false);
+  });
+});
+
+describe("getExcessSettlementFunds", () => {
+  it("subtracts the settled cost of each purchase", () => {
+    expect(
+      getExcessSettlementFunds(
+        { netPosted: ONE_ETH.mul(7), numPurchased: 2 },
+        ONE_ETH.mul(3)
+      )
+    ).toEqual(ONE_ETH);
+  });
+
+  it("reverts like SettlementExpLib without purchases", () => {
+    expect(() =>
+      getExcessSettlementFunds({ netPosted: 0, numPurchased: 0 }, 1)
+    ).toThrowError(NoPurchasesMade);
+  });
+});
+
+describe("settlement errors", () => {
+  it("specifies the name of NoPurchasesMade with an error message", () => {
+    const error = new NoPurchasesMade();
+    expect(error.name).toEqual("NoPurchasesMade");
+    expect(error.message.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,126 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import { DAExpAuction, getPriceExp } from "./dutch-auction";
+
+/**
+ * Settlement state of a project on a `MinterDAExpSettlement` minter.
+ */
+export type SettlementAuctionState = {
+  auction: Omit<DAExpAuction, "type">;
+  /** price of the most recent purchase on the minter, in wei */
+  latestPurchasePrice: BigNumberish;
+  /** up-to-date maxHasBeenInvoked, see `projectMaxHasBeenInvokedSafe` */
+  maxHasBeenInvoked: boolean;
+};
+
+export type InvocationsState = {
+  /** invocations of the project on the core contract */
+  coreInvocations: BigNumberish;
+  /** max invocations of the project on the core contract */
+  coreMaxInvocations: BigNumberish;
+  /** max invocations of the project cached on the minter */
+  localMaxInvocations: BigNumberish;
+};
+
+/**
+ * @summary Error thrown when computing excess settlement funds for a wallet
+ * without purchases on the project.
+ * @description Mirrors the "No purchases made by this address" revert in
+ * `SettlementExpLib`.
+ */
+export class NoPurchasesMade extends Error {
+  constructor() {
+    super("No purchases made by this address");
+    this.name = "NoPurchasesMade";
+  }
+}
+
+/**
+ * @summary Whether a project has reached its max invocations, regardless of
+ * a stale max invocations cache on the minter.
+ * @description Reproduces `MaxInvocationsLib.projectMaxHasBeenInvokedSafe`.
+ * @param invocations core and minter invocation state of the project
+ * @returns true if no more tokens may be minted on the project
+ */
+export const projectMaxHasBeenInvokedSafe = (
+  invocations: InvocationsState
+): boolean => {
+  const coreInvocations = BigNumber.from(invocations.coreInvocations);
+  const coreMaxInvocations = BigNumber.from(invocations.coreMaxInvocations);
+  const localMaxInvocations = BigNumber.from(invocations.localMaxInvocations);
+  if (localMaxInvocations.gt(coreMaxInvocations)) {
+    return coreMaxInvocations.eq(coreInvocations);
+  }
+  return coreInvocations.gte(localMaxInvocations);
+};
+
+/**
+ * @summary Price that purchases on a settlement auction settle at, at
+ * `timestamp`.
+ * @description Reproduces `SettlementExpLib.getPriceSafe`: once the project
+ * has sold out, the latest purchase price is final, otherwise the current
+ * exponential auction price is used.
+ * @dev `getPriceSafe` also returns the latest purchase price once revenues
+ * have been collected. Revenues may only be collected after a sellout or
+ * once the auction reached its base price, which this function already
+ * prices identically.
+ * @param state settlement state of the project
+ * @param timestamp unix timestamp, in seconds
+ * @returns price in wei
+ * @throws AuctionNotConfigured or AuctionNotStarted where `getPriceSafe`
+ * would revert
+ */
+export const getSettlementPriceSafe = (
+  state: SettlementAuctionState,
+  timestamp: number
+): BigNumber => {
+  if (state.maxHasBeenInvoked) {
+    return BigNumber.from(state.latestPurchasePrice);
+  }
+  return getPriceExp(state.auction, timestamp);
+};
+
+/**
+ * @summary Whether a settlement auction's settlement price can no longer
+ * decrease.
+ * @param state settlement state of the project
+ * @param numSettleableInvocations tokens purchased on the minter that settle
+ * at the final price
+ * @param timestamp unix timestamp, in seconds
+ * @returns true if the project has purchases and has either sold out or
+ * reached its base price
+ */
+export const isFinalSettlementPrice = (
+  state: SettlementAuctionState,
+  numSettleableInvocations: number,
+  timestamp: number
+): boolean => {
+  if (numSettleableInvocations === 0) {
+    return false;
+  }
+  return (
+    state.maxHasBeenInvoked ||
+    getSettlementPriceSafe(state, timestamp).eq(state.auction.basePrice)
+  );
+};
+
+/**
+ * @summary Funds posted by a purchaser in excess of what their purchases
+ * settle at.
+ * @description Reproduces `SettlementExpLib.getProjectExcessSettlementFunds`
+ * for an arbitrary settlement price.
+ * @param receipt the purchaser's net funds posted and number of purchases
+ * @param settlementPrice price each purchase settles at, in wei
+ * @returns excess settlement funds, in wei
+ */
+export const getExcessSettlementFunds = (
+  receipt: { netPosted: BigNumberish; numPurchased: number },
+  settlementPrice: BigNumberish
+): BigNumber => {
+  if (receipt.numPurchased <= 0) {
+    throw new NoPurchasesMade();
+  }
+  return BigNumber.from(receipt.netPosted).sub(
+    BigNumber.from(settlementPrice).mul(receipt.numPurchased)
+  );
+};
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "@jest/globals";
+
+import {
+  formatAllowlistImportReport,
+  importAllowlist,
+  InvalidAllowlistFile,
+} from "./allowlist-import";
+import { Allowlist } from "./allowlist";
+
+const ADDRESS_A = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const ADDRESS_B = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+describe("importAllowlist", () => {
+  describe("csv", () => {
+    it("imports a single column of addresses", () => {
+      const { allowlist, report } = importAllowlist(
+        `${ADDRESS_A}\n${ADDRESS_B}\n`,
+        "csv"
+      );
+      expect(allowlist?.addresses).toEqual([ADDRESS_A, ADDRESS_B]);
+      expect(allowlist?.root).toEqual(
+        new Allowlist([ADDRESS_A, ADDRESS_B]).root
+      );
+      expect(report).toEqual({ validCount: 2, blankRows: [3], issues: [] });
+    });
+
+    it("reports invalid, zero and duplicate addresses with their rows", () => {
+      const csv = [
+        ADDRESS_A.toLowerCase(),
+        "",
+        "0x1234",
+        ZERO_ADDRESS,
+        ` "${ADDRESS_A}" `,
+        ADDRESS_B,
+      ].join("\r\n");
+      const { allowlist, report } = importAllowlist(csv, "csv");
+      expect(allowlist?.addresses).toEqual([ADDRESS_A, ADDRESS_B]);
+      expect(report).toEqual({
+        validCount: 2,
+        blankRows: [2],
+        issues: [
+          { row: 3, value: "0x1234", reason: "invalid" },
+          { row: 4, value: ZERO_ADDRESS, reason: "zero" },
+          { row: 5, value: ADDRESS_A, reason: "duplicate", firstRow: 1 },
+        ],
+      });
+    });
+
+    it("uses the address column of a file with a header row", () => {
+      const csv = [
+        "",
+        "name,Wallet Address,notes",
+        `alice,${ADDRESS_A},vip`,
+        `bob,,`,
+        `carol,${ADDRESS_B}`,
+      ].join("\n");
+      const { allowlist, report } = importAllowlist(csv, "csv");
+      expect(allowlist?.addresses).toEqual([ADDRESS_A, ADDRESS_B]);
+      expect(report.blankRows).toEqual([1, 4]);
+    });
+
+    it("reports a first row that is not a recognized header", () => {
+      const { report } = importAllowlist(`name\n${ADDRESS_A}`, "csv");
+      expect(report.issues).toEqual([
+        { row: 1, value: "name", reason: "invalid" },
+      ]);
+    });
+
+    it("returns no allowlist when no address is valid", () => {
+      const { allowlist, report } = importAllowlist("", "csv");
+      expect(allowlist).toBeNull();
+      expect(report.validCount).toEqual(0);
+    });
+  });
+
+  describe("json", () => {
+    it("imports an array of addresses", () => {
+      const { allowlist, report } = importAllowlist(
+        JSON.stringify([ADDRESS_A, " ", 42, ADDRESS_A.toLowerCase()]),
+        "json"
+      );
+      expect(allowlist?.addresses).toEqual([ADDRESS_A]);
+      expect(report).toEqual({
+        validCount: 1,
+        blankRows: [2],
+        issues: [
+          { row: 3, value: "42", reason: "invalid" },
+          {
+            row: 4,
+            value: ADDRESS_A.toLowerCase(),
+            reason: "duplicate",
+            firstRow: 1,
+          },
+        ],
+      });
+    });
+
+    it("imports an array of objects with an address field", () => {
+      const { allowlist, report } = importAllowlist(
+        JSON.stringify([{ address: ADDRESS_A }, { name: "bob" }, null]),
+        "json"
+      );
+      expect(allowlist?.addresses).toEqual([ADDRESS_A]);
+      expect(report.blankRows).toEqual([2]);
+      expect(report.issues).toEqual([
+        { row: 3, value: "null", reason: "invalid" },
+      ]);
+    });
+
+    it("imports a serialized allowlist", () => {
+      const serialized = JSON.stringify(new Allowlist([ADDRESS_A, ADDRESS_B]));
+      expect(importAllowlist(serialized, "json").allowlist?.addresses).toEqual([
+        ADDRESS_A,
+        ADDRESS_B,
+      ]);
+    });
+
+    it("throws for unparseable or unexpected JSON", () => {
+      expect(() => importAllowlist("[", "json")).toThrowError(
+        InvalidAllowlistFile
+      );
+      expect(() => importAllowlist("null", "json")).toThrowError(
+        InvalidAllowlistFile
+      );
+      expect(() => importAllowlist('{"root":"0x"}', "json")).toThrowError(
+        InvalidAllowlistFile
+      );
+    });
+  });
+});
+
+describe("formatAllowlistImportReport", () => {
+  it("summarizes the report with one line per issue", () => {
+    expect(
+      formatAllowlistImportReport({
+        validCount: 1,
+        blankRows: [2],
+        issues: [
+          { row: 3, value: "0x1234", reason: "invalid" },
+          { row: 4, value: ADDRESS_A, reason: "duplicate", firstRow: 1 },
+        ],
+      })
+    ).toEqual(
+      [
+        "1 valid addresses, 2 issues, 1 blank rows",
+        "row 3: invalid address 0x1234",
+        `row 4: duplicate address ${ADDRESS_A} (first seen on row 1)`,
+      ].join("\n")
+    );
+  });
+});
+
+describe("InvalidAllowlistFile", () => {
+  it("specifies the name of the error with an error message", () => {
+    const error = new InvalidAllowlistFile("reason");
+    expect(error.name).toEqual("InvalidAllowlistFile");
+    expect(error.message).toContain("reason");
+  });
+});
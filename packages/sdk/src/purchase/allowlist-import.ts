@@ -0,0 +1,181 @@
+import { constants, utils } from "ethers";
+
+import { Allowlist } from "./allowlist";
+
+export type AllowlistFormat = "csv" | "json";
+
+export type AllowlistIssueReason = "invalid" | "duplicate" | "zero";
+
+/**
+ * An allowlist entry that was left out of the imported allowlist.
+ */
+export type AllowlistIssue = {
+  /** 1-based line of a CSV file, or 1-based index in a JSON array */
+  row: number;
+  /** the entry, as provided */
+  value: string;
+  reason: AllowlistIssueReason;
+  /** row of the first occurrence of a duplicate address */
+  firstRow?: number;
+};
+
+export type AllowlistImportReport = {
+  /** number of distinct valid addresses imported */
+  validCount: number;
+  /** rows without an address, which are skipped */
+  blankRows: number[];
+  issues: AllowlistIssue[];
+};
+
+export type AllowlistImport = {
+  /** the imported allowlist, or null if no valid address was found */
+  allowlist: Allowlist | null;
+  report: AllowlistImportReport;
+};
+
+type AllowlistRow = { row: number; value: string };
+
+/**
+ * @summary Error thrown when an allowlist file cannot be parsed.
+ */
+export class InvalidAllowlistFile extends Error {
+  constructor(reason: string) {
+    super(`Unable to read allowlist file: ${reason}`);
+    this.name = "InvalidAllowlistFile";
+  }
+}
+
+const ADDRESS_HEADER_PATTERN = /address|wallet/i;
+
+const parseCSVCell = (cell: string): string =>
+  cell
+    .trim()
+    .replace(/^"(.*)"$/, "$1")
+    .trim();
+
+/**
+ * @summary Read allowlist entries from a CSV file.
+ * @description Uses the first column, or the column whose header mentions
+ * an address or wallet when the file has a header row.
+ */
+const parseCSV = (text: string): AllowlistRow[] => {
+  const rows = text.split(/\r?\n/).map((line, index) => ({
+    row: index + 1,
+    cells: line.split(",").map(parseCSVCell),
+  }));
+  const firstRow = rows.find(({ cells }) => cells.some((cell) => cell));
+  let column = 0;
+  let headerRow: number | undefined;
+  if (firstRow && !firstRow.cells.some((cell) => utils.isHexString(cell))) {
+    const headerColumn = firstRow.cells.findIndex((cell) =>
+      ADDRESS_HEADER_PATTERN.test(cell)
+    );
+    if (headerColumn >= 0) {
+      column = headerColumn;
+      headerRow = firstRow.row;
+    }
+  }
+  return rows
+    .filter(({ row }) => row !== headerRow)
+    .map(({ row, cells }) => ({ row, value: cells[column] ?? "" }));
+};
+
+/**
+ * @summary Read allowlist entries from a JSON file.
+ * @description Accepts an array of addresses, an array of objects with an
+ * `address` field, or a serialized `Allowlist`.
+ */
+const parseJSON = (text: string): AllowlistRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new InvalidAllowlistFile((error as Error).message);
+  }
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { addresses?: unknown })?.addresses;
+  if (!Array.isArray(entries)) {
+    throw new InvalidAllowlistFile(
+      "expected an array of addresses or an object with an addresses array"
+    );
+  }
+  return entries.map((entry, index) => ({
+    row: index + 1,
+    value: String(
+      typeof entry === "object" && entry !== null
+        ? ((entry as { address?: unknown }).address ?? "")
+        : entry
+    ).trim(),
+  }));
+};
+
+/**
+ * @summary Import an allowlist from a CSV or JSON file.
+ * @description Blank rows are skipped. Invalid, zero and duplicate addresses
+ * are left out of the allowlist and reported with their row numbers. The
+ * imported allowlist's `root` is the merkle root to set on
+ * `MinterSetPriceMerkleV5`.
+ * @param text contents of the file
+ * @param format format of the file
+ * @returns the allowlist of valid addresses and a validation report
+ * @throws InvalidAllowlistFile if a JSON file cannot be parsed
+ */
+export const importAllowlist = (
+  text: string,
+  format: AllowlistFormat
+): AllowlistImport => {
+  const rows = format === "csv" ? parseCSV(text) : parseJSON(text);
+  const firstRows = new Map<string, number>();
+  const report: AllowlistImportReport = {
+    validCount: 0,
+    blankRows: [],
+    issues: [],
+  };
+  for (const { row, value } of rows) {
+    if (!value) {
+      report.blankRows.push(row);
+      continue;
+    }
+    if (!utils.isAddress(value)) {
+      report.issues.push({ row, value, reason: "invalid" });
+      continue;
+    }
+    const address = utils.getAddress(value);
+    if (address === constants.AddressZero) {
+      report.issues.push({ row, value, reason: "zero" });
+      continue;
+    }
+    const firstRow = firstRows.get(address);
+    if (firstRow !== undefined) {
+      report.issues.push({ row, value, reason: "duplicate", firstRow });
+      continue;
+    }
+    firstRows.set(address, row);
+  }
+  report.validCount = firstRows.size;
+  return {
+    allowlist:
+      firstRows.size > 0 ? new Allowlist(Array.from(firstRows.keys())) : null,
+    report,
+  };
+};
+
+/**
+ * @summary Format an allowlist import report for display.
+ * @param report validation report from `importAllowlist`
+ * @returns one line per issue, preceded by a summary line
+ */
+export const formatAllowlistImportReport = (
+  report: AllowlistImportReport
+): string => {
+  const lines = [
+    `${report.validCount} valid addresses, ${report.issues.length} issues, ${report.blankRows.length} blank rows`,
+    ...report.issues.map(({ row, value, reason, firstRow }) =>
+      reason === "duplicate"
+        ? `row ${row}: duplicate address ${value} (first seen on row ${firstRow})`
+        : `row ${row}: ${reason} address ${value}`
+    ),
+  ];
+  return lines.join("\n");
+};
@@ -1,7 +1,15 @@
 import { describe, it, expect } from "@jest/globals";
+import { utils } from "ethers";
+
 import {
+  generateAllowlistMerkleProof,
   generateUserMerkleProof,
+  hashAddress,
+  Allowlist,
   AllowlistEntryDoesNotExist,
+  AllowlistRootMismatch,
+  EmptyAllowlist,
+  InvalidAllowlistAddress,
 } from "./allowlist";
 
 const ALLOWLIST = [
@@ -34,12 +42,141 @@ describe("generateUserMerkleProof", () => {
       );
     }).toThrowError(AllowlistEntryDoesNotExist);
   });
+
+  it("should build the tree from the addresses exactly as provided", () => {
+    const withDuplicate = [...ALLOWLIST, ALLOWLIST[1]];
+    expect(generateUserMerkleProof(withDuplicate, ALLOWLIST[0])).not.toEqual(
+      generateUserMerkleProof(ALLOWLIST, ALLOWLIST[0])
+    );
+  });
+
+  it("should find a user regardless of address letter case", () => {
+    const mixedCase = "0x81C41d4405BD22a2012830870a10e26d3f740A31";
+    expect(generateUserMerkleProof(ALLOWLIST, mixedCase)).toEqual(
+      generateUserMerkleProof(ALLOWLIST, ALLOWLIST[0])
+    );
+    expect(
+      generateUserMerkleProof(
+        ALLOWLIST.map((address) => address.toLowerCase()),
+        ALLOWLIST[0]
+      )
+    ).toEqual(generateUserMerkleProof(ALLOWLIST, ALLOWLIST[0]));
+  });
+});
+
+describe("generateAllowlistMerkleProof", () => {
+  it("should find a user regardless of address letter case", () => {
+    expect(
+      generateAllowlistMerkleProof(ALLOWLIST, ALLOWLIST[0].toLowerCase())
+    ).toEqual(generateUserMerkleProof(ALLOWLIST, ALLOWLIST[0]));
+  });
+
+  it("should deduplicate addresses", () => {
+    expect(
+      generateAllowlistMerkleProof([...ALLOWLIST, ALLOWLIST[1]], ALLOWLIST[0])
+    ).toEqual(generateUserMerkleProof(ALLOWLIST, ALLOWLIST[0]));
+  });
+
+  it("should raise an error for invalid allowlists", () => {
+    expect(() => generateAllowlistMerkleProof([], ALLOWLIST[0])).toThrowError(
+      EmptyAllowlist
+    );
+    expect(() =>
+      generateAllowlistMerkleProof(["not an address"], ALLOWLIST[0])
+    ).toThrowError(InvalidAllowlistAddress);
+  });
+});
+
+describe("hashAddress", () => {
+  it("hashes the packed address like MerkleLib", () => {
+    expect(hashAddress(ALLOWLIST[0])).toEqual(
+      utils.keccak256(ALLOWLIST[0].toLowerCase())
+    );
+  });
+});
+
+describe("Allowlist", () => {
+  const allowlist = new Allowlist(ALLOWLIST);
+
+  it("has the root of the allowlisted addresses' merkle tree", () => {
+    expect(allowlist.root).toEqual(
+      "0xd4f3134532a4ff6f26309cbf9691cbb50bf5d4d1a95d6b9af211b7799bd8a2c4"
+    );
+  });
+
+  it("normalizes and deduplicates addresses", () => {
+    const mixedCase = new Allowlist([
+      ...ALLOWLIST.map((address) => address.toLowerCase()),
+      ALLOWLIST[0].toUpperCase().replace("0X", "0x"),
+      ALLOWLIST[1],
+    ]);
+    expect(mixedCase.addresses).toEqual(ALLOWLIST);
+    expect(mixedCase.root).toEqual(allowlist.root);
+  });
+
+  it("throws for invalid or missing addresses", () => {
+    expect(() => new Allowlist(["0x1234"])).toThrowError(
+      InvalidAllowlistAddress
+    );
+    expect(() => new Allowlist([])).toThrowError(EmptyAllowlist);
+  });
+
+  it("checks membership in any letter case", () => {
+    expect(allowlist.includes(ALLOWLIST[2].toLowerCase())).toBe(true);
+    expect(
+      allowlist.includes("0xE523cCE52746962e4d2FB181E59b3A5DcEB65B44")
+    ).toBe(false);
+    expect(allowlist.includes("not an address")).toBe(false);
+  });
+
+  it("generates proofs that verify against its root", () => {
+    for (const address of ALLOWLIST) {
+      expect(allowlist.verify(address, allowlist.getProof(address))).toBe(true);
+    }
+    expect(allowlist.getProof(ALLOWLIST[0])).toEqual(
+      generateUserMerkleProof(ALLOWLIST, ALLOWLIST[0])
+    );
+  });
+
+  it("rejects proofs for other addresses", () => {
+    expect(
+      allowlist.verify(ALLOWLIST[1], allowlist.getProof(ALLOWLIST[0]))
+    ).toBe(false);
+    expect(allowlist.verify("0x1234", allowlist.getProof(ALLOWLIST[0]))).toBe(
+      false
+    );
+    expect(
+      allowlist.verify("not an address", allowlist.getProof(ALLOWLIST[0]))
+    ).toBe(false);
+    expect(() =>
+      allowlist.getProof("0xE523cCE52746962e4d2FB181E59b3A5DcEB65B44")
+    ).toThrowError(AllowlistEntryDoesNotExist);
+  });
+
+  it("round trips through JSON", () => {
+    const json = JSON.parse(JSON.stringify(allowlist));
+    expect(json).toEqual({ root: allowlist.root, addresses: ALLOWLIST });
+    expect(Allowlist.fromJSON(json).root).toEqual(allowlist.root);
+  });
+
+  it("rejects serialized allowlists with a mismatched root", () => {
+    expect(() =>
+      Allowlist.fromJSON({
+        root: allowlist.root,
+        addresses: ALLOWLIST.slice(1),
+      })
+    ).toThrowError(AllowlistRootMismatch);
+  });
 });
 
-describe("AllowlistEntryDoesNotExist", () => {
-  it("specifies the name of the error with an error message", () => {
-    const error = new AllowlistEntryDoesNotExist();
-    expect(error.name).toEqual("AllowlistEntryDoesNotExist");
+describe("allowlist errors", () => {
+  it.each([
+    new AllowlistEntryDoesNotExist(),
+    new InvalidAllowlistAddress("0x1234"),
+    new EmptyAllowlist(),
+    new AllowlistRootMismatch("0x01", "0x02"),
+  ])("specifies the name of $name with an error message", (error) => {
+    expect(error.name).toEqual(error.constructor.name);
     expect(error.message.length).toBeGreaterThan(0);
   });
 });
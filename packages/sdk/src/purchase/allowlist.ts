@@ -1,5 +1,5 @@
 import { MerkleTree } from "merkletreejs";
-import { keccak256, solidityKeccak256 } from "ethers/lib/utils";
+import { utils } from "ethers";
 
 /**
  * @summary Error thrown when a user is not in the provided allowlist.
@@ -15,10 +15,183 @@ export class AllowlistEntryDoesNotExist extends Error {
   }
 }
 
+/**
+ * @summary Error thrown when an allowlist entry is not a valid address.
+ */
+export class InvalidAllowlistAddress extends Error {
+  constructor(address: string) {
+    super(`Allowlist entry ${address} is not a valid address.`);
+    this.name = "InvalidAllowlistAddress";
+  }
+}
+
+/**
+ * @summary Error thrown when creating an allowlist without any addresses.
+ * @description A merkle tree without leaves has no root that could be
+ * configured on a minter.
+ */
+export class EmptyAllowlist extends Error {
+  constructor() {
+    super("An allowlist must contain at least one address.");
+    this.name = "EmptyAllowlist";
+  }
+}
+
+/**
+ * @summary Error thrown when a serialized allowlist's root does not match
+ * the root of its addresses.
+ */
+export class AllowlistRootMismatch extends Error {
+  constructor(expectedRoot: string, actualRoot: string) {
+    super(
+      `Serialized allowlist root ${expectedRoot} does not match the root of its addresses, ${actualRoot}.`
+    );
+    this.name = "AllowlistRootMismatch";
+  }
+}
+
+/**
+ * JSON serialization of an `Allowlist`.
+ */
+export type AllowlistJSON = {
+  /** merkle root, as passed to `updateMerkleRoot` */
+  root: string;
+  /** checksummed, deduplicated addresses */
+  addresses: string[];
+};
+
+/**
+ * @summary Hash an address into a merkle leaf.
+ * @description Matches `MerkleLib.hashAddress`.
+ * @param address wallet address
+ * @returns keccak256 hash of the packed address
+ */
+export const hashAddress = (address: string): string =>
+  utils.solidityKeccak256(["address"], [address]);
+
+/**
+ * @summary Merkle allowlist for a project on a merkle minter.
+ * @description Addresses are checksummed and deduplicated, and the merkle
+ * tree is built once, when the allowlist is created. Its root may be passed
+ * straight to a merkle minter's `updateMerkleRoot`.
+ */
+export class Allowlist {
+  /** checksummed, deduplicated addresses, in the order first provided */
+  readonly addresses: string[];
+  /** merkle root of the allowlist */
+  readonly root: string;
+  private readonly addressSet: Set<string>;
+  private readonly tree: MerkleTree;
+
+  /**
+   * @param addresses allowlisted addresses, in any letter case
+   * @throws InvalidAllowlistAddress if any entry is not a valid address
+   * @throws EmptyAllowlist if no addresses are provided
+   */
+  constructor(addresses: string[]) {
+    this.addressSet = new Set();
+    this.addresses = [];
+    for (const address of addresses) {
+      const checksummed = Allowlist.normalize(address);
+      if (!this.addressSet.has(checksummed)) {
+        this.addressSet.add(checksummed);
+        this.addresses.push(checksummed);
+      }
+    }
+    if (this.addresses.length === 0) {
+      throw new EmptyAllowlist();
+    }
+    this.tree = new MerkleTree(
+      this.addresses.map(hashAddress),
+      utils.keccak256,
+      {
+        sortPairs: true,
+      }
+    );
+    this.root = this.tree.getHexRoot();
+  }
+
+  /**
+   * @summary Recreate an allowlist from its JSON serialization.
+   * @param json serialized allowlist
+   * @returns the allowlist
+   * @throws AllowlistRootMismatch if the serialized root does not match the
+   * root of the serialized addresses
+   */
+  static fromJSON(json: AllowlistJSON): Allowlist {
+    const allowlist = new Allowlist(json.addresses);
+    if (allowlist.root !== json.root) {
+      throw new AllowlistRootMismatch(json.root, allowlist.root);
+    }
+    return allowlist;
+  }
+
+  private static normalize(address: string): string {
+    try {
+      return utils.getAddress(address);
+    } catch {
+      throw new InvalidAllowlistAddress(address);
+    }
+  }
+
+  /**
+   * @summary Whether an address is on the allowlist, in any letter case.
+   * @param address wallet address
+   * @returns true if the address is allowlisted
+   */
+  includes(address: string): boolean {
+    try {
+      return this.addressSet.has(Allowlist.normalize(address));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @summary Get the merkle proof for an allowlisted address.
+   * @param address wallet address, in any letter case
+   * @returns the merkle proof, which is empty for a single-entry allowlist
+   * @throws AllowlistEntryDoesNotExist if the address is not allowlisted
+   */
+  getProof(address: string): string[] {
+    if (!this.includes(address)) {
+      throw new AllowlistEntryDoesNotExist();
+    }
+    return this.tree.getHexProof(hashAddress(address));
+  }
+
+  /**
+   * @summary Verify a merkle proof against the allowlist's root.
+   * @description Matches `MerkleLib.verifyAddress`.
+   * @param address wallet address
+   * @param proof merkle proof
+   * @returns true if the proof is valid for the address, false if it is not
+   * or the address is malformed
+   */
+  verify(address: string, proof: string[]): boolean {
+    try {
+      return this.tree.verify(proof, hashAddress(address), this.root);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @returns the allowlist's root and addresses, for `JSON.stringify`
+   */
+  toJSON(): AllowlistJSON {
+    return { root: this.root, addresses: this.addresses };
+  }
+}
+
 /**
  * @summary Generate a merkle proof for a user.
  * @description This function is used to generate a merkle proof for a user. This proof
  * is used to verify that the user is in the allowlist for a given project.
+ * The merkle tree is built from `addresses` exactly as provided, so proofs
+ * match roots built from the same raw list, duplicates included. The user is
+ * found in any letter case. Use
+ * `generateAllowlistMerkleProof` for checksummed, deduplicated allowlists.
  * @param addresses the list of addresses in the allowlist
  * @param userAddress the user's wallet address
  * @returns the merkle proof for the user
@@ -27,17 +200,39 @@ export const generateUserMerkleProof = (
   addresses: string[],
   userAddress: string
 ): string[] => {
-  if (!addresses.includes(userAddress)) {
+  // @dev leaves hash addresses in any letter case alike, so membership is
+  // checked in any letter case too
+  const user = userAddress.toLowerCase();
+  if (!addresses.some((address) => address.toLowerCase() === user)) {
     throw new AllowlistEntryDoesNotExist();
   }
 
   const merkleTree = new MerkleTree(
-    addresses.map((addr) => solidityKeccak256(["address"], [addr])),
-    keccak256,
+    addresses.map(hashAddress),
+    utils.keccak256,
     {
       sortPairs: true,
     }
   );
 
-  return merkleTree.getHexProof(solidityKeccak256(["address"], [userAddress]));
+  return merkleTree.getHexProof(hashAddress(userAddress));
+};
+
+/**
+ * @summary Generate a merkle proof for a user of a validated allowlist.
+ * @description Builds an `Allowlist` from `addresses`, which checksums and
+ * deduplicates them, and finds the user in any letter case. Prefer reusing
+ * an `Allowlist` when generating several proofs.
+ * @param addresses the list of addresses in the allowlist, in any letter case
+ * @param userAddress the user's wallet address, in any letter case
+ * @returns the merkle proof for the user
+ * @throws InvalidAllowlistAddress if any entry is not a valid address
+ * @throws EmptyAllowlist if no addresses are provided
+ * @throws AllowlistEntryDoesNotExist if the user is not allowlisted
+ */
+export const generateAllowlistMerkleProof = (
+  addresses: string[],
+  userAddress: string
+): string[] => {
+  return new Allowlist(addresses).getProof(userAddress);
 };
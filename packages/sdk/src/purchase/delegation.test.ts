@@ -1,17 +1,74 @@
 import { describe, it, expect } from "@jest/globals";
 
 import {
+  canActAsVaultFor,
+  canActAsVaultForAny,
+  delegationCovers,
   getDelegateVaults,
   getDelegationRegistryContract,
+  getDelegations,
+  getMergedDelegations,
+  getNetworkDelegationProviders,
+  resolveDelegationRegistry,
+  Delegation,
+  DelegationProvider,
+  DelegationRegistryV1Provider,
+  DelegationRegistryV2Provider,
   DELEGATION_REGISTRY,
 } from "./delegation";
 
-import { ethers } from "ethers";
+import { BigNumber, ethers } from "ethers";
+import { IDelegateRegistry__factory } from "../generated/contracts/factories/IDelegateRegistry__factory";
 import { IDelegationRegistry__factory } from "../generated/contracts/factories/IDelegationRegistry__factory";
 
 const DELEGATE_TEST_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
 const FAKE_VAULT_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
 const FAKE_VAULT_ADDRESS_2 = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const V2_REGISTRY = "0x00000000000000447e69651d841bD8D104Bed493";
+const RIGHTS = ethers.utils.formatBytes32String("mint");
+const OTHER_CORE_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+
+const registryDelegation = (
+  type_: number,
+  vault: string,
+  contract_: string = ethers.constants.AddressZero,
+  tokenId = 0
+) => ({
+  type_,
+  vault,
+  delegate: DELEGATE_TEST_ADDRESS,
+  contract_,
+  tokenId: BigNumber.from(tokenId),
+});
+
+const delegation = (
+  type: Delegation["type"],
+  contract: string = ethers.constants.AddressZero,
+  tokenId = 0
+): Delegation => ({
+  registry: "v1",
+  type,
+  vault: FAKE_VAULT_ADDRESS,
+  delegate: DELEGATE_TEST_ADDRESS,
+  contract,
+  tokenId: BigNumber.from(tokenId),
+  rights: ethers.constants.HashZero,
+});
+
+const registryV2Delegation = (
+  type_: number,
+  from: string,
+  rights: string = ethers.constants.HashZero
+) => ({
+  type_,
+  to: DELEGATE_TEST_ADDRESS,
+  from,
+  rights,
+  contract_: ethers.constants.AddressZero,
+  tokenId: BigNumber.from(0),
+  amount: BigNumber.from(0),
+});
 
 describe("getDelegationRegistryContract", () => {
   it("should get the delegation registry contract", async () => {
@@ -30,10 +87,55 @@ describe("getDelegationRegistryContract", () => {
   });
 });
 
+describe("resolveDelegationRegistry", () => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(
+    undefined,
+    "sepolia"
+  );
+
+  it("resolves the registry of a provider's network", async () => {
+    expect(await resolveDelegationRegistry(provider)).toEqual(
+      "0x00000000000076A84feF008CDAbe6409d2FE638B"
+    );
+  });
+
+  it("resolves the registry of a signer's network", async () => {
+    const signer = new ethers.VoidSigner(DELEGATE_TEST_ADDRESS, provider);
+    expect(await resolveDelegationRegistry(signer)).toEqual(
+      "0x00000000000076A84feF008CDAbe6409d2FE638B"
+    );
+  });
+
+  it("queries the registry of the provider's network", async () => {
+    const mockConnect = jest.fn().mockReturnValue({
+      getDelegationsByDelegate: async () => [],
+    });
+    IDelegationRegistry__factory.connect = mockConnect;
+    await getDelegations(provider, DELEGATE_TEST_ADDRESS);
+    expect(mockConnect).toBeCalledWith(
+      "0x00000000000076A84feF008CDAbe6409d2FE638B",
+      provider
+    );
+  });
+
+  it("throws for a chain without a known registry", async () => {
+    const unknownProvider = new ethers.providers.StaticJsonRpcProvider(
+      undefined,
+      1337
+    );
+    await expect(
+      getDelegations(unknownProvider, DELEGATE_TEST_ADDRESS)
+    ).rejects.toThrowError("No delegation registry found for chain ID 1337");
+  });
+});
+
 describe("getDelegateVault", () => {
   it("should return the vault address when the user has delegated", async () => {
     const mockConnect = jest.fn();
-    const provider = new ethers.providers.JsonRpcProvider();
+    const provider = new ethers.providers.StaticJsonRpcProvider(
+      undefined,
+      "sepolia"
+    );
     mockConnect.mockReturnValueOnce({
       getDelegationsByDelegate: async () => [{ vault: FAKE_VAULT_ADDRESS }],
     });
@@ -44,7 +146,10 @@ describe("getDelegateVault", () => {
 
   it("returns 2 vaults when the user is a delegate for 2 vaults", async () => {
     const mockConnect = jest.fn();
-    const provider = new ethers.providers.JsonRpcProvider();
+    const provider = new ethers.providers.StaticJsonRpcProvider(
+      undefined,
+      "sepolia"
+    );
     mockConnect.mockReturnValueOnce({
       getDelegationsByDelegate: async () => [
         { vault: FAKE_VAULT_ADDRESS },
@@ -60,7 +165,10 @@ describe("getDelegateVault", () => {
 
   it("should return empty array when the user has not delegated", async () => {
     const mockConnect = jest.fn();
-    const provider = new ethers.providers.JsonRpcProvider();
+    const provider = new ethers.providers.StaticJsonRpcProvider(
+      undefined,
+      "sepolia"
+    );
     mockConnect.mockReturnValueOnce({
       getDelegationsByDelegate: async () => [],
     });
@@ -69,3 +177,321 @@ describe("getDelegateVault", () => {
     expect(vaults).toEqual([]);
   });
 });
+
+describe("getDelegations", () => {
+  it("returns the type, contract and token ID of each delegation", async () => {
+    IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+      getDelegationsByDelegate: async () => [
+        registryDelegation(1, FAKE_VAULT_ADDRESS),
+        registryDelegation(3, FAKE_VAULT_ADDRESS_2, CORE_ADDRESS, 7),
+      ],
+    });
+    const provider = new ethers.providers.StaticJsonRpcProvider(
+      undefined,
+      "sepolia"
+    );
+    expect(await getDelegations(provider, DELEGATE_TEST_ADDRESS)).toEqual([
+      delegation("ALL"),
+      {
+        ...delegation("TOKEN", CORE_ADDRESS, 7),
+        vault: FAKE_VAULT_ADDRESS_2,
+      },
+    ]);
+  });
+});
+
+describe("getDelegateVaults with a scope", () => {
+  it("returns each vault whose delegation covers the scope once", async () => {
+    IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+      getDelegationsByDelegate: async () => [
+        registryDelegation(2, FAKE_VAULT_ADDRESS, CORE_ADDRESS),
+        registryDelegation(1, FAKE_VAULT_ADDRESS),
+        registryDelegation(2, FAKE_VAULT_ADDRESS_2, OTHER_CORE_ADDRESS),
+      ],
+    });
+    const provider = new ethers.providers.StaticJsonRpcProvider(
+      undefined,
+      "sepolia"
+    );
+    expect(
+      await getDelegateVaults(provider, DELEGATE_TEST_ADDRESS, {
+        contract: CORE_ADDRESS,
+      })
+    ).toEqual([FAKE_VAULT_ADDRESS]);
+  });
+});
+
+describe("delegationCovers", () => {
+  it("covers any scope with an ALL delegation", () => {
+    expect(delegationCovers(delegation("ALL"))).toBe(true);
+    expect(
+      delegationCovers(delegation("ALL"), {
+        contract: CORE_ADDRESS,
+        tokenId: 1,
+      })
+    ).toBe(true);
+  });
+
+  it("covers a contract and its tokens with a CONTRACT delegation", () => {
+    const contractDelegation = delegation("CONTRACT", CORE_ADDRESS);
+    expect(delegationCovers(contractDelegation)).toBe(false);
+    expect(
+      delegationCovers(contractDelegation, {
+        contract: CORE_ADDRESS.toLowerCase(),
+      })
+    ).toBe(true);
+    expect(
+      delegationCovers(contractDelegation, {
+        contract: CORE_ADDRESS,
+        tokenId: 1,
+      })
+    ).toBe(true);
+    expect(
+      delegationCovers(contractDelegation, { contract: OTHER_CORE_ADDRESS })
+    ).toBe(false);
+  });
+
+  it("covers only its token with a TOKEN delegation", () => {
+    const tokenDelegation = delegation("TOKEN", CORE_ADDRESS, 7);
+    expect(delegationCovers(tokenDelegation, { contract: CORE_ADDRESS })).toBe(
+      false
+    );
+    expect(
+      delegationCovers(tokenDelegation, { contract: CORE_ADDRESS, tokenId: 7 })
+    ).toBe(true);
+    expect(
+      delegationCovers(tokenDelegation, { contract: CORE_ADDRESS, tokenId: 8 })
+    ).toBe(false);
+  });
+
+  it("covers nothing with a delegation limited to v2 rights", () => {
+    expect(
+      delegationCovers({ ...delegation("ALL"), registry: "v2", rights: RIGHTS })
+    ).toBe(false);
+  });
+
+  it("covers nothing with a NONE delegation", () => {
+    expect(
+      delegationCovers(delegation("NONE"), { contract: CORE_ADDRESS })
+    ).toBe(false);
+  });
+});
+
+describe("canActAsVaultFor", () => {
+  const mockRegistry = () => {
+    const registry = {
+      checkDelegateForAll: jest.fn(async () => true),
+      checkDelegateForContract: jest.fn(async () => false),
+      checkDelegateForToken: jest.fn(async () => true),
+    };
+    IDelegationRegistry__factory.connect = jest.fn().mockReturnValue(registry);
+    return registry;
+  };
+  const provider = new ethers.providers.StaticJsonRpcProvider(
+    undefined,
+    "sepolia"
+  );
+
+  it("checks an ALL delegation without a scope", async () => {
+    const registry = mockRegistry();
+    expect(
+      await canActAsVaultFor(
+        provider,
+        DELEGATE_TEST_ADDRESS,
+        FAKE_VAULT_ADDRESS
+      )
+    ).toBe(true);
+    expect(registry.checkDelegateForAll).toBeCalledWith(
+      DELEGATE_TEST_ADDRESS,
+      FAKE_VAULT_ADDRESS
+    );
+  });
+
+  it("checks a contract delegation, as merkle minters do", async () => {
+    const registry = mockRegistry();
+    expect(
+      await canActAsVaultFor(
+        provider,
+        DELEGATE_TEST_ADDRESS,
+        FAKE_VAULT_ADDRESS,
+        { contract: CORE_ADDRESS }
+      )
+    ).toBe(false);
+    expect(registry.checkDelegateForContract).toBeCalledWith(
+      DELEGATE_TEST_ADDRESS,
+      FAKE_VAULT_ADDRESS,
+      CORE_ADDRESS
+    );
+  });
+
+  it("checks a token delegation, as holder minters do", async () => {
+    const registry = mockRegistry();
+    expect(
+      await canActAsVaultFor(
+        provider,
+        DELEGATE_TEST_ADDRESS,
+        FAKE_VAULT_ADDRESS,
+        { contract: CORE_ADDRESS, tokenId: 0 }
+      )
+    ).toBe(true);
+    expect(registry.checkDelegateForToken).toBeCalledWith(
+      DELEGATE_TEST_ADDRESS,
+      FAKE_VAULT_ADDRESS,
+      CORE_ADDRESS,
+      0
+    );
+  });
+});
+
+describe("DelegationRegistryV2Provider", () => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(
+    undefined,
+    "sepolia"
+  );
+
+  it("reads incoming delegations from the v2 registry", async () => {
+    const mockConnect = jest.fn().mockReturnValue({
+      getIncomingDelegations: async () => [
+        registryV2Delegation(1, FAKE_VAULT_ADDRESS),
+        registryV2Delegation(4, FAKE_VAULT_ADDRESS_2, RIGHTS),
+      ],
+    });
+    IDelegateRegistry__factory.connect = mockConnect;
+    const v2 = new DelegationRegistryV2Provider(V2_REGISTRY, provider);
+    expect(await v2.getDelegations(DELEGATE_TEST_ADDRESS)).toEqual([
+      { ...delegation("ALL"), registry: "v2" },
+      {
+        ...delegation("ERC20"),
+        registry: "v2",
+        vault: FAKE_VAULT_ADDRESS_2,
+        rights: RIGHTS,
+      },
+    ]);
+    expect(mockConnect).toBeCalledWith(V2_REGISTRY, provider);
+  });
+
+  it("checks full delegations at the scope's level", async () => {
+    const registry = {
+      checkDelegateForAll: jest.fn(async () => true),
+      checkDelegateForContract: jest.fn(async () => false),
+      checkDelegateForERC721: jest.fn(async () => true),
+    };
+    IDelegateRegistry__factory.connect = jest.fn().mockReturnValue(registry);
+    const v2 = new DelegationRegistryV2Provider(V2_REGISTRY, provider);
+    const { HashZero } = ethers.constants;
+
+    expect(
+      await v2.canActAsVaultFor(DELEGATE_TEST_ADDRESS, FAKE_VAULT_ADDRESS)
+    ).toBe(true);
+    expect(registry.checkDelegateForAll).toBeCalledWith(
+      DELEGATE_TEST_ADDRESS,
+      FAKE_VAULT_ADDRESS,
+      HashZero
+    );
+    expect(
+      await v2.canActAsVaultFor(DELEGATE_TEST_ADDRESS, FAKE_VAULT_ADDRESS, {
+        contract: CORE_ADDRESS,
+      })
+    ).toBe(false);
+    expect(registry.checkDelegateForContract).toBeCalledWith(
+      DELEGATE_TEST_ADDRESS,
+      FAKE_VAULT_ADDRESS,
+      CORE_ADDRESS,
+      HashZero
+    );
+    expect(
+      await v2.canActAsVaultFor(DELEGATE_TEST_ADDRESS, FAKE_VAULT_ADDRESS, {
+        contract: CORE_ADDRESS,
+        tokenId: 7,
+      })
+    ).toBe(true);
+    expect(registry.checkDelegateForERC721).toBeCalledWith(
+      DELEGATE_TEST_ADDRESS,
+      FAKE_VAULT_ADDRESS,
+      CORE_ADDRESS,
+      7,
+      HashZero
+    );
+  });
+});
+
+describe("getNetworkDelegationProviders", () => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(
+    undefined,
+    "sepolia"
+  );
+
+  it("returns a backend per supported registry", () => {
+    IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({});
+    IDelegateRegistry__factory.connect = jest.fn().mockReturnValue({});
+    const delegationProviders = getNetworkDelegationProviders(
+      {
+        delegationRegistry: DELEGATION_REGISTRY,
+        delegationRegistryV2: V2_REGISTRY,
+      },
+      provider
+    );
+    expect(delegationProviders[0]).toBeInstanceOf(DelegationRegistryV1Provider);
+    expect(delegationProviders[1]).toBeInstanceOf(DelegationRegistryV2Provider);
+    expect(
+      delegationProviders.map(({ version, address }) => [version, address])
+    ).toEqual([
+      ["v1", DELEGATION_REGISTRY],
+      ["v2", V2_REGISTRY],
+    ]);
+  });
+
+  it("omits the v2 backend where unsupported", () => {
+    expect(
+      getNetworkDelegationProviders(
+        { delegationRegistry: DELEGATION_REGISTRY },
+        provider
+      ).map(({ version }) => version)
+    ).toEqual(["v1"]);
+  });
+});
+
+describe("merged delegation queries", () => {
+  const mockProvider = (
+    version: DelegationProvider["version"],
+    delegations: Delegation[],
+    canAct: boolean
+  ): DelegationProvider => ({
+    version,
+    address: DELEGATION_REGISTRY,
+    getDelegations: async () => delegations,
+    canActAsVaultFor: async () => canAct,
+  });
+
+  it("merges delegations in the order of the backends", async () => {
+    const v1Delegation = delegation("CONTRACT", CORE_ADDRESS);
+    const v2Delegation: Delegation = { ...delegation("ALL"), registry: "v2" };
+    expect(
+      await getMergedDelegations(
+        [
+          mockProvider("v1", [v1Delegation], false),
+          mockProvider("v2", [v2Delegation], false),
+        ],
+        DELEGATE_TEST_ADDRESS
+      )
+    ).toEqual([v1Delegation, v2Delegation]);
+  });
+
+  it("accepts a vault delegated on any backend", async () => {
+    expect(
+      await canActAsVaultForAny(
+        [mockProvider("v1", [], false), mockProvider("v2", [], true)],
+        DELEGATE_TEST_ADDRESS,
+        FAKE_VAULT_ADDRESS
+      )
+    ).toBe(true);
+    expect(
+      await canActAsVaultForAny(
+        [mockProvider("v1", [], false)],
+        DELEGATE_TEST_ADDRESS,
+        FAKE_VAULT_ADDRESS,
+        { contract: CORE_ADDRESS }
+      )
+    ).toBe(false);
+  });
+});
@@ -1,7 +1,14 @@
-import { ethers, Signer, providers } from "ethers";
+import { BigNumber, BigNumberish, constants, Signer } from "ethers";
 
+import {
+  resolveSignerOrProvider,
+  SignerOrProviderLike,
+} from "../adapters/chain-adapter";
+import { IDelegateRegistry } from "../generated/contracts/IDelegateRegistry";
 import { IDelegationRegistry } from "../generated/contracts/IDelegationRegistry";
+import { IDelegateRegistry__factory } from "../generated/contracts/factories/IDelegateRegistry__factory";
 import { IDelegationRegistry__factory } from "../generated/contracts/factories/IDelegationRegistry__factory";
+import { getDelegationRegistryAddress, NetworkAddresses } from "../networks";
 
 /**
  * Define the registry for delegating a hot wallet to mint/claim airdrops on behalf of a vault wallet
@@ -9,39 +16,406 @@ import { IDelegationRegistry__factory } from "../generated/contracts/factories/I
  */
 export const DELEGATION_REGISTRY = "0x00000000000076a84fef008cdabe6409d2fe638b";
 
+/**
+ * Scope of a delegation, indexed by the v1 registry's `DelegationType` enum.
+ */
+export const DELEGATION_TYPES = ["NONE", "ALL", "CONTRACT", "TOKEN"] as const;
+
+/**
+ * Scope of a delegation, indexed by the v2 registry's `DelegationType` enum.
+ * v2 `ERC721` delegations are reported as `TOKEN` delegations.
+ */
+export const DELEGATION_V2_TYPES = [
+  "NONE",
+  "ALL",
+  "CONTRACT",
+  "TOKEN",
+  "ERC20",
+  "ERC1155",
+] as const;
+
+export type DelegationType = (typeof DELEGATION_V2_TYPES)[number];
+
+export type DelegationRegistryVersion = "v1" | "v2";
+
+/**
+ * A delegation from a vault to a delegate wallet.
+ */
+export type Delegation = {
+  /** registry the delegation was made on */
+  registry: DelegationRegistryVersion;
+  type: DelegationType;
+  vault: string;
+  delegate: string;
+  /** delegated contract, the zero address for `ALL` delegations */
+  contract: string;
+  /** delegated token ID, zero unless a `TOKEN` delegation */
+  tokenId: BigNumber;
+  /** v2 subdelegation rights, zero for full delegations and on v1 */
+  rights: string;
+};
+
+/**
+ * Assets a delegate wants to act on for a vault. A contract-level scope
+ * matches `MinterSetPriceMerkleV5`, which checks the project's core contract,
+ * and a token-level scope matches `MinterSetPriceHolderV5`, which checks the
+ * core contract and the owned NFT's token ID.
+ */
+export type DelegationScope = {
+  contract?: string;
+  tokenId?: BigNumberish;
+};
+
 /**
  * @summary Get the delegation registry contract.
  * @description This function is used to get the delegation registry contract
  * so that we can call the getDelegationsByDelegate function to determine if
  * the user has delegated to a vault.
  * @param contractAddress the address of the delegation registry contract
- * @param signerOrProvider ethers signer or provider
+ * @param signerOrProvider ethers signer or provider, or a client adapter
  * @returns the delegation registry contract interface
  */
 export const getDelegationRegistryContract = (
   contractAddress: string,
-  signerOrProvider: Signer | providers.Provider
+  signerOrProvider: SignerOrProviderLike
 ): IDelegationRegistry => {
   return IDelegationRegistry__factory.connect(
     contractAddress,
-    signerOrProvider
+    resolveSignerOrProvider(signerOrProvider)
   );
 };
 
+/**
+ * @summary Get the address of the v1 registry on the network of a signer or
+ * provider.
+ * @param signerOrProvider ethers signer or provider, or a client adapter
+ * @returns checksummed address of the v1 registry
+ * @throws UnsupportedChain if no registry is known for the network's chain
+ */
+export async function resolveDelegationRegistry(
+  signerOrProvider: SignerOrProviderLike
+): Promise<string> {
+  const resolved = resolveSignerOrProvider(signerOrProvider);
+  const chainId = Signer.isSigner(resolved)
+    ? await resolved.getChainId()
+    : (await resolved.getNetwork()).chainId;
+  return getDelegationRegistryAddress(chainId);
+}
+
+/**
+ * @summary Whether a delegation covers a scope.
+ * @description Mirrors the registry's `checkDelegateFor*` views: an `ALL`
+ * delegation covers any scope, a `CONTRACT` delegation covers its contract
+ * and that contract's tokens, and a `TOKEN` delegation covers only its token.
+ * Delegations limited to specific v2 rights cover nothing.
+ * @param delegation delegation, e.g. from `getDelegations`
+ * @param scope contract and token ID to act on, if any
+ * @returns true if the delegation covers the scope
+ */
+export const delegationCovers = (
+  delegation: Delegation,
+  scope: DelegationScope = {}
+): boolean => {
+  if (delegation.rights !== constants.HashZero) {
+    return false;
+  }
+  if (delegation.type === "ALL") {
+    return true;
+  }
+  if (
+    !scope.contract ||
+    delegation.contract.toLowerCase() !== scope.contract.toLowerCase()
+  ) {
+    return false;
+  }
+  if (delegation.type === "CONTRACT") {
+    return true;
+  }
+  return (
+    delegation.type === "TOKEN" &&
+    scope.tokenId !== undefined &&
+    delegation.tokenId.eq(scope.tokenId)
+  );
+};
+
+/**
+ * @summary Get the delegations for which the user is a delegate on the v1
+ * registry of the provider's network.
+ * @param provider ethers provider or client adapter to use for the contract call
+ * @param account the current user's wallet address
+ * @returns the user's delegations, with their type, contract and token ID
+ * @throws UnsupportedChain if no registry is known for the network's chain
+ */
+export async function getDelegations(
+  provider: SignerOrProviderLike,
+  account: string
+): Promise<Delegation[]> {
+  return new DelegationRegistryV1Provider(
+    await resolveDelegationRegistry(provider),
+    provider
+  ).getDelegations(account);
+}
+
 /**
  * @summary Get the vaults for which the user is a delegate.
  * @description This function is used to retrieve the vaults for which the user is a delegate. If
  * the user has delegated to a vault, then the user will be able to mint
- * allowlisted projects from that vault.
- * @param provider ethers provider to use for the contract call
+ * allowlisted projects from that vault. When a scope is provided, only vaults
+ * whose delegation covers the scope are returned.
+ * @param provider ethers provider or client adapter to use for the contract call
  * @param account the current user's wallet address
+ * @param scope contract and token ID the user wants to act on, if any
  * @returns array of vault addresses for which the user is a delegate
+ * @throws UnsupportedChain if no registry is known for the network's chain
  */
 export async function getDelegateVaults(
-  provider: ethers.providers.Provider,
-  account: string
+  provider: SignerOrProviderLike,
+  account: string,
+  scope?: DelegationScope
 ): Promise<string[]> {
-  const contract = getDelegationRegistryContract(DELEGATION_REGISTRY, provider);
-  const userDelegatedVault = await contract.getDelegationsByDelegate(account);
-  return userDelegatedVault.map((vault) => vault.vault);
+  const delegations = await getDelegations(provider, account);
+  const vaults = delegations
+    .filter((delegation) => !scope || delegationCovers(delegation, scope))
+    .map(({ vault }) => vault);
+  return Array.from(new Set(vaults));
+}
+
+/**
+ * @summary Whether a delegate may act on behalf of a vault on the v1
+ * registry of the signer or provider's network.
+ * @description Calls the registry's `checkDelegateForToken`,
+ * `checkDelegateForContract` or `checkDelegateForAll`, depending on the
+ * scope, which is how `MinterSetPriceHolderV5` and `MinterSetPriceMerkleV5`
+ * validate a vault on-chain.
+ * @param signerOrProvider ethers signer or provider, or a client adapter
+ * @param delegate wallet acting on behalf of the vault
+ * @param vault wallet that delegated
+ * @param scope contract and token ID to act on, if any
+ * @returns true if the delegation covers the scope
+ * @throws UnsupportedChain if no registry is known for the network's chain
+ */
+export async function canActAsVaultFor(
+  signerOrProvider: SignerOrProviderLike,
+  delegate: string,
+  vault: string,
+  scope: DelegationScope = {}
+): Promise<boolean> {
+  return new DelegationRegistryV1Provider(
+    await resolveDelegationRegistry(signerOrProvider),
+    signerOrProvider
+  ).canActAsVaultFor(delegate, vault, scope);
+}
+
+/**
+ * A delegation registry backend.
+ */
+export interface DelegationProvider {
+  readonly version: DelegationRegistryVersion;
+  readonly address: string;
+  /**
+   * @param delegate wallet the delegations were made to
+   * @returns delegations made to the wallet
+   */
+  getDelegations(delegate: string): Promise<Delegation[]>;
+  /**
+   * @param delegate wallet acting on behalf of the vault
+   * @param vault wallet that delegated
+   * @param scope contract and token ID to act on, if any
+   * @returns true if the registry has a delegation covering the scope
+   */
+  canActAsVaultFor(
+    delegate: string,
+    vault: string,
+    scope?: DelegationScope
+  ): Promise<boolean>;
+}
+
+/**
+ * @summary delegate.cash v1 registry backend.
+ * @description The v1 registry is the one Art Blocks minters validate
+ * delegate-vault pairings against.
+ */
+export class DelegationRegistryV1Provider implements DelegationProvider {
+  readonly version = "v1";
+  readonly address: string;
+  readonly registry: IDelegationRegistry;
+
+  /**
+   * @param address address of the v1 registry
+   * @param signerOrProvider ethers signer or provider, or a client adapter
+   */
+  constructor(address: string, signerOrProvider: SignerOrProviderLike) {
+    this.address = address;
+    this.registry = getDelegationRegistryContract(address, signerOrProvider);
+  }
+
+  async getDelegations(delegate: string): Promise<Delegation[]> {
+    const delegations = await this.registry.getDelegationsByDelegate(delegate);
+    return delegations.map(({ type_, vault, contract_, tokenId }) => ({
+      registry: this.version,
+      type: DELEGATION_TYPES[type_],
+      vault,
+      delegate,
+      contract: contract_,
+      tokenId,
+      rights: constants.HashZero,
+    }));
+  }
+
+  canActAsVaultFor(
+    delegate: string,
+    vault: string,
+    { contract, tokenId }: DelegationScope = {}
+  ): Promise<boolean> {
+    if (contract && tokenId !== undefined) {
+      return this.registry.checkDelegateForToken(
+        delegate,
+        vault,
+        contract,
+        tokenId
+      );
+    }
+    if (contract) {
+      return this.registry.checkDelegateForContract(delegate, vault, contract);
+    }
+    return this.registry.checkDelegateForAll(delegate, vault);
+  }
+}
+
+/**
+ * @summary delegate.xyz v2 registry backend.
+ * @description Only full delegations, without subdelegation rights, are
+ * checked by `canActAsVaultFor`.
+ */
+export class DelegationRegistryV2Provider implements DelegationProvider {
+  readonly version = "v2";
+  readonly address: string;
+  readonly registry: IDelegateRegistry;
+
+  /**
+   * @param address address of the v2 registry
+   * @param signerOrProvider ethers signer or provider, or a client adapter
+   */
+  constructor(address: string, signerOrProvider: SignerOrProviderLike) {
+    this.address = address;
+    this.registry = IDelegateRegistry__factory.connect(
+      address,
+      resolveSignerOrProvider(signerOrProvider)
+    );
+  }
+
+  async getDelegations(delegate: string): Promise<Delegation[]> {
+    const delegations = await this.registry.getIncomingDelegations(delegate);
+    return delegations.map(({ type_, from, contract_, tokenId, rights }) => ({
+      registry: this.version,
+      type: DELEGATION_V2_TYPES[type_],
+      vault: from,
+      delegate,
+      contract: contract_,
+      tokenId,
+      rights,
+    }));
+  }
+
+  canActAsVaultFor(
+    delegate: string,
+    vault: string,
+    { contract, tokenId }: DelegationScope = {}
+  ): Promise<boolean> {
+    if (contract && tokenId !== undefined) {
+      return this.registry.checkDelegateForERC721(
+        delegate,
+        vault,
+        contract,
+        tokenId,
+        constants.HashZero
+      );
+    }
+    if (contract) {
+      return this.registry.checkDelegateForContract(
+        delegate,
+        vault,
+        contract,
+        constants.HashZero
+      );
+    }
+    return this.registry.checkDelegateForAll(
+      delegate,
+      vault,
+      constants.HashZero
+    );
+  }
+}
+
+/**
+ * @summary Get a backend for each delegation registry a network supports.
+ * @param addresses shared contract addresses of the network
+ * @param signerOrProvider ethers signer or provider, or a client adapter
+ * @returns the v1 backend, followed by the v2 backend if supported
+ */
+export const getNetworkDelegationProviders = (
+  addresses: Pick<
+    NetworkAddresses,
+    "delegationRegistry" | "delegationRegistryV2"
+  >,
+  signerOrProvider: SignerOrProviderLike
+): DelegationProvider[] => {
+  const delegationProviders: DelegationProvider[] = [
+    new DelegationRegistryV1Provider(
+      addresses.delegationRegistry,
+      signerOrProvider
+    ),
+  ];
+  if (addresses.delegationRegistryV2) {
+    delegationProviders.push(
+      new DelegationRegistryV2Provider(
+        addresses.delegationRegistryV2,
+        signerOrProvider
+      )
+    );
+  }
+  return delegationProviders;
+};
+
+/**
+ * @summary Get a user's delegations on several registries.
+ * @param delegationProviders registry backends to query
+ * @param delegate the user's wallet address
+ * @returns delegations on all registries, in the order of the backends
+ */
+export async function getMergedDelegations(
+  delegationProviders: DelegationProvider[],
+  delegate: string
+): Promise<Delegation[]> {
+  const delegations = await Promise.all(
+    delegationProviders.map((delegationProvider) =>
+      delegationProvider.getDelegations(delegate)
+    )
+  );
+  return delegations.flat();
+}
+
+/**
+ * @summary Whether a delegate may act on behalf of a vault on any of several
+ * registries.
+ * @description Art Blocks minters only accept v1 delegations, so pass only
+ * the v1 backend when choosing a vault to purchase with.
+ * @param delegationProviders registry backends to query
+ * @param delegate wallet acting on behalf of the vault
+ * @param vault wallet that delegated
+ * @param scope contract and token ID to act on, if any
+ * @returns true if any registry has a delegation covering the scope
+ */
+export async function canActAsVaultForAny(
+  delegationProviders: DelegationProvider[],
+  delegate: string,
+  vault: string,
+  scope?: DelegationScope
+): Promise<boolean> {
+  const results = await Promise.all(
+    delegationProviders.map((delegationProvider) =>
+      delegationProvider.canActAsVaultFor(delegate, vault, scope)
+    )
+  );
+  return results.includes(true);
 }
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import {
+  assertERC20Funds,
+  getERC20PurchaseStatus,
+  populateERC20Approval,
+  ERC20PurchaseStatus,
+  InsufficientERC20Allowance,
+  InsufficientERC20Balance,
+} from "./erc20";
+import { IERC20__factory } from "../generated/contracts/factories/IERC20__factory";
+import { IERC20Metadata__factory } from "../generated/contracts/factories/IERC20Metadata__factory";
+
+const OWNER_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const CURRENCY_ADDRESS = "0xd31E891ad9a1e47e4D3d9B15cccCd188BeBC7A48";
+const PRICE = ethers.utils.parseUnits("25", 6);
+
+const provider = new ethers.providers.JsonRpcProvider();
+
+const status = (
+  balance: BigNumber,
+  allowance: BigNumber
+): ERC20PurchaseStatus => ({
+  currency: { symbol: "USDC", address: CURRENCY_ADDRESS, decimals: 6 },
+  owner: OWNER_ADDRESS,
+  spender: MINTER_ADDRESS,
+  price: PRICE,
+  balance,
+  allowance,
+  needsApproval: allowance.lt(PRICE),
+});
+
+describe("getERC20PurchaseStatus", () => {
+  it("reads the token's decimals, balance and allowance", async () => {
+    const allowance = jest.fn(async () => PRICE.sub(1));
+    IERC20Metadata__factory.connect = jest.fn().mockReturnValue({
+      decimals: async () => 6,
+      balanceOf: async () => PRICE,
+      allowance,
+    });
+    expect(
+      await getERC20PurchaseStatus(
+        provider,
+        {
+          tokenPriceInWei: PRICE,
+          currencySymbol: "USDC",
+          currencyAddress: CURRENCY_ADDRESS,
+        },
+        OWNER_ADDRESS,
+        MINTER_ADDRESS
+      )
+    ).toEqual(status(PRICE, PRICE.sub(1)));
+    expect(allowance).toBeCalledWith(OWNER_ADDRESS, MINTER_ADDRESS);
+  });
+});
+
+describe("assertERC20Funds", () => {
+  it("accepts a sufficient balance and allowance", () => {
+    expect(() => assertERC20Funds(status(PRICE, PRICE))).not.toThrow();
+  });
+
+  it("throws a readable error for an insufficient balance", () => {
+    expect(() =>
+      assertERC20Funds(status(ethers.utils.parseUnits("10.5", 6), PRICE))
+    ).toThrowError(
+      "Insufficient USDC balance: the purchase costs 25.0 USDC, but the wallet holds 10.5 USDC."
+    );
+  });
+
+  it("throws a readable error for an insufficient allowance", () => {
+    expect(() =>
+      assertERC20Funds(status(PRICE, BigNumber.from(0)))
+    ).toThrowError(
+      "Insufficient USDC allowance: approve the minter to spend 25.0 USDC; it may currently spend 0.0 USDC."
+    );
+  });
+
+  it("allows an insufficient allowance that will be approved", () => {
+    expect(() =>
+      assertERC20Funds(status(PRICE, BigNumber.from(0)), false)
+    ).not.toThrow();
+  });
+});
+
+describe("populateERC20Approval", () => {
+  it("approves exactly the price", async () => {
+    const approve = jest.fn(async () => ({ data: "0x095ea7b3" }));
+    IERC20__factory.connect = jest
+      .fn()
+      .mockReturnValue({ populateTransaction: { approve } });
+    expect(
+      await populateERC20Approval(provider, status(PRICE, BigNumber.from(0)))
+    ).toEqual({ data: "0x095ea7b3" });
+    expect(approve).toBeCalledWith(MINTER_ADDRESS, PRICE);
+    expect(IERC20__factory.connect).toBeCalledWith(CURRENCY_ADDRESS, provider);
+  });
+
+  it("returns null when the allowance covers the price", async () => {
+    expect(
+      await populateERC20Approval(provider, status(PRICE, PRICE))
+    ).toBeNull();
+  });
+});
+
+describe("ERC20 errors", () => {
+  it("specify the name of the error", () => {
+    expect(new InsufficientERC20Balance(status(PRICE, PRICE)).name).toEqual(
+      "InsufficientERC20Balance"
+    );
+    expect(new InsufficientERC20Allowance(status(PRICE, PRICE)).name).toEqual(
+      "InsufficientERC20Allowance"
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+  Signer,
+  providers,
+  utils,
+} from "ethers";
+
+import { IERC20__factory } from "../generated/contracts/factories/IERC20__factory";
+import { IERC20Metadata__factory } from "../generated/contracts/factories/IERC20Metadata__factory";
+
+/**
+ * ERC20 token a project is priced in, as configured on its minter with
+ * `updateProjectCurrencyInfo`.
+ */
+export type ERC20CurrencyInfo = {
+  /** symbol configured on the minter */
+  symbol: string;
+  address: string;
+  /** decimals of the token, from the token contract */
+  decimals: number;
+};
+
+/**
+ * Whether a wallet can pay for a purchase on an ERC20 minter.
+ */
+export type ERC20PurchaseStatus = {
+  currency: ERC20CurrencyInfo;
+  /** wallet paying for the purchase */
+  owner: string;
+  /** minter that transfers the payment */
+  spender: string;
+  /** token price, in the token's smallest unit */
+  price: BigNumber;
+  balance: BigNumber;
+  allowance: BigNumber;
+  /** true if the allowance is less than the price */
+  needsApproval: boolean;
+};
+
+/**
+ * Price and currency of a project on an ERC20 minter, as returned by the
+ * minter's `getPriceInfo`.
+ */
+export type ERC20PriceInfo = {
+  tokenPriceInWei: BigNumberish;
+  currencySymbol: string;
+  currencyAddress: string;
+};
+
+const formatAmount = (amount: BigNumber, currency: ERC20CurrencyInfo) =>
+  `${utils.formatUnits(amount, currency.decimals)} ${currency.symbol}`;
+
+/**
+ * @summary Error thrown when a wallet's token balance is less than the
+ * price of a purchase.
+ */
+export class InsufficientERC20Balance extends Error {
+  constructor(status: ERC20PurchaseStatus) {
+    super(
+      `Insufficient ${status.currency.symbol} balance: the purchase costs ${formatAmount(
+        status.price,
+        status.currency
+      )}, but the wallet holds ${formatAmount(
+        status.balance,
+        status.currency
+      )}.`
+    );
+    this.name = "InsufficientERC20Balance";
+  }
+}
+
+/**
+ * @summary Error thrown when the minter may not spend enough of a wallet's
+ * tokens to pay for a purchase.
+ */
+export class InsufficientERC20Allowance extends Error {
+  constructor(status: ERC20PurchaseStatus) {
+    super(
+      `Insufficient ${status.currency.symbol} allowance: approve the minter to spend ${formatAmount(
+        status.price,
+        status.currency
+      )}; it may currently spend ${formatAmount(
+        status.allowance,
+        status.currency
+      )}.`
+    );
+    this.name = "InsufficientERC20Allowance";
+  }
+}
+
+/**
+ * @summary Check a wallet's balance and allowance for a purchase on an ERC20
+ * minter.
+ * @param signerOrProvider ethers signer or provider
+ * @param priceInfo price and currency from the minter's `getPriceInfo`
+ * @param owner wallet paying for the purchase
+ * @param spender address of the minter
+ * @returns the project's currency, and the wallet's balance and allowance
+ */
+export async function getERC20PurchaseStatus(
+  signerOrProvider: Signer | providers.Provider,
+  { tokenPriceInWei, currencySymbol, currencyAddress }: ERC20PriceInfo,
+  owner: string,
+  spender: string
+): Promise<ERC20PurchaseStatus> {
+  const token = IERC20Metadata__factory.connect(
+    currencyAddress,
+    signerOrProvider
+  );
+  const [decimals, balance, allowance] = await Promise.all([
+    token.decimals(),
+    token.balanceOf(owner),
+    token.allowance(owner, spender),
+  ]);
+  const price = BigNumber.from(tokenPriceInWei);
+  return {
+    currency: { symbol: currencySymbol, address: currencyAddress, decimals },
+    owner,
+    spender,
+    price,
+    balance,
+    allowance,
+    needsApproval: allowance.lt(price),
+  };
+}
+
+/**
+ * @summary Throw if a wallet cannot pay for a purchase.
+ * @param status status from `getERC20PurchaseStatus`
+ * @param requireAllowance whether an insufficient allowance is an error, or
+ * will be approved before purchasing
+ * @throws InsufficientERC20Balance if the balance is less than the price
+ * @throws InsufficientERC20Allowance if the allowance is less than the price
+ * and `requireAllowance` is true
+ */
+export const assertERC20Funds = (
+  status: ERC20PurchaseStatus,
+  requireAllowance = true
+): void => {
+  if (status.balance.lt(status.price)) {
+    throw new InsufficientERC20Balance(status);
+  }
+  if (requireAllowance && status.needsApproval) {
+    throw new InsufficientERC20Allowance(status);
+  }
+};
+
+/**
+ * @summary Build the approval a purchase needs, if any.
+ * @description Approves exactly the price rather than an unlimited amount,
+ * so the minter can never spend more than the purchase costs.
+ * @param signerOrProvider ethers signer or provider
+ * @param status status from `getERC20PurchaseStatus`
+ * @returns the unsigned approve transaction, or null if the allowance
+ * already covers the price
+ */
+export async function populateERC20Approval(
+  signerOrProvider: Signer | providers.Provider,
+  status: ERC20PurchaseStatus
+): Promise<PopulatedTransaction | null> {
+  if (!status.needsApproval) {
+    return null;
+  }
+  return IERC20__factory.connect(
+    status.currency.address,
+    signerOrProvider
+  ).populateTransaction.approve(status.spender, status.price);
+}
@@ -0,0 +1,360 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import {
+  findHolderMintOptions,
+  findProjectHolderMintOptions,
+  getAllowedHolderProjects,
+  IndexedOwnershipSource,
+  OnChainOwnershipSource,
+} from "./holder-eligibility";
+import { ProjectMinterNotConfigured, UnsupportedMinterType } from "./purchase";
+import { mockMinterFilter, mockMinterType } from "../test-fixtures";
+import { IDelegationRegistry__factory } from "../generated/contracts/factories/IDelegationRegistry__factory";
+import { GenArt721CoreV0__factory } from "../generated/contracts/factories/GenArt721CoreV0__factory";
+import { IERC721__factory } from "../generated/contracts/factories/IERC721__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { MinterSetPriceHolderV5__factory } from "../generated/contracts/factories/MinterSetPriceHolderV5__factory";
+import { TokenHolderLib__factory } from "../generated/contracts/factories/TokenHolderLib__factory";
+
+const WALLET_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const VAULT_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const OTHER_VAULT_ADDRESS = "0xd31E891ad9a1e47e4D3d9B15cccCd188BeBC7A48";
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const HOLDER_CORE_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+
+const provider = new ethers.providers.StaticJsonRpcProvider(
+  undefined,
+  "sepolia"
+);
+
+const holderEvent = (contracts: string[], projectIds: number[]) => ({
+  args: {
+    ownedNFTAddresses: contracts,
+    ownedNFTProjectIds: projectIds.map((id) => BigNumber.from(id)),
+  },
+});
+
+const mockHolderMinter = ({
+  allowed = [holderEvent([HOLDER_CORE_ADDRESS, HOLDER_CORE_ADDRESS], [1, 2])],
+  removed = [holderEvent([HOLDER_CORE_ADDRESS], [2])],
+  allowedProjectIds = [1],
+  minterType = "MinterSetPriceHolderV5",
+} = {}) => {
+  const queryFilter = jest.fn(async (filter: string) =>
+    filter === "allowed" ? allowed : removed
+  );
+  TokenHolderLib__factory.connect = jest.fn().mockReturnValue({
+    filters: {
+      AllowedHoldersOfProjects: () => "allowed",
+      RemovedHoldersOfProjects: () => "removed",
+    },
+    queryFilter,
+  });
+  const minter = {
+    allowedProjectHolders: jest.fn(
+      async (
+        projectId: number,
+        coreContract: string,
+        contract: string,
+        holderProjectId: BigNumber
+      ) => allowedProjectIds.includes(holderProjectId.toNumber())
+    ),
+    isAllowlistedNFT: jest.fn(
+      async (
+        projectId: number,
+        coreContract: string,
+        contract: string,
+        tokenId: BigNumber
+      ) => allowedProjectIds.includes(tokenId.div(1_000_000).toNumber())
+    ),
+  };
+  MinterSetPriceHolderV5__factory.connect = jest.fn().mockReturnValue(minter);
+  mockMinterType(minterType);
+  return minter;
+};
+
+const mockDelegations = (
+  delegations: { type_: number; vault: string; tokenId?: number }[]
+) => {
+  IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+    getDelegationsByDelegate: async () =>
+      delegations.map(({ type_, vault, tokenId = 0 }) => ({
+        type_,
+        vault,
+        contract_: type_ === 1 ? ethers.constants.AddressZero : CORE_ADDRESS,
+        tokenId: BigNumber.from(tokenId),
+      })),
+  });
+};
+
+const ownedToken = (owner: string, tokenId: number) => ({
+  owner,
+  address: HOLDER_CORE_ADDRESS,
+  tokenId,
+});
+
+describe("getAllowedHolderProjects", () => {
+  it("returns the holder projects still allowed on the minter", async () => {
+    const minter = mockHolderMinter();
+    expect(
+      await getAllowedHolderProjects(MINTER_ADDRESS, provider, 0, CORE_ADDRESS)
+    ).toEqual([
+      { contract: HOLDER_CORE_ADDRESS, projectId: BigNumber.from(1) },
+    ]);
+    expect(minter.allowedProjectHolders).toBeCalledTimes(2);
+  });
+});
+
+describe("OnChainOwnershipSource", () => {
+  it("checks the owner of every minted token of the project", async () => {
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => ({ invocations: BigNumber.from(3) }),
+    });
+    const owners = [
+      WALLET_ADDRESS.toLowerCase(),
+      VAULT_ADDRESS,
+      WALLET_ADDRESS,
+    ];
+    const ownerOf = jest.fn(
+      async (tokenId: BigNumber) => owners[tokenId.mod(1_000_000).toNumber()]
+    );
+    IERC721__factory.connect = jest.fn().mockReturnValue({ ownerOf });
+    const source = new OnChainOwnershipSource(provider);
+    expect(
+      await source.getOwnedTokens(WALLET_ADDRESS, {
+        contract: HOLDER_CORE_ADDRESS,
+        projectId: BigNumber.from(2),
+      })
+    ).toEqual([BigNumber.from(2_000_000), BigNumber.from(2_000_002)]);
+    expect(ownerOf).toBeCalledTimes(3);
+  });
+
+  it("reads the invocations of a legacy flagship core", async () => {
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => {
+        throw { code: "CALL_EXCEPTION" };
+      },
+    });
+    GenArt721CoreV0__factory.connect = jest.fn().mockReturnValue({
+      projectTokenInfo: async () => ({ invocations: BigNumber.from(2) }),
+    });
+    IERC721__factory.connect = jest.fn().mockReturnValue({
+      ownerOf: async () => WALLET_ADDRESS,
+    });
+    const source = new OnChainOwnershipSource(provider);
+    expect(
+      await source.getOwnedTokens(WALLET_ADDRESS, {
+        contract: HOLDER_CORE_ADDRESS,
+        projectId: BigNumber.from(0),
+      })
+    ).toEqual([BigNumber.from(0), BigNumber.from(1)]);
+  });
+
+  it("rethrows errors that are not reverts", async () => {
+    const error = { code: "NETWORK_ERROR" };
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => {
+        throw error;
+      },
+    });
+    GenArt721CoreV0__factory.connect = jest.fn();
+    const source = new OnChainOwnershipSource(provider);
+    await expect(
+      source.getOwnedTokens(WALLET_ADDRESS, {
+        contract: HOLDER_CORE_ADDRESS,
+        projectId: BigNumber.from(0),
+      })
+    ).rejects.toBe(error);
+    expect(GenArt721CoreV0__factory.connect).not.toBeCalled();
+  });
+
+  it("limits the number of concurrent ownerOf calls", async () => {
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => ({ invocations: BigNumber.from(5) }),
+    });
+    let pending = 0;
+    let maxPending = 0;
+    const ownerOf = jest.fn(async () => {
+      maxPending = Math.max(maxPending, ++pending);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      pending--;
+      return WALLET_ADDRESS;
+    });
+    IERC721__factory.connect = jest.fn().mockReturnValue({ ownerOf });
+    const source = new OnChainOwnershipSource(provider, 2);
+    expect(
+      await source.getOwnedTokens(WALLET_ADDRESS, {
+        contract: HOLDER_CORE_ADDRESS,
+        projectId: BigNumber.from(2),
+      })
+    ).toHaveLength(5);
+    expect(ownerOf).toBeCalledTimes(5);
+    expect(maxPending).toEqual(2);
+  });
+});
+
+describe("IndexedOwnershipSource", () => {
+  it("returns the indexed tokens of the project owned by a wallet", async () => {
+    const source = new IndexedOwnershipSource([
+      ownedToken(WALLET_ADDRESS, 1_000_003),
+      ownedToken(WALLET_ADDRESS.toLowerCase(), 2_000_000),
+      { ...ownedToken(WALLET_ADDRESS, 1_000_004), address: CORE_ADDRESS },
+      ownedToken(VAULT_ADDRESS, 1_000_005),
+    ]);
+    const project = {
+      contract: HOLDER_CORE_ADDRESS.toLowerCase(),
+      projectId: BigNumber.from(1),
+    };
+    expect(await source.getOwnedTokens(WALLET_ADDRESS, project)).toEqual([
+      BigNumber.from(1_000_003),
+    ]);
+    expect(await source.getOwnedTokens(OTHER_VAULT_ADDRESS, project)).toEqual(
+      []
+    );
+  });
+});
+
+describe("findHolderMintOptions", () => {
+  it("returns owned and delegated NFTs with their purchaseTo arguments", async () => {
+    const minter = mockHolderMinter();
+    mockDelegations([
+      { type_: 2, vault: VAULT_ADDRESS },
+      { type_: 1, vault: VAULT_ADDRESS },
+      { type_: 3, vault: OTHER_VAULT_ADDRESS, tokenId: 1_000_008 },
+    ]);
+    const ownershipSource = new IndexedOwnershipSource([
+      ownedToken(WALLET_ADDRESS, 1_000_001),
+      ownedToken(VAULT_ADDRESS, 1_000_002),
+      ownedToken(OTHER_VAULT_ADDRESS, 1_000_007),
+      ownedToken(OTHER_VAULT_ADDRESS, 1_000_008),
+      ownedToken(WALLET_ADDRESS, 2_000_000),
+    ]);
+    const options = await findHolderMintOptions(
+      MINTER_ADDRESS,
+      provider,
+      0,
+      CORE_ADDRESS,
+      WALLET_ADDRESS,
+      { ownershipSource }
+    );
+    const nft = (tokenId: number) => ({
+      address: HOLDER_CORE_ADDRESS,
+      tokenId: BigNumber.from(tokenId),
+    });
+    expect(options).toEqual([
+      {
+        ownedNFT: nft(1_000_001),
+        vault: undefined,
+        purchaseToArgs: [
+          WALLET_ADDRESS,
+          0,
+          CORE_ADDRESS,
+          HOLDER_CORE_ADDRESS,
+          BigNumber.from(1_000_001),
+        ],
+      },
+      {
+        ownedNFT: nft(1_000_002),
+        vault: VAULT_ADDRESS,
+        purchaseToArgs: [
+          WALLET_ADDRESS,
+          0,
+          CORE_ADDRESS,
+          HOLDER_CORE_ADDRESS,
+          BigNumber.from(1_000_002),
+          VAULT_ADDRESS,
+        ],
+      },
+      {
+        ownedNFT: nft(1_000_008),
+        vault: OTHER_VAULT_ADDRESS,
+        purchaseToArgs: [
+          WALLET_ADDRESS,
+          0,
+          CORE_ADDRESS,
+          HOLDER_CORE_ADDRESS,
+          BigNumber.from(1_000_008),
+          OTHER_VAULT_ADDRESS,
+        ],
+      },
+    ]);
+    expect(minter.isAllowlistedNFT).toBeCalledTimes(3);
+  });
+
+  it("drops NFTs the minter no longer allowlists", async () => {
+    mockHolderMinter({ allowed: [holderEvent([HOLDER_CORE_ADDRESS], [1])] });
+    const minter = MinterSetPriceHolderV5__factory.connect(
+      MINTER_ADDRESS,
+      provider
+    );
+    minter.isAllowlistedNFT = jest.fn(
+      async () => false
+    ) as unknown as typeof minter.isAllowlistedNFT;
+    mockDelegations([]);
+    IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+      projectStateData: async () => ({ invocations: BigNumber.from(1) }),
+    });
+    IERC721__factory.connect = jest
+      .fn()
+      .mockReturnValue({ ownerOf: async () => WALLET_ADDRESS });
+    expect(
+      await findHolderMintOptions(
+        MINTER_ADDRESS,
+        provider,
+        0,
+        CORE_ADDRESS,
+        WALLET_ADDRESS
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("findProjectHolderMintOptions", () => {
+  it("searches the project's holder minter", async () => {
+    mockHolderMinter({ minterType: "MinterDAExpHolderV5" });
+    mockDelegations([]);
+    const options = await findProjectHolderMintOptions(
+      mockMinterFilter(MINTER_ADDRESS),
+      provider,
+      0,
+      CORE_ADDRESS,
+      WALLET_ADDRESS,
+      {
+        to: VAULT_ADDRESS,
+        ownershipSource: new IndexedOwnershipSource([
+          ownedToken(WALLET_ADDRESS, 1_000_001),
+        ]),
+      }
+    );
+    expect(options.map(({ purchaseToArgs }) => purchaseToArgs[0])).toEqual([
+      VAULT_ADDRESS,
+    ]);
+  });
+
+  it("throws when the project has no minter", async () => {
+    await expect(
+      findProjectHolderMintOptions(
+        mockMinterFilter(MINTER_ADDRESS, false),
+        provider,
+        0,
+        CORE_ADDRESS,
+        WALLET_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  it("throws for a minter that is not a holder minter", async () => {
+    mockHolderMinter({ minterType: "MinterSetPriceMerkleV5" });
+    await expect(
+      findProjectHolderMintOptions(
+        mockMinterFilter(MINTER_ADDRESS),
+        provider,
+        0,
+        CORE_ADDRESS,
+        WALLET_ADDRESS
+      )
+    ).rejects.toThrowError(UnsupportedMinterType);
+  });
+});
@@ -0,0 +1,389 @@
+import { BigNumber, BigNumberish, Signer, providers, utils } from "ethers";
+
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { GenArt721CoreV0__factory } from "../generated/contracts/factories/GenArt721CoreV0__factory";
+import { IERC721__factory } from "../generated/contracts/factories/IERC721__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { MinterSetPriceHolderV5__factory } from "../generated/contracts/factories/MinterSetPriceHolderV5__factory";
+import { TokenHolderLib__factory } from "../generated/contracts/factories/TokenHolderLib__factory";
+import { decodeTokenId, encodeTokenId } from "../tokens";
+import { delegationCovers, getDelegations } from "./delegation";
+import {
+  getProjectMinter,
+  MINTER_PURCHASE_KINDS,
+  OwnedNFT,
+  UnsupportedMinterType,
+} from "./purchase";
+
+/**
+ * A project whose holders may purchase on a holder minter project.
+ */
+export type HolderProject = {
+  /** address of the owned NFT's contract */
+  contract: string;
+  /** project ID on that contract */
+  projectId: BigNumber;
+};
+
+/**
+ * Arguments of a holder minter's `purchaseTo`, with the vault only when
+ * purchasing on behalf of a delegated vault.
+ */
+export type HolderPurchaseToArgs =
+  | [
+      to: string,
+      projectId: BigNumberish,
+      coreContract: string,
+      ownedNFTAddress: string,
+      ownedNFTTokenId: BigNumber,
+    ]
+  | [
+      to: string,
+      projectId: BigNumberish,
+      coreContract: string,
+      ownedNFTAddress: string,
+      ownedNFTTokenId: BigNumber,
+      vault: string,
+    ];
+
+/**
+ * An owned NFT that qualifies a wallet to purchase on a holder minter.
+ */
+export type HolderMintOption = {
+  ownedNFT: OwnedNFT & { tokenId: BigNumber };
+  /** delegated vault owning the NFT, if not owned by the wallet itself */
+  vault?: string;
+  purchaseToArgs: HolderPurchaseToArgs;
+};
+
+/**
+ * Source of NFT ownership data, e.g. on-chain `ownerOf` calls or a local
+ * index.
+ */
+export interface OwnershipSource {
+  /**
+   * @param owner wallet address
+   * @param project holder project to search
+   * @returns token IDs of the project owned by the wallet
+   */
+  getOwnedTokens(owner: string, project: HolderProject): Promise<BigNumber[]>;
+}
+
+export type HolderMintOptionsParams = {
+  /** recipient of the token, defaults to the purchasing wallet */
+  to?: string;
+  /** source of ownership data, defaults to on-chain `ownerOf` calls */
+  ownershipSource?: OwnershipSource;
+};
+
+const DEFAULT_OWNER_OF_BATCH_SIZE = 50;
+
+/**
+ * @summary Get a project's invocations on any Art Blocks core contract.
+ * @description Reads `projectStateData` on V3 cores, falling back to
+ * `projectTokenInfo` on the legacy flagship V0 and V1 cores, which revert
+ * on `projectStateData`.
+ */
+const getProjectInvocations = async (
+  contract: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish
+): Promise<BigNumber> => {
+  try {
+    const { invocations } =
+      await IGenArt721CoreContractV3_Base__factory.connect(
+        contract,
+        signerOrProvider
+      ).projectStateData(projectId);
+    return invocations;
+  } catch (error) {
+    if (
+      (error as { code?: string }).code !== utils.Logger.errors.CALL_EXCEPTION
+    ) {
+      throw error;
+    }
+  }
+  // @dev V1 returns the currency after the same seven values as V0, so V0's
+  // ABI decodes both
+  const { invocations } = await GenArt721CoreV0__factory.connect(
+    contract,
+    signerOrProvider
+  ).projectTokenInfo(projectId);
+  return invocations;
+};
+
+/**
+ * @summary Ownership source that calls `ownerOf` for every token of a
+ * project.
+ * @description Token IDs are derived from the project's invocations on its
+ * Art Blocks core contract, including the legacy flagship V0 and V1 cores,
+ * so one call is made per minted token. Calls are
+ * made in batches, so that large projects do not flood the provider.
+ */
+export class OnChainOwnershipSource implements OwnershipSource {
+  readonly signerOrProvider: Signer | providers.Provider;
+  readonly batchSize: number;
+
+  /**
+   * @param signerOrProvider ethers signer or provider
+   * @param batchSize maximum number of concurrent `ownerOf` calls
+   */
+  constructor(
+    signerOrProvider: Signer | providers.Provider,
+    batchSize = DEFAULT_OWNER_OF_BATCH_SIZE
+  ) {
+    this.signerOrProvider = signerOrProvider;
+    this.batchSize = batchSize;
+  }
+
+  async getOwnedTokens(
+    owner: string,
+    { contract, projectId }: HolderProject
+  ): Promise<BigNumber[]> {
+    const nft = IERC721__factory.connect(contract, this.signerOrProvider);
+    const invocations = await getProjectInvocations(
+      contract,
+      this.signerOrProvider,
+      projectId
+    );
+    const tokenIds = Array.from({ length: invocations.toNumber() }, (_, i) =>
+      encodeTokenId(projectId, i)
+    );
+    const owners: string[] = [];
+    for (let i = 0; i < tokenIds.length; i += this.batchSize) {
+      const batch = tokenIds.slice(i, i + this.batchSize);
+      owners.push(
+        ...(await Promise.all(batch.map((tokenId) => nft.ownerOf(tokenId))))
+      );
+    }
+    return tokenIds.filter(
+      (_, i) => owners[i].toLowerCase() === owner.toLowerCase()
+    );
+  }
+}
+
+/**
+ * @summary Ownership source backed by a local index of token owners.
+ */
+export class IndexedOwnershipSource implements OwnershipSource {
+  private readonly tokensByOwner = new Map<string, OwnedNFT[]>();
+
+  /**
+   * @param tokens indexed tokens and their current owners
+   */
+  constructor(tokens: (OwnedNFT & { owner: string })[]) {
+    for (const { owner, address, tokenId } of tokens) {
+      const key = owner.toLowerCase();
+      const ownedTokens = this.tokensByOwner.get(key) ?? [];
+      ownedTokens.push({ address, tokenId });
+      this.tokensByOwner.set(key, ownedTokens);
+    }
+  }
+
+  async getOwnedTokens(
+    owner: string,
+    { contract, projectId }: HolderProject
+  ): Promise<BigNumber[]> {
+    return (this.tokensByOwner.get(owner.toLowerCase()) ?? [])
+      .filter(({ address }) => address.toLowerCase() === contract.toLowerCase())
+      .map(({ tokenId }) => BigNumber.from(tokenId))
+      .filter((tokenId) => decodeTokenId(tokenId).projectId.eq(projectId));
+  }
+}
+
+/**
+ * @summary Get the projects whose holders may purchase on a holder minter
+ * project.
+ * @description Holder projects are discovered from the minter's
+ * `AllowedHoldersOfProjects` and `RemovedHoldersOfProjects` events, and
+ * each is confirmed with `allowedProjectHolders`.
+ * @param minterAddress address of a holder minter, e.g.
+ * `MinterSetPriceHolderV5`
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns allowlisted holder projects
+ */
+export async function getAllowedHolderProjects(
+  minterAddress: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<HolderProject[]> {
+  const holderEvents = TokenHolderLib__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const [allowedEvents, removedEvents] = await Promise.all([
+    holderEvents.queryFilter(
+      holderEvents.filters.AllowedHoldersOfProjects(projectId, coreContract)
+    ),
+    holderEvents.queryFilter(
+      holderEvents.filters.RemovedHoldersOfProjects(projectId, coreContract)
+    ),
+  ]);
+  const candidates = new Map<string, HolderProject>();
+  for (const { args } of [...allowedEvents, ...removedEvents]) {
+    args.ownedNFTAddresses.forEach((contract, i) => {
+      const holderProjectId = args.ownedNFTProjectIds[i];
+      candidates.set(
+        `${contract.toLowerCase()}-${holderProjectId.toString()}`,
+        { contract, projectId: holderProjectId }
+      );
+    });
+  }
+
+  // @dev the minter's current state is authoritative, regardless of the
+  // order of allow and remove events
+  const minter = MinterSetPriceHolderV5__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const holderProjects = Array.from(candidates.values());
+  const allowed = await Promise.all(
+    holderProjects.map(({ contract, projectId: holderProjectId }) =>
+      minter.allowedProjectHolders(
+        projectId,
+        coreContract,
+        contract,
+        holderProjectId
+      )
+    )
+  );
+  return holderProjects.filter((_, i) => allowed[i]);
+}
+
+/**
+ * @summary Find the owned NFTs that qualify a wallet to purchase on a holder
+ * minter project.
+ * @description Searches the wallet and the delegate.cash vaults whose
+ * delegation covers the project's core contract and the owned token, as
+ * `MinterSetPriceHolderV5`, `MinterDAExpHolderV5` and `MinterDALinHolderV5`
+ * check with `checkDelegateForToken`. Every option is confirmed with the
+ * minter's `isAllowlistedNFT`.
+ * @param minterAddress address of a holder minter
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param wallet purchasing wallet
+ * @param options recipient of the token and source of ownership data
+ * @returns one option per qualifying owned NFT, with its `purchaseTo`
+ * arguments
+ * @throws UnsupportedChain if no delegation registry is known for the
+ * network's chain
+ */
+export async function findHolderMintOptions(
+  minterAddress: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  wallet: string,
+  options: HolderMintOptionsParams = {}
+): Promise<HolderMintOption[]> {
+  const to = options.to ?? wallet;
+  const ownershipSource =
+    options.ownershipSource ?? new OnChainOwnershipSource(signerOrProvider);
+  const [holderProjects, delegations] = await Promise.all([
+    getAllowedHolderProjects(
+      minterAddress,
+      signerOrProvider,
+      projectId,
+      coreContract
+    ),
+    getDelegations(signerOrProvider, wallet),
+  ]);
+  const vaults = Array.from(new Set(delegations.map(({ vault }) => vault)));
+
+  const candidates: HolderMintOption[] = [];
+  for (const owner of [wallet, ...vaults]) {
+    const vault = owner === wallet ? undefined : owner;
+    for (const holderProject of holderProjects) {
+      const tokenIds = await ownershipSource.getOwnedTokens(
+        owner,
+        holderProject
+      );
+      for (const tokenId of tokenIds) {
+        const scope = { contract: coreContract, tokenId };
+        if (
+          vault &&
+          !delegations.some(
+            (delegation) =>
+              delegation.vault === vault && delegationCovers(delegation, scope)
+          )
+        ) {
+          continue;
+        }
+        const ownedNFT = { address: holderProject.contract, tokenId };
+        const args: HolderPurchaseToArgs = [
+          to,
+          projectId,
+          coreContract,
+          ownedNFT.address,
+          tokenId,
+        ];
+        candidates.push({
+          ownedNFT,
+          vault,
+          purchaseToArgs: vault ? [...args, vault] : args,
+        });
+      }
+    }
+  }
+
+  const minter = MinterSetPriceHolderV5__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const allowlisted = await Promise.all(
+    candidates.map(({ ownedNFT }) =>
+      minter.isAllowlistedNFT(
+        projectId,
+        coreContract,
+        ownedNFT.address,
+        ownedNFT.tokenId
+      )
+    )
+  );
+  return candidates.filter((_, i) => allowlisted[i]);
+}
+
+/**
+ * @summary Find the owned NFTs that qualify a wallet to purchase a project
+ * assigned to a holder minter.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param wallet purchasing wallet
+ * @param options recipient of the token and source of ownership data
+ * @returns one option per qualifying owned NFT, with its `purchaseTo`
+ * arguments
+ * @throws UnsupportedMinterType if the project's minter is not a holder
+ * minter
+ */
+export async function findProjectHolderMintOptions(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  wallet: string,
+  options: HolderMintOptionsParams = {}
+): Promise<HolderMintOption[]> {
+  const { minterAddress, minterType } = await getProjectMinter(
+    minterFilter,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+  if (MINTER_PURCHASE_KINDS[minterType] !== "holder") {
+    throw new UnsupportedMinterType(minterType);
+  }
+  return findHolderMintOptions(
+    minterAddress,
+    signerOrProvider,
+    projectId,
+    coreContract,
+    wallet,
+    options
+  );
+}
@@ -0,0 +1,295 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import { IndexedOwnershipSource } from "./holder-eligibility";
+import {
+  findPolyptychMintOptions,
+  findProjectPolyptychMintOptions,
+  incrementPolyptychPanel,
+  PolyptychPanelNotSoldOut,
+} from "./polyptych";
+import { ProjectMinterNotConfigured, UnsupportedMinterType } from "./purchase";
+import { mockMinterFilter, mockMinterType } from "../test-fixtures";
+import { IDelegationRegistry__factory } from "../generated/contracts/factories/IDelegationRegistry__factory";
+import { IERC721__factory } from "../generated/contracts/factories/IERC721__factory";
+import { IGenArt721CoreContractExposesHashSeed__factory } from "../generated/contracts/factories/IGenArt721CoreContractExposesHashSeed__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { MinterSetPriceHolderV5__factory } from "../generated/contracts/factories/MinterSetPriceHolderV5__factory";
+import { MinterSetPricePolyptychV5__factory } from "../generated/contracts/factories/MinterSetPricePolyptychV5__factory";
+import { TokenHolderLib__factory } from "../generated/contracts/factories/TokenHolderLib__factory";
+
+const WALLET_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const VAULT_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const ZERO_HASH_SEED = "0x000000000000000000000000";
+
+const provider = new ethers.providers.StaticJsonRpcProvider(
+  undefined,
+  "sepolia"
+);
+
+// @dev panel 0 of project 1 is the source of panel 1
+const hashSeedOf = (tokenId: BigNumber) =>
+  tokenId.eq(1_000_002)
+    ? ZERO_HASH_SEED
+    : ethers.utils.hexZeroPad(tokenId.toHexString(), 12);
+
+/**
+ * Mocks a polyptych minter on its current panel, with the given hash seeds
+ * already minted on each panel.
+ */
+const mockPolyptychMinter = ({
+  minterType = "MinterSetPricePolyptychV5",
+  currentPanelId = 1,
+  mintedPanels = {} as { [panelId: number]: string[] },
+  invocations = 3,
+  maxInvocations = 3,
+  coreMaxInvocations = 1_000_000,
+} = {}) => {
+  TokenHolderLib__factory.connect = jest.fn().mockReturnValue({
+    filters: {
+      AllowedHoldersOfProjects: () => "allowed",
+      RemovedHoldersOfProjects: () => "removed",
+    },
+    queryFilter: async (filter: string) =>
+      filter === "allowed"
+        ? [
+            {
+              args: {
+                ownedNFTAddresses: [CORE_ADDRESS],
+                ownedNFTProjectIds: [BigNumber.from(1)],
+              },
+            },
+          ]
+        : [],
+  });
+  MinterSetPriceHolderV5__factory.connect = jest.fn().mockReturnValue({
+    allowedProjectHolders: async () => true,
+    isAllowlistedNFT: async () => true,
+  });
+  IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+    getDelegationsByDelegate: async () => [
+      {
+        type_: 1,
+        vault: VAULT_ADDRESS,
+        contract_: ethers.constants.AddressZero,
+        tokenId: BigNumber.from(0),
+      },
+    ],
+  });
+  IGenArt721CoreContractExposesHashSeed__factory.connect = jest
+    .fn()
+    .mockReturnValue({
+      tokenIdToHashSeed: async (tokenId: BigNumber) => hashSeedOf(tokenId),
+    });
+  IGenArt721CoreContractV3_Base__factory.connect = jest.fn().mockReturnValue({
+    projectStateData: async () => ({
+      invocations: BigNumber.from(invocations),
+      maxInvocations: BigNumber.from(coreMaxInvocations),
+    }),
+  });
+  const minter = {
+    getCurrentPolyptychPanelId: async () => BigNumber.from(currentPanelId),
+    getPolyptychPanelHashSeedIsMinted: jest.fn(
+      async (
+        projectId: number,
+        coreContract: string,
+        panelId: number,
+        hashSeed: string
+      ) => (mintedPanels[panelId] ?? []).includes(hashSeed)
+    ),
+    projectMaxInvocations: async () => BigNumber.from(maxInvocations),
+    incrementPolyptychProjectPanelId: jest.fn(async () => "transaction"),
+  };
+  MinterSetPricePolyptychV5__factory.connect = jest
+    .fn()
+    .mockReturnValue(minter);
+  mockMinterType(minterType);
+  return minter;
+};
+
+const ownershipSource = new IndexedOwnershipSource([
+  { owner: WALLET_ADDRESS, address: CORE_ADDRESS, tokenId: 1_000_000 },
+  { owner: WALLET_ADDRESS, address: CORE_ADDRESS, tokenId: 1_000_001 },
+  { owner: VAULT_ADDRESS, address: CORE_ADDRESS, tokenId: 1_000_002 },
+]);
+
+describe("findPolyptychMintOptions", () => {
+  it("lists each source token's minted panels and eligibility", async () => {
+    const seed = hashSeedOf(BigNumber.from(1_000_000));
+    const minter = mockPolyptychMinter({
+      mintedPanels: { 0: [seed], 1: [seed] },
+    });
+    const { currentPanelId, options } = await findPolyptychMintOptions(
+      MINTER_ADDRESS,
+      provider,
+      1,
+      CORE_ADDRESS,
+      WALLET_ADDRESS,
+      { ownershipSource }
+    );
+    expect(currentPanelId).toEqual(1);
+    expect(
+      options.map(({ ownedNFT, hashSeed, mintedPanelIds, eligible }) => ({
+        tokenId: ownedNFT.tokenId.toNumber(),
+        hashSeed,
+        mintedPanelIds,
+        eligible,
+      }))
+    ).toEqual([
+      {
+        tokenId: 1_000_000,
+        hashSeed: seed,
+        mintedPanelIds: [0, 1],
+        eligible: false,
+      },
+      {
+        tokenId: 1_000_001,
+        hashSeed: hashSeedOf(BigNumber.from(1_000_001)),
+        mintedPanelIds: [],
+        eligible: true,
+      },
+      {
+        tokenId: 1_000_002,
+        hashSeed: ZERO_HASH_SEED,
+        mintedPanelIds: [],
+        eligible: false,
+      },
+    ]);
+    // @dev unset hash seeds are not queried
+    expect(minter.getPolyptychPanelHashSeedIsMinted).toBeCalledTimes(4);
+  });
+
+  it("builds the purchase parameters for each source token", async () => {
+    mockPolyptychMinter();
+    const { options } = await findPolyptychMintOptions(
+      MINTER_ADDRESS,
+      provider,
+      1,
+      CORE_ADDRESS,
+      WALLET_ADDRESS,
+      { ownershipSource }
+    );
+    expect(options[0].purchaseParams).toEqual({
+      coreContract: CORE_ADDRESS,
+      projectId: 1,
+      to: WALLET_ADDRESS,
+      vault: undefined,
+      ownedNFT: { address: CORE_ADDRESS, tokenId: BigNumber.from(1_000_000) },
+    });
+    expect(options[2].purchaseParams).toMatchObject({ vault: VAULT_ADDRESS });
+
+    const { options: giftOptions } = await findPolyptychMintOptions(
+      MINTER_ADDRESS,
+      provider,
+      1,
+      CORE_ADDRESS,
+      WALLET_ADDRESS,
+      { ownershipSource, to: VAULT_ADDRESS }
+    );
+    expect(giftOptions[0].purchaseParams.to).toEqual(VAULT_ADDRESS);
+  });
+
+  it("reads ownership on chain by default", async () => {
+    mockPolyptychMinter({ invocations: 1 });
+    IERC721__factory.connect = jest.fn().mockReturnValue({
+      ownerOf: async () => WALLET_ADDRESS,
+    });
+    const { options } = await findPolyptychMintOptions(
+      MINTER_ADDRESS,
+      provider,
+      1,
+      CORE_ADDRESS,
+      WALLET_ADDRESS
+    );
+    expect(options.map(({ ownedNFT }) => ownedNFT.tokenId)).toEqual([
+      BigNumber.from(1_000_000),
+    ]);
+  });
+});
+
+describe("findProjectPolyptychMintOptions", () => {
+  it("searches the project's polyptych minter", async () => {
+    mockPolyptychMinter({ minterType: "MinterSetPricePolyptychERC20V5" });
+    const { options } = await findProjectPolyptychMintOptions(
+      mockMinterFilter(MINTER_ADDRESS),
+      provider,
+      1,
+      CORE_ADDRESS,
+      WALLET_ADDRESS,
+      { ownershipSource }
+    );
+    expect(options).toHaveLength(3);
+  });
+
+  it("throws when the project has no minter", async () => {
+    await expect(
+      findProjectPolyptychMintOptions(
+        mockMinterFilter(MINTER_ADDRESS, false),
+        provider,
+        1,
+        CORE_ADDRESS,
+        WALLET_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  it("throws for a minter that is not a polyptych minter", async () => {
+    mockPolyptychMinter({ minterType: "MinterSetPriceHolderV5" });
+    await expect(
+      findProjectPolyptychMintOptions(
+        mockMinterFilter(MINTER_ADDRESS),
+        provider,
+        1,
+        CORE_ADDRESS,
+        WALLET_ADDRESS
+      )
+    ).rejects.toThrowError(UnsupportedMinterType);
+  });
+});
+
+describe("incrementPolyptychPanel", () => {
+  const signer = new ethers.VoidSigner(WALLET_ADDRESS, provider);
+
+  it("increments the panel once the current panel sold out", async () => {
+    const minter = mockPolyptychMinter();
+    expect(
+      await incrementPolyptychPanel(
+        mockMinterFilter(MINTER_ADDRESS),
+        signer,
+        1,
+        CORE_ADDRESS
+      )
+    ).toEqual("transaction");
+    expect(minter.incrementPolyptychProjectPanelId).toBeCalledWith(
+      1,
+      CORE_ADDRESS
+    );
+  });
+
+  it("uses the lower of the minter's and the core's max invocations", async () => {
+    mockPolyptychMinter({ maxInvocations: 10, coreMaxInvocations: 3 });
+    expect(
+      await incrementPolyptychPanel(
+        mockMinterFilter(MINTER_ADDRESS),
+        signer,
+        1,
+        CORE_ADDRESS
+      )
+    ).toEqual("transaction");
+  });
+
+  it("throws while the current panel can still be minted", async () => {
+    const minter = mockPolyptychMinter({ invocations: 2 });
+    await expect(
+      incrementPolyptychPanel(
+        mockMinterFilter(MINTER_ADDRESS),
+        signer,
+        1,
+        CORE_ADDRESS
+      )
+    ).rejects.toThrowError(new PolyptychPanelNotSoldOut(1, 2, 3));
+    expect(minter.incrementPolyptychProjectPanelId).not.toBeCalled();
+  });
+});
@@ -0,0 +1,263 @@
+import {
+  BigNumberish,
+  ContractTransaction,
+  Signer,
+  constants,
+  providers,
+} from "ethers";
+
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { IGenArt721CoreContractExposesHashSeed__factory } from "../generated/contracts/factories/IGenArt721CoreContractExposesHashSeed__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { MinterSetPricePolyptychV5__factory } from "../generated/contracts/factories/MinterSetPricePolyptychV5__factory";
+import {
+  findHolderMintOptions,
+  HolderMintOption,
+  HolderMintOptionsParams,
+} from "./holder-eligibility";
+import {
+  getProjectMinter,
+  PurchaseParams,
+  UnsupportedMinterType,
+} from "./purchase";
+
+/**
+ * Minter types that mint polyptych panels, which share the panel functions
+ * of `MinterSetPricePolyptychV5`.
+ */
+const POLYPTYCH_MINTER_TYPES = [
+  "MinterSetPricePolyptychV5",
+  "MinterSetPricePolyptychERC20V5",
+];
+
+// @dev `bytes12(0)`, which the minter rejects as a hash seed
+const ZERO_HASH_SEED = constants.HashZero.slice(0, 26);
+
+/**
+ * A token that may be used as the source of a polyptych panel.
+ */
+export type PolyptychMintOption = HolderMintOption & {
+  /** hash seed of the source token, copied to the new panel */
+  hashSeed: string;
+  /** panel IDs already minted with the source token's hash seed */
+  mintedPanelIds: number[];
+  /** whether the token may mint the current panel */
+  eligible: boolean;
+  /** parameters for `purchase` to mint the current panel from the token */
+  purchaseParams: PurchaseParams;
+};
+
+/**
+ * A wallet's source tokens for a polyptych project's current panel.
+ */
+export type PolyptychMintOptions = {
+  currentPanelId: number;
+  options: PolyptychMintOption[];
+};
+
+/**
+ * @summary Error thrown when incrementing a polyptych project's panel before
+ * the current panel sold out.
+ */
+export class PolyptychPanelNotSoldOut extends Error {
+  constructor(panelId: number, invocations: number, maxInvocations: number) {
+    super(
+      `Polyptych panel ${panelId} has not sold out (${invocations} of ${maxInvocations} invocations).`
+    );
+    this.name = "PolyptychPanelNotSoldOut";
+  }
+}
+
+/**
+ * @summary Resolve a project's minter, requiring a polyptych minter.
+ */
+const getPolyptychMinterAddress = async (
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<string> => {
+  const { minterAddress, minterType } = await getProjectMinter(
+    minterFilter,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+  if (!POLYPTYCH_MINTER_TYPES.includes(minterType)) {
+    throw new UnsupportedMinterType(minterType);
+  }
+  return minterAddress;
+};
+
+/**
+ * @summary Find the tokens a wallet may use as the source of a polyptych
+ * project's current panel.
+ * @description Finds the wallet's allowlisted holder tokens, including
+ * those of delegated vaults, then reads each token's hash seed and the
+ * panels already minted with it. A token is eligible if its hash seed is
+ * set and has not been used on the current panel.
+ * @param minterAddress address of a polyptych minter, e.g.
+ * `MinterSetPricePolyptychV5`
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param wallet purchasing wallet
+ * @param options recipient of the token and source of ownership data
+ * @returns the current panel ID, and one option per allowlisted token
+ */
+export async function findPolyptychMintOptions(
+  minterAddress: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  wallet: string,
+  options: HolderMintOptionsParams = {}
+): Promise<PolyptychMintOptions> {
+  const minter = MinterSetPricePolyptychV5__factory.connect(
+    minterAddress,
+    signerOrProvider
+  );
+  const [currentPanelId, holderOptions] = await Promise.all([
+    minter
+      .getCurrentPolyptychPanelId(projectId, coreContract)
+      .then((panelId) => panelId.toNumber()),
+    findHolderMintOptions(
+      minterAddress,
+      signerOrProvider,
+      projectId,
+      coreContract,
+      wallet,
+      options
+    ),
+  ]);
+  const panelIds = Array.from({ length: currentPanelId + 1 }, (_, i) => i);
+
+  const polyptychOptions = await Promise.all(
+    holderOptions.map(async (option): Promise<PolyptychMintOption> => {
+      const { ownedNFT, vault } = option;
+      const hashSeed =
+        await IGenArt721CoreContractExposesHashSeed__factory.connect(
+          ownedNFT.address,
+          signerOrProvider
+        ).tokenIdToHashSeed(ownedNFT.tokenId);
+      const isMinted =
+        hashSeed === ZERO_HASH_SEED
+          ? panelIds.map(() => false)
+          : await Promise.all(
+              panelIds.map((panelId) =>
+                minter.getPolyptychPanelHashSeedIsMinted(
+                  projectId,
+                  coreContract,
+                  panelId,
+                  hashSeed
+                )
+              )
+            );
+      return {
+        ...option,
+        hashSeed,
+        mintedPanelIds: panelIds.filter((_, i) => isMinted[i]),
+        eligible: hashSeed !== ZERO_HASH_SEED && !isMinted[currentPanelId],
+        purchaseParams: {
+          coreContract,
+          projectId,
+          to: options.to ?? wallet,
+          vault,
+          ownedNFT,
+        },
+      };
+    })
+  );
+  return { currentPanelId, options: polyptychOptions };
+}
+
+/**
+ * @summary Find the tokens a wallet may use as the source of the current
+ * panel of a project assigned to a polyptych minter.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param wallet purchasing wallet
+ * @param options recipient of the token and source of ownership data
+ * @returns the current panel ID, and one option per allowlisted token
+ * @throws UnsupportedMinterType if the project's minter is not a polyptych
+ * minter
+ */
+export async function findProjectPolyptychMintOptions(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string,
+  wallet: string,
+  options: HolderMintOptionsParams = {}
+): Promise<PolyptychMintOptions> {
+  const minterAddress = await getPolyptychMinterAddress(
+    minterFilter,
+    signerOrProvider,
+    projectId,
+    coreContract
+  );
+  return findPolyptychMintOptions(
+    minterAddress,
+    signerOrProvider,
+    projectId,
+    coreContract,
+    wallet,
+    options
+  );
+}
+
+/**
+ * @summary Move a polyptych project to its next panel, once the current
+ * panel has sold out.
+ * @description The current panel has sold out once the project's
+ * invocations reach the lower of its max invocations on the minter and on
+ * the core contract. Must be sent by the project's artist.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signer the project's artist
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns the `incrementPolyptychProjectPanelId` transaction
+ * @throws PolyptychPanelNotSoldOut if the current panel can still be minted
+ * @throws UnsupportedMinterType if the project's minter is not a polyptych
+ * minter
+ */
+export async function incrementPolyptychPanel(
+  minterFilter: MinterFilterV2,
+  signer: Signer,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<ContractTransaction> {
+  const minterAddress = await getPolyptychMinterAddress(
+    minterFilter,
+    signer,
+    projectId,
+    coreContract
+  );
+  const minter = MinterSetPricePolyptychV5__factory.connect(
+    minterAddress,
+    signer
+  );
+  const [panelId, minterMaxInvocations, projectState] = await Promise.all([
+    minter.getCurrentPolyptychPanelId(projectId, coreContract),
+    minter.projectMaxInvocations(projectId, coreContract),
+    IGenArt721CoreContractV3_Base__factory.connect(
+      coreContract,
+      signer
+    ).projectStateData(projectId),
+  ]);
+  const invocations = projectState.invocations.toNumber();
+  const maxInvocations = Math.min(
+    minterMaxInvocations.toNumber(),
+    projectState.maxInvocations.toNumber()
+  );
+  if (invocations < maxInvocations) {
+    throw new PolyptychPanelNotSoldOut(
+      panelId.toNumber(),
+      invocations,
+      maxInvocations
+    );
+  }
+  return minter.incrementPolyptychProjectPanelId(projectId, coreContract);
+}
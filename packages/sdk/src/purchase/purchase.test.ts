@@ -0,0 +1,702 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ContractReceipt, ethers } from "ethers";
+
+import {
+  getMintedTokenId,
+  getProjectERC20PurchaseStatus,
+  purchase,
+  simulatePurchase,
+  MintEventNotFound,
+  MissingPurchaseParameter,
+  ProjectMinterNotConfigured,
+  ProjectPriceNotConfigured,
+  UnsupportedMinterType,
+} from "./purchase";
+import { Allowlist, AllowlistEntryDoesNotExist } from "./allowlist";
+import { InsufficientERC20Allowance, InsufficientERC20Balance } from "./erc20";
+import { resolveSigner } from "../adapters/chain-adapter";
+import { ProviderRequired, SignerRequired } from "../errors";
+import { ProjectSoldOut } from "../revert-reasons";
+import { mockMinterFilter } from "../test-fixtures";
+import { IDelegationRegistry__factory } from "../generated/contracts/factories/IDelegationRegistry__factory";
+import { IERC20__factory } from "../generated/contracts/factories/IERC20__factory";
+import { IERC20Metadata__factory } from "../generated/contracts/factories/IERC20Metadata__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { ISharedMinterHolderERC20V0__factory } from "../generated/contracts/factories/ISharedMinterHolderERC20V0__factory";
+import { ISharedMinterHolderV0__factory } from "../generated/contracts/factories/ISharedMinterHolderV0__factory";
+import { ISharedMinterSimplePurchaseV0__factory } from "../generated/contracts/factories/ISharedMinterSimplePurchaseV0__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { MinterSetPriceERC20V5__factory } from "../generated/contracts/factories/MinterSetPriceERC20V5__factory";
+import { MinterSetPriceMerkleV5__factory } from "../generated/contracts/factories/MinterSetPriceMerkleV5__factory";
+
+const PURCHASER_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const RECIPIENT_ADDRESS = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const VAULT_ADDRESS = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const MINTER_ADDRESS = "0x9267df035F6d7566d410B9Af153574f87481Eb00";
+const CURRENCY_ADDRESS = "0xd31E891ad9a1e47e4D3d9B15cccCd188BeBC7A48";
+const OWNED_NFT = { address: CORE_ADDRESS, tokenId: 7 };
+const PRICE = BigNumber.from(100);
+const TOKEN_ID = BigNumber.from(1_000_042);
+
+const coreInterface = IGenArt721CoreContractV3_Base__factory.createInterface();
+
+const mintReceipt = (coreContract: string = CORE_ADDRESS) =>
+  ({
+    logs: [
+      {
+        address: coreContract,
+        ...coreInterface.encodeEventLog(coreInterface.getEvent("Mint"), [
+          RECIPIENT_ADDRESS,
+          TOKEN_ID,
+        ]),
+      },
+    ],
+  }) as unknown as ContractReceipt;
+
+const mockTx = () => ({ wait: async () => mintReceipt() });
+
+const mockMinter = (minterType: string, isConfigured = true) => {
+  ISharedMinterV0__factory.connect = jest.fn().mockReturnValue({
+    minterType: async () => minterType,
+    getPriceInfo: async () => ({
+      isConfigured,
+      tokenPriceInWei: PRICE,
+      currencySymbol: "ETH",
+      currencyAddress: CURRENCY_ADDRESS,
+    }),
+  });
+};
+
+const signer = new ethers.VoidSigner(
+  PURCHASER_ADDRESS,
+  new ethers.providers.StaticJsonRpcProvider(undefined, "sepolia")
+);
+
+const PARAMS = { coreContract: CORE_ADDRESS, projectId: 42 };
+
+describe("purchase", () => {
+  it("throws when the project has no minter", async () => {
+    await expect(
+      purchase(mockMinterFilter(MINTER_ADDRESS, false), signer, PARAMS)
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  it("throws for an unsupported minter type", async () => {
+    mockMinter("MinterSEAV1");
+    await expect(
+      purchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS)
+    ).rejects.toThrowError(UnsupportedMinterType);
+  });
+
+  it("throws when the price is not configured", async () => {
+    mockMinter("MinterSetPriceV5", false);
+    await expect(
+      purchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS)
+    ).rejects.toThrowError(ProjectPriceNotConfigured);
+  });
+
+  it("purchases from a simple minter to the purchaser by default", async () => {
+    mockMinter("MinterDAExpV5");
+    const purchaseTo = jest.fn().mockReturnValue(mockTx());
+    ISharedMinterSimplePurchaseV0__factory.connect = jest
+      .fn()
+      .mockReturnValue({ purchaseTo });
+
+    const tokenId = await purchase(
+      mockMinterFilter(MINTER_ADDRESS),
+      signer,
+      PARAMS
+    );
+
+    expect(tokenId).toEqual(TOKEN_ID);
+    expect(purchaseTo).toBeCalledWith(PURCHASER_ADDRESS, 42, CORE_ADDRESS, {
+      value: PRICE,
+    });
+  });
+
+  it("purchases from a simple minter to the provided recipient", async () => {
+    mockMinter("MinterSetPriceV5");
+    const purchaseTo = jest.fn().mockReturnValue(mockTx());
+    ISharedMinterSimplePurchaseV0__factory.connect = jest
+      .fn()
+      .mockReturnValue({ purchaseTo });
+
+    await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+      ...PARAMS,
+      to: RECIPIENT_ADDRESS,
+    });
+
+    expect(purchaseTo).toBeCalledWith(RECIPIENT_ADDRESS, 42, CORE_ADDRESS, {
+      value: PRICE,
+    });
+  });
+
+  it("purchases with a signer adapted from another client", async () => {
+    mockMinter("MinterSetPriceV5");
+    const purchaseTo = jest.fn().mockReturnValue(mockTx());
+    ISharedMinterSimplePurchaseV0__factory.connect = jest
+      .fn()
+      .mockReturnValue({ purchaseTo });
+    const adapter = {
+      request: jest.fn(),
+      getAddress: async () => PURCHASER_ADDRESS,
+      sendTransaction: jest.fn(),
+    };
+
+    await purchase(mockMinterFilter(MINTER_ADDRESS), adapter, PARAMS);
+
+    expect(purchaseTo).toBeCalledWith(PURCHASER_ADDRESS, 42, CORE_ADDRESS, {
+      value: PRICE,
+    });
+    expect(ISharedMinterSimplePurchaseV0__factory.connect).toBeCalledWith(
+      MINTER_ADDRESS,
+      resolveSigner(adapter)
+    );
+  });
+
+  it("throws for a read-only client adapter", async () => {
+    await expect(
+      purchase(mockMinterFilter(MINTER_ADDRESS), { request: jest.fn() }, PARAMS)
+    ).rejects.toThrowError(SignerRequired);
+  });
+
+  describe("merkle minters", () => {
+    const mockMerkleMinter = () => {
+      mockMinter("MinterSetPriceMerkleV5");
+      const purchaseTo = jest.fn().mockReturnValue(mockTx());
+      MinterSetPriceMerkleV5__factory.connect = jest.fn().mockReturnValue({
+        "purchaseTo(address,uint256,address,bytes32[],address)": purchaseTo,
+      });
+      return purchaseTo;
+    };
+
+    it("requires the allowlist", async () => {
+      mockMinter("MinterSetPriceMerkleV5");
+      await expect(
+        purchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS)
+      ).rejects.toThrowError(MissingPurchaseParameter);
+    });
+
+    it("purchases with the purchaser's proof", async () => {
+      const purchaseTo = mockMerkleMinter();
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        allowlist: [PURCHASER_ADDRESS],
+      });
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        [],
+        ethers.constants.AddressZero,
+        { value: PRICE }
+      );
+    });
+
+    it("purchases with the provided vault's proof", async () => {
+      const purchaseTo = mockMerkleMinter();
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        allowlist: [VAULT_ADDRESS],
+        vault: VAULT_ADDRESS,
+      });
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        [],
+        VAULT_ADDRESS,
+        { value: PRICE }
+      );
+    });
+
+    it("accepts a prebuilt allowlist in any letter case", async () => {
+      const purchaseTo = mockMerkleMinter();
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        allowlist: new Allowlist([PURCHASER_ADDRESS.toLowerCase()]),
+      });
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        [],
+        ethers.constants.AddressZero,
+        { value: PRICE }
+      );
+    });
+
+    it("falls back to a vault delegated for the core contract", async () => {
+      const purchaseTo = mockMerkleMinter();
+      IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+        getDelegationsByDelegate: async () => [
+          {
+            type_: 3,
+            vault: RECIPIENT_ADDRESS,
+            contract_: CORE_ADDRESS,
+            tokenId: BigNumber.from(7),
+          },
+          {
+            type_: 2,
+            vault: VAULT_ADDRESS,
+            contract_: CORE_ADDRESS,
+            tokenId: BigNumber.from(0),
+          },
+        ],
+      });
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        allowlist: [RECIPIENT_ADDRESS, VAULT_ADDRESS],
+      });
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        new Allowlist([RECIPIENT_ADDRESS, VAULT_ADDRESS]).getProof(
+          VAULT_ADDRESS
+        ),
+        VAULT_ADDRESS,
+        { value: PRICE }
+      );
+    });
+
+    it("throws when neither the purchaser nor a vault is allowlisted", async () => {
+      mockMerkleMinter();
+      IDelegationRegistry__factory.connect = jest.fn().mockReturnValue({
+        getDelegationsByDelegate: async () => [],
+      });
+      await expect(
+        purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+          ...PARAMS,
+          allowlist: [VAULT_ADDRESS],
+        })
+      ).rejects.toThrowError(AllowlistEntryDoesNotExist);
+    });
+
+    it("throws when searching vaults through a signer without a provider", async () => {
+      mockMerkleMinter();
+      await expect(
+        purchase(
+          mockMinterFilter(MINTER_ADDRESS),
+          new ethers.VoidSigner(PURCHASER_ADDRESS),
+          { ...PARAMS, allowlist: [VAULT_ADDRESS] }
+        )
+      ).rejects.toThrowError(ProviderRequired);
+    });
+  });
+
+  describe("holder minters", () => {
+    const mockHolderMinter = () => {
+      mockMinter("MinterSetPriceHolderV5");
+      const purchaseTo = jest.fn().mockReturnValue(mockTx());
+      const purchaseToVault = jest.fn().mockReturnValue(mockTx());
+      ISharedMinterHolderV0__factory.connect = jest.fn().mockReturnValue({
+        "purchaseTo(address,uint256,address,address,uint256)": purchaseTo,
+        "purchaseTo(address,uint256,address,address,uint256,address)":
+          purchaseToVault,
+      });
+      return { purchaseTo, purchaseToVault };
+    };
+
+    it("requires the owned NFT", async () => {
+      mockMinter("MinterDAExpHolderV5");
+      await expect(
+        purchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS)
+      ).rejects.toThrowError(MissingPurchaseParameter);
+    });
+
+    it("purchases with the owned NFT", async () => {
+      const { purchaseTo } = mockHolderMinter();
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        ownedNFT: OWNED_NFT,
+      });
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        OWNED_NFT.address,
+        OWNED_NFT.tokenId,
+        { value: PRICE }
+      );
+    });
+
+    it("purchases with the owned NFT on behalf of a vault", async () => {
+      const { purchaseToVault } = mockHolderMinter();
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        ownedNFT: OWNED_NFT,
+        vault: VAULT_ADDRESS,
+      });
+      expect(purchaseToVault).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        OWNED_NFT.address,
+        OWNED_NFT.tokenId,
+        VAULT_ADDRESS,
+        { value: PRICE }
+      );
+    });
+  });
+
+  describe("ERC20 minters", () => {
+    const mockERC20 = (allowance: BigNumber, balance: BigNumber = PRICE) => {
+      const approve = jest.fn(async (spender: string, amount: BigNumber) => ({
+        to: CURRENCY_ADDRESS,
+        data: `approve ${spender} ${amount}`,
+      }));
+      IERC20Metadata__factory.connect = jest.fn().mockReturnValue({
+        decimals: async () => 6,
+        balanceOf: async () => balance,
+        allowance: async () => allowance,
+      });
+      IERC20__factory.connect = jest.fn().mockReturnValue({
+        populateTransaction: { approve },
+      });
+      signer.sendTransaction = jest.fn(async () => ({
+        wait: async () => ({}),
+      })) as unknown as typeof signer.sendTransaction;
+      return approve;
+    };
+
+    it("approves the exact price when the allowance is insufficient", async () => {
+      mockMinter("MinterSetPriceERC20V5");
+      const approve = mockERC20(BigNumber.from(0));
+      const purchaseTo = jest.fn().mockReturnValue(mockTx());
+      MinterSetPriceERC20V5__factory.connect = jest
+        .fn()
+        .mockReturnValue({ purchaseTo });
+
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS);
+
+      expect(approve).toBeCalledWith(MINTER_ADDRESS, PRICE);
+      expect(signer.sendTransaction).toBeCalledWith({
+        to: CURRENCY_ADDRESS,
+        data: `approve ${MINTER_ADDRESS} ${PRICE}`,
+      });
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        PRICE,
+        CURRENCY_ADDRESS
+      );
+    });
+
+    it("does not approve when the allowance is sufficient", async () => {
+      mockMinter("MinterSetPricePolyptychERC20V5");
+      const approve = mockERC20(PRICE);
+      const purchaseTo = jest.fn().mockReturnValue(mockTx());
+      ISharedMinterHolderERC20V0__factory.connect = jest.fn().mockReturnValue({
+        "purchaseTo(address,uint256,address,uint256,address,address,uint256)":
+          purchaseTo,
+      });
+
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        ownedNFT: OWNED_NFT,
+      });
+
+      expect(approve).not.toBeCalled();
+      expect(purchaseTo).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        PRICE,
+        CURRENCY_ADDRESS,
+        OWNED_NFT.address,
+        OWNED_NFT.tokenId
+      );
+    });
+
+    it("throws before sending anything when the balance is insufficient", async () => {
+      mockMinter("MinterSetPriceERC20V5");
+      const approve = mockERC20(BigNumber.from(0), PRICE.sub(1));
+      const purchaseTo = jest.fn();
+      MinterSetPriceERC20V5__factory.connect = jest
+        .fn()
+        .mockReturnValue({ purchaseTo });
+
+      await expect(
+        purchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS)
+      ).rejects.toThrowError(InsufficientERC20Balance);
+      expect(approve).not.toBeCalled();
+      expect(signer.sendTransaction).not.toBeCalled();
+      expect(purchaseTo).not.toBeCalled();
+    });
+
+    it("throws for an insufficient allowance when approvals are disabled", async () => {
+      mockMinter("MinterSetPriceERC20V5");
+      mockERC20(PRICE.sub(1));
+      const purchaseTo = jest.fn();
+      MinterSetPriceERC20V5__factory.connect = jest
+        .fn()
+        .mockReturnValue({ purchaseTo });
+
+      await expect(
+        purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+          ...PARAMS,
+          approveERC20: false,
+        })
+      ).rejects.toThrowError(InsufficientERC20Allowance);
+      expect(signer.sendTransaction).not.toBeCalled();
+      expect(purchaseTo).not.toBeCalled();
+    });
+
+    it("purchases from a holder ERC20 minter on behalf of a vault", async () => {
+      mockMinter("MinterSetPricePolyptychERC20V5");
+      mockERC20(PRICE);
+      const purchaseToVault = jest.fn().mockReturnValue(mockTx());
+      ISharedMinterHolderERC20V0__factory.connect = jest.fn().mockReturnValue({
+        "purchaseTo(address,uint256,address,uint256,address,address,uint256,address)":
+          purchaseToVault,
+      });
+
+      await purchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        ownedNFT: OWNED_NFT,
+        vault: VAULT_ADDRESS,
+      });
+
+      expect(purchaseToVault).toBeCalledWith(
+        PURCHASER_ADDRESS,
+        42,
+        CORE_ADDRESS,
+        PRICE,
+        CURRENCY_ADDRESS,
+        OWNED_NFT.address,
+        OWNED_NFT.tokenId,
+        VAULT_ADDRESS
+      );
+    });
+  });
+});
+
+describe("simulatePurchase", () => {
+  const mockCallStatic = (
+    result: Promise<BigNumber> = Promise.resolve(TOKEN_ID)
+  ) => {
+    const callStatic = jest.fn().mockReturnValue(result);
+    const minter = {
+      callStatic: {
+        purchaseTo: callStatic,
+        "purchaseTo(address,uint256,address,bytes32[],address)": callStatic,
+        "purchaseTo(address,uint256,address,address,uint256)": callStatic,
+        "purchaseTo(address,uint256,address,address,uint256,address)":
+          callStatic,
+        "purchaseTo(address,uint256,address,uint256,address,address,uint256)":
+          callStatic,
+        "purchaseTo(address,uint256,address,uint256,address,address,uint256,address)":
+          callStatic,
+      },
+    };
+    for (const factory of [
+      ISharedMinterSimplePurchaseV0__factory,
+      MinterSetPriceMerkleV5__factory,
+      ISharedMinterHolderV0__factory,
+      MinterSetPriceERC20V5__factory,
+      ISharedMinterHolderERC20V0__factory,
+    ]) {
+      factory.connect = jest.fn().mockReturnValue(minter);
+    }
+    return callStatic;
+  };
+
+  const mockERC20 = (allowance: BigNumber) => {
+    IERC20Metadata__factory.connect = jest.fn().mockReturnValue({
+      decimals: async () => 6,
+      balanceOf: async () => PRICE,
+      allowance: async () => allowance,
+    });
+    signer.sendTransaction = jest.fn();
+  };
+
+  it.each([
+    ["MinterSetPriceV5", {}],
+    ["MinterSetPriceMerkleV5", { allowlist: [PURCHASER_ADDRESS] }],
+    ["MinterSetPriceHolderV5", { ownedNFT: OWNED_NFT }],
+    ["MinterSetPriceHolderV5", { ownedNFT: OWNED_NFT, vault: VAULT_ADDRESS }],
+    ["MinterSetPriceERC20V5", {}],
+    ["MinterSetPricePolyptychERC20V5", { ownedNFT: OWNED_NFT }],
+    [
+      "MinterSetPricePolyptychERC20V5",
+      { ownedNFT: OWNED_NFT, vault: VAULT_ADDRESS },
+    ],
+  ])("simulates a purchase from %s", async (minterType, params) => {
+    mockMinter(minterType);
+    mockERC20(PRICE);
+    const callStatic = mockCallStatic();
+
+    expect(
+      await simulatePurchase(mockMinterFilter(MINTER_ADDRESS), signer, {
+        ...PARAMS,
+        ...params,
+      })
+    ).toEqual({ ok: true, tokenId: TOKEN_ID });
+    expect(callStatic).toBeCalledTimes(1);
+    expect(callStatic.mock.calls[0].slice(0, 3)).toEqual([
+      PURCHASER_ADDRESS,
+      42,
+      CORE_ADDRESS,
+    ]);
+  });
+
+  it("decodes the minter's revert reason", async () => {
+    mockMinter("MinterSetPriceV5");
+    mockCallStatic(
+      Promise.reject({
+        code: "CALL_EXCEPTION",
+        reason: "Max invocations reached",
+      })
+    );
+
+    const simulation = await simulatePurchase(
+      mockMinterFilter(MINTER_ADDRESS),
+      signer,
+      PARAMS
+    );
+
+    expect(simulation.ok).toBe(false);
+    const error = !simulation.ok && simulation.error;
+    expect(error).toBeInstanceOf(ProjectSoldOut);
+    expect(error).toMatchObject({ code: "MAX_INVOCATIONS_REACHED" });
+  });
+
+  it("throws errors that are not reverts", async () => {
+    mockMinter("MinterSetPriceV5");
+    const networkError = { code: "NETWORK_ERROR", reason: "noNetwork" };
+    mockCallStatic(Promise.reject(networkError));
+
+    await expect(
+      simulatePurchase(mockMinterFilter(MINTER_ADDRESS), signer, PARAMS)
+    ).rejects.toBe(networkError);
+  });
+
+  it("fails on an insufficient allowance without approving", async () => {
+    mockMinter("MinterSetPriceERC20V5");
+    mockERC20(PRICE.sub(1));
+    const callStatic = mockCallStatic();
+
+    const simulation = await simulatePurchase(
+      mockMinterFilter(MINTER_ADDRESS),
+      signer,
+      PARAMS
+    );
+
+    expect(!simulation.ok && simulation.error).toBeInstanceOf(
+      InsufficientERC20Allowance
+    );
+    expect(signer.sendTransaction).not.toBeCalled();
+    expect(callStatic).not.toBeCalled();
+  });
+
+  it("returns errors raised before simulating", async () => {
+    const simulation = await simulatePurchase(
+      mockMinterFilter(MINTER_ADDRESS, false),
+      signer,
+      PARAMS
+    );
+
+    expect(!simulation.ok && simulation.error).toBeInstanceOf(
+      ProjectMinterNotConfigured
+    );
+  });
+});
+
+describe("getProjectERC20PurchaseStatus", () => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(
+    undefined,
+    "sepolia"
+  );
+
+  it("reads the project's currency, balance and allowance", async () => {
+    mockMinter("MinterSetPricePolyptychERC20V5");
+    IERC20Metadata__factory.connect = jest.fn().mockReturnValue({
+      decimals: async () => 18,
+      balanceOf: async () => PRICE.mul(2),
+      allowance: async () => PRICE,
+    });
+    expect(
+      await getProjectERC20PurchaseStatus(
+        mockMinterFilter(MINTER_ADDRESS),
+        provider,
+        42,
+        CORE_ADDRESS,
+        PURCHASER_ADDRESS
+      )
+    ).toEqual({
+      currency: { symbol: "ETH", address: CURRENCY_ADDRESS, decimals: 18 },
+      owner: PURCHASER_ADDRESS,
+      spender: MINTER_ADDRESS,
+      price: PRICE,
+      balance: PRICE.mul(2),
+      allowance: PRICE,
+      needsApproval: false,
+    });
+  });
+
+  it("throws when the project has no minter", async () => {
+    await expect(
+      getProjectERC20PurchaseStatus(
+        mockMinterFilter(MINTER_ADDRESS, false),
+        provider,
+        42,
+        CORE_ADDRESS,
+        PURCHASER_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectMinterNotConfigured);
+  });
+
+  it("throws for a minter that is not priced in an ERC20 token", async () => {
+    mockMinter("MinterSetPriceV5");
+    await expect(
+      getProjectERC20PurchaseStatus(
+        mockMinterFilter(MINTER_ADDRESS),
+        provider,
+        42,
+        CORE_ADDRESS,
+        PURCHASER_ADDRESS
+      )
+    ).rejects.toThrowError(UnsupportedMinterType);
+  });
+
+  it("throws when the project's price is not configured", async () => {
+    mockMinter("MinterSetPriceERC20V5", false);
+    await expect(
+      getProjectERC20PurchaseStatus(
+        mockMinterFilter(MINTER_ADDRESS),
+        provider,
+        42,
+        CORE_ADDRESS,
+        PURCHASER_ADDRESS
+      )
+    ).rejects.toThrowError(ProjectPriceNotConfigured);
+  });
+});
+
+describe("getMintedTokenId", () => {
+  it("parses the token ID from the core's Mint event", () => {
+    expect(getMintedTokenId(mintReceipt(), CORE_ADDRESS)).toEqual(TOKEN_ID);
+  });
+
+  it("throws when the core did not emit a Mint event", () => {
+    expect(() =>
+      getMintedTokenId(mintReceipt(VAULT_ADDRESS), CORE_ADDRESS)
+    ).toThrowError(MintEventNotFound);
+  });
+});
+
+describe("purchase errors", () => {
+  it.each([
+    new ProjectMinterNotConfigured(),
+    new ProjectPriceNotConfigured(),
+    new UnsupportedMinterType("MinterSEAV1"),
+    new MissingPurchaseParameter("allowlist", "MinterSetPriceMerkleV5"),
+    new MintEventNotFound(),
+  ])("specifies the name of $name with an error message", (error) => {
+    expect(error.name).toEqual(error.constructor.name);
+    expect(error.message.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,597 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Signer,
+  constants,
+  providers,
+} from "ethers";
+
+import {
+  resolveSigner,
+  resolveSignerOrProvider,
+  ChainAdapter,
+  SignerOrProviderLike,
+} from "../adapters/chain-adapter";
+import { MinterFilterV2 } from "../generated/contracts/MinterFilterV2";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { ISharedMinterHolderERC20V0__factory } from "../generated/contracts/factories/ISharedMinterHolderERC20V0__factory";
+import { ISharedMinterHolderV0__factory } from "../generated/contracts/factories/ISharedMinterHolderV0__factory";
+import { ISharedMinterSimplePurchaseV0__factory } from "../generated/contracts/factories/ISharedMinterSimplePurchaseV0__factory";
+import { ISharedMinterV0__factory } from "../generated/contracts/factories/ISharedMinterV0__factory";
+import { MinterSetPriceERC20V5__factory } from "../generated/contracts/factories/MinterSetPriceERC20V5__factory";
+import { MinterSetPriceMerkleV5__factory } from "../generated/contracts/factories/MinterSetPriceMerkleV5__factory";
+import { Allowlist } from "./allowlist";
+import { getDelegateVaults } from "./delegation";
+import {
+  assertERC20Funds,
+  getERC20PurchaseStatus,
+  populateERC20Approval,
+  ERC20PurchaseStatus,
+} from "./erc20";
+import { ProviderRequired } from "../errors";
+import { decodeRevertError } from "../revert-reasons";
+
+/**
+ * The shape of the purchase call a shared minter expects, keyed off of the
+ * minter's `minterType()`.
+ */
+export type PurchaseKind =
+  "simple" | "merkle" | "holder" | "erc20" | "holderERC20";
+
+/**
+ * Purchase kind of each shared minter type supported by `purchase`.
+ */
+export const MINTER_PURCHASE_KINDS: { [minterType: string]: PurchaseKind } = {
+  MinterSetPriceV5: "simple",
+  MinterDAExpV5: "simple",
+  MinterDALinV5: "simple",
+  MinterDAExpSettlementV3: "simple",
+  MinterSetPriceMerkleV5: "merkle",
+  MinterSetPriceHolderV5: "holder",
+  MinterDAExpHolderV5: "holder",
+  MinterDALinHolderV5: "holder",
+  MinterSetPricePolyptychV5: "holder",
+  MinterSetPriceERC20V5: "erc20",
+  MinterSetPricePolyptychERC20V5: "holderERC20",
+};
+
+export type OwnedNFT = {
+  /** address of the NFT contract */
+  address: string;
+  /** token ID of the owned NFT */
+  tokenId: BigNumberish;
+};
+
+export type PurchaseParams = {
+  /** core contract of the project being purchased */
+  coreContract: string;
+  /** project ID on the core contract */
+  projectId: BigNumberish;
+  /** recipient of the new token, defaults to the purchaser */
+  to?: string;
+  /** delegate.cash vault to purchase on behalf of, if any */
+  vault?: string;
+  /** project's allowlist (or its full list of addresses), required by merkle minters */
+  allowlist?: Allowlist | string[];
+  /** owned NFT to redeem, required by holder minters */
+  ownedNFT?: OwnedNFT;
+  /**
+   * whether ERC20 minters are approved for the exact price when the
+   * allowance is insufficient, defaults to true
+   */
+  approveERC20?: boolean;
+};
+
+/**
+ * @summary Error thrown when a project has no minter assigned on the minter
+ * filter.
+ */
+export class ProjectMinterNotConfigured extends Error {
+  constructor() {
+    super("The project does not have a minter assigned.");
+    this.name = "ProjectMinterNotConfigured";
+  }
+}
+
+/**
+ * @summary Error thrown when the project's minter does not have a price
+ * configured for the project.
+ */
+export class ProjectPriceNotConfigured extends Error {
+  constructor() {
+    super("The project's minter does not have a price configured.");
+    this.name = "ProjectPriceNotConfigured";
+  }
+}
+
+/**
+ * @summary Error thrown when the project's minter type is not supported by
+ * the requested operation.
+ * @description Serial English Auction minters, for example, are bid on
+ * rather than purchased from.
+ */
+export class UnsupportedMinterType extends Error {
+  constructor(minterType: string) {
+    super(`Minter type ${minterType} is not supported by this operation.`);
+    this.name = "UnsupportedMinterType";
+  }
+}
+
+/**
+ * @summary Error thrown when a purchase parameter required by the project's
+ * minter type was not provided.
+ */
+export class MissingPurchaseParameter extends Error {
+  constructor(parameterName: string, minterType: string) {
+    super(`Purchasing from ${minterType} requires the ${parameterName}.`);
+    this.name = "MissingPurchaseParameter";
+  }
+}
+
+/**
+ * @summary Error thrown when a mined purchase transaction did not emit a
+ * `Mint` event from the core contract.
+ */
+export class MintEventNotFound extends Error {
+  constructor() {
+    super("No Mint event was emitted by the core contract.");
+    this.name = "MintEventNotFound";
+  }
+}
+
+/**
+ * Minter assigned to a project on the minter filter.
+ */
+export type ProjectMinter = {
+  minterAddress: string;
+  /** the minter's `minterType()` */
+  minterType: string;
+};
+
+/**
+ * @summary Resolve the minter assigned to a project on the minter filter.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @returns the address and type of the project's minter
+ * @throws ProjectMinterNotConfigured if the project has no minter
+ */
+export async function getProjectMinter(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish,
+  coreContract: string
+): Promise<ProjectMinter> {
+  if (!(await minterFilter.projectHasMinter(projectId, coreContract))) {
+    throw new ProjectMinterNotConfigured();
+  }
+  const minterAddress = await minterFilter.getMinterForProject(
+    projectId,
+    coreContract
+  );
+  const minterType = await ISharedMinterV0__factory.connect(
+    minterAddress,
+    signerOrProvider
+  ).minterType();
+  return { minterAddress, minterType };
+}
+
+/**
+ * @summary Get the minted token ID from a purchase transaction receipt.
+ * @param receipt mined purchase transaction receipt
+ * @param coreContract core contract that minted the token
+ * @returns token ID from the core contract's `Mint` event
+ */
+export const getMintedTokenId = (
+  receipt: ContractReceipt,
+  coreContract: string
+): BigNumber => {
+  const coreInterface =
+    IGenArt721CoreContractV3_Base__factory.createInterface();
+  const mintTopic = coreInterface.getEventTopic("Mint");
+  const mintLog = receipt.logs.find(
+    (log) =>
+      log.address.toLowerCase() === coreContract.toLowerCase() &&
+      log.topics[0] === mintTopic
+  );
+  if (!mintLog) {
+    throw new MintEventNotFound();
+  }
+  return coreInterface.parseLog(mintLog).args._tokenId;
+};
+
+/**
+ * @summary Resolve the merkle proof (and vault, if needed) for a purchase.
+ * @description If the purchaser is not on the allowlist and no vault was
+ * provided, the purchaser's delegate.cash vaults are searched for an
+ * allowlisted vault whose delegation covers the core contract, as
+ * `MinterSetPriceMerkleV5` requires.
+ */
+const getMerkleProofAndVault = async (
+  signer: Signer,
+  purchaser: string,
+  coreContract: string,
+  allowlist: Allowlist,
+  vault?: string
+): Promise<{ proof: string[]; vault?: string }> => {
+  if (vault || allowlist.includes(purchaser)) {
+    return {
+      proof: allowlist.getProof(vault ?? purchaser),
+      vault,
+    };
+  }
+  if (!signer.provider) {
+    throw new ProviderRequired();
+  }
+  const vaults = await getDelegateVaults(signer.provider, purchaser, {
+    contract: coreContract,
+  });
+  const allowlistedVault = vaults.find((v) => allowlist.includes(v));
+  return {
+    // @dev throws AllowlistEntryDoesNotExist if no vault is allowlisted
+    proof: allowlist.getProof(allowlistedVault ?? purchaser),
+    vault: allowlistedVault,
+  };
+};
+
+/**
+ * @summary Ensure the purchaser can pay for an ERC20 purchase.
+ * @description Checks the balance and allowance before sending anything. If
+ * the allowance is insufficient and approvals are allowed, sends an
+ * exact-amount approval and waits for it to be mined.
+ */
+const ensureERC20Funds = async (
+  signer: Signer,
+  status: ERC20PurchaseStatus,
+  approve: boolean
+): Promise<void> => {
+  assertERC20Funds(status, !approve);
+  const approval = await populateERC20Approval(signer, status);
+  if (approval) {
+    const approveTx = await signer.sendTransaction(approval);
+    await approveTx.wait();
+  }
+};
+
+/**
+ * @summary Check a wallet's balance and allowance for a project assigned to
+ * an ERC20 minter.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signerOrProvider ethers signer or provider, or a client adapter
+ * @param projectId project ID on the core contract
+ * @param coreContract core contract of the project
+ * @param owner wallet paying for the purchase
+ * @returns the project's currency symbol, address and decimals, and the
+ * wallet's balance and allowance
+ * @throws UnsupportedMinterType if the project's minter is not priced in an
+ * ERC20 token
+ */
+export async function getProjectERC20PurchaseStatus(
+  minterFilter: MinterFilterV2,
+  signerOrProvider: SignerOrProviderLike,
+  projectId: BigNumberish,
+  coreContract: string,
+  owner: string
+): Promise<ERC20PurchaseStatus> {
+  const ethersSignerOrProvider = resolveSignerOrProvider(signerOrProvider);
+  const { minterAddress, minterType } = await getProjectMinter(
+    minterFilter,
+    ethersSignerOrProvider,
+    projectId,
+    coreContract
+  );
+  const purchaseKind = MINTER_PURCHASE_KINDS[minterType];
+  if (purchaseKind !== "erc20" && purchaseKind !== "holderERC20") {
+    throw new UnsupportedMinterType(minterType);
+  }
+  const priceInfo = await ISharedMinterV0__factory.connect(
+    minterAddress,
+    ethersSignerOrProvider
+  ).getPriceInfo(projectId, coreContract);
+  if (!priceInfo.isConfigured) {
+    throw new ProjectPriceNotConfigured();
+  }
+  return getERC20PurchaseStatus(
+    ethersSignerOrProvider,
+    priceInfo,
+    owner,
+    minterAddress
+  );
+}
+
+/**
+ * Purchase call resolved for a project's minter, ready to be sent or
+ * simulated.
+ */
+type PreparedPurchase = {
+  /** ERC20 payment status, for minters priced in an ERC20 token */
+  erc20Status?: ERC20PurchaseStatus;
+  send: () => Promise<ContractTransaction>;
+  /** simulates the purchase, resolving to the token ID it would mint */
+  callStatic: () => Promise<BigNumber>;
+};
+
+/**
+ * @summary Resolve a project's minter and build the purchase call its
+ * minter type expects.
+ */
+const preparePurchase = async (
+  minterFilter: MinterFilterV2,
+  signer: Signer,
+  params: PurchaseParams
+): Promise<PreparedPurchase> => {
+  const { coreContract, projectId, allowlist, ownedNFT } = params;
+  const { minterAddress, minterType } = await getProjectMinter(
+    minterFilter,
+    signer,
+    projectId,
+    coreContract
+  );
+  const purchaseKind = MINTER_PURCHASE_KINDS[minterType];
+  if (!purchaseKind) {
+    throw new UnsupportedMinterType(minterType);
+  }
+
+  const priceInfo = await ISharedMinterV0__factory.connect(
+    minterAddress,
+    signer
+  ).getPriceInfo(projectId, coreContract);
+  const { isConfigured, tokenPriceInWei, currencyAddress } = priceInfo;
+  if (!isConfigured) {
+    throw new ProjectPriceNotConfigured();
+  }
+
+  const purchaser = await signer.getAddress();
+  const to = params.to ?? purchaser;
+  const vault = params.vault;
+
+  if (
+    (purchaseKind === "holder" || purchaseKind === "holderERC20") &&
+    !ownedNFT
+  ) {
+    throw new MissingPurchaseParameter("owned NFT", minterType);
+  }
+
+  switch (purchaseKind) {
+    case "simple": {
+      const simpleMinter = ISharedMinterSimplePurchaseV0__factory.connect(
+        minterAddress,
+        signer
+      );
+      const args = [
+        to,
+        projectId,
+        coreContract,
+        { value: tokenPriceInWei },
+      ] as const;
+      return {
+        send: () => simpleMinter.purchaseTo(...args),
+        callStatic: () => simpleMinter.callStatic.purchaseTo(...args),
+      };
+    }
+    case "merkle": {
+      if (!allowlist) {
+        throw new MissingPurchaseParameter("allowlist", minterType);
+      }
+      const merkle = await getMerkleProofAndVault(
+        signer,
+        purchaser,
+        coreContract,
+        allowlist instanceof Allowlist ? allowlist : new Allowlist(allowlist),
+        vault
+      );
+      const merkleMinter = MinterSetPriceMerkleV5__factory.connect(
+        minterAddress,
+        signer
+      );
+      const method = "purchaseTo(address,uint256,address,bytes32[],address)";
+      const args = [
+        to,
+        projectId,
+        coreContract,
+        merkle.proof,
+        merkle.vault ?? constants.AddressZero,
+        { value: tokenPriceInWei },
+      ] as const;
+      return {
+        send: () => merkleMinter[method](...args),
+        callStatic: () => merkleMinter.callStatic[method](...args),
+      };
+    }
+    case "holder": {
+      const holderMinter = ISharedMinterHolderV0__factory.connect(
+        minterAddress,
+        signer
+      );
+      const nft = ownedNFT as OwnedNFT;
+      const overrides = { value: tokenPriceInWei };
+      if (vault) {
+        const method =
+          "purchaseTo(address,uint256,address,address,uint256,address)";
+        const args = [
+          to,
+          projectId,
+          coreContract,
+          nft.address,
+          nft.tokenId,
+          vault,
+          overrides,
+        ] as const;
+        return {
+          send: () => holderMinter[method](...args),
+          callStatic: () => holderMinter.callStatic[method](...args),
+        };
+      }
+      const method = "purchaseTo(address,uint256,address,address,uint256)";
+      const args = [
+        to,
+        projectId,
+        coreContract,
+        nft.address,
+        nft.tokenId,
+        overrides,
+      ] as const;
+      return {
+        send: () => holderMinter[method](...args),
+        callStatic: () => holderMinter.callStatic[method](...args),
+      };
+    }
+    case "erc20": {
+      const erc20Status = await getERC20PurchaseStatus(
+        signer,
+        priceInfo,
+        purchaser,
+        minterAddress
+      );
+      const erc20Minter = MinterSetPriceERC20V5__factory.connect(
+        minterAddress,
+        signer
+      );
+      const args = [
+        to,
+        projectId,
+        coreContract,
+        tokenPriceInWei,
+        currencyAddress,
+      ] as const;
+      return {
+        erc20Status,
+        send: () => erc20Minter.purchaseTo(...args),
+        callStatic: () => erc20Minter.callStatic.purchaseTo(...args),
+      };
+    }
+    case "holderERC20": {
+      const erc20Status = await getERC20PurchaseStatus(
+        signer,
+        priceInfo,
+        purchaser,
+        minterAddress
+      );
+      const holderERC20Minter = ISharedMinterHolderERC20V0__factory.connect(
+        minterAddress,
+        signer
+      );
+      const nft = ownedNFT as OwnedNFT;
+      if (vault) {
+        const method =
+          "purchaseTo(address,uint256,address,uint256,address,address,uint256,address)";
+        const args = [
+          to,
+          projectId,
+          coreContract,
+          tokenPriceInWei,
+          currencyAddress,
+          nft.address,
+          nft.tokenId,
+          vault,
+        ] as const;
+        return {
+          erc20Status,
+          send: () => holderERC20Minter[method](...args),
+          callStatic: () => holderERC20Minter.callStatic[method](...args),
+        };
+      }
+      const method =
+        "purchaseTo(address,uint256,address,uint256,address,address,uint256)";
+      const args = [
+        to,
+        projectId,
+        coreContract,
+        tokenPriceInWei,
+        currencyAddress,
+        nft.address,
+        nft.tokenId,
+      ] as const;
+      return {
+        erc20Status,
+        send: () => holderERC20Minter[method](...args),
+        callStatic: () => holderERC20Minter.callStatic[method](...args),
+      };
+    }
+  }
+};
+
+/**
+ * @summary Purchase a token from a project's shared minter.
+ * @description Resolves the project's minter on the minter filter, collects
+ * what the minter type needs (merkle proof, owned NFT, ERC20 approval,
+ * delegated vault), sends the purchase transaction and waits for it to be
+ * mined. ERC20 balances and allowances are checked before any transaction
+ * is sent.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signer ethers signer or client adapter of the purchaser
+ * @param params project and minter-specific purchase parameters
+ * @returns the minted token ID, parsed from the core's `Mint` event
+ * @throws InsufficientERC20Balance if the purchaser cannot pay an ERC20
+ * minter's price
+ * @throws InsufficientERC20Allowance if the allowance is insufficient and
+ * `approveERC20` is false
+ * @throws ProviderRequired if a merkle minter's allowlist must be searched
+ * for a delegated vault through a signer without a provider
+ */
+export async function purchase(
+  minterFilter: MinterFilterV2,
+  signer: Signer | ChainAdapter,
+  params: PurchaseParams
+): Promise<BigNumber> {
+  const ethersSigner = resolveSigner(signer);
+  const prepared = await preparePurchase(minterFilter, ethersSigner, params);
+  if (prepared.erc20Status) {
+    await ensureERC20Funds(
+      ethersSigner,
+      prepared.erc20Status,
+      params.approveERC20 ?? true
+    );
+  }
+  const tx = await prepared.send();
+  const receipt = await tx.wait();
+  return getMintedTokenId(receipt, params.coreContract);
+}
+
+/**
+ * Outcome of `simulatePurchase`.
+ */
+export type PurchaseSimulation =
+  { ok: true; tokenId: BigNumber } | { ok: false; error: Error };
+
+/**
+ * @summary Simulate a purchase without sending any transaction.
+ * @description Builds the same call as `purchase` and runs it with
+ * `callStatic`. ERC20 balances and allowances are checked but never
+ * approved, so an insufficient allowance fails the simulation. Contract
+ * reverts are decoded into the typed errors of `REVERT_REASONS`, and other
+ * errors raised by ethers, e.g. network errors, are thrown.
+ * @param minterFilter the shared minter filter the project is assigned on
+ * @param signer ethers signer or client adapter of the purchaser
+ * @param params project and minter-specific purchase parameters
+ * @returns the token ID the purchase would mint, or the error it would fail
+ * with
+ */
+export async function simulatePurchase(
+  minterFilter: MinterFilterV2,
+  signer: Signer | ChainAdapter,
+  params: PurchaseParams
+): Promise<PurchaseSimulation> {
+  const ethersSigner = resolveSigner(signer);
+  try {
+    const prepared = await preparePurchase(minterFilter, ethersSigner, params);
+    if (prepared.erc20Status) {
+      assertERC20Funds(prepared.erc20Status);
+    }
+    return { ok: true, tokenId: await prepared.callStatic() };
+  } catch (error) {
+    const revertError = decodeRevertError(error);
+    if (revertError) {
+      return { ok: false, error: revertError };
+    }
+    // @dev ethers errors other than reverts, e.g. network errors and
+    // timeouts, say nothing about the purchase
+    if (typeof (error as { code?: unknown })?.code === "string") {
+      throw error;
+    }
+    return { ok: false, error: error as Error };
+  }
+}
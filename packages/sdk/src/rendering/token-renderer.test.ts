@@ -0,0 +1,253 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, ethers } from "ethers";
+
+import {
+  buildTokenHTML,
+  getDependencyScript,
+  getProjectScript,
+  renderToken,
+  DependencyCache,
+  DependencyScriptUnavailable,
+  TokenHashNotAssigned,
+} from "./token-renderer";
+import { DependencyRegistryV0__factory } from "../generated/contracts/factories/DependencyRegistryV0__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+
+const CORE_ADDRESS = "0x313918a167152209d91F7182A407169f5327CaE3";
+const REGISTRY_ADDRESS = "0x37861f95882ACDba2cCD84F5bFc4598e2ECDDdAF";
+const HASH =
+  "0x9f5ec8d5b0b7e1d8ec0a6e0e4f3c7e7b8f7d5a9c1e2b3a4d5c6b7a8f9e0d1c2b";
+const P5 = "p5@1.0.0";
+
+const provider = new ethers.providers.JsonRpcProvider();
+
+const mockCore = ({
+  scriptTypeAndVersion = P5,
+  scriptChunks = ["function setup() {", "}"],
+  hash = HASH,
+} = {}) => {
+  const core = {
+    projectScriptDetails: async () => ({
+      scriptTypeAndVersion,
+      aspectRatio: "1",
+      scriptCount: BigNumber.from(scriptChunks.length),
+    }),
+    projectScriptByIndex: async (projectId: BigNumber, index: number) =>
+      scriptChunks[index],
+    tokenIdToHash: async () => hash,
+  };
+  IGenArt721CoreContractV3_Base__factory.connect = jest
+    .fn()
+    .mockReturnValue(core);
+  return core;
+};
+
+const mockRegistry = ({
+  dependencyType = P5 as string | Error,
+  dependencyChunks = ["/* p5 */", "var p5;"] as string[] | Error,
+} = {}) => {
+  const registry = {
+    getDependencyTypeForProject: jest.fn(async () => {
+      if (dependencyType instanceof Error) {
+        throw dependencyType;
+      }
+      return dependencyType;
+    }),
+    getDependencyScriptCount: jest.fn(async () => {
+      if (dependencyChunks instanceof Error) {
+        throw dependencyChunks;
+      }
+      return BigNumber.from(dependencyChunks.length);
+    }),
+    getDependencyScript: async (dependencyType: string, index: number) =>
+      (dependencyChunks as string[])[index],
+  };
+  DependencyRegistryV0__factory.connect = jest.fn().mockReturnValue(registry);
+  return registry;
+};
+
+const revertError = (reason: string) =>
+  Object.assign(new Error("call revert exception"), {
+    code: "CALL_EXCEPTION",
+    reason,
+  });
+
+const memoryCache = (scripts: { [dependencyType: string]: string } = {}) => {
+  const cache: DependencyCache = {
+    get: async (dependencyType) => scripts[dependencyType],
+    set: async (dependencyType, script) => {
+      scripts[dependencyType] = script;
+    },
+  };
+  return { cache, scripts };
+};
+
+describe("buildTokenHTML", () => {
+  const tokenData = { hash: HASH, tokenId: "1000000" };
+
+  it("injects tokenData before the project script", () => {
+    const html = buildTokenHTML("draw();", tokenData, "var p5;");
+    expect(html.indexOf("<script>var p5;</script>")).toBeLessThan(
+      html.indexOf(`let tokenData = ${JSON.stringify(tokenData)};`)
+    );
+    expect(html.indexOf("let tokenData")).toBeLessThan(
+      html.indexOf("<script>draw();</script>")
+    );
+    expect(html).not.toMatch(/src=|href=/);
+  });
+
+  it("omits the dependency script for vanilla scripts", () => {
+    expect(
+      buildTokenHTML("draw();", tokenData).match(/<script>/g)
+    ).toHaveLength(2);
+  });
+
+  it("escapes closing script tags", () => {
+    const html = buildTokenHTML('s = "</script>";', {
+      hash: HASH,
+      tokenId: "</script>",
+    });
+    expect(html).toContain('<script>s = "<\\/script>";</script>');
+    expect(html).toContain('"tokenId":"\\u003c/script>"');
+  });
+});
+
+describe("getProjectScript", () => {
+  it("joins the project's script chunks in order", async () => {
+    mockCore({ scriptChunks: ["a", "b", "c"] });
+    expect(await getProjectScript(CORE_ADDRESS, provider, 1)).toEqual({
+      scriptTypeAndVersion: P5,
+      script: "abc",
+    });
+  });
+});
+
+describe("getDependencyScript", () => {
+  it("joins the library's script chunks by bytes32 dependency type", async () => {
+    const registry = mockRegistry();
+    expect(await getDependencyScript(REGISTRY_ADDRESS, provider, P5)).toEqual(
+      "/* p5 */var p5;"
+    );
+    expect(registry.getDependencyScriptCount).toBeCalledWith(
+      ethers.utils.formatBytes32String(P5)
+    );
+  });
+
+  it("returns undefined for libraries not stored on chain", async () => {
+    mockRegistry({ dependencyChunks: [] });
+    expect(
+      await getDependencyScript(REGISTRY_ADDRESS, provider, P5)
+    ).toBeUndefined();
+  });
+});
+
+describe("renderToken", () => {
+  it("renders a token with its on-chain dependency and caches it", async () => {
+    mockCore();
+    const registry = mockRegistry();
+    const { cache, scripts } = memoryCache();
+    const rendered = await renderToken(
+      CORE_ADDRESS,
+      REGISTRY_ADDRESS,
+      provider,
+      1_000_002,
+      { dependencyCache: cache }
+    );
+    expect(rendered).toMatchObject({
+      tokenData: { hash: HASH, tokenId: "1000002" },
+      dependencyType: P5,
+      dependencySource: "chain",
+    });
+    expect(rendered.html).toContain("<script>/* p5 */var p5;</script>");
+    expect(rendered.html).toContain("<script>function setup() {}</script>");
+    expect(registry.getDependencyTypeForProject).toBeCalledWith(
+      CORE_ADDRESS,
+      BigNumber.from(1)
+    );
+    expect(scripts).toEqual({ [P5]: "/* p5 */var p5;" });
+  });
+
+  it("falls back to the cache for libraries not on chain", async () => {
+    mockCore();
+    mockRegistry({ dependencyChunks: [] });
+    const { cache } = memoryCache({ [P5]: "var cached;" });
+    const rendered = await renderToken(
+      CORE_ADDRESS,
+      REGISTRY_ADDRESS,
+      provider,
+      1_000_002,
+      { dependencyCache: cache }
+    );
+    expect(rendered.dependencySource).toEqual("cache");
+    expect(rendered.html).toContain("<script>var cached;</script>");
+  });
+
+  it("falls back to the core and the cache when the registry reverts", async () => {
+    mockCore({ scriptTypeAndVersion: "three@0.124.0" });
+    mockRegistry({
+      dependencyType: revertError("Core contract not supported"),
+      dependencyChunks: revertError("Dependency type does not exist"),
+    });
+    const { cache } = memoryCache({ "three@0.124.0": "var THREE;" });
+    const rendered = await renderToken(
+      CORE_ADDRESS,
+      REGISTRY_ADDRESS,
+      provider,
+      1_000_002,
+      { dependencyCache: cache }
+    );
+    expect(rendered).toMatchObject({
+      dependencyType: "three@0.124.0",
+      dependencySource: "cache",
+    });
+  });
+
+  it.each([
+    ["the dependency type", "dependencyType", new Error("network error")],
+    ["the dependency script", "dependencyChunks", new Error("network error")],
+    ["an unexpected revert", "dependencyType", revertError("Only owner")],
+  ])("rethrows errors reading %s", async (_, field, error) => {
+    mockCore();
+    mockRegistry({ [field]: error });
+    await expect(
+      renderToken(CORE_ADDRESS, REGISTRY_ADDRESS, provider, 1_000_002, {
+        dependencyCache: memoryCache({ [P5]: "var cached;" }).cache,
+      })
+    ).rejects.toBe(error);
+  });
+
+  it("renders vanilla scripts without a library", async () => {
+    mockCore();
+    const registry = mockRegistry({ dependencyType: "js@na" });
+    const rendered = await renderToken(
+      CORE_ADDRESS,
+      REGISTRY_ADDRESS,
+      provider,
+      1_000_002
+    );
+    expect(rendered.dependencySource).toEqual("none");
+    expect(registry.getDependencyScriptCount).not.toBeCalled();
+  });
+
+  it("throws when a library is neither on chain nor cached", async () => {
+    mockCore();
+    mockRegistry({ dependencyChunks: [] });
+    await expect(
+      renderToken(CORE_ADDRESS, REGISTRY_ADDRESS, provider, 1_000_002)
+    ).rejects.toThrowError(new DependencyScriptUnavailable(P5));
+    await expect(
+      renderToken(CORE_ADDRESS, REGISTRY_ADDRESS, provider, 1_000_002, {
+        dependencyCache: memoryCache().cache,
+      })
+    ).rejects.toThrowError(DependencyScriptUnavailable);
+  });
+
+  it("throws for tokens without a hash", async () => {
+    mockCore({ hash: ethers.constants.HashZero });
+    mockRegistry();
+    await expect(
+      renderToken(CORE_ADDRESS, REGISTRY_ADDRESS, provider, 1_000_002)
+    ).rejects.toThrowError("Token 1000002 has no hash assigned.");
+    expect(new TokenHashNotAssigned(1).name).toEqual("TokenHashNotAssigned");
+  });
+});
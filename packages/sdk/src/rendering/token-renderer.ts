@@ -0,0 +1,289 @@
+import {
+  BigNumber,
+  BigNumberish,
+  Signer,
+  constants,
+  providers,
+  utils,
+} from "ethers";
+
+import { DependencyRegistryV0__factory } from "../generated/contracts/factories/DependencyRegistryV0__factory";
+import { IGenArt721CoreContractV3_Base__factory } from "../generated/contracts/factories/IGenArt721CoreContractV3_Base__factory";
+import { getRevertReason } from "../revert-reasons";
+import { buildTokenData, decodeTokenId, TokenData } from "../tokens";
+
+/**
+ * Script types that run without a dependency library.
+ */
+const VANILLA_SCRIPT_TYPES = ["js", "svg", "custom"];
+
+/**
+ * Local store of dependency library scripts, keyed by dependency type and
+ * version, e.g. "p5@1.0.0".
+ */
+export interface DependencyCache {
+  /**
+   * @param dependencyType dependency type and version
+   * @returns the cached library script, if any
+   */
+  get(dependencyType: string): Promise<string | undefined>;
+  /**
+   * @param dependencyType dependency type and version
+   * @param script library script read from chain
+   */
+  set(dependencyType: string, script: string): Promise<void>;
+}
+
+export type RenderTokenParams = {
+  /** cache of dependency libraries, read when a library is not on chain */
+  dependencyCache?: DependencyCache;
+};
+
+/**
+ * Where a rendered token's dependency library was read from; "none" for
+ * script types without a library.
+ */
+export type DependencySource = "chain" | "cache" | "none";
+
+/**
+ * A token assembled into a self-contained HTML document.
+ */
+export type RenderedToken = {
+  html: string;
+  tokenData: TokenData;
+  /** dependency type and version of the project's script */
+  dependencyType: string;
+  dependencySource: DependencySource;
+};
+
+/**
+ * @summary Error thrown when a token has no hash to render with.
+ * @description `tokenIdToHash` returns the zero hash for tokens that do not
+ * exist or have not been assigned a hash seed by the randomizer.
+ */
+export class TokenHashNotAssigned extends Error {
+  constructor(tokenId: BigNumberish) {
+    super(`Token ${BigNumber.from(tokenId).toString()} has no hash assigned.`);
+    this.name = "TokenHashNotAssigned";
+  }
+}
+
+/**
+ * @summary Error thrown when a dependency library is neither stored on
+ * chain nor cached locally.
+ */
+export class DependencyScriptUnavailable extends Error {
+  constructor(dependencyType: string) {
+    super(
+      `Dependency ${dependencyType} is not available on chain or in the local cache.`
+    );
+    this.name = "DependencyScriptUnavailable";
+  }
+}
+
+// reverts of `getDependencyTypeForProject` for cores the registry does not
+// know, on which the core's own script type and version is used
+const UNSUPPORTED_CORE_REASONS = [
+  "Core contract not supported",
+  "Contract does not implement projectScriptDetails and has no override set.",
+];
+
+// reverts of the registry's script reads for dependencies it does not store,
+// on which the dependency cache is used
+const MISSING_DEPENDENCY_REASONS = [
+  "Dependency type does not exist",
+  "Index out of range",
+];
+
+// @dev rethrows errors other than the expected reverts, e.g. network errors
+const fallbackOnRevert =
+  <T>(reasons: string[], fallback: T) =>
+  (error: unknown): T => {
+    const reason = getRevertReason(error);
+    if (reason === undefined || !reasons.includes(reason)) {
+      throw error;
+    }
+    return fallback;
+  };
+
+// @dev keeps scripts from closing their `<script>` element early
+const escapeScript = (script: string) =>
+  script.replace(/<\/script/gi, "<\\/script");
+
+/**
+ * @summary Assemble a token's scripts into a self-contained HTML document.
+ * @description `tokenData` is declared before the project script runs, as
+ * the Art Blocks generator does. Nothing is loaded from the network.
+ * @param projectScript the project's full script
+ * @param tokenData the token to render
+ * @param dependencyScript the dependency library script, if any
+ * @returns the HTML document
+ */
+export const buildTokenHTML = (
+  projectScript: string,
+  tokenData: TokenData,
+  dependencyScript?: string
+): string =>
+  [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8" />',
+    "<style>html,body{margin:0;padding:0;height:100%;}canvas{display:block;}</style>",
+    ...(dependencyScript === undefined
+      ? []
+      : [`<script>${escapeScript(dependencyScript)}</script>`]),
+    `<script>let tokenData = ${JSON.stringify(tokenData).replace(
+      /</g,
+      "\\u003c"
+    )};</script>`,
+    "</head>",
+    "<body>",
+    `<script>${escapeScript(projectScript)}</script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+
+/**
+ * @summary Read a project's full script from its core contract.
+ * @param coreContract address of a V3 core contract
+ * @param signerOrProvider ethers signer or provider
+ * @param projectId project ID on the core contract
+ * @returns the script type and version stored on the core, and the
+ * project's script chunks joined in order
+ */
+export async function getProjectScript(
+  coreContract: string,
+  signerOrProvider: Signer | providers.Provider,
+  projectId: BigNumberish
+): Promise<{ scriptTypeAndVersion: string; script: string }> {
+  const core = IGenArt721CoreContractV3_Base__factory.connect(
+    coreContract,
+    signerOrProvider
+  );
+  const { scriptTypeAndVersion, scriptCount } =
+    await core.projectScriptDetails(projectId);
+  const chunks = await Promise.all(
+    Array.from({ length: scriptCount.toNumber() }, (_, i) =>
+      core.projectScriptByIndex(projectId, i)
+    )
+  );
+  return { scriptTypeAndVersion, script: chunks.join("") };
+}
+
+/**
+ * @summary Read a dependency library script from a dependency registry.
+ * @param dependencyRegistry address of a `DependencyRegistryV0`
+ * @param signerOrProvider ethers signer or provider
+ * @param dependencyType dependency type and version, e.g. "p5@1.0.0"
+ * @returns the library's script chunks joined in order, or undefined if the
+ * library is not stored on chain
+ */
+export async function getDependencyScript(
+  dependencyRegistry: string,
+  signerOrProvider: Signer | providers.Provider,
+  dependencyType: string
+): Promise<string | undefined> {
+  const registry = DependencyRegistryV0__factory.connect(
+    dependencyRegistry,
+    signerOrProvider
+  );
+  const dependencyTypeBytes = utils.formatBytes32String(dependencyType);
+  const scriptCount = (
+    await registry.getDependencyScriptCount(dependencyTypeBytes)
+  ).toNumber();
+  if (scriptCount === 0) {
+    return undefined;
+  }
+  const chunks = await Promise.all(
+    Array.from({ length: scriptCount }, (_, i) =>
+      registry.getDependencyScript(dependencyTypeBytes, i)
+    )
+  );
+  return chunks.join("");
+}
+
+/**
+ * @summary Render a token into a self-contained HTML document from on-chain
+ * script storage.
+ * @description The project's dependency is resolved with the registry's
+ * `getDependencyTypeForProject`, falling back to the core's script type
+ * when the registry does not support the core. Libraries read from chain
+ * are written to the dependency cache, and the cache is read when the
+ * registry does not store a library, so tokens render against a local node
+ * without external network access. Other errors, e.g. network errors, are
+ * rethrown.
+ * @param coreContract address of a V3 core contract
+ * @param dependencyRegistry address of a `DependencyRegistryV0`
+ * @param signerOrProvider ethers signer or provider
+ * @param tokenId token ID on the core contract
+ * @param options cache of dependency libraries
+ * @returns the HTML document, with the token data and dependency it was
+ * rendered with
+ * @throws TokenHashNotAssigned if the token has no hash
+ * @throws DependencyScriptUnavailable if the dependency library is neither
+ * on chain nor cached
+ */
+export async function renderToken(
+  coreContract: string,
+  dependencyRegistry: string,
+  signerOrProvider: Signer | providers.Provider,
+  tokenId: BigNumberish,
+  options: RenderTokenParams = {}
+): Promise<RenderedToken> {
+  const { projectId } = decodeTokenId(tokenId);
+  const core = IGenArt721CoreContractV3_Base__factory.connect(
+    coreContract,
+    signerOrProvider
+  );
+  const [hash, { scriptTypeAndVersion, script }] = await Promise.all([
+    core.tokenIdToHash(tokenId),
+    getProjectScript(coreContract, signerOrProvider, projectId),
+  ]);
+  if (hash === constants.HashZero) {
+    throw new TokenHashNotAssigned(tokenId);
+  }
+  const tokenData = buildTokenData(tokenId, hash);
+
+  const dependencyType = await DependencyRegistryV0__factory.connect(
+    dependencyRegistry,
+    signerOrProvider
+  )
+    .getDependencyTypeForProject(coreContract, projectId)
+    .catch(fallbackOnRevert(UNSUPPORTED_CORE_REASONS, scriptTypeAndVersion));
+  if (VANILLA_SCRIPT_TYPES.includes(dependencyType.split("@")[0])) {
+    return {
+      html: buildTokenHTML(script, tokenData),
+      tokenData,
+      dependencyType,
+      dependencySource: "none",
+    };
+  }
+
+  const { dependencyCache } = options;
+  const onChainScript = await getDependencyScript(
+    dependencyRegistry,
+    signerOrProvider,
+    dependencyType
+  ).catch(fallbackOnRevert(MISSING_DEPENDENCY_REASONS, undefined));
+  if (onChainScript !== undefined) {
+    await dependencyCache?.set(dependencyType, onChainScript);
+    return {
+      html: buildTokenHTML(script, tokenData, onChainScript),
+      tokenData,
+      dependencyType,
+      dependencySource: "chain",
+    };
+  }
+  const cachedScript = await dependencyCache?.get(dependencyType);
+  if (cachedScript === undefined) {
+    throw new DependencyScriptUnavailable(dependencyType);
+  }
+  return {
+    html: buildTokenHTML(script, tokenData, cachedScript),
+    tokenData,
+    dependencyType,
+    dependencySource: "cache",
+  };
+}
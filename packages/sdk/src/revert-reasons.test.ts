@@ -0,0 +1,146 @@
+import { describe, it, expect } from "@jest/globals";
+import { utils } from "ethers";
+
+import {
+  decodeRevertError,
+  getRevertReason,
+  AuctionStateError,
+  ContractRevertError,
+  InsufficientPayment,
+  InvalidConfiguration,
+  MinterNotConfigured,
+  NotEligible,
+  PaymentFailed,
+  ProjectNotMintable,
+  ProjectSoldOut,
+  UnauthorizedCaller,
+  REVERT_REASONS,
+} from "./revert-reasons";
+
+const errorStringData = (reason: string) =>
+  utils.hexConcat([
+    "0x08c379a0",
+    utils.defaultAbiCoder.encode(["string"], [reason]),
+  ]);
+
+describe("getRevertReason", () => {
+  it("reads a catalogued reason set by ethers", () => {
+    expect(getRevertReason({ reason: "Bid is too low" })).toEqual(
+      "Bid is too low"
+    );
+  });
+
+  it("decodes Error(string) revert data", () => {
+    expect(
+      getRevertReason({
+        reason: "execution reverted",
+        data: errorStringData("Only artist"),
+      })
+    ).toEqual("Only artist");
+  });
+
+  it("searches nested provider errors", () => {
+    expect(
+      getRevertReason({
+        message: "cannot estimate gas",
+        error: { error: { data: errorStringData("Price not configured") } },
+      })
+    ).toEqual("Price not configured");
+  });
+
+  it.each([
+    "VM Exception while processing transaction: reverted with reason string 'Auction already ended'",
+    'processing response error (body="{\\"message\\":\\"execution reverted: Auction already ended\\"}")',
+  ])("parses the reason from the message %s", (message) => {
+    expect(getRevertReason({ message })).toEqual("Auction already ended");
+  });
+
+  it("does not treat Object.prototype members as catalogued reasons", () => {
+    expect(
+      getRevertReason({
+        reason: "constructor",
+        message: "execution reverted: Only artist",
+      })
+    ).toEqual("Only artist");
+  });
+
+  it("falls back to the uncatalogued reason of a call exception", () => {
+    expect(
+      getRevertReason({ code: "CALL_EXCEPTION", reason: "Some new reason" })
+    ).toEqual("Some new reason");
+  });
+
+  it.each([
+    undefined,
+    "reverted",
+    { message: "network error" },
+    { code: "NETWORK_ERROR", reason: "could not detect network" },
+    { code: "TIMEOUT", reason: "timeout" },
+  ])("returns undefined for %p", (error) => {
+    expect(getRevertReason(error)).toBeUndefined();
+  });
+});
+
+describe("decodeRevertError", () => {
+  it("returns the catalogued error for a reason", () => {
+    const error = decodeRevertError({ reason: "Only owner of NFT" });
+    expect(error).toBeInstanceOf(NotEligible);
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({
+      code: "NOT_NFT_OWNER",
+      reason: "Only owner of NFT",
+      message: REVERT_REASONS["Only owner of NFT"].message,
+    });
+  });
+
+  it("returns an unknown revert error for an uncatalogued reason", () => {
+    const error = decodeRevertError({
+      code: "CALL_EXCEPTION",
+      reason: "Some new reason",
+    });
+    expect(error?.constructor).toBe(ContractRevertError);
+    expect(error).toMatchObject({
+      code: "UNKNOWN",
+      reason: "Some new reason",
+      message: "Some new reason",
+    });
+  });
+
+  it.each(["constructor", "toString", "__proto__"])(
+    "returns an unknown revert error for the reason %s",
+    (reason) => {
+      const error = decodeRevertError({ code: "CALL_EXCEPTION", reason });
+      expect(error?.constructor).toBe(ContractRevertError);
+      expect(error).toMatchObject({ code: "UNKNOWN", reason, message: reason });
+    }
+  );
+
+  it("returns undefined for an error that is not a revert", () => {
+    expect(decodeRevertError(new Error("network error"))).toBeUndefined();
+  });
+});
+
+describe("revert errors", () => {
+  it.each([
+    ContractRevertError,
+    UnauthorizedCaller,
+    ProjectNotMintable,
+    ProjectSoldOut,
+    MinterNotConfigured,
+    AuctionStateError,
+    InsufficientPayment,
+    NotEligible,
+    InvalidConfiguration,
+    PaymentFailed,
+  ])("specifies the name of $name", (errorClass) => {
+    const error = new errorClass("CODE", "reason", "message");
+    expect(error.name).toEqual(errorClass.name);
+  });
+
+  it("catalogues every reason with a code and message", () => {
+    for (const { code, message } of Object.values(REVERT_REASONS)) {
+      expect(code).toMatch(/^[A-Z0-9_]+$/);
+      expect(message.length).toBeGreaterThan(0);
+    }
+  });
+});
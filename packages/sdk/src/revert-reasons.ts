@@ -0,0 +1,513 @@
+import { utils } from "ethers";
+
+/**
+ * @summary Error decoded from a revert reason of an Art Blocks contract.
+ * @description Subclasses group revert reasons by what a user can do about
+ * them, and `code` identifies the exact reason with a stable value.
+ */
+export class ContractRevertError extends Error {
+  /** stable code of the revert reason */
+  readonly code: string;
+  /** revert reason string, as emitted by the contract */
+  readonly reason: string;
+
+  /**
+   * @param code stable code of the revert reason
+   * @param reason revert reason string
+   * @param message user-facing message
+   */
+  constructor(code: string, reason: string, message: string) {
+    super(message);
+    this.name = "ContractRevertError";
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+/**
+ * @summary The caller is not allowed to perform the action, e.g. an artist
+ * or admin-only configuration.
+ */
+export class UnauthorizedCaller extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "UnauthorizedCaller";
+  }
+}
+
+/**
+ * @summary The project cannot be minted right now, e.g. it is paused or
+ * inactive.
+ */
+export class ProjectNotMintable extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "ProjectNotMintable";
+  }
+}
+
+/**
+ * @summary The project has reached its maximum invocations.
+ */
+export class ProjectSoldOut extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "ProjectSoldOut";
+  }
+}
+
+/**
+ * @summary The project's minter has not been configured for the project.
+ */
+export class MinterNotConfigured extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "MinterNotConfigured";
+  }
+}
+
+/**
+ * @summary The project's auction is not in a state that allows the action,
+ * e.g. it has not started yet.
+ */
+export class AuctionStateError extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "AuctionStateError";
+  }
+}
+
+/**
+ * @summary The payment sent, bid or approved is not enough.
+ */
+export class InsufficientPayment extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "InsufficientPayment";
+  }
+}
+
+/**
+ * @summary The purchaser is not eligible to mint, e.g. not allowlisted or
+ * not the owner of the redeemed NFT.
+ */
+export class NotEligible extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "NotEligible";
+  }
+}
+
+/**
+ * @summary A configuration value was rejected by the contract.
+ */
+export class InvalidConfiguration extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "InvalidConfiguration";
+  }
+}
+
+/**
+ * @summary A transfer of funds made by the contract failed.
+ */
+export class PaymentFailed extends ContractRevertError {
+  constructor(code: string, reason: string, message: string) {
+    super(code, reason, message);
+    this.name = "PaymentFailed";
+  }
+}
+
+export type RevertReasonEntry = {
+  /** stable code of the revert reason */
+  code: string;
+  /** user-facing message */
+  message: string;
+  errorClass: typeof ContractRevertError;
+};
+
+const entry = (
+  errorClass: typeof ContractRevertError,
+  code: string,
+  message: string
+): RevertReasonEntry => ({ code, message, errorClass });
+
+/**
+ * Revert reasons of the shared minter suite, its libraries and the V3 core,
+ * keyed by the exact revert string.
+ */
+export const REVERT_REASONS: { [reason: string]: RevertReasonEntry } = {
+  // GenArt721CoreV3, AuthLib, MinterFilterV2
+  "Only artist": entry(
+    UnauthorizedCaller,
+    "ONLY_ARTIST",
+    "Only the project's artist can do this."
+  ),
+  "Only Artist": entry(
+    UnauthorizedCaller,
+    "ONLY_ARTIST",
+    "Only the project's artist can do this."
+  ),
+  "Only Admin ACL allowed": entry(
+    UnauthorizedCaller,
+    "ONLY_ADMIN",
+    "Only an admin can do this."
+  ),
+  "Only Core AdminACL allowed": entry(
+    UnauthorizedCaller,
+    "ONLY_ADMIN",
+    "Only an admin can do this."
+  ),
+  "Only MinterFilter AdminACL": entry(
+    UnauthorizedCaller,
+    "ONLY_ADMIN",
+    "Only an admin can do this."
+  ),
+  "Only artist or Admin ACL allowed": entry(
+    UnauthorizedCaller,
+    "ONLY_ARTIST_OR_ADMIN",
+    "Only the project's artist or an admin can do this."
+  ),
+  "Only Artist or Core Admin ACL": entry(
+    UnauthorizedCaller,
+    "ONLY_ARTIST_OR_ADMIN",
+    "Only the project's artist or an admin can do this."
+  ),
+  "Only artist when unlocked, owner when locked": entry(
+    UnauthorizedCaller,
+    "ONLY_ARTIST_OR_ADMIN",
+    "Only the project's artist, or an admin once the project is locked, can do this."
+  ),
+  "Must mint from minter contract": entry(
+    UnauthorizedCaller,
+    "ONLY_MINTER",
+    "Tokens can only be minted through the project's minter."
+  ),
+  "Only assigned minter": entry(
+    UnauthorizedCaller,
+    "ONLY_MINTER",
+    "Tokens can only be minted through the project's minter."
+  ),
+  "Purchases are paused.": entry(
+    ProjectNotMintable,
+    "PURCHASES_PAUSED",
+    "Purchases are paused for this project."
+  ),
+  "Project must exist and be active": entry(
+    ProjectNotMintable,
+    "PROJECT_INACTIVE",
+    "This project is not active yet."
+  ),
+  "Project ID does not exist": entry(
+    ProjectNotMintable,
+    "PROJECT_DOES_NOT_EXIST",
+    "This project does not exist."
+  ),
+  "No minter assigned": entry(
+    ProjectNotMintable,
+    "NO_MINTER_ASSIGNED",
+    "This project does not have a minter assigned."
+  ),
+  "Only if unlocked": entry(
+    ProjectNotMintable,
+    "PROJECT_LOCKED",
+    "This project is locked and can no longer be changed."
+  ),
+  "Must not exceed max invocations": entry(
+    ProjectSoldOut,
+    "MAX_INVOCATIONS_REACHED",
+    "This project is sold out."
+  ),
+  "Only max invocations gte current invocations": entry(
+    InvalidConfiguration,
+    "INVALID_MAX_INVOCATIONS",
+    "Maximum invocations cannot be less than the current invocations."
+  ),
+  "maxInvocations may only be decreased": entry(
+    InvalidConfiguration,
+    "INVALID_MAX_INVOCATIONS",
+    "Maximum invocations may only be decreased."
+  ),
+  // MaxInvocationsLib, MerkleLib
+  "Max invocations reached": entry(
+    ProjectSoldOut,
+    "MAX_INVOCATIONS_REACHED",
+    "This project is sold out."
+  ),
+  "Invalid max invocations": entry(
+    InvalidConfiguration,
+    "INVALID_MAX_INVOCATIONS",
+    "Maximum invocations must be between the current invocations and the core's maximum."
+  ),
+  "Invalid Merkle proof": entry(
+    NotEligible,
+    "NOT_ALLOWLISTED",
+    "This wallet is not on the project's allowlist."
+  ),
+  "Root must be provided": entry(
+    InvalidConfiguration,
+    "MISSING_MERKLE_ROOT",
+    "A merkle root must be provided."
+  ),
+  // SetPriceLib, DAExpLib, DALinLib, SplitFundsLib
+  "Price not configured": entry(
+    MinterNotConfigured,
+    "PRICE_NOT_CONFIGURED",
+    "The project's price has not been configured."
+  ),
+  "Only configured auctions": entry(
+    MinterNotConfigured,
+    "AUCTION_NOT_CONFIGURED",
+    "The project's auction has not been configured."
+  ),
+  "ERC20: payment not configured": entry(
+    MinterNotConfigured,
+    "CURRENCY_NOT_CONFIGURED",
+    "The project's currency has not been configured."
+  ),
+  "Auction not yet started": entry(
+    AuctionStateError,
+    "AUCTION_NOT_STARTED",
+    "The auction has not started yet."
+  ),
+  "No modifications mid-auction": entry(
+    AuctionStateError,
+    "AUCTION_IN_PROGRESS",
+    "The auction has started, and can no longer be modified."
+  ),
+  "Only future auctions": entry(
+    InvalidConfiguration,
+    "AUCTION_START_IN_PAST",
+    "Auctions must start in the future."
+  ),
+  "Only half life gt 0": entry(
+    InvalidConfiguration,
+    "INVALID_HALF_LIFE",
+    "The price decay half life must be greater than zero."
+  ),
+  "Auction start price must be greater than auction end price": entry(
+    InvalidConfiguration,
+    "INVALID_AUCTION_PRICES",
+    "The auction's start price must be greater than its base price."
+  ),
+  "Min value to mint req.": entry(
+    InsufficientPayment,
+    "INSUFFICIENT_VALUE",
+    "The payment sent is less than the token price."
+  ),
+  "Insufficient ERC20 balance": entry(
+    InsufficientPayment,
+    "INSUFFICIENT_ERC20_BALANCE",
+    "The wallet's token balance is less than the token price."
+  ),
+  "Insufficient ERC20 allowance": entry(
+    InsufficientPayment,
+    "INSUFFICIENT_ERC20_ALLOWANCE",
+    "The minter has not been approved to spend the token price."
+  ),
+  "Currency addresses must match": entry(
+    InsufficientPayment,
+    "CURRENCY_MISMATCH",
+    "The payment currency does not match the project's currency."
+  ),
+  "Only max price gte token price": entry(
+    InsufficientPayment,
+    "PRICE_ABOVE_MAX",
+    "The token price is above the maximum price provided."
+  ),
+  "Artist payment failed": entry(
+    PaymentFailed,
+    "PAYMENT_FAILED",
+    "A payment to the project's artist failed."
+  ),
+  "Refund failed": entry(
+    PaymentFailed,
+    "REFUND_FAILED",
+    "Refunding the excess payment failed."
+  ),
+  // holder and merkle minters, TokenHolderLib
+  "Invalid delegate-vault pairing": entry(
+    NotEligible,
+    "INVALID_DELEGATION",
+    "This wallet is not a delegate of the provided vault."
+  ),
+  "Only allowlisted NFTs": entry(
+    NotEligible,
+    "NFT_NOT_ALLOWLISTED",
+    "The NFT provided is not from an allowlisted project."
+  ),
+  "Only owner of NFT": entry(
+    NotEligible,
+    "NOT_NFT_OWNER",
+    "The NFT provided is not owned by the purchaser or vault."
+  ),
+  // SEALib, MinterSEAV1
+  "No auction exists on project": entry(
+    MinterNotConfigured,
+    "NO_AUCTION",
+    "There is no auction for this project."
+  ),
+  "Project not configured": entry(
+    MinterNotConfigured,
+    "AUCTION_NOT_CONFIGURED",
+    "The project's auction has not been configured."
+  ),
+  "Auction not initialized": entry(
+    AuctionStateError,
+    "AUCTION_NOT_INITIALIZED",
+    "The auction has not been initialized."
+  ),
+  "Auction already ended": entry(
+    AuctionStateError,
+    "AUCTION_ENDED",
+    "The auction has already ended."
+  ),
+  "Auction not yet ended": entry(
+    AuctionStateError,
+    "AUCTION_NOT_ENDED",
+    "The auction has not ended yet."
+  ),
+  "Existing auction not settled": entry(
+    AuctionStateError,
+    "AUCTION_NOT_SETTLED",
+    "The previous auction has not been settled."
+  ),
+  "Token ID does not match auction": entry(
+    AuctionStateError,
+    "AUCTION_TOKEN_MISMATCH",
+    "The token is not the one being auctioned."
+  ),
+  "Incorrect target token ID": entry(
+    AuctionStateError,
+    "AUCTION_TOKEN_MISMATCH",
+    "The token is not the one being auctioned."
+  ),
+  "No next token, check max invocations": entry(
+    ProjectSoldOut,
+    "MAX_INVOCATIONS_REACHED",
+    "This project is sold out."
+  ),
+  "Bid is too low": entry(
+    InsufficientPayment,
+    "BID_TOO_LOW",
+    "The bid is lower than the minimum next bid."
+  ),
+  "Insufficient initial bid": entry(
+    InsufficientPayment,
+    "BID_TOO_LOW",
+    "The bid is lower than the auction's starting bid."
+  ),
+  // SettlementExpLib
+  "Active auction not yet sold out": entry(
+    AuctionStateError,
+    "AUCTION_NOT_SOLD_OUT",
+    "The auction is still active and has not sold out."
+  ),
+  "No purchases made by this address": entry(
+    NotEligible,
+    "NO_PURCHASES",
+    "This wallet has not purchased on this auction."
+  ),
+  "Reclaiming failed": entry(
+    PaymentFailed,
+    "RECLAIM_FAILED",
+    "Reclaiming the excess settlement funds failed."
+  ),
+};
+
+// @dev reasons are looked up as own properties only, so that revert strings
+// such as "constructor" do not resolve to Object.prototype members
+const getRevertReasonEntry = (reason: string): RevertReasonEntry | undefined =>
+  Object.prototype.hasOwnProperty.call(REVERT_REASONS, reason)
+    ? REVERT_REASONS[reason]
+    : undefined;
+
+// @dev selector of the `Error(string)` revert data
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+// @dev code of the errors ethers raises for reverted calls and transactions
+const CALL_EXCEPTION = utils.Logger.errors.CALL_EXCEPTION;
+
+const MESSAGE_REASON_PATTERNS = [
+  /reverted with reason string '(.*)'/,
+  /execution reverted: (.*?)(?:\\?"|$)/,
+];
+
+/**
+ * @summary Extract the revert reason string from an ethers or provider
+ * error.
+ * @description Reads a catalogued `reason`, `Error(string)` revert data, a
+ * node's revert message, or the `reason` of an ethers `CALL_EXCEPTION`,
+ * searching nested provider errors. Other errors, e.g. network errors and
+ * timeouts, are not reverts even if ethers sets their `reason`.
+ * @param error error thrown by a contract call or transaction
+ * @returns the revert reason, or undefined if none is found
+ */
+export const getRevertReason = (error: unknown): string | undefined => {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const {
+    code,
+    reason,
+    data,
+    message,
+    error: nested,
+  } = error as {
+    code?: unknown;
+    reason?: unknown;
+    data?: unknown;
+    message?: unknown;
+    error?: unknown;
+  };
+  if (typeof reason === "string" && getRevertReasonEntry(reason)) {
+    return reason;
+  }
+  if (
+    typeof data === "string" &&
+    data.startsWith(ERROR_STRING_SELECTOR) &&
+    utils.isHexString(data)
+  ) {
+    return utils.defaultAbiCoder.decode(
+      ["string"],
+      utils.hexDataSlice(data, 4)
+    )[0];
+  }
+  const nestedReason = getRevertReason(nested);
+  if (nestedReason) {
+    return nestedReason;
+  }
+  if (typeof message === "string") {
+    for (const pattern of MESSAGE_REASON_PATTERNS) {
+      const match = message.match(pattern);
+      if (match) {
+        return match[1];
+      }
+    }
+  }
+  return typeof reason === "string" && code === CALL_EXCEPTION
+    ? reason
+    : undefined;
+};
+
+/**
+ * @summary Decode an error thrown by an Art Blocks contract into a typed
+ * error.
+ * @param error error thrown by a contract call or transaction
+ * @returns the catalogued error for the revert reason, a
+ * `ContractRevertError` with code `UNKNOWN` for uncatalogued reasons, or
+ * undefined if the error is not a revert
+ */
+export const decodeRevertError = (
+  error: unknown
+): ContractRevertError | undefined => {
+  const reason = getRevertReason(error);
+  if (reason === undefined) {
+    return undefined;
+  }
+  const catalogued = getRevertReasonEntry(reason);
+  if (!catalogued) {
+    return new ContractRevertError("UNKNOWN", reason, reason);
+  }
+  return new catalogued.errorClass(catalogued.code, reason, catalogued.message);
+};
@@ -0,0 +1,26 @@
+import { jest } from "@jest/globals";
+
+import { MinterFilterV2 } from "./generated/contracts/MinterFilterV2";
+import { ISharedMinterV0__factory } from "./generated/contracts/factories/ISharedMinterV0__factory";
+
+// @dev fixtures shared by the SDK's test suites, which are not part of the
+// build
+
+/**
+ * Mocks a minter filter on which projects are assigned `minterAddress`, or no
+ * minter at all.
+ */
+export const mockMinterFilter = (minterAddress: string, hasMinter = true) =>
+  ({
+    projectHasMinter: async () => hasMinter,
+    getMinterForProject: async () => minterAddress,
+  }) as unknown as MinterFilterV2;
+
+/**
+ * Mocks the `minterType()` of the minters resolved by `getProjectMinter`.
+ */
+export const mockMinterType = (minterType: string) => {
+  ISharedMinterV0__factory.connect = jest.fn().mockReturnValue({
+    minterType: async () => minterType,
+  }) as never;
+};
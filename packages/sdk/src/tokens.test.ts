@@ -0,0 +1,106 @@
+import { describe, it, expect } from "@jest/globals";
+import { BigNumber, constants, utils } from "ethers";
+
+import {
+  assertInvocationInRange,
+  buildTokenData,
+  decodeTokenId,
+  encodeTokenId,
+  hashSeedFromHash,
+  InvocationOutOfRange,
+  isInvocationInRange,
+  tokenHashFromHashSeed,
+  unpackOwnerAndHashSeed,
+} from "./tokens";
+
+const OWNER_ADDRESS = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const HASH =
+  "0x9f5ec8d5b0b7e1d8ec0a6e0e4f3c7e7b8f7d5a9c1e2b3a4d5c6b7a8f9e0d1c2b";
+const HASH_SEED = "0x9f5ec8d5b0b7e1d8ec0a6e0e";
+
+describe("token IDs", () => {
+  it("encodes a project ID and invocation", () => {
+    expect(encodeTokenId(0, 0)).toEqual(BigNumber.from(0));
+    expect(encodeTokenId(3, 2)).toEqual(BigNumber.from(3_000_002));
+    expect(encodeTokenId("78", 999_999)).toEqual(BigNumber.from(78_999_999));
+  });
+
+  it("decodes a token ID", () => {
+    expect(decodeTokenId(3_000_002)).toEqual({
+      projectId: BigNumber.from(3),
+      invocation: 2,
+    });
+    expect(decodeTokenId(encodeTokenId(78, 999_999))).toEqual({
+      projectId: BigNumber.from(78),
+      invocation: 999_999,
+    });
+  });
+
+  it("rejects invocations beyond a project's range", () => {
+    expect(() => encodeTokenId(1, 1_000_000)).toThrowError(
+      InvocationOutOfRange
+    );
+    expect(() => encodeTokenId(1, -1)).toThrowError(
+      "Invocation -1 is outside of the range 0 to 1000000 (exclusive)."
+    );
+  });
+});
+
+describe("invocation ranges", () => {
+  it("checks invocations against max invocations", () => {
+    expect(isInvocationInRange(0, 15)).toBe(true);
+    expect(isInvocationInRange(14, 15)).toBe(true);
+    expect(isInvocationInRange(15, 15)).toBe(false);
+    expect(isInvocationInRange(999_999)).toBe(true);
+    // @dev max invocations never exceed one million on V3 cores
+    expect(isInvocationInRange(1_000_000, 2_000_000)).toBe(false);
+  });
+
+  it("throws for out of range invocations", () => {
+    expect(() => assertInvocationInRange(14, 15)).not.toThrow();
+    expect(() => assertInvocationInRange(15, 15)).toThrowError(
+      new InvocationOutOfRange(15, 15)
+    );
+    const error = new InvocationOutOfRange(15, 15);
+    expect(error.name).toEqual("InvocationOutOfRange");
+  });
+});
+
+describe("hash seeds", () => {
+  it("truncates a hash to its hash seed", () => {
+    expect(hashSeedFromHash(HASH)).toEqual(HASH_SEED);
+    expect(hashSeedFromHash("0x01")).toEqual("0x000000000000000000000000");
+  });
+
+  it("unpacks an owner and hash seed storage slot", () => {
+    const slot = utils.hexConcat([HASH_SEED, OWNER_ADDRESS]);
+    expect(unpackOwnerAndHashSeed(slot)).toEqual({
+      owner: OWNER_ADDRESS,
+      hashSeed: HASH_SEED,
+    });
+    // @dev storage reads of tokens without a hash seed may omit leading zeros
+    expect(unpackOwnerAndHashSeed(OWNER_ADDRESS.toLowerCase())).toEqual({
+      owner: OWNER_ADDRESS,
+      hashSeed: "0x000000000000000000000000",
+    });
+  });
+
+  it("derives a token hash from its hash seed", () => {
+    // @dev `abi.encode` right-pads a bytes12 to 32 bytes
+    expect(tokenHashFromHashSeed(HASH_SEED)).toEqual(
+      utils.keccak256(utils.hexConcat([HASH_SEED, new Uint8Array(20)]))
+    );
+    expect(tokenHashFromHashSeed("0x000000000000000000000000")).toEqual(
+      constants.HashZero
+    );
+  });
+});
+
+describe("buildTokenData", () => {
+  it("builds the tokenData object of generative scripts", () => {
+    expect(buildTokenData(BigNumber.from(78_000_001), HASH)).toEqual({
+      hash: HASH,
+      tokenId: "78000001",
+    });
+  });
+});
@@ -0,0 +1,159 @@
+// Token ID and hash utilities of Art Blocks V3 core contracts.
+import { BigNumber, BigNumberish, BytesLike, constants, utils } from "ethers";
+
+/**
+ * Token IDs reserved per project: a project's tokens are numbered from
+ * `projectId * 1_000_000`, and a project may have at most this many
+ * invocations.
+ */
+export const ONE_MILLION = 1_000_000;
+
+/**
+ * The object generative scripts read their token from, as injected by the
+ * Art Blocks generator.
+ */
+export type TokenData = {
+  /** token hash, as a 0x-prefixed 32-byte hex string */
+  hash: string;
+  /** token ID, as a decimal string */
+  tokenId: string;
+};
+
+/**
+ * @summary Error thrown when an invocation is outside of a project's range.
+ * @description Mirrors the core contracts, which number invocations from 0
+ * and never mint more than `maxInvocations`, itself at most one million.
+ */
+export class InvocationOutOfRange extends Error {
+  constructor(invocation: BigNumberish, maxInvocations: BigNumberish) {
+    super(
+      `Invocation ${BigNumber.from(
+        invocation
+      ).toString()} is outside of the range 0 to ${BigNumber.from(
+        maxInvocations
+      ).toString()} (exclusive).`
+    );
+    this.name = "InvocationOutOfRange";
+  }
+}
+
+/**
+ * @summary Whether an invocation may be minted by a project.
+ * @param invocation zero-based invocation, i.e. token number of the project
+ * @param maxInvocations project's max invocations, defaults to one million
+ * @returns true if the invocation is below `maxInvocations` and one million
+ */
+export const isInvocationInRange = (
+  invocation: BigNumberish,
+  maxInvocations: BigNumberish = ONE_MILLION
+): boolean => {
+  const value = BigNumber.from(invocation);
+  return (
+    !value.isNegative() && value.lt(maxInvocations) && value.lt(ONE_MILLION)
+  );
+};
+
+/**
+ * @summary Require an invocation to be within a project's range.
+ * @param invocation zero-based invocation
+ * @param maxInvocations project's max invocations, defaults to one million
+ * @throws InvocationOutOfRange if the invocation is out of range
+ */
+export const assertInvocationInRange = (
+  invocation: BigNumberish,
+  maxInvocations: BigNumberish = ONE_MILLION
+): void => {
+  if (!isInvocationInRange(invocation, maxInvocations)) {
+    throw new InvocationOutOfRange(invocation, maxInvocations);
+  }
+};
+
+/**
+ * @summary Encode a V3 token ID from its project ID and invocation.
+ * @param projectId project ID on the core contract
+ * @param invocation zero-based invocation of the project
+ * @returns `projectId * 1_000_000 + invocation`
+ * @throws InvocationOutOfRange if the invocation is not below one million
+ */
+export const encodeTokenId = (
+  projectId: BigNumberish,
+  invocation: BigNumberish
+): BigNumber => {
+  assertInvocationInRange(invocation);
+  return BigNumber.from(projectId).mul(ONE_MILLION).add(invocation);
+};
+
+/**
+ * @summary Decode a V3 token ID into its project ID and invocation.
+ * @param tokenId token ID on the core contract
+ * @returns the token's project ID and zero-based invocation
+ */
+export const decodeTokenId = (
+  tokenId: BigNumberish
+): { projectId: BigNumber; invocation: number } => {
+  const value = BigNumber.from(tokenId);
+  return {
+    projectId: value.div(ONE_MILLION),
+    invocation: value.mod(ONE_MILLION).toNumber(),
+  };
+};
+
+/**
+ * @summary Get the hash seed of a 32-byte hash, as stored by the core.
+ * @description Cores keep the first 12 bytes of the hash assigned by their
+ * randomizer, as `bytes12(hash)` in `setTokenHash_8PT`.
+ * @param hash 32-byte hash, e.g. a `SharedRandomizerV0` pseudorandom value
+ * @returns the 12-byte hash seed
+ */
+export const hashSeedFromHash = (hash: BytesLike): string =>
+  utils.hexDataSlice(utils.hexZeroPad(hash, 32), 0, 12);
+
+/**
+ * @summary Unpack a token's owner and hash seed from its storage slot.
+ * @description `ERC721_PackedHashSeed` packs `OwnerAndHashSeed` into one
+ * slot, with the 20-byte owner in the low-order bytes and the 12-byte hash
+ * seed in the high-order bytes.
+ * @param slot the token's `_ownersAndHashSeeds` slot, e.g. from
+ * `provider.getStorageAt`
+ * @returns the token's checksummed owner and hash seed
+ */
+export const unpackOwnerAndHashSeed = (
+  slot: BytesLike
+): { owner: string; hashSeed: string } => {
+  const padded = utils.hexZeroPad(slot, 32);
+  return {
+    owner: utils.getAddress(utils.hexDataSlice(padded, 12)),
+    hashSeed: utils.hexDataSlice(padded, 0, 12),
+  };
+};
+
+/**
+ * @summary Derive a token's hash from its hash seed.
+ * @description Reproduces the core's `tokenIdToHash`, including its zero
+ * hash for tokens without a hash seed. The same hash seed, e.g. a
+ * `SharedRandomizerV0.preAssignedHashSeed` copied to a polyptych panel,
+ * always yields the same hash.
+ * @param hashSeed 12-byte hash seed
+ * @returns the token's 32-byte hash
+ */
+export const tokenHashFromHashSeed = (hashSeed: BytesLike): string => {
+  if (BigNumber.from(hashSeed).isZero()) {
+    return constants.HashZero;
+  }
+  return utils.keccak256(utils.defaultAbiCoder.encode(["bytes12"], [hashSeed]));
+};
+
+/**
+ * @summary Build the `tokenData` object generative scripts consume.
+ * @param tokenId token ID on the core contract
+ * @param hash token hash, e.g. from `tokenIdToHash` or
+ * `tokenHashFromHashSeed`
+ * @returns the token's `tokenData`
+ */
+export const buildTokenData = (
+  tokenId: BigNumberish,
+  hash: BytesLike
+): TokenData => ({
+  hash: utils.hexlify(hash),
+  tokenId: BigNumber.from(tokenId).toString(),
+});